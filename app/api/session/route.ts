@@ -0,0 +1,103 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { api, ApiError, type LoginResponse } from "@/lib/api";
+import {
+  SESSION_COOKIE,
+  SESSION_MAX_AGE,
+  SessionConfigError,
+  signSession,
+  verifySession,
+  type SessionUser,
+} from "@/lib/session";
+
+function setSessionCookie(response: NextResponse, value: string) {
+  response.cookies.set(SESSION_COOKIE, value, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: SESSION_MAX_AGE,
+  });
+  return response;
+}
+
+const toSessionUser = (user: LoginResponse["user"]): SessionUser => ({
+  id: user.id,
+  name: user.name,
+  role: {
+    level: user.role?.level,
+    permissions: user.role?.permissions,
+  },
+});
+
+// POST /api/session - sign in against the backend and set the httpOnly session cookie
+export async function POST(request: NextRequest) {
+  let credentials: { email?: string; password?: string };
+  try {
+    credentials = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  if (!credentials.email || !credentials.password) {
+    return NextResponse.json({ error: "Email and password are required" }, { status: 400 });
+  }
+
+  try {
+    const result = await api.auth.login(credentials.email, credentials.password);
+    const session = await signSession(toSessionUser(result.user));
+
+    return setSessionCookie(NextResponse.json(result), session);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof SessionConfigError) {
+      console.error("Session signing is not configured:", error.message);
+      return NextResponse.json({ error: "The server is not configured to sign in users" }, { status: 500 });
+    }
+    console.error("Login request failed:", error);
+    return NextResponse.json({ error: "Unable to reach the authentication server" }, { status: 502 });
+  }
+}
+
+// GET /api/session - report whether the session cookie is still valid
+export async function GET(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE)?.value);
+  if (!session) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+  return NextResponse.json({ user: session.user, expiresAt: session.exp * 1000 });
+}
+
+// PATCH /api/session - refresh the backend token and extend the session cookie.
+// The user is reloaded so a role or permission change since sign-in takes effect.
+export async function PATCH(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE)?.value);
+  const token = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  if (!session || !token) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const result = await api.auth.refresh(token);
+    const user = await api.auth.me(result.token);
+    return setSessionCookie(NextResponse.json({ ...result, user }), await signSession(toSessionUser(user)));
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof SessionConfigError) {
+      console.error("Session signing is not configured:", error.message);
+      return NextResponse.json({ error: "The server is not configured to sign in users" }, { status: 500 });
+    }
+    console.error("Token refresh failed:", error);
+    return NextResponse.json({ error: "Unable to reach the authentication server" }, { status: 502 });
+  }
+}
+
+// DELETE /api/session - sign out by clearing the session cookie
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(SESSION_COOKIE, "", { httpOnly: true, path: "/", maxAge: 0 });
+  return response;
+}
@@ -1,14 +1,87 @@
 "use client";
 
-import { useState, useMemo, useEffect, useRef } from "react";
+import { useState, useMemo, useEffect, useRef, useCallback } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Search, Plus, Minus, Trash2, ShoppingCart, QrCode, Save, FolderOpen, X, Check } from "lucide-react";
+import {
+  Search,
+  Plus,
+  Minus,
+  Trash2,
+  ShoppingCart,
+  QrCode,
+  Save,
+  FolderOpen,
+  X,
+  Check,
+  WifiOff,
+  RefreshCw,
+  CloudUpload,
+  AlertTriangle,
+  Percent,
+} from "lucide-react";
 import QRScanner from "@/components/admin/QRScanner";
-import { createOrder, saveOrder, type OrderItem } from "@/lib/orders";
-import { deductInventoryFromOrder } from "@/lib/inventory";
+import ReceiptModal from "@/components/admin/ReceiptModal";
+import CustomerPicker from "@/components/admin/CustomerPicker";
+import ShiftPanel from "@/components/admin/ShiftPanel";
 import { useRouter } from "next/navigation";
 import { useLanguage } from "@/contexts/LanguageContext";
-import { getSavedCarts, saveCart, updateCart, deleteCart, getCartById, type SavedCart, type CartItem } from "@/lib/carts";
+import {
+  getSavedCarts,
+  saveCart,
+  updateCart,
+  deleteCart,
+  migrateLocalCarts,
+  isCartExpired,
+  getActiveCart,
+  setActiveCart,
+  type SavedCart,
+  type CartItem,
+} from "@/lib/carts";
+import { useAuth } from "@/hooks/useAuth";
+import { useOutbox } from "@/hooks/useOutbox";
+import { useCurrentShift } from "@/hooks/useCurrentShift";
+import {
+  createIdempotencyKey,
+  getInventorySnapshotDate,
+  getSnapshotBatches,
+  isNetworkError,
+  isOnline,
+  queueCheckout,
+  refreshInventorySnapshot,
+  removeQueuedCheckout,
+  retryQueuedCheckout,
+  searchInventorySnapshot,
+  type QueuedCheckout,
+} from "@/lib/offline";
+import {
+  api,
+  ApiError,
+  getErrorMessage,
+  listAll,
+  type ApiOrder,
+  type CheckoutInput,
+  type Customer,
+  type InventoryItem,
+  type PaymentMethod,
+  type Store,
+} from "@/lib/api";
+import { receiptFromCheckout, receiptFromOrder, type Receipt } from "@/lib/receipts";
+import { can } from "@/lib/roles";
+import {
+  calculateCartTotals,
+  describeDiscount,
+  fromDiscountInput,
+  getDiscountAmount,
+  getLineDiscount,
+  getLineGross,
+  getUnapprovedDiscounts,
+  needsApproval,
+  toDiscountInput,
+  DISCOUNT_APPROVAL_PERCENT,
+  type Discount,
+} from "@/lib/discounts";
+import { allocateFefo, formatBatchExpiry, isBatchExpired, type FefoResult } from "@/lib/batches";
+import { PAYMENT_METHODS, calculateTender, createTenderLine, type TenderLine } from "@/lib/payments";
 
 interface Product {
   id: string;
@@ -22,26 +95,13 @@ interface Product {
   quantity?: number; // Quantity from inventory
 }
 
-interface InventoryItem {
-  id: string;
-  product: {
-    id: string;
-    name: string;
-    sku?: string;
-    category?: {
-      id: string;
-      name: string;
-    };
-    selling_price?: number;
-  };
-  quantity: number;
-  expiry_date: string;
-  location: string;
-}
-
 export default function CashierPage() {
   const { t } = useLanguage();
+  const { user } = useAuth();
   const router = useRouter();
+  const { online, queued, pendingCount, conflictCount, isSyncing, sync } = useOutbox(user?.id, user?.store?.id);
+  const [isOutboxModalOpen, setIsOutboxModalOpen] = useState(false);
+  const [snapshotDate, setSnapshotDate] = useState<string | null>(null);
   const [searchInput, setSearchInput] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
   const [cart, setCart] = useState<CartItem[]>([]);
@@ -51,10 +111,24 @@ export default function CashierPage() {
   const [isLoadCartModalOpen, setIsLoadCartModalOpen] = useState(false);
   const [isCheckoutModalOpen, setIsCheckoutModalOpen] = useState(false);
   const [customerName, setCustomerName] = useState("");
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [tenderLines, setTenderLines] = useState<TenderLine[]>([createTenderLine()]);
+  const [orderDiscount, setOrderDiscount] = useState<Discount | undefined>(undefined);
+  // Cart line id, or "order" for the whole-cart discount
+  const [discountTarget, setDiscountTarget] = useState<string | null>(null);
+  const [discountForm, setDiscountForm] = useState({ type: "percent" as Discount["type"], value: "", reason: "" });
+  const [supervisorCredentials, setSupervisorCredentials] = useState({ email: "", password: "" });
+  const [discountError, setDiscountError] = useState("");
+  const [isApprovingDiscount, setIsApprovingDiscount] = useState(false);
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [store, setStore] = useState<Store | null>(null);
   const [currentCartId, setCurrentCartId] = useState<string | null>(null);
   const [cartName, setCartName] = useState("");
   const [displayedProducts, setDisplayedProducts] = useState<Product[]>([]);
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  // Every batch of each product in the cart, so FEFO does not depend on what the search returned
+  const [cartBatches, setCartBatches] = useState<Map<string, InventoryItem[]>>(new Map());
+  const loadingBatchesRef = useRef(new Set<string>());
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [hasMoreInventory, setHasMoreInventory] = useState(true);
@@ -63,15 +137,152 @@ export default function CashierPage() {
   const hasMoreInventoryRef = useRef(true);
   const isLoadingMoreRef = useRef(false);
   const inventoryOffsetRef = useRef(0);
+  const restoredCartForUser = useRef<string | null>(null);
 
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
   const LIMIT = 100;
 
-  // Load saved carts on mount
+  // Store details (name, address) for receipts; saved carts are held per store
+  const storeId = user?.store?.id;
+  // Every checkout is rung up on the cashier's open shift
+  const { shift, setShift, isLoading: isShiftLoading } = useCurrentShift(user?.id, storeId);
+
+  const loadSavedCarts = useCallback(async () => {
+    if (!storeId) return;
+    try {
+      setSavedCarts(await getSavedCarts(storeId));
+    } catch (error) {
+      console.error("Error loading saved carts:", error);
+    }
+  }, [storeId]);
+
+  // Load the store's held carts, moving any this browser kept in localStorage to the backend first
+  useEffect(() => {
+    if (!storeId) return;
+    migrateLocalCarts(storeId)
+      .catch((error) => console.error("Error migrating saved carts:", error))
+      .finally(loadSavedCarts);
+  }, [storeId, loadSavedCarts]);
+
+  // Other devices can hold, resume or release carts, so refresh whenever the cashier comes back to this tab
+  useEffect(() => {
+    window.addEventListener("focus", loadSavedCarts);
+    return () => window.removeEventListener("focus", loadSavedCarts);
+  }, [loadSavedCarts]);
+
+  // Drop a hold from the list (and stop counting its stock) as soon as it expires
+  useEffect(() => {
+    if (savedCarts.length === 0) return;
+    const nextExpiry = Math.min(...savedCarts.map((savedCart) => new Date(savedCart.expiresAt).getTime()));
+    const timeout = setTimeout(() => {
+      setSavedCarts((current) => current.filter((savedCart) => !isCartExpired(savedCart)));
+    }, Math.max(nextExpiry - Date.now(), 0) + 1000);
+    return () => clearTimeout(timeout);
+  }, [savedCarts]);
+
+  // Restore the cart that was open before the session expired or the page was reloaded
+  useEffect(() => {
+    if (!user || restoredCartForUser.current === user.id) return;
+    const activeCart = getActiveCart(user.id);
+    if (activeCart) {
+      setCart(activeCart.items);
+      setCurrentCartId(activeCart.currentCartId);
+      setCartName(activeCart.cartName);
+      setCustomerName(activeCart.customerName);
+      setOrderDiscount(activeCart.orderDiscount);
+    }
+    restoredCartForUser.current = user.id;
+  }, [user]);
+
+  // Keep the open cart in storage so a forced re-login doesn't lose it
+  useEffect(() => {
+    if (!user || restoredCartForUser.current !== user.id) return;
+    setActiveCart(user.id, { items: cart, currentCartId, cartName, customerName, orderDiscount });
+  }, [user, cart, currentCartId, cartName, customerName, orderDiscount]);
+
+  useEffect(() => {
+    const fetchStore = async (id: string) => {
+      try {
+        setStore(await api.stores.get(id));
+      } catch (error) {
+        console.error("Error fetching store:", error);
+      }
+    };
+
+    if (storeId) {
+      fetchStore(storeId);
+    }
+  }, [storeId]);
+
+  // Keep a local inventory snapshot so products can still be searched offline
+  useEffect(() => {
+    const updateSnapshot = async () => {
+      if (online) {
+        try {
+          await refreshInventorySnapshot(storeId);
+        } catch (error) {
+          console.error("Error refreshing inventory snapshot:", error);
+        }
+      }
+      setSnapshotDate(await getInventorySnapshotDate());
+    };
+
+    updateSnapshot();
+  }, [online, storeId]);
+
+  // Search the server, falling back to the local snapshot when the connection is down
+  const searchInventory = async (search: string, offset: number) => {
+    if (isOnline()) {
+      try {
+        const { data } = await api.inventories.list({ limit: LIMIT, offset, search });
+        return { data, hasMore: data.length === LIMIT };
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+    // The snapshot is searched in one go, so there is never a next page
+    const data = offset === 0 ? await searchInventorySnapshot(search) : [];
+    return { data, hasMore: false };
+  };
+
+  // All of a product's batches, from the server or from the local snapshot when offline
+  const fetchProductBatches = async (productId: string): Promise<InventoryItem[]> => {
+    if (isOnline()) {
+      try {
+        return await listAll(api.inventories.list, { product_id: productId, in_stock: true }, LIMIT);
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+    return getSnapshotBatches(productId);
+  };
+
+  // Load the batches of products as they are added to the cart, and drop those of removed lines so they reload fresh
   useEffect(() => {
-    const carts = getSavedCarts();
-    setSavedCarts(carts);
-  }, []);
+    const stale = Array.from(cartBatches.keys()).filter((productId) => !cart.some((item) => item.id === productId));
+    if (stale.length > 0) {
+      setCartBatches((current) => {
+        const next = new Map(current);
+        stale.forEach((productId) => next.delete(productId));
+        return next;
+      });
+    }
+
+    const missing = cart
+      .map((item) => item.id)
+      .filter((productId) => !cartBatches.has(productId) && !loadingBatchesRef.current.has(productId));
+
+    missing.forEach(async (productId) => {
+      loadingBatchesRef.current.add(productId);
+      try {
+        const batches = await fetchProductBatches(productId);
+        setCartBatches((current) => new Map(current).set(productId, batches));
+      } catch (error) {
+        console.error("Error fetching product batches:", error);
+      } finally {
+        loadingBatchesRef.current.delete(productId);
+      }
+    });
+  }, [cart, cartBatches]);
 
   // Fetch inventory when search query changes (only if search query exists)
   useEffect(() => {
@@ -86,57 +297,35 @@ export default function CashierPage() {
 
       try {
         setIsLoading(true);
-        const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-
-        const params = new URLSearchParams({
-          limit: LIMIT.toString(),
-          offset: "0",
-          search: searchQuery.trim(),
-        });
-
-        const inventoryResponse = await fetch(`${API_BASE_URL}/api/inventories?${params.toString()}`, {
-          headers: {
-            ...(token && { Authorization: `Bearer ${token}` }),
-          },
+        const { data: inventoryData, hasMore } = await searchInventory(searchQuery, 0);
+
+        setInventory(inventoryData);
+        setInventoryOffset(inventoryData.length);
+        setHasMoreInventory(hasMore);
+        hasMoreInventoryRef.current = hasMore;
+        inventoryOffsetRef.current = inventoryData.length;
+
+        // Group inventory items by product and aggregate quantities
+        const productMap = new Map<string, Product & { quantity: number }>();
+        inventoryData.forEach((item: InventoryItem) => {
+          const productId = item.product.id;
+          if (productMap.has(productId)) {
+            const existing = productMap.get(productId)!;
+            existing.quantity += item.quantity;
+          } else {
+            productMap.set(productId, {
+              id: item.product.id,
+              name: item.product.name,
+              sku: item.product.sku,
+              category: item.product.category || { id: "", name: "" },
+              selling_price: item.product.selling_price || 0,
+              quantity: item.quantity,
+            });
+          }
         });
-
-        if (inventoryResponse.ok) {
-          const inventoryResult = await inventoryResponse.json();
-          const inventoryData = inventoryResult.data && Array.isArray(inventoryResult.data)
-            ? inventoryResult.data
-            : Array.isArray(inventoryResult)
-            ? inventoryResult
-            : inventoryResult.inventories || [];
-          
-          setInventory(inventoryData);
-          setInventoryOffset(inventoryData.length);
-          const hasMore = inventoryData.length === LIMIT;
-          setHasMoreInventory(hasMore);
-          hasMoreInventoryRef.current = hasMore;
-          inventoryOffsetRef.current = inventoryData.length;
-
-          // Group inventory items by product and aggregate quantities
-          const productMap = new Map<string, Product & { quantity: number }>();
-          inventoryData.forEach((item: InventoryItem) => {
-            const productId = item.product.id;
-            if (productMap.has(productId)) {
-              const existing = productMap.get(productId)!;
-              existing.quantity += item.quantity;
-            } else {
-              productMap.set(productId, {
-                id: item.product.id,
-                name: item.product.name,
-                sku: item.product.sku,
-                category: item.product.category || { id: "", name: "" },
-                selling_price: item.product.selling_price || 0,
-                quantity: item.quantity,
-              });
-            }
-          });
-          
-          // Update displayed products with available quantities (will be calculated after inventory state updates)
-          setDisplayedProducts(Array.from(productMap.values()));
-        }
+        
+        // Update displayed products with available quantities (will be calculated after inventory state updates)
+        setDisplayedProducts(Array.from(productMap.values()));
       } catch (error) {
         console.error("Error fetching inventory:", error);
       } finally {
@@ -145,7 +334,7 @@ export default function CashierPage() {
     };
 
     fetchInventory();
-  }, [API_BASE_URL, searchQuery]);
+  }, [searchQuery]);
 
   // Load more inventory
   const loadMoreInventory = async () => {
@@ -154,71 +343,45 @@ export default function CashierPage() {
     try {
       isLoadingMoreRef.current = true;
       setIsLoadingMore(true);
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
+      const { data: inventoryData, hasMore } = await searchInventory(searchQuery, inventoryOffsetRef.current);
 
-      const params = new URLSearchParams({
-        limit: LIMIT.toString(),
-        offset: inventoryOffsetRef.current.toString(),
-      });
+      if (inventoryData.length > 0) {
+        setInventory((prev) => [...prev, ...inventoryData]);
+        inventoryOffsetRef.current += inventoryData.length;
+        setInventoryOffset(inventoryOffsetRef.current);
+        hasMoreInventoryRef.current = hasMore;
+        setHasMoreInventory(hasMore);
 
-      // Add search parameter if search query exists
-      if (searchQuery.trim()) {
-        params.append("search", searchQuery.trim());
-      }
-
-      const inventoryResponse = await fetch(`${API_BASE_URL}/api/inventories?${params.toString()}`, {
-        headers: {
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
-      });
-
-      if (inventoryResponse.ok) {
-        const inventoryResult = await inventoryResponse.json();
-        const inventoryData = inventoryResult.data && Array.isArray(inventoryResult.data)
-          ? inventoryResult.data
-          : Array.isArray(inventoryResult)
-          ? inventoryResult
-          : inventoryResult.inventories || [];
+        // Group new inventory items by product and aggregate quantities
+        const productMap = new Map<string, Product & { quantity: number }>();
         
-        if (inventoryData.length > 0) {
-          setInventory((prev) => [...prev, ...inventoryData]);
-          inventoryOffsetRef.current += inventoryData.length;
-          setInventoryOffset(inventoryOffsetRef.current);
-          const hasMore = inventoryData.length === LIMIT;
-          hasMoreInventoryRef.current = hasMore;
-          setHasMoreInventory(hasMore);
-
-          // Group new inventory items by product and aggregate quantities
-          const productMap = new Map<string, Product & { quantity: number }>();
-          
-          // First, add existing displayed products to the map
-          displayedProducts.forEach((product) => {
-            productMap.set(product.id, { ...product, quantity: product.quantity || 0 });
-          });
-          
-          // Then, add/update with new inventory items
-          inventoryData.forEach((item: InventoryItem) => {
-            const productId = item.product.id;
-            if (productMap.has(productId)) {
-              const existing = productMap.get(productId)!;
-              existing.quantity += item.quantity;
-            } else {
-              productMap.set(productId, {
-                id: item.product.id,
-                name: item.product.name,
-                sku: item.product.sku,
-                category: item.product.category || { id: "", name: "" },
-                selling_price: item.product.selling_price || 0,
-                quantity: item.quantity,
-              });
-            }
-          });
-          
-          setDisplayedProducts(Array.from(productMap.values()));
-        } else {
-          hasMoreInventoryRef.current = false;
-          setHasMoreInventory(false);
-        }
+        // First, add existing displayed products to the map
+        displayedProducts.forEach((product) => {
+          productMap.set(product.id, { ...product, quantity: product.quantity || 0 });
+        });
+        
+        // Then, add/update with new inventory items
+        inventoryData.forEach((item: InventoryItem) => {
+          const productId = item.product.id;
+          if (productMap.has(productId)) {
+            const existing = productMap.get(productId)!;
+            existing.quantity += item.quantity;
+          } else {
+            productMap.set(productId, {
+              id: item.product.id,
+              name: item.product.name,
+              sku: item.product.sku,
+              category: item.product.category || { id: "", name: "" },
+              selling_price: item.product.selling_price || 0,
+              quantity: item.quantity,
+            });
+          }
+        });
+        
+        setDisplayedProducts(Array.from(productMap.values()));
+      } else {
+        hasMoreInventoryRef.current = false;
+        setHasMoreInventory(false);
       }
     } catch (error) {
       console.error("Error loading more inventory:", error);
@@ -230,24 +393,6 @@ export default function CashierPage() {
 
 
 
-  // Get expiry status
-  const getExpiryStatus = (expiryDate: string): "valid" | "near_expiry" | "expired" => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const expiry = new Date(expiryDate);
-    expiry.setHours(0, 0, 0, 0);
-    const diffTime = expiry.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-    if (diffDays < 0) {
-      return "expired";
-    } else if (diffDays <= 7) {
-      return "near_expiry";
-    } else {
-      return "valid";
-    }
-  };
-
   // Calculate total reserved quantity from all saved carts (excluding current cart)
   const reservedQuantities = useMemo(() => {
     const reservedMap = new Map<string, number>();
@@ -265,6 +410,14 @@ export default function CashierPage() {
       });
     });
     
+    // Checkouts still waiting in the offline outbox are not yet deducted on the server
+    queued.forEach((queuedCheckout) => {
+      queuedCheckout.input.items.forEach((item) => {
+        const currentReserved = reservedMap.get(item.product_id) || 0;
+        reservedMap.set(item.product_id, currentReserved + item.quantity);
+      });
+    });
+
     // Also add current cart items (this includes the loaded cart if one is active)
     cart.forEach((item) => {
       const productId = item.id;
@@ -273,17 +426,14 @@ export default function CashierPage() {
     });
     
     return reservedMap;
-  }, [savedCarts, cart, currentCartId]);
+  }, [savedCarts, cart, currentCartId, queued]);
 
   // Calculate total inventory quantity per product (before subtracting reserved)
   const totalInventoryQuantity = useMemo(() => {
     const quantityMap = new Map<string, number>();
     
     inventory
-      .filter((item) => {
-        const status = getExpiryStatus(item.expiry_date);
-        return item.quantity > 0 && (status === "valid" || status === "near_expiry");
-      })
+      .filter((item) => item.quantity > 0 && !isBatchExpired(item.expiry_date))
       .forEach((item) => {
         const productId = item.product.id;
         const currentQuantity = quantityMap.get(productId) || 0;
@@ -306,6 +456,18 @@ export default function CashierPage() {
     return quantityMap;
   }, [totalInventoryQuantity, reservedQuantities]);
 
+  // FEFO allocation of each cart line across the product's batches, after what other carts already hold
+  const cartAllocations = useMemo(() => {
+    const allocationMap = new Map<string, FefoResult>();
+    cart.forEach((item) => {
+      const batches = cartBatches.get(item.id);
+      if (!batches) return;
+      const reservedElsewhere = (reservedQuantities.get(item.id) || 0) - item.quantity;
+      allocationMap.set(item.id, allocateFefo(batches, item.id, item.quantity, reservedElsewhere));
+    });
+    return allocationMap;
+  }, [cart, cartBatches, reservedQuantities]);
+
   // Update displayed products with available quantities (after subtracting reserved)
   const filteredProducts = useMemo(() => {
     return displayedProducts.map((product) => {
@@ -392,9 +554,100 @@ export default function CashierPage() {
     setCart((prevCart) => prevCart.filter((item) => item.id !== id));
   };
 
-  const total = useMemo(() => {
-    return cart.reduce((sum, item) => sum + item.price * item.quantity, 0);
-  }, [cart]);
+  const totals = useMemo(() => calculateCartTotals(cart, orderDiscount), [cart, orderDiscount]);
+  const total = totals.net;
+
+  const openDiscountModal = (target: string) => {
+    const existing = target === "order" ? orderDiscount : cart.find((item) => item.id === target)?.discount;
+    setDiscountForm({
+      type: existing?.type || "percent",
+      value: existing ? String(existing.value) : "",
+      reason: existing?.reason || "",
+    });
+    setSupervisorCredentials({ email: "", password: "" });
+    setDiscountError("");
+    setDiscountTarget(target);
+  };
+
+  const closeDiscountModal = () => {
+    setDiscountTarget(null);
+    setSupervisorCredentials({ email: "", password: "" });
+  };
+
+  const applyDiscount = (discount: Discount | undefined) => {
+    if (discountTarget === "order") {
+      setOrderDiscount(discount);
+    } else {
+      setCart((prevCart) => prevCart.map((item) => (item.id === discountTarget ? { ...item, discount } : item)));
+    }
+    closeDiscountModal();
+  };
+
+  // What the discount being edited applies to: the line total, or the cart after line discounts
+  const discountBase =
+    discountTarget === "order"
+      ? totals.subtotal
+      : (() => {
+          const item = cart.find((i) => i.id === discountTarget);
+          return item ? getLineGross(item) : 0;
+        })();
+  const draftDiscount: Discount = {
+    type: discountForm.type,
+    value: parseFloat(discountForm.value) || 0,
+    reason: discountForm.reason.trim(),
+  };
+  const draftNeedsApproval = needsApproval(draftDiscount, discountBase) && !can(user, "cashier:discount");
+
+  const handleApplyDiscount = async () => {
+    setDiscountError("");
+    if (draftDiscount.value <= 0) {
+      setDiscountError(t("cashier.discountValueRequired") || "Enter a discount greater than zero");
+      return;
+    }
+    if (draftDiscount.type === "percent" && draftDiscount.value > 100) {
+      setDiscountError(t("cashier.discountPercentTooHigh") || "A percentage discount cannot be more than 100%");
+      return;
+    }
+    if (!draftDiscount.reason) {
+      setDiscountError(t("cashier.discountReasonRequired") || "Please give a reason for the discount");
+      return;
+    }
+
+    if (!draftNeedsApproval) {
+      applyDiscount(draftDiscount);
+      return;
+    }
+
+    // Above the threshold: a supervisor with the discount permission has to sign off
+    if (!supervisorCredentials.email || !supervisorCredentials.password) {
+      setDiscountError(t("cashier.supervisorRequired") || "Supervisor email and password are required");
+      return;
+    }
+    try {
+      setIsApprovingDiscount(true);
+      const { user: supervisor, token: supervisorToken } = await api.auth.verifyCredentials(
+        supervisorCredentials.email,
+        supervisorCredentials.password
+      );
+      if (!can(supervisor, "cashier:discount")) {
+        setDiscountError(t("cashier.supervisorNotAllowed") || "This user is not allowed to approve discounts");
+        return;
+      }
+      // The server issues the approval against the supervisor's token and checks it again at checkout
+      const approval = await api.discounts.approve(
+        { type: draftDiscount.type, value: draftDiscount.value, reason: draftDiscount.reason },
+        supervisorToken
+      );
+      applyDiscount({
+        ...draftDiscount,
+        approvedBy: { id: supervisor.id, name: supervisor.name, approvalId: approval.id },
+      });
+    } catch (error) {
+      setDiscountError(getErrorMessage(error, t("cashier.supervisorInvalid") || "Supervisor approval failed"));
+    } finally {
+      setIsApprovingDiscount(false);
+    }
+  };
 
   const handleSearch = () => {
     // Clear inventory list before search
@@ -417,48 +670,24 @@ export default function CashierPage() {
   const handleQRScan = async (decodedText: string) => {
     // Search inventory by SKU
     try {
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-      const params = new URLSearchParams({
-        limit: LIMIT.toString(),
-        offset: "0",
-        search: decodedText.trim(), // Use search parameter for QR code scanning
-      });
-
-      const inventoryResponse = await fetch(`${API_BASE_URL}/api/inventories?${params.toString()}`, {
-        headers: {
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
-      });
-
-      if (inventoryResponse.ok) {
-        const inventoryResult = await inventoryResponse.json();
-        const inventoryData = inventoryResult.data && Array.isArray(inventoryResult.data)
-          ? inventoryResult.data
-          : Array.isArray(inventoryResult)
-          ? inventoryResult
-          : inventoryResult.inventories || [];
-        
-        // Find product by SKU in the results
-        const inventoryItem = inventoryData.find((item: InventoryItem) => 
-          item.product.sku === decodedText
-        );
-
-        if (inventoryItem) {
-          const product: Product = {
-            id: inventoryItem.product.id,
-            name: inventoryItem.product.name,
-            sku: inventoryItem.product.sku,
-            category: inventoryItem.product.category || { id: "", name: "" },
-            selling_price: inventoryItem.product.selling_price || 0,
-          };
-          addToCart(product);
-        } else {
-          // If not found, set search input and trigger search
-          setSearchInput(decodedText);
-          setSearchQuery(decodedText);
-        }
+      const { data: inventoryData } = await searchInventory(decodedText, 0);
+
+      // Find product by SKU in the results
+      const inventoryItem = inventoryData.find((item: InventoryItem) => 
+        item.product.sku === decodedText
+      );
+
+      if (inventoryItem) {
+        const product: Product = {
+          id: inventoryItem.product.id,
+          name: inventoryItem.product.name,
+          sku: inventoryItem.product.sku,
+          category: inventoryItem.product.category || { id: "", name: "" },
+          selling_price: inventoryItem.product.selling_price || 0,
+        };
+        addToCart(product);
       } else {
-        // If API call fails, set search input and trigger search
+        // If not found, set search input and trigger search
         setSearchInput(decodedText);
         setSearchQuery(decodedText);
       }
@@ -470,24 +699,33 @@ export default function CashierPage() {
     }
   };
 
-  const handleSaveCart = () => {
+  const handleSaveCart = async () => {
     if (cart.length === 0) {
       window.alert(t("cashier.cartEmpty") || "Cart is empty. Add items before saving.");
       return;
     }
 
     if (currentCartId) {
-      // Update existing cart
-      const updated = updateCart(currentCartId, cart, cartName || undefined);
-      if (updated) {
-        setSavedCarts(getSavedCarts());
+      // Update existing cart, which also restarts its hold
+      try {
+        const updated = await updateCart(currentCartId, cart, {
+          name: cartName || undefined,
+          customerName: customerName.trim() || undefined,
+          orderDiscount,
+        });
         // Keep currentCartId so the cart remains "active" and is excluded from savedCarts count
-        // Only update cartName if a new name was provided
-        if (cartName) {
-          setCartName(cartName);
-        }
+        setCartName(updated.name);
+        await loadSavedCarts();
         setIsSaveCartModalOpen(false);
         window.alert(t("cashier.cartUpdated") || "Cart updated successfully!");
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 404) {
+          // The hold expired or was released on another device; save the cart as a new hold instead
+          setCurrentCartId(null);
+          setIsSaveCartModalOpen(true);
+          return;
+        }
+        window.alert(getErrorMessage(error, t("cashier.failedToSaveCart") || "Failed to save cart"));
       }
     } else {
       // Save new cart
@@ -495,18 +733,22 @@ export default function CashierPage() {
     }
   };
 
-  const handleConfirmSaveCart = () => {
-    if (cart.length === 0) return;
+  const handleConfirmSaveCart = async () => {
+    if (cart.length === 0 || !storeId) return;
 
     try {
-      const saved = saveCart(cart, cartName || undefined);
-      setSavedCarts(getSavedCarts());
+      const saved = await saveCart(storeId, cart, {
+        name: cartName || undefined,
+        customerName: customerName.trim() || undefined,
+        orderDiscount,
+      });
+      await loadSavedCarts();
       setCurrentCartId(saved.id);
-      setCartName("");
+      setCartName(saved.name);
       setIsSaveCartModalOpen(false);
       window.alert(t("cashier.cartSaved") || "Cart saved successfully!");
     } catch (error) {
-      window.alert(t("cashier.failedToSaveCart") || "Failed to save cart");
+      window.alert(getErrorMessage(error, t("cashier.failedToSaveCart") || "Failed to save cart"));
     }
   };
 
@@ -519,6 +761,7 @@ export default function CashierPage() {
     setCart([]);
     setCurrentCartId(null);
     setCartName("");
+    setOrderDiscount(undefined);
   };
 
   const handleLoadCart = (savedCart: SavedCart) => {
@@ -528,15 +771,26 @@ export default function CashierPage() {
       }
     }
     setCart(savedCart.items);
+    setOrderDiscount(savedCart.orderDiscount);
+    setCustomerName(savedCart.customerName || "");
+    setSelectedCustomer(null);
     setCurrentCartId(savedCart.id);
     setCartName(savedCart.name);
     setIsLoadCartModalOpen(false);
   };
 
-  const handleDeleteCart = (cartId: string) => {
+  const handleDeleteCart = async (cartId: string) => {
     if (window.confirm(t("cashier.confirmDeleteCart") || "Are you sure you want to delete this cart?")) {
-      deleteCart(cartId);
-      setSavedCarts(getSavedCarts());
+      try {
+        await deleteCart(cartId);
+      } catch (error) {
+        // Already released elsewhere or expired, so there is nothing left to delete
+        if (!(error instanceof ApiError && error.status === 404)) {
+          window.alert(getErrorMessage(error, t("cashier.failedToDeleteCart") || "Failed to delete cart"));
+          return;
+        }
+      }
+      setSavedCarts((current) => current.filter((savedCart) => savedCart.id !== cartId));
       if (currentCartId === cartId) {
         setCurrentCartId(null);
         setCartName("");
@@ -544,60 +798,159 @@ export default function CashierPage() {
     }
   };
 
+  const formatHoldExpiry = (expiresAt: string) =>
+    new Date(expiresAt).toLocaleTimeString("id-ID", { hour: "2-digit", minute: "2-digit" });
+
+  const tender = useMemo(() => calculateTender(tenderLines, total), [tenderLines, total]);
+
+  const updateTenderLine = (index: number, changes: Partial<TenderLine>) => {
+    setTenderLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // Split the payment: the new line starts with whatever is still unpaid
+  const addTenderLine = () => {
+    const unusedMethod = PAYMENT_METHODS.find((m) => !tenderLines.some((line) => line.method === m.value));
+    setTenderLines((prev) => [
+      ...prev,
+      createTenderLine(unusedMethod?.value || "cash", tender.remaining > 0 ? String(tender.remaining) : ""),
+    ]);
+  };
+
+  const removeTenderLine = (index: number) => {
+    setTenderLines((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  // Fill a line with the exact amount still owed
+  const fillRemaining = (index: number) => {
+    const current = parseFloat(tenderLines[index].amount) || 0;
+    updateTenderLine(index, { amount: String(current + tender.remaining) });
+  };
+
   const handleCheckout = () => {
     if (cart.length === 0) return;
+    if (!shift) {
+      window.alert(t("shifts.openBeforeCheckout") || "Open a shift before checking out");
+      return;
+    }
+    setTenderLines([createTenderLine()]);
     setIsCheckoutModalOpen(true);
   };
 
   const handleConfirmCheckout = async () => {
-    if (cart.length === 0) return;
+    if (cart.length === 0 || !shift) return;
 
-    try {
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-
-      // Submit order to backend
-      const response = await fetch(`${API_BASE_URL}/api/orders/checkout`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
-        body: JSON.stringify({
-          customer_name: customerName.trim() || "Walk-in Customer",
-          grand_total: total,
-          items: cart.map((item) => ({
-            product_id: item.id,
-            quantity: item.quantity,
-          })),
-        }),
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || data.message || "Failed to create order");
-      }
+    if (tender.error) {
+      window.alert(tender.error);
+      return;
+    }
+    if (tender.remaining > 0) {
+      window.alert(
+        (t("cashier.paymentShort") || "Payment is short by Rp {{amount}}").replace(
+          "{{amount}}",
+          tender.remaining.toLocaleString("id-ID")
+        )
+      );
+      return;
+    }
+    if (tender.payments.some((payment) => payment.method === "kasbon") && !selectedCustomer) {
+      window.alert(t("cashier.kasbonNeedsCustomer") || "Select a customer record to put this order on kasbon");
+      return;
+    }
+    // Lowering a quantity can push a fixed discount over the threshold after it was applied
+    const [unapproved] = getUnapprovedDiscounts(cart, orderDiscount);
+    if (unapproved && !can(user, "cashier:discount")) {
+      const target =
+        unapproved === "order"
+          ? t("orders.order") || "Order"
+          : cart.find((item) => item.id === unapproved)?.name || "";
+      window.alert(
+        (
+          t("cashier.discountNeedsReapproval") ||
+          "The discount on {{target}} is now above {{percent}}% and needs supervisor approval. Apply it again."
+        )
+          .replace("{{target}}", target)
+          .replace("{{percent}}", String(DISCOUNT_APPROVAL_PERCENT))
+      );
+      return;
+    }
+    // Every line must be covered by the batches it will be taken from
+    const unallocated = cart.find((item) => {
+      const allocation = cartAllocations.get(item.id);
+      return !allocation || allocation.shortfall > 0;
+    });
+    if (unallocated) {
+      window.alert(
+        (
+          t("cashier.batchesNotAllocated") ||
+          "Stock batches for {{product}} do not cover the quantity in the cart. Wait for stock to load or lower the quantity."
+        ).replace("{{product}}", unallocated.name)
+      );
+      return;
+    }
 
-      const orderData = await response.json();
+    const orderDiscountInput = toDiscountInput(orderDiscount, totals.subtotal);
+    const input: CheckoutInput = {
+      customer_name: customerName.trim() || "Walk-in Customer",
+      ...(selectedCustomer && { customer_id: selectedCustomer.id }),
+      grand_total: total,
+      gross_total: totals.gross,
+      items: cart.map((item) => {
+        const discount = toDiscountInput(item.discount, getLineGross(item));
+        const batches = cartAllocations
+          .get(item.id)!
+          .allocations.map((a) => ({ inventory_id: a.inventoryId, quantity: a.quantity }));
+        return {
+          product_id: item.id,
+          quantity: item.quantity,
+          ...(discount && { discount }),
+          batches,
+        };
+      }),
+      ...(orderDiscountInput && { discount: orderDiscountInput }),
+      payments: tender.payments,
+      ...(currentCartId && { cart_hold_id: currentCartId }),
+      shift_id: shift.id,
+    };
+    // Generated up front so a request that timed out can be queued and retried safely
+    const idempotencyKey = createIdempotencyKey();
 
-      // Show success message
-      if (typeof window !== "undefined") {
-        window.alert(
-          t("cashier.orderCreatedSuccess") || 
-          `Order created successfully!\n\nTotal: Rp ${total.toLocaleString("id-ID")}`
-        );
+    try {
+      // Submit order to backend, or queue it in the outbox when the connection is down
+      let queuedOffline = !isOnline();
+      let order: ApiOrder | null = null;
+      if (!queuedOffline) {
+        try {
+          order = await api.orders.checkout(input, idempotencyKey);
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+          queuedOffline = true;
+        }
       }
+      if (queuedOffline) {
+        await queueCheckout(input, idempotencyKey, cart, { userId: user?.id || "", storeId: storeId || "" });
+      }
+
+      // Show the receipt; orders queued offline get a provisional one without an invoice number
+      setReceipt(
+        order
+          ? receiptFromOrder(order, store, tender.payments, user?.name)
+          : receiptFromCheckout(input, cart, store, user?.name)
+      );
 
-      // Delete saved cart if it was a saved cart
+      // The checkout releases the saved cart's hold on the server (or will, once a queued order syncs)
       if (currentCartId) {
-        deleteCart(currentCartId);
-        setSavedCarts(getSavedCarts());
+        setSavedCarts((current) => current.filter((savedCart) => savedCart.id !== currentCartId));
         setCurrentCartId(null);
         setCartName("");
       }
 
-      // Clear cart and reset customer name
+      // Clear cart and reset customer name and payments; batch quantities changed with the sale
       setCart([]);
+      setCartBatches(new Map());
       setCustomerName("");
+      setSelectedCustomer(null);
+      setOrderDiscount(undefined);
+      setTenderLines([createTenderLine()]);
       setIsCheckoutModalOpen(false);
       
       // Optionally redirect to orders page
@@ -606,18 +959,91 @@ export default function CashierPage() {
       console.error("Error creating order:", error);
       if (typeof window !== "undefined") {
         window.alert(
-          error instanceof Error 
-            ? error.message 
-            : t("cashier.failedToCreateOrder") || "Failed to create order. Please try again."
+          getErrorMessage(error, t("cashier.failedToCreateOrder") || "Failed to create order. Please try again.")
         );
       }
     }
   };
 
+  const handleSyncOutbox = async () => {
+    const result = await sync();
+    if (result && result.conflicts > 0) {
+      window.alert(
+        t("cashier.syncConflicts") ||
+          "Some queued orders could not be completed because of stock changes. Review them in the pending orders list."
+      );
+    }
+  };
+
+  const handleRetryQueued = async (queuedCheckout: QueuedCheckout) => {
+    await retryQueuedCheckout(queuedCheckout);
+    await handleSyncOutbox();
+  };
+
+  // Reopen a rejected order in the cart so quantities can be adjusted before checking out again
+  const handleEditQueued = async (queuedCheckout: QueuedCheckout) => {
+    if (cart.length > 0) {
+      if (!window.confirm(t("cashier.confirmLoadCart") || "Load this cart? Current cart will be replaced.")) {
+        return;
+      }
+    }
+    await removeQueuedCheckout(queuedCheckout.idempotencyKey);
+    setCart(queuedCheckout.items);
+    setOrderDiscount(fromDiscountInput(queuedCheckout.input.discount));
+    setCurrentCartId(null);
+    setCartName("");
+    setCustomerName(queuedCheckout.input.customer_name);
+    setSelectedCustomer(null);
+    const queuedCustomerId = queuedCheckout.input.customer_id;
+    if (queuedCustomerId) {
+      api.customers
+        .get(queuedCustomerId)
+        .then(setSelectedCustomer)
+        .catch((error) => console.error("Error fetching customer:", error));
+    }
+    setIsOutboxModalOpen(false);
+  };
+
+  const handleDiscardQueued = async (queuedCheckout: QueuedCheckout) => {
+    if (window.confirm(t("cashier.confirmDiscardQueued") || "Discard this order? It will not be sent to the server.")) {
+      await removeQueuedCheckout(queuedCheckout.idempotencyKey);
+    }
+  };
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
       {/* Product Selection Panel */}
       <div className="lg:col-span-2">
+        {!online && (
+          <div className="flex items-start gap-3 bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg mb-6">
+            <WifiOff className="h-5 w-5 flex-shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-semibold">{t("cashier.offlineTitle") || "You are offline"}</p>
+              <p>
+                {t("cashier.offlineDescription") ||
+                  "Products are searched from the last saved inventory and checkouts are queued until the connection is back."}
+                {snapshotDate && (
+                  <>
+                    {" "}
+                    {t("cashier.inventorySavedAt") || "Inventory saved at"}{" "}
+                    {new Date(snapshotDate).toLocaleString("id-ID", { dateStyle: "short", timeStyle: "short" })}
+                  </>
+                )}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {storeId && (
+          <ShiftPanel
+            shift={shift}
+            storeId={storeId}
+            isLoading={isShiftLoading}
+            pendingCount={pendingCount}
+            onShiftChange={setShift}
+          />
+        )}
+
         {/* Saved Carts Section */}
         {savedCarts.length > 0 && (
           <div className="bg-white rounded-lg shadow p-6 mb-6">
@@ -663,6 +1089,9 @@ export default function CashierPage() {
                   <div className="text-sm font-bold text-blue-600">
                     Rp {savedCart.total.toLocaleString("id-ID")}
                   </div>
+                  <div className="text-xs text-gray-400 mt-1">
+                    {t("cashier.heldUntil") || "Held until"} {formatHoldExpiry(savedCart.expiresAt)}
+                  </div>
                   <div className="flex items-center gap-1 mt-2 pt-2 border-t border-gray-200">
                     <motion.button
                       onClick={(e) => {
@@ -798,6 +1227,18 @@ export default function CashierPage() {
                 {cart.reduce((sum, item) => sum + item.quantity, 0)}
               </span>
             )}
+            {queued.length > 0 && (
+              <button
+                onClick={() => setIsOutboxModalOpen(true)}
+                className={`ml-auto flex items-center gap-1 px-2 py-1 rounded-full text-xs font-semibold ${
+                  conflictCount > 0 ? "bg-red-100 text-red-700" : "bg-amber-100 text-amber-800"
+                }`}
+                title={t("cashier.pendingOrders") || "Pending Orders"}
+              >
+                {conflictCount > 0 ? <AlertTriangle className="h-3 w-3" /> : <CloudUpload className="h-3 w-3" />}
+                {pendingCount + conflictCount} {t("cashier.pendingSync") || "pending sync"}
+              </button>
+            )}
           </div>
 
           {cart.length === 0 ? (
@@ -821,9 +1262,30 @@ export default function CashierPage() {
                     <div className="flex-1">
                       <div className="text-sm font-medium text-gray-900">{item.name}</div>
                       <div className="text-xs text-gray-500">{item.sku}</div>
-                      <div className="text-sm font-semibold text-gray-900 mt-1">
-                        Rp {(item.price * item.quantity).toLocaleString("id-ID")}
-                      </div>
+                      {item.discount && getLineDiscount(item) > 0 ? (
+                        <>
+                          <div className="text-xs text-gray-400 line-through mt-1">
+                            Rp {getLineGross(item).toLocaleString("id-ID")}
+                          </div>
+                          <div className="text-sm font-semibold text-gray-900">
+                            Rp {(getLineGross(item) - getLineDiscount(item)).toLocaleString("id-ID")}
+                          </div>
+                          <div className="text-xs text-green-600">
+                            -{describeDiscount(item.discount)} • {item.discount.reason}
+                          </div>
+                        </>
+                      ) : (
+                        <div className="text-sm font-semibold text-gray-900 mt-1">
+                          Rp {getLineGross(item).toLocaleString("id-ID")}
+                        </div>
+                      )}
+                      {cartAllocations.get(item.id)?.allocations.map((allocation) => (
+                        <div key={allocation.inventoryId} className="text-xs text-gray-500">
+                          {allocation.quantity}× {t("cashier.batchExpires") || "exp"}{" "}
+                          {formatBatchExpiry(allocation.expiryDate)}
+                          {allocation.location ? ` • ${allocation.location}` : ""}
+                        </div>
+                      ))}
                     </div>
                     <div className="flex items-center gap-2">
                       <motion.button
@@ -843,6 +1305,17 @@ export default function CashierPage() {
                       >
                         <Plus className="h-4 w-4 text-gray-600" />
                       </motion.button>
+                      <motion.button
+                        onClick={() => openDiscountModal(item.id)}
+                        whileHover={{ scale: 1.1 }}
+                        whileTap={{ scale: 0.9 }}
+                        className={`p-1 rounded transition-colors ml-2 ${
+                          item.discount ? "bg-green-100 hover:bg-green-200" : "hover:bg-gray-200"
+                        }`}
+                        title={t("cashier.lineDiscount") || "Item Discount"}
+                      >
+                        <Percent className={`h-4 w-4 ${item.discount ? "text-green-600" : "text-gray-600"}`} />
+                      </motion.button>
                       <motion.button
                         onClick={() => removeFromCart(item.id)}
                         whileHover={{ scale: 1.1 }}
@@ -859,9 +1332,40 @@ export default function CashierPage() {
               <div className="border-t border-gray-200 pt-4 space-y-3">
                 {currentCartId && (
                   <div className="text-xs text-gray-500 mb-2">
-                    {t("cashier.savedAs") || "Saved as"}: {cartName || getCartById(currentCartId)?.name}
+                    {t("cashier.savedAs") || "Saved as"}: {cartName || savedCarts.find((savedCart) => savedCart.id === currentCartId)?.name}
                   </div>
                 )}
+                {totals.discountTotal > 0 && (
+                  <div className="space-y-1 text-sm">
+                    <div className="flex justify-between text-gray-600">
+                      <span>{t("cashier.subtotal") || "Subtotal"}:</span>
+                      <span>Rp {totals.gross.toLocaleString("id-ID")}</span>
+                    </div>
+                    {totals.lineDiscounts > 0 && (
+                      <div className="flex justify-between text-green-600">
+                        <span>{t("cashier.itemDiscounts") || "Item discounts"}:</span>
+                        <span>-Rp {totals.lineDiscounts.toLocaleString("id-ID")}</span>
+                      </div>
+                    )}
+                    {orderDiscount && totals.orderDiscount > 0 && (
+                      <div className="flex justify-between text-green-600">
+                        <span>
+                          {t("cashier.orderDiscount") || "Order discount"} ({describeDiscount(orderDiscount)}):
+                        </span>
+                        <span>-Rp {totals.orderDiscount.toLocaleString("id-ID")}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+                <button
+                  onClick={() => openDiscountModal("order")}
+                  className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  <Percent className="h-4 w-4" />
+                  {orderDiscount
+                    ? t("cashier.editOrderDiscount") || "Edit order discount"
+                    : t("cashier.addOrderDiscount") || "Add order discount"}
+                </button>
                 <div className="flex justify-between items-center">
                   <span className="text-lg font-semibold text-gray-900">{t("cashier.total")}:</span>
                   <span className="text-2xl font-bold text-blue-600">
@@ -911,6 +1415,7 @@ export default function CashierPage() {
                     setCart([]);
                     setCurrentCartId(null);
                     setCartName("");
+                    setOrderDiscount(undefined);
                   }}
                   className="w-full py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
                 >
@@ -922,6 +1427,154 @@ export default function CashierPage() {
         </div>
       </div>
 
+      {/* Discount Modal */}
+      <AnimatePresence>
+        {discountTarget && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
+            onClick={closeDiscountModal}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.9 }}
+              onClick={(e) => e.stopPropagation()}
+              className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4 p-6"
+            >
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">
+                  {discountTarget === "order"
+                    ? t("cashier.orderDiscount") || "Order discount"
+                    : `${t("cashier.lineDiscount") || "Item Discount"}: ${cart.find((i) => i.id === discountTarget)?.name || ""}`}
+                </h3>
+                <button onClick={closeDiscountModal} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+
+              {discountError && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm">
+                  {discountError}
+                </div>
+              )}
+
+              <div className="space-y-4">
+                <div className="flex gap-2">
+                  {(["percent", "fixed"] as Discount["type"][]).map((type) => (
+                    <button
+                      key={type}
+                      onClick={() => setDiscountForm((prev) => ({ ...prev, type }))}
+                      className={`flex-1 py-2 rounded-lg border text-sm transition-colors ${
+                        discountForm.type === type
+                          ? "border-blue-500 bg-blue-50 text-blue-700"
+                          : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                      }`}
+                    >
+                      {type === "percent" ? t("cashier.percentDiscount") || "Percent (%)" : t("cashier.fixedDiscount") || "Fixed (Rp)"}
+                    </button>
+                  ))}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {t("cashier.discountValue") || "Discount"} <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={discountForm.value}
+                    onChange={(e) => setDiscountForm((prev) => ({ ...prev, value: e.target.value }))}
+                    placeholder={discountForm.type === "percent" ? "10" : "5000"}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    autoFocus
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    -Rp {getDiscountAmount(draftDiscount, discountBase).toLocaleString("id-ID")} {t("cashier.of") || "of"} Rp{" "}
+                    {discountBase.toLocaleString("id-ID")}
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {t("cashier.discountReason") || "Reason"} <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={discountForm.reason}
+                    onChange={(e) => setDiscountForm((prev) => ({ ...prev, reason: e.target.value }))}
+                    placeholder={t("cashier.discountReasonPlaceholder") || "e.g. regular customer, damaged packaging"}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+
+                {draftNeedsApproval && (
+                  <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-2">
+                    <p className="text-sm text-amber-800">
+                      {(
+                        t("cashier.discountNeedsApproval") ||
+                        "Discounts above {{percent}}% need supervisor approval."
+                      ).replace("{{percent}}", String(DISCOUNT_APPROVAL_PERCENT))}
+                    </p>
+                    <input
+                      type="text"
+                      value={supervisorCredentials.email}
+                      onChange={(e) => setSupervisorCredentials((prev) => ({ ...prev, email: e.target.value }))}
+                      placeholder={t("cashier.supervisorEmail") || "Supervisor email or username"}
+                      autoComplete="off"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                    />
+                    <input
+                      type="password"
+                      value={supervisorCredentials.password}
+                      onChange={(e) => setSupervisorCredentials((prev) => ({ ...prev, password: e.target.value }))}
+                      placeholder={t("cashier.supervisorPassword") || "Supervisor password"}
+                      autoComplete="new-password"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="flex justify-between gap-3 mt-6">
+                {(discountTarget === "order" ? orderDiscount : cart.find((i) => i.id === discountTarget)?.discount) ? (
+                  <button
+                    onClick={() => applyDiscount(undefined)}
+                    className="px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  >
+                    {t("cashier.removeDiscount") || "Remove"}
+                  </button>
+                ) : (
+                  <span />
+                )}
+                <div className="flex gap-3">
+                  <button
+                    onClick={closeDiscountModal}
+                    className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    {t("common.cancel")}
+                  </button>
+                  <motion.button
+                    onClick={handleApplyDiscount}
+                    disabled={isApprovingDiscount}
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {draftNeedsApproval
+                      ? t("cashier.approveAndApply") || "Approve & Apply"
+                      : t("cashier.applyDiscount") || "Apply"}
+                  </motion.button>
+                </div>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Receipt Modal */}
+      <ReceiptModal isOpen={!!receipt} onClose={() => setReceipt(null)} receipt={receipt} />
+
       {/* QR Scanner Modal */}
       <QRScanner
         isOpen={isQRScannerOpen}
@@ -1016,7 +1669,7 @@ export default function CashierPage() {
               animate={{ opacity: 1, scale: 1 }}
               exit={{ opacity: 0, scale: 0.9 }}
               onClick={(e) => e.stopPropagation()}
-              className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4 p-6"
+              className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 p-6 max-h-[90vh] overflow-y-auto"
             >
               <div className="flex items-center justify-between mb-4">
                 <h3 className="text-lg font-semibold text-gray-900">
@@ -1026,6 +1679,7 @@ export default function CashierPage() {
                   onClick={() => {
                     setIsCheckoutModalOpen(false);
                     setCustomerName("");
+                    setSelectedCustomer(null);
                   }}
                   className="text-gray-400 hover:text-gray-600"
                 >
@@ -1036,18 +1690,13 @@ export default function CashierPage() {
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   {t("cashier.customerName") || "Customer Name"} {t("form.optional") || "(optional)"}
                 </label>
-                <input
-                  type="text"
-                  value={customerName}
-                  onChange={(e) => setCustomerName(e.target.value)}
-                  placeholder={t("cashier.customerNamePlaceholder") || "Enter customer name or leave blank for walk-in..."}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  onKeyPress={(e) => {
-                    if (e.key === "Enter") {
-                      handleConfirmCheckout();
-                    }
-                  }}
-                  autoFocus
+                <CustomerPicker
+                  customerName={customerName}
+                  onCustomerNameChange={setCustomerName}
+                  selected={selectedCustomer}
+                  onSelect={setSelectedCustomer}
+                  storeId={storeId}
+                  onEnter={handleConfirmCheckout}
                 />
               </div>
               <div className="mb-4 p-3 bg-gray-50 rounded-lg">
@@ -1061,11 +1710,108 @@ export default function CashierPage() {
                   {cart.length} {t("cashier.items") || "items"}
                 </div>
               </div>
+              <div className="mb-4">
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    {t("cashier.payment") || "Payment"}
+                  </label>
+                  <button
+                    type="button"
+                    onClick={addTenderLine}
+                    className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    <Plus className="h-4 w-4" />
+                    {t("cashier.splitPayment") || "Split Payment"}
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {tenderLines.map((line, index) => (
+                    <div key={index} className="p-3 border border-gray-200 rounded-lg space-y-2">
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={line.method}
+                          onChange={(e) => updateTenderLine(index, { method: e.target.value as PaymentMethod })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-sm"
+                        >
+                          {PAYMENT_METHODS.map((method) => (
+                            <option key={method.value} value={method.value}>
+                              {t(method.translationKey) || method.label}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          min="0"
+                          value={line.amount}
+                          onChange={(e) => updateTenderLine(index, { amount: e.target.value })}
+                          placeholder={
+                            line.method === "cash"
+                              ? t("cashier.amountReceived") || "Amount received"
+                              : t("cashier.amount") || "Amount"
+                          }
+                          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => fillRemaining(index)}
+                          disabled={tender.remaining === 0}
+                          className="px-2 py-2 text-xs border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {t("cashier.exactAmount") || "Exact"}
+                        </button>
+                        {tenderLines.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => removeTenderLine(index)}
+                            className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
+                            title={t("common.delete")}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                      {line.method === "kasbon" && !selectedCustomer && (
+                        <p className="text-xs text-orange-600">
+                          {t("cashier.kasbonNeedsCustomer") || "Select a customer record to put this order on kasbon"}
+                        </p>
+                      )}
+                      {line.method !== "cash" && line.method !== "kasbon" && (
+                        <input
+                          type="text"
+                          value={line.reference}
+                          onChange={(e) => updateTenderLine(index, { reference: e.target.value })}
+                          placeholder={t("cashier.paymentReference") || "Reference / transaction ID (optional)"}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <div className="mt-3 space-y-1 text-sm">
+                  <div className="flex justify-between text-gray-600">
+                    <span>{t("cashier.paid") || "Paid"}:</span>
+                    <span>Rp {tender.paid.toLocaleString("id-ID")}</span>
+                  </div>
+                  {tender.remaining > 0 ? (
+                    <div className="flex justify-between font-semibold text-red-600">
+                      <span>{t("cashier.remaining") || "Remaining"}:</span>
+                      <span>Rp {tender.remaining.toLocaleString("id-ID")}</span>
+                    </div>
+                  ) : (
+                    <div className="flex justify-between font-semibold text-green-600">
+                      <span>{t("cashier.changeDue") || "Change due"}:</span>
+                      <span>Rp {tender.change.toLocaleString("id-ID")}</span>
+                    </div>
+                  )}
+                  {tender.error && <p className="text-red-600">{tender.error}</p>}
+                </div>
+              </div>
               <div className="flex justify-end gap-3">
                 <button
                   onClick={() => {
                     setIsCheckoutModalOpen(false);
                     setCustomerName("");
+                    setSelectedCustomer(null);
                   }}
                   className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
                 >
@@ -1073,9 +1819,10 @@ export default function CashierPage() {
                 </button>
                 <motion.button
                   onClick={handleConfirmCheckout}
+                  disabled={!!tender.error || tender.remaining > 0}
                   whileHover={{ scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
-                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {t("cashier.confirmCheckout") || "Confirm Checkout"}
                 </motion.button>
@@ -1135,6 +1882,10 @@ export default function CashierPage() {
                           </div>
                           <div className="text-xs text-gray-400 mt-1">
                             {new Date(savedCart.updatedAt).toLocaleString("id-ID")}
+                            {savedCart.createdBy ? ` • ${savedCart.createdBy}` : ""}
+                          </div>
+                          <div className="text-xs text-gray-400">
+                            {t("cashier.heldUntil") || "Held until"} {formatHoldExpiry(savedCart.expiresAt)}
                           </div>
                         </div>
                         <div className="flex items-center gap-2">
@@ -1166,6 +1917,115 @@ export default function CashierPage() {
           </motion.div>
         )}
       </AnimatePresence>
+      {/* Pending Orders (offline outbox) Modal */}
+      <AnimatePresence>
+        {isOutboxModalOpen && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
+            onClick={() => setIsOutboxModalOpen(false)}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.9 }}
+              onClick={(e) => e.stopPropagation()}
+              className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[80vh] overflow-hidden flex flex-col"
+            >
+              <div className="flex items-center justify-between p-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-900">
+                  {t("cashier.pendingOrders") || "Pending Orders"}
+                </h3>
+                <button
+                  onClick={() => setIsOutboxModalOpen(false)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <div className="overflow-y-auto p-4">
+                {queued.length === 0 ? (
+                  <div className="text-center py-8 text-gray-500">
+                    <CloudUpload className="h-12 w-12 mx-auto mb-3 text-gray-300" />
+                    <p>{t("cashier.noPendingOrders") || "All orders have been sent"}</p>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {queued.map((queuedCheckout) => (
+                      <div
+                        key={queuedCheckout.idempotencyKey}
+                        className={`p-3 border rounded-lg ${
+                          queuedCheckout.status === "conflict" ? "border-red-200 bg-red-50" : "border-gray-200"
+                        }`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <div className="font-medium text-gray-900">{queuedCheckout.input.customer_name}</div>
+                          <div className="text-sm font-bold text-blue-600">
+                            Rp {queuedCheckout.input.grand_total.toLocaleString("id-ID")}
+                          </div>
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          {queuedCheckout.items.map((item) => `${item.name} x${item.quantity}`).join(", ")}
+                        </div>
+                        <div className="text-xs text-gray-400 mt-1">
+                          {new Date(queuedCheckout.createdAt).toLocaleString("id-ID")}
+                        </div>
+                        {queuedCheckout.status === "conflict" ? (
+                          <>
+                            <div className="flex items-start gap-2 text-sm text-red-700 mt-2">
+                              <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                              <span>{queuedCheckout.error}</span>
+                            </div>
+                            <div className="flex justify-end gap-2 mt-3">
+                              <button
+                                onClick={() => handleDiscardQueued(queuedCheckout)}
+                                className="px-3 py-1 text-sm text-red-600 hover:bg-red-100 rounded-lg transition-colors"
+                              >
+                                {t("cashier.discard") || "Discard"}
+                              </button>
+                              <button
+                                onClick={() => handleRetryQueued(queuedCheckout)}
+                                disabled={!online || isSyncing}
+                                className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                {t("cashier.retry") || "Retry"}
+                              </button>
+                              <button
+                                onClick={() => handleEditQueued(queuedCheckout)}
+                                className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                              >
+                                {t("cashier.editInCart") || "Edit in Cart"}
+                              </button>
+                            </div>
+                          </>
+                        ) : (
+                          <div className="text-xs text-amber-700 mt-2">
+                            {t("cashier.waitingToSync") || "Waiting to be sent"}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="flex justify-end p-4 border-t border-gray-200">
+                <motion.button
+                  onClick={handleSyncOutbox}
+                  disabled={!online || isSyncing || pendingCount === 0}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <RefreshCw className={`h-4 w-4 ${isSyncing ? "animate-spin" : ""}`} />
+                  {t("cashier.syncNow") || "Sync Now"}
+                </motion.button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </div>
   );
 }
@@ -0,0 +1,78 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { ArrowLeft, Printer } from "lucide-react";
+import ZReport from "@/components/admin/ZReport";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { api, getErrorMessage, type CashierShift } from "@/lib/api";
+
+export default function ShiftPage() {
+  const { t } = useLanguage();
+  const params = useParams();
+  const shiftId = params.id as string;
+  const [shift, setShift] = useState<CashierShift | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchShift = async () => {
+      try {
+        setIsLoading(true);
+        setError("");
+        const result = await api.shifts.get(shiftId);
+        if (!cancelled) setShift(result);
+      } catch (err) {
+        if (!cancelled) setError(getErrorMessage(err, t("shifts.failedToLoadShift") || "Failed to load shift"));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchShift();
+    return () => {
+      cancelled = true;
+    };
+  }, [shiftId, t]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6 print:hidden">
+        <Link
+          href="/dashboard/cashier/shifts"
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 transition-colors"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          {t("common.back") || "Back"}
+        </Link>
+        {shift && (
+          <button
+            onClick={() => window.print()}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Printer className="h-4 w-4" />
+            {t("shifts.print") || "Print"}
+          </button>
+        )}
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">{error}</div>}
+
+      {shift && (
+        <div className="bg-white rounded-lg shadow p-6 max-w-lg">
+          <ZReport shift={shift} />
+        </div>
+      )}
+    </div>
+  );
+}
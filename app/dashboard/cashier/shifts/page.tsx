@@ -0,0 +1,277 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { Eye } from "lucide-react";
+import Pagination from "@/components/admin/Pagination";
+import DateRangePicker from "@/components/admin/DateRangePicker";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/useAuth";
+import { api, getErrorMessage, type CashierShift, type ShiftStatus, type Store } from "@/lib/api";
+import { isSuperAdmin } from "@/lib/roles";
+import { formatRupiah, getLastDaysRange, validateDateRange, type DateRange } from "@/lib/sales";
+import {
+  SHIFT_STATUSES,
+  formatCashVariance,
+  getCashVariance,
+  getExpectedCash,
+  getShiftStatus,
+  getVarianceStyle,
+} from "@/lib/shifts";
+
+const formatDate = (dateString?: string | null) =>
+  dateString
+    ? new Date(dateString).toLocaleDateString("id-ID", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : "-";
+
+export default function ShiftsPage() {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const userIsSuperAdmin = isSuperAdmin(user?.role);
+  const [stores, setStores] = useState<Store[]>([]);
+  const [selectedStoreId, setSelectedStoreId] = useState("");
+  const storeId = userIsSuperAdmin ? selectedStoreId : user?.store?.id;
+  const [range, setRange] = useState<DateRange>(() => getLastDaysRange(7));
+  const [status, setStatus] = useState<ShiftStatus | "">("");
+  const [shifts, setShifts] = useState<CashierShift[]>([]);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalItems, setTotalItems] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const itemsPerPage = 10;
+
+  useEffect(() => {
+    if (!userIsSuperAdmin) return;
+    const fetchStores = async () => {
+      try {
+        const result = await api.stores.list({ limit: 100, offset: 0 });
+        setStores(result.data);
+      } catch (err) {
+        console.error("Error fetching stores:", err);
+      }
+    };
+
+    fetchStores();
+  }, [userIsSuperAdmin]);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [storeId, range, status]);
+
+  useEffect(() => {
+    if (!user) return;
+    const validationError = validateDateRange(range, t);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchShifts = async () => {
+      try {
+        setIsLoading(true);
+        setError("");
+        const result = await api.shifts.list({
+          limit: itemsPerPage,
+          offset: (currentPage - 1) * itemsPerPage,
+          store_id: storeId || undefined,
+          ...range,
+          ...(status && { status }),
+        });
+        if (!cancelled) {
+          setShifts(result.data);
+          setTotalItems(result.total);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(getErrorMessage(err, t("shifts.failedToLoad") || "Failed to load shifts"));
+          setShifts([]);
+          setTotalItems(0);
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchShifts();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, storeId, range, status, currentPage, t]);
+
+  const totalPages = Math.ceil(totalItems / itemsPerPage);
+  const columns = userIsSuperAdmin ? 10 : 9;
+
+  return (
+    <div>
+      <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-6">{t("shifts.title") || "Cashier Shifts"}</h1>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+        <DateRangePicker range={range} onChange={setRange} />
+        <div className="flex flex-col md:flex-row md:items-center gap-4">
+          {userIsSuperAdmin && (
+            <select
+              value={selectedStoreId}
+              onChange={(e) => setSelectedStoreId(e.target.value)}
+              className="md:w-56 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+            >
+              <option value="">{t("dashboard.allStores") || "All stores"}</option>
+              {stores.map((store) => (
+                <option key={store.id} value={store.id}>
+                  {store.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as ShiftStatus | "")}
+            className="md:w-48 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+          >
+            <option value="">{t("shifts.allStatuses") || "All statuses"}</option>
+            {SHIFT_STATUSES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {t(option.translationKey) || option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">{error}</div>}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("shifts.shift") || "Shift"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("orders.cashier") || "Cashier"}
+                </th>
+                {userIsSuperAdmin && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t("inventory.store") || "Store"}
+                  </th>
+                )}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("shifts.openedAt") || "Opened"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("shifts.closedAt") || "Closed"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("shifts.netSales") || "Net sales"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("shifts.expectedCash") || "Expected cash"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("shifts.variance") || "Variance"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("orders.status") || "Status"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("common.actions")}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={columns} className="px-6 py-8 text-center text-gray-500">
+                    <div className="flex items-center justify-center">
+                      <div className="w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mr-3"></div>
+                      {t("common.loading") || "Loading..."}
+                    </div>
+                  </td>
+                </tr>
+              ) : shifts.length === 0 ? (
+                <tr>
+                  <td colSpan={columns} className="px-6 py-8 text-center text-gray-500">
+                    {t("shifts.noShifts") || "No shifts in this period"}
+                  </td>
+                </tr>
+              ) : (
+                shifts.map((shift, index) => {
+                  const shiftStatus = getShiftStatus(shift.status);
+                  const variance =
+                    shift.counted_cash != null ? getCashVariance(shift, Number(shift.counted_cash)) : null;
+                  return (
+                    <motion.tr
+                      key={shift.id}
+                      initial={{ opacity: 0, x: -20 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      transition={{ delay: index * 0.05 }}
+                      whileHover={{ backgroundColor: "#f9fafb" }}
+                      className="hover:bg-gray-50 transition-colors"
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {shift.shift_number}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{shift.opened_by.name}</td>
+                      {userIsSuperAdmin && (
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{shift.store?.name || "-"}</td>
+                      )}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(shift.opened_at)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(shift.closed_at)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {formatRupiah(Number(shift.sales_total))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {formatRupiah(getExpectedCash(shift))}
+                      </td>
+                      <td
+                        className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${
+                          variance == null ? "text-gray-400" : getVarianceStyle(variance)
+                        }`}
+                      >
+                        {variance == null ? "-" : formatCashVariance(variance)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`px-2.5 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${shiftStatus.style}`}
+                        >
+                          {t(shiftStatus.translationKey) || shiftStatus.label}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <Link
+                          href={`/dashboard/cashier/shifts/${shift.id}`}
+                          className="flex items-center gap-1 text-blue-600 hover:text-blue-900 hover:underline"
+                        >
+                          <Eye className="h-4 w-4" />
+                          {t("shifts.zReport") || "Z-Report"}
+                        </Link>
+                      </td>
+                    </motion.tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+        {!isLoading && shifts.length > 0 && (
+          <Pagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            onPageChange={setCurrentPage}
+            itemsPerPage={itemsPerPage}
+            totalItems={totalItems}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
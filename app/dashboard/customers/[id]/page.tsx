@@ -0,0 +1,341 @@
+"use client";
+
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { useParams } from "next/navigation";
+import { motion, AnimatePresence } from "framer-motion";
+import { Wallet, X, Phone } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/useAuth";
+import { api, getErrorMessage, type Customer, type CustomerLedgerEntry, type CustomerRepaymentInput } from "@/lib/api";
+import { can } from "@/lib/roles";
+import { SETTLEMENT_METHODS, getPaymentMethodLabel } from "@/lib/payments";
+import { AGING_BUCKETS, fetchCustomerLedger, getCreditAging, getCustomerBalance } from "@/lib/customers";
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("id-ID", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function CustomerLedgerPage() {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const params = useParams();
+  const customerId = params.id as string;
+  const canRecordRepayment = can(user, "customers:credit");
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [entries, setEntries] = useState<CustomerLedgerEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [isRepaymentOpen, setIsRepaymentOpen] = useState(false);
+  const [repayment, setRepayment] = useState({
+    amount: "",
+    method: "cash" as CustomerRepaymentInput["method"],
+    note: "",
+  });
+  const [repaymentError, setRepaymentError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadLedger = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [customerData, ledger] = await Promise.all([
+        api.customers.get(customerId),
+        fetchCustomerLedger(customerId),
+      ]);
+      setCustomer(customerData);
+      setEntries(ledger);
+    } catch (err) {
+      console.error("Error fetching customer ledger:", err);
+      setError(getErrorMessage(err, "An error occurred while loading the customer"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    if (customerId) {
+      loadLedger();
+    }
+  }, [customerId, loadLedger]);
+
+  const aging = useMemo(() => getCreditAging(entries), [entries]);
+  const balance = customer ? getCustomerBalance(customer) : 0;
+
+  const handleOpenRepayment = () => {
+    setRepayment({ amount: balance > 0 ? String(balance) : "", method: "cash", note: "" });
+    setRepaymentError("");
+    setIsRepaymentOpen(true);
+  };
+
+  const handleSubmitRepayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(repayment.amount) || 0;
+    if (amount <= 0) {
+      setRepaymentError(t("customers.amountRequired") || "Enter an amount greater than zero");
+      return;
+    }
+    if (amount > balance) {
+      setRepaymentError(
+        (t("customers.amountTooHigh") || "The repayment cannot be more than the outstanding Rp {{balance}}").replace(
+          "{{balance}}",
+          balance.toLocaleString("id-ID")
+        )
+      );
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setRepaymentError("");
+      await api.customers.recordPayment(customerId, {
+        amount,
+        method: repayment.method,
+        ...(repayment.note.trim() && { note: repayment.note.trim() }),
+      });
+      setIsRepaymentOpen(false);
+      await loadLedger();
+    } catch (err) {
+      setRepaymentError(getErrorMessage(err, t("customers.failedToRecordPayment") || "Failed to record repayment"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading && !customer) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+        {error || t("customers.notFound") || "Customer not found"}
+      </div>
+    );
+  }
+
+  // Newest first for reading
+  const ledgerRows = [...entries].reverse();
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">{customer.name}</h1>
+          {customer.phone && (
+            <p className="flex items-center gap-1 text-sm text-gray-500 mt-1">
+              <Phone className="h-4 w-4" />
+              {customer.phone}
+            </p>
+          )}
+          {customer.notes && <p className="text-sm text-gray-500 mt-1">{customer.notes}</p>}
+        </div>
+        {canRecordRepayment && balance > 0 && (
+          <motion.button
+            onClick={handleOpenRepayment}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors shadow-sm"
+          >
+            <Wallet className="h-4 w-4" />
+            {t("customers.recordRepayment") || "Record Repayment"}
+          </motion.button>
+        )}
+      </div>
+
+      {/* Balance and aging */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+        <div className="bg-white rounded-lg shadow p-4">
+          <div className="text-xs text-gray-500 uppercase">{t("customers.outstanding") || "Kasbon"}</div>
+          <div className={`text-xl font-bold ${balance > 0 ? "text-orange-600" : "text-gray-900"}`}>
+            Rp {balance.toLocaleString("id-ID")}
+          </div>
+        </div>
+        {AGING_BUCKETS.map((bucket) => (
+          <div key={bucket.key} className="bg-white rounded-lg shadow p-4">
+            <div className="text-xs text-gray-500 uppercase">{t(bucket.translationKey) || bucket.label}</div>
+            <div
+              className={`text-xl font-bold ${
+                aging.buckets[bucket.key] > 0 && bucket.key !== "current" ? "text-red-600" : "text-gray-900"
+              }`}
+            >
+              Rp {aging.buckets[bucket.key].toLocaleString("id-ID")}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Ledger */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">{t("customers.ledger") || "Kasbon Ledger"}</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("orders.date") || "Date"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("customers.entry") || "Entry"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("customers.charge") || "Charge"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("customers.payment") || "Payment"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("customers.balance") || "Balance"}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {ledgerRows.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                    {t("customers.noEntries") || "No kasbon yet"}
+                  </td>
+                </tr>
+              ) : (
+                ledgerRows.map((entry) => {
+                  const amount = parseFloat(entry.amount) || 0;
+                  return (
+                    <tr key={entry.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(entry.created_at)}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {entry.type === "charge"
+                          ? `${t("customers.kasbonFor") || "Kasbon for order"} #${entry.invoice_number || entry.order_id || "-"}`
+                          : `${t("customers.repayment") || "Repayment"}${entry.method ? ` (${getPaymentMethodLabel(entry.method)})` : ""}`}
+                        {entry.note && <div className="text-xs text-gray-500">{entry.note}</div>}
+                        {entry.created_by?.name && <div className="text-xs text-gray-400">{entry.created_by.name}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-orange-600">
+                        {entry.type === "charge" ? `Rp ${amount.toLocaleString("id-ID")}` : ""}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-green-600">
+                        {entry.type === "payment" ? `Rp ${amount.toLocaleString("id-ID")}` : ""}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-semibold text-gray-900">
+                        Rp {(parseFloat(entry.balance_after) || 0).toLocaleString("id-ID")}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Record Repayment Modal */}
+      <AnimatePresence>
+        {isRepaymentOpen && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
+            onClick={() => setIsRepaymentOpen(false)}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.9 }}
+              onClick={(e) => e.stopPropagation()}
+              className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4 p-6"
+            >
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">
+                  {t("customers.recordRepayment") || "Record Repayment"}
+                </h3>
+                <button onClick={() => setIsRepaymentOpen(false)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <form onSubmit={handleSubmitRepayment} className="space-y-4">
+                {repaymentError && (
+                  <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                    {repaymentError}
+                  </div>
+                )}
+                <div className="text-sm text-gray-600">
+                  {t("customers.outstanding") || "Kasbon"}:{" "}
+                  <span className="font-semibold text-orange-600">Rp {balance.toLocaleString("id-ID")}</span>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {t("cashier.amount") || "Amount"} <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={repayment.amount}
+                    onChange={(e) => setRepayment({ ...repayment, amount: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    autoFocus
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {t("cashier.payment") || "Payment"}
+                  </label>
+                  <select
+                    value={repayment.method}
+                    onChange={(e) =>
+                      setRepayment({ ...repayment, method: e.target.value as CustomerRepaymentInput["method"] })
+                    }
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+                  >
+                    {SETTLEMENT_METHODS.map((method) => (
+                      <option key={method.value} value={method.value}>
+                        {t(method.translationKey) || method.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {t("customers.notes") || "Notes"}
+                  </label>
+                  <input
+                    type="text"
+                    value={repayment.note}
+                    onChange={(e) => setRepayment({ ...repayment, note: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div className="flex justify-end gap-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setIsRepaymentOpen(false)}
+                    className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    {t("common.cancel")}
+                  </button>
+                  <motion.button
+                    type="submit"
+                    disabled={isSubmitting}
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSubmitting ? t("common.saving") || "Saving..." : t("customers.recordRepayment") || "Record Repayment"}
+                  </motion.button>
+                </div>
+              </form>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
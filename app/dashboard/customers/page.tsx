@@ -0,0 +1,363 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { Plus, Edit, Trash2, Search, X, BookOpen } from "lucide-react";
+import Pagination from "@/components/admin/Pagination";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/useAuth";
+import { api, getErrorMessage, type Customer } from "@/lib/api";
+import { getCustomerBalance } from "@/lib/customers";
+
+const emptyForm = { name: "", phone: "", notes: "" };
+
+export default function CustomersPage() {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const storeId = user?.store?.id;
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [withBalanceOnly, setWithBalanceOnly] = useState(false);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalItems, setTotalItems] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [error, setError] = useState("");
+  const itemsPerPage = 10;
+
+  const loadCustomers = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await api.customers.list({
+        limit: itemsPerPage,
+        offset: (currentPage - 1) * itemsPerPage,
+        search: searchQuery,
+        store_id: storeId,
+        ...(withBalanceOnly && { with_balance: true }),
+      });
+      setCustomers(result.data);
+      setTotalItems(result.total);
+    } catch (error) {
+      console.error("Error fetching customers:", error);
+      setCustomers([]);
+      setTotalItems(0);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentPage, searchQuery, storeId, withBalanceOnly]);
+
+  useEffect(() => {
+    loadCustomers();
+  }, [loadCustomers]);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [searchQuery, withBalanceOnly]);
+
+  const handleOpenModal = (customer?: Customer) => {
+    setEditingCustomer(customer || null);
+    setFormData(
+      customer ? { name: customer.name, phone: customer.phone || "", notes: customer.notes || "" } : emptyForm
+    );
+    setError("");
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingCustomer(null);
+    setFormData(emptyForm);
+    setError("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!formData.name.trim()) {
+      setError(t("customers.nameRequired") || "Customer name is required");
+      return;
+    }
+
+    const input = {
+      name: formData.name.trim(),
+      phone: formData.phone.trim() || undefined,
+      notes: formData.notes.trim() || undefined,
+    };
+
+    try {
+      if (editingCustomer) {
+        await api.customers.update(editingCustomer.id, input);
+      } else {
+        await api.customers.create({ ...input, ...(storeId && { store_id: storeId }) });
+      }
+      await loadCustomers();
+      handleCloseModal();
+    } catch (err) {
+      setError(getErrorMessage(err, t("customers.failedToSave") || "Failed to save customer"));
+    }
+  };
+
+  const handleDelete = async (customer: Customer) => {
+    if (getCustomerBalance(customer) > 0) {
+      window.alert(
+        t("customers.cannotDeleteWithBalance") || "This customer still has an outstanding kasbon balance."
+      );
+      return;
+    }
+    if (window.confirm(t("customers.confirmDelete") || "Are you sure you want to delete this customer?")) {
+      try {
+        await api.customers.remove(customer.id);
+        await loadCustomers();
+      } catch (err) {
+        window.alert(getErrorMessage(err, t("customers.failedToDelete") || "Failed to delete customer"));
+      }
+    }
+  };
+
+  const totalPages = Math.ceil(totalItems / itemsPerPage);
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">{t("customers.title") || "Customers"}</h1>
+        <motion.button
+          onClick={() => handleOpenModal()}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
+        >
+          <Plus className="h-4 w-4" />
+          {t("customers.addCustomer") || "Add Customer"}
+        </motion.button>
+      </div>
+
+      {/* Search */}
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="flex flex-col sm:flex-row gap-4 sm:items-center">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              type="text"
+              placeholder={t("customers.searchPlaceholder") || "Search customers by name or phone..."}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={withBalanceOnly}
+              onChange={(e) => setWithBalanceOnly(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            {t("customers.withBalanceOnly") || "Outstanding kasbon only"}
+          </label>
+        </div>
+      </div>
+
+      {/* Customers Table */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("customers.name") || "Name"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("customers.phone") || "Phone"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("customers.outstanding") || "Kasbon"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("customers.notes") || "Notes"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("common.actions")}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                    <div className="flex items-center justify-center">
+                      <div className="w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mr-3"></div>
+                      {t("common.loading") || "Loading..."}
+                    </div>
+                  </td>
+                </tr>
+              ) : customers.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                    {t("customers.noCustomers") || "No customers found"}
+                  </td>
+                </tr>
+              ) : (
+                customers.map((customer, index) => {
+                  const balance = getCustomerBalance(customer);
+                  return (
+                    <motion.tr
+                      key={customer.id}
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: index * 0.05 }}
+                      whileHover={{ backgroundColor: "#f9fafb" }}
+                      className="transition-colors"
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        <Link href={`/dashboard/customers/${customer.id}`} className="hover:text-blue-600 hover:underline">
+                          {customer.name}
+                        </Link>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{customer.phone || "-"}</td>
+                      <td
+                        className={`px-6 py-4 whitespace-nowrap text-sm font-semibold ${
+                          balance > 0 ? "text-orange-600" : "text-gray-500"
+                        }`}
+                      >
+                        Rp {balance.toLocaleString("id-ID")}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">{customer.notes || "-"}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <div className="flex items-center gap-2">
+                          <Link
+                            href={`/dashboard/customers/${customer.id}`}
+                            className="text-gray-600 hover:text-gray-900"
+                            title={t("customers.ledger") || "Kasbon Ledger"}
+                          >
+                            <BookOpen className="h-4 w-4" />
+                          </Link>
+                          <motion.button
+                            onClick={() => handleOpenModal(customer)}
+                            whileHover={{ scale: 1.1 }}
+                            whileTap={{ scale: 0.9 }}
+                            className="text-blue-600 hover:text-blue-900"
+                            title={t("common.edit")}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </motion.button>
+                          <motion.button
+                            onClick={() => handleDelete(customer)}
+                            whileHover={{ scale: 1.1 }}
+                            whileTap={{ scale: 0.9 }}
+                            className="text-red-600 hover:text-red-900"
+                            title={t("common.delete")}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </motion.button>
+                        </div>
+                      </td>
+                    </motion.tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+        {!isLoading && customers.length > 0 && (
+          <Pagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            onPageChange={setCurrentPage}
+            itemsPerPage={itemsPerPage}
+            totalItems={totalItems}
+          />
+        )}
+      </div>
+
+      {/* Add/Edit Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="bg-white rounded-lg shadow-xl max-w-md w-full p-6"
+          >
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {editingCustomer
+                  ? t("customers.editCustomer") || "Edit Customer"
+                  : t("customers.addCustomer") || "Add Customer"}
+              </h2>
+              <button onClick={handleCloseModal} className="text-gray-400 hover:text-gray-600 transition-colors">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>
+              )}
+
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t("customers.name") || "Name"} <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+
+              <div>
+                <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t("customers.phone") || "Phone"}
+                </label>
+                <input
+                  type="tel"
+                  id="phone"
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="e.g., 0812xxxxxxx"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t("customers.notes") || "Notes"}
+                </label>
+                <textarea
+                  id="notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={3}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="flex justify-end gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={handleCloseModal}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  {t("common.cancel")}
+                </button>
+                <motion.button
+                  type="submit"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  {editingCustomer ? t("common.save") : t("customers.addCustomer") || "Add Customer"}
+                </motion.button>
+              </div>
+            </form>
+          </motion.div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { Trash2, Tag, History } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/useAuth";
+import { useExpirySettings } from "@/hooks/useExpirySettings";
+import { can } from "@/lib/roles";
+import { api, getErrorMessage, type InventoryItem } from "@/lib/api";
+import { formatBatchExpiry } from "@/lib/batches";
+import {
+  fetchExpiringBatches,
+  getBatchExpiryStatus,
+  getDaysUntilExpiry,
+  getMarkdownSuggestion,
+  getNearExpiryDays,
+} from "@/lib/expiry";
+
+export default function ExpiryWorklistPage() {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const storeId = user?.store?.id;
+  const canAdjustInventory = can(user, "inventory:adjust");
+  const { settings, isLoading: isLoadingSettings } = useExpirySettings(storeId);
+  const [batches, setBatches] = useState<InventoryItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWritingOff, setIsWritingOff] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadBatches = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError("");
+      setBatches(await fetchExpiringBatches(settings, storeId));
+    } catch (err) {
+      setError(getErrorMessage(err, t("expiry.failedToLoad") || "Failed to load expiring stock"));
+      setBatches([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [settings, storeId, t]);
+
+  useEffect(() => {
+    if (!isLoadingSettings) loadBatches();
+  }, [isLoadingSettings, loadBatches]);
+
+  const expired = batches.filter((batch) => getBatchExpiryStatus(batch, settings) === "expired");
+  const nearExpiry = batches.filter((batch) => getBatchExpiryStatus(batch, settings) === "near_expiry");
+  const expiredUnits = expired.reduce((sum, batch) => sum + batch.quantity, 0);
+
+  const handleWriteOff = async () => {
+    if (
+      !confirm(
+        `${t("expiry.confirmWriteOff") || "Write off every expired batch? This removes"} ${expiredUnits} ${
+          t("expiry.units") || "units"
+        } (${expired.length} ${t("expiry.batches") || "batches"}).`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setIsWritingOff(true);
+      const adjustments = await api.inventories.writeOffExpired({
+        inventory_ids: expired.map((batch) => batch.id),
+        note: t("expiry.writeOffNote") || "Expired stock write-off",
+      });
+      alert(`${adjustments.length} ${t("expiry.writtenOff") || "batches written off"}`);
+      await loadBatches();
+    } catch (err) {
+      alert(getErrorMessage(err, t("expiry.failedToWriteOff") || "Failed to write off expired stock"));
+    } finally {
+      setIsWritingOff(false);
+    }
+  };
+
+  const headerCell = "px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider";
+  const headerCellRight = "px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider";
+
+  const productCell = (batch: InventoryItem) => (
+    <td className="px-6 py-4 text-sm text-gray-900">
+      {batch.product.name}
+      {batch.product.sku && <div className="text-xs text-gray-500">{batch.product.sku}</div>}
+    </td>
+  );
+
+  const historyLink = (batch: InventoryItem) => (
+    <td className="px-6 py-4 whitespace-nowrap text-right">
+      <Link
+        href={`/dashboard/inventory/movements/${batch.product.id}`}
+        className="text-gray-600 hover:text-gray-900 inline-flex"
+        title={t("movements.productTitle") || "Stock History"}
+      >
+        <History className="h-4 w-4" />
+      </Link>
+    </td>
+  );
+
+  if (isLoadingSettings || isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ duration: 0.3 }}>
+      <div className="mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">{t("expiry.title") || "Expiry Worklist"}</h1>
+        <p className="text-gray-500 mt-1">
+          {t("expiry.subtitle") || "Near-expiry window"}: {settings.nearExpiryDays} {t("dashboard.days") || "days"}
+          {Object.keys(settings.categoryDays).length > 0 &&
+            ` · ${Object.keys(settings.categoryDays).length} ${t("expiry.categoryOverrides") || "category overrides"}`}
+        </p>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">{error}</div>}
+
+      {/* Expired */}
+      <div className="bg-white rounded-lg shadow overflow-hidden mb-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 px-6 py-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">{t("inventory.expired") || "Expired"}</h2>
+            <p className="text-sm text-gray-500">
+              {expired.length} {t("expiry.batches") || "batches"} · {expiredUnits} {t("expiry.units") || "units"}
+            </p>
+          </div>
+          {canAdjustInventory && expired.length > 0 && (
+            <motion.button
+              onClick={handleWriteOff}
+              disabled={isWritingOff}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors shadow-sm disabled:opacity-50"
+            >
+              <Trash2 className="h-4 w-4" />
+              {isWritingOff
+                ? t("expiry.writingOff") || "Writing off..."
+                : t("expiry.writeOffAll") || "Write Off All Expired"}
+            </motion.button>
+          )}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headerCell}>{t("inventory.name") || "Product Name"}</th>
+                <th className={headerCell}>{t("movements.batch") || "Batch"}</th>
+                <th className={headerCellRight}>{t("inventory.quantity") || "Quantity"}</th>
+                <th className={headerCellRight}>{t("expiry.daysAgo") || "Expired Days Ago"}</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {expired.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                    {t("expiry.noExpired") || "No expired stock on hand"}
+                  </td>
+                </tr>
+              ) : (
+                expired.map((batch) => (
+                  <tr key={batch.id} className="hover:bg-gray-50 transition-colors">
+                    {productCell(batch)}
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {batch.location} · {formatBatchExpiry(batch.expiry_date)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-semibold text-red-600">
+                      {batch.quantity}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-500">
+                      {-getDaysUntilExpiry(batch.expiry_date)}
+                    </td>
+                    {historyLink(batch)}
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Near expiry with markdown suggestions */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">{t("inventory.nearExpiry") || "Near Expiry"}</h2>
+          <p className="text-sm text-gray-500">
+            {t("expiry.markdownHint") || "Suggested prices to clear stock before it expires"}
+          </p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headerCell}>{t("inventory.name") || "Product Name"}</th>
+                <th className={headerCell}>{t("movements.batch") || "Batch"}</th>
+                <th className={headerCellRight}>{t("inventory.quantity") || "Quantity"}</th>
+                <th className={headerCellRight}>{t("expiry.daysLeft") || "Days Left"}</th>
+                <th className={headerCellRight}>{t("expiry.currentPrice") || "Current Price"}</th>
+                <th className={headerCellRight}>{t("expiry.suggestedPrice") || "Suggested Price"}</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {nearExpiry.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                    {t("expiry.noNearExpiry") || "Nothing is close to expiring"}
+                  </td>
+                </tr>
+              ) : (
+                nearExpiry.map((batch) => {
+                  const daysLeft = getDaysUntilExpiry(batch.expiry_date);
+                  const sellingPrice = batch.product.selling_price ?? 0;
+                  const markdown = getMarkdownSuggestion(
+                    sellingPrice,
+                    batch.product.purchase_price,
+                    daysLeft,
+                    getNearExpiryDays(settings, batch.product.category?.id)
+                  );
+                  return (
+                    <tr key={batch.id} className="hover:bg-gray-50 transition-colors">
+                      {productCell(batch)}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {batch.location} · {formatBatchExpiry(batch.expiry_date)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">{batch.quantity}</td>
+                      <td
+                        className={`px-6 py-4 whitespace-nowrap text-right text-sm font-semibold ${
+                          daysLeft <= 1 ? "text-red-600" : "text-yellow-700"
+                        }`}
+                      >
+                        {daysLeft === 0 ? t("expiry.today") || "Today" : daysLeft}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-500">
+                        Rp {sellingPrice.toLocaleString("id-ID")}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                        {markdown ? (
+                          <span className="inline-flex items-center gap-2">
+                            <span className="px-2 py-0.5 inline-flex items-center gap-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                              <Tag className="h-3 w-3" />-{markdown.discountPercent}%
+                            </span>
+                            <span className="font-semibold text-gray-900">
+                              Rp {markdown.price.toLocaleString("id-ID")}
+                            </span>
+                          </span>
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
+                      </td>
+                      {historyLink(batch)}
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,9 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import MovementLedger from "@/components/admin/MovementLedger";
+
+export default function ProductMovementsPage() {
+  const params = useParams();
+  return <MovementLedger productId={params.productId as string} />;
+}
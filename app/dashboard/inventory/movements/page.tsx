@@ -0,0 +1,7 @@
+"use client";
+
+import MovementLedger from "@/components/admin/MovementLedger";
+
+export default function InventoryMovementsPage() {
+  return <MovementLedger />;
+}
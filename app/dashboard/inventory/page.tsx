@@ -1,32 +1,25 @@
 "use client";
 
-import { Package, AlertCircle, CheckCircle, Search, Calendar, XCircle, Box } from "lucide-react";
+import { Package, AlertCircle, CheckCircle, Search, Calendar, XCircle, Box, ClipboardCheck } from "lucide-react";
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import { motion } from "framer-motion";
 import Pagination from "@/components/admin/Pagination";
 import { useLanguage } from "@/contexts/LanguageContext";
 import AddInventoryModal from "@/components/admin/AddInventoryModal";
+import AdjustStockModal from "@/components/admin/AdjustStockModal";
 import { useAuth } from "@/hooks/useAuth";
-import { isSuperAdmin } from "@/lib/roles";
-
-interface InventoryItem {
-  id: string;
-  product: {
-    id: string;
-    name: string;
-    sku?: string;
-  };
-  quantity: number;
-  expiry_date: string;
-  location: string;
-  created_at?: string;
-  updated_at?: string;
-}
+import { useExpirySettings } from "@/hooks/useExpirySettings";
+import { can, isSuperAdmin } from "@/lib/roles";
+import { api, getErrorMessage, type InventoryInput, type InventoryItem } from "@/lib/api";
+import { getBatchExpiryStatus } from "@/lib/expiry";
 
 export default function InventoryPage() {
   const { t } = useLanguage();
   const { user } = useAuth();
   const userIsSuperAdmin = isSuperAdmin(user?.role);
+  const canAdjustInventory = can(user, "inventory:adjust");
+  const { settings: expirySettings } = useExpirySettings(user?.store?.id);
   const [searchInput, setSearchInput] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
@@ -35,10 +28,9 @@ export default function InventoryPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [totalItems, setTotalItems] = useState(0);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [adjustingItem, setAdjustingItem] = useState<InventoryItem | null>(null);
   const itemsPerPage = 100;
 
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
-
   // Fetch inventory from API
   useEffect(() => {
     fetchInventory(currentPage, searchQuery, statusFilter);
@@ -47,45 +39,14 @@ export default function InventoryPage() {
   const fetchInventory = async (page: number = 1, search: string = "", status: string = "all") => {
     try {
       setIsLoading(true);
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-      const offset = (page - 1) * itemsPerPage;
-
-      const params = new URLSearchParams({
-        limit: itemsPerPage.toString(),
-        offset: offset.toString(),
-      });
-      
-      if (search.trim()) {
-        params.append("search", search.trim());
-      }
-      
-      if (status !== "all") {
-        params.append("status", status);
-      }
-
-      const response = await fetch(`${API_BASE_URL}/api/inventories?${params.toString()}`, {
-        headers: {
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
+      const result = await api.inventories.list({
+        limit: itemsPerPage,
+        offset: (page - 1) * itemsPerPage,
+        search,
+        ...(status !== "all" && { status }),
       });
-
-      if (response.ok) {
-        const result = await response.json();
-        if (result.data && Array.isArray(result.data)) {
-          setInventoryItems(result.data);
-          setTotalItems(result.total || 0);
-        } else if (Array.isArray(result)) {
-          setInventoryItems(result);
-          setTotalItems(result.length);
-        } else {
-          setInventoryItems(result.inventories || []);
-          setTotalItems(result.total || 0);
-        }
-      } else {
-        console.error("Failed to fetch inventory");
-        setInventoryItems([]);
-        setTotalItems(0);
-      }
+      setInventoryItems(result.data);
+      setTotalItems(result.total);
     } catch (error) {
       console.error("Error fetching inventory:", error);
       setInventoryItems([]);
@@ -109,90 +70,38 @@ export default function InventoryPage() {
     }
   };
 
-  const handleAddInventory = async (inventory: {
-    product_id: string;
-    quantity: number;
-    expiry_date: string;
-    location: string;
-    store_id?: string;
-  }) => {
+  const handleAddInventory = async (inventory: InventoryInput) => {
     try {
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-
-      const response = await fetch(`${API_BASE_URL}/api/inventories`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
-        body: JSON.stringify(inventory),
-      });
-
-      const data = await response.json();
-
-      if (response.ok) {
-        window.alert(t("inventory.inventoryAddedSuccess") || "Inventory added successfully!");
-        setIsAddModalOpen(false);
-        fetchInventory(currentPage, searchQuery, statusFilter);
-      } else {
-        window.alert(data.error || data.message || (t("inventory.failedToAddInventory") || "Failed to add inventory"));
-      }
+      await api.inventories.create(inventory);
+      window.alert(t("inventory.inventoryAddedSuccess") || "Inventory added successfully!");
+      setIsAddModalOpen(false);
+      fetchInventory(currentPage, searchQuery, statusFilter);
     } catch (error) {
       console.error("Error adding inventory:", error);
-      window.alert(t("inventory.errorAddingInventory") || "An error occurred while adding inventory");
+      window.alert(getErrorMessage(error, t("inventory.errorAddingInventory") || "An error occurred while adding inventory"));
     }
   };
 
   const handleBulkAdd = async (file: File) => {
     try {
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-
-      const formData = new FormData();
-      formData.append("file", file);
-
-      const response = await fetch(`${API_BASE_URL}/api/inventories/batch`, {
-        method: "POST",
-        headers: {
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
-        body: formData,
-      });
-
-      const data = await response.json();
-
-      if (response.ok) {
-        window.alert(t("inventory.bulkUploadSuccess") || `Bulk upload successful! ${data.count || "Items"} added.`);
-        setIsAddModalOpen(false);
-        fetchInventory(currentPage, searchQuery, statusFilter);
-      } else {
-        window.alert(data.error || data.message || (t("inventory.failedToUploadInventory") || "Failed to upload inventory"));
-      }
+      const data = await api.inventories.bulkUpload(file);
+      window.alert(t("inventory.bulkUploadSuccess") || `Bulk upload successful! ${data?.count || "Items"} added.`);
+      setIsAddModalOpen(false);
+      fetchInventory(currentPage, searchQuery, statusFilter);
     } catch (error) {
       console.error("Error uploading inventory:", error);
-      window.alert(t("inventory.errorUploadingInventory") || "An error occurred while uploading inventory");
+      window.alert(getErrorMessage(error, t("inventory.errorUploadingInventory") || "An error occurred while uploading inventory"));
     }
   };
 
-  const getExpiryStatus = (expiryDate: string) => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const expiry = new Date(expiryDate);
-    expiry.setHours(0, 0, 0, 0);
-    const diffTime = expiry.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-    if (diffDays < 0) {
-      return "expired";
-    } else if (diffDays <= 7) {
-      return "near_expiry";
-    } else {
-      return "valid";
-    }
+  const handleAdjusted = () => {
+    setAdjustingItem(null);
+    fetchInventory(currentPage, searchQuery, statusFilter);
   };
 
-  const getExpiryBadge = (expiryDate: string) => {
-    const status = getExpiryStatus(expiryDate);
-    const expiry = new Date(expiryDate);
+  const getExpiryBadge = (item: InventoryItem) => {
+    const status = getBatchExpiryStatus(item, expirySettings);
+    const expiry = new Date(item.expiry_date);
     const formattedDate = expiry.toLocaleDateString("id-ID", {
       year: "numeric",
       month: "short",
@@ -224,10 +133,10 @@ export default function InventoryPage() {
 
   // Calculate counts from current items (could be improved with API aggregation)
   const expiredCount = inventoryItems.filter(
-    (item) => getExpiryStatus(item.expiry_date) === "expired"
+    (item) => getBatchExpiryStatus(item, expirySettings) === "expired"
   ).length;
   const nearExpiryCount = inventoryItems.filter(
-    (item) => getExpiryStatus(item.expiry_date) === "near_expiry"
+    (item) => getBatchExpiryStatus(item, expirySettings) === "near_expiry"
   ).length;
   const emptyStockCount = inventoryItems.filter((item) => item.quantity === 0).length;
 
@@ -235,15 +144,26 @@ export default function InventoryPage() {
     <div>
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
         <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">{t("inventory.title")}</h1>
-        <motion.button
-          onClick={() => setIsAddModalOpen(true)}
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
-          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
-        >
-          <Package className="h-4 w-4" />
-          {t("inventory.addStock")}
-        </motion.button>
+        {canAdjustInventory && (
+          <div className="flex flex-wrap gap-2">
+            <Link
+              href="/dashboard/inventory/stock-counts"
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <ClipboardCheck className="h-4 w-4" />
+              {t("nav.stockCounts") || "Stock Opname"}
+            </Link>
+            <motion.button
+              onClick={() => setIsAddModalOpen(true)}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
+            >
+              <Package className="h-4 w-4" />
+              {t("inventory.addStock")}
+            </motion.button>
+          </div>
+        )}
       </div>
 
       {/* Search Section */}
@@ -392,7 +312,6 @@ export default function InventoryPage() {
                 </tr>
               ) : (
                 inventoryItems.map((item, index) => {
-                  const expiryStatus = getExpiryStatus(item.expiry_date);
                   const expiryDate = new Date(item.expiry_date);
                   const formattedDate = expiryDate.toLocaleDateString("id-ID", {
                     year: "numeric",
@@ -452,16 +371,26 @@ export default function InventoryPage() {
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        {getExpiryBadge(item.expiry_date)}
+                        {getExpiryBadge(item)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                         <div className="flex items-center gap-3">
-                          <button className="text-blue-600 hover:text-blue-900 hover:underline">
-                            Update
-                          </button>
-                          <button className="text-gray-600 hover:text-gray-900 hover:underline">
-                            History
-                          </button>
+                          {canAdjustInventory && (
+                            <button
+                              onClick={() => setAdjustingItem(item)}
+                              className="text-blue-600 hover:text-blue-900 hover:underline"
+                            >
+                              {t("adjustments.adjust") || "Adjust"}
+                            </button>
+                          )}
+                          {item.product?.id && (
+                            <Link
+                              href={`/dashboard/inventory/movements/${item.product.id}`}
+                              className="text-gray-600 hover:text-gray-900 hover:underline"
+                            >
+                              {t("movements.history") || "History"}
+                            </Link>
+                          )}
                         </div>
                       </td>
                     </motion.tr>
@@ -489,6 +418,8 @@ export default function InventoryPage() {
         onAddInventory={handleAddInventory}
         onBulkAdd={handleBulkAdd}
       />
+
+      <AdjustStockModal item={adjustingItem} onClose={() => setAdjustingItem(null)} onAdjusted={handleAdjusted} />
     </div>
   );
 }
@@ -0,0 +1,372 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams } from "next/navigation";
+import { motion, AnimatePresence } from "framer-motion";
+import { PackageCheck, Send, X, XCircle } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { api, getErrorMessage, type PurchaseOrder } from "@/lib/api";
+import {
+  canReceive,
+  createReceiveLines,
+  getOutstandingQuantity,
+  getPurchaseOrderStatus,
+  validateReceive,
+  type ReceiveLine,
+} from "@/lib/purchasing";
+
+const formatDate = (dateString?: string | null) =>
+  dateString
+    ? new Date(dateString).toLocaleDateString("id-ID", { year: "numeric", month: "short", day: "numeric" })
+    : "-";
+
+export default function PurchaseOrderDetailPage() {
+  const { t } = useLanguage();
+  const params = useParams();
+  const orderId = params.id as string;
+  const [order, setOrder] = useState<PurchaseOrder | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [isReceiveOpen, setIsReceiveOpen] = useState(false);
+  const [receiveLines, setReceiveLines] = useState<ReceiveLine[]>([]);
+  const [receiveError, setReceiveError] = useState("");
+
+  const loadOrder = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setOrder(await api.purchaseOrders.get(orderId));
+    } catch (err) {
+      console.error("Error fetching purchase order:", err);
+      setError(getErrorMessage(err, "An error occurred while loading the purchase order"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    if (orderId) {
+      loadOrder();
+    }
+  }, [orderId, loadOrder]);
+
+  const handleSubmitOrder = async () => {
+    if (!order) return;
+    try {
+      setIsUpdating(true);
+      setOrder(await api.purchaseOrders.submit(order.id));
+    } catch (err) {
+      alert(getErrorMessage(err, t("purchaseOrders.failedToSubmit") || "Failed to submit purchase order"));
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleCancelOrder = async () => {
+    if (!order) return;
+    if (!confirm(t("purchaseOrders.confirmCancel") || "Cancel this purchase order?")) return;
+    try {
+      setIsUpdating(true);
+      setOrder(await api.purchaseOrders.cancel(order.id));
+    } catch (err) {
+      alert(getErrorMessage(err, t("purchaseOrders.failedToCancel") || "Failed to cancel purchase order"));
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleOpenReceive = () => {
+    if (!order) return;
+    setReceiveLines(createReceiveLines(order));
+    setReceiveError("");
+    setIsReceiveOpen(true);
+  };
+
+  const handleReceiveLineChange = (lineId: string, field: keyof Omit<ReceiveLine, "lineId">, value: string) => {
+    setReceiveLines((prev) => prev.map((line) => (line.lineId === lineId ? { ...line, [field]: value } : line)));
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+    const validationError = validateReceive(order, receiveLines, t);
+    if (validationError) {
+      setReceiveError(validationError);
+      return;
+    }
+
+    try {
+      setIsUpdating(true);
+      setReceiveError("");
+      const updated = await api.purchaseOrders.receive(order.id, {
+        items: receiveLines
+          .filter((line) => (parseInt(line.quantity) || 0) > 0)
+          .map((line) => ({
+            purchase_order_item_id: line.lineId,
+            quantity: parseInt(line.quantity),
+            expiry_date: line.expiryDate,
+            location: line.location.trim(),
+          })),
+      });
+      setOrder(updated);
+      setIsReceiveOpen(false);
+    } catch (err) {
+      setReceiveError(getErrorMessage(err, t("purchaseOrders.failedToReceive") || "Failed to receive goods"));
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  if (isLoading && !order) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+        {error || t("purchaseOrders.notFound") || "Purchase order not found"}
+      </div>
+    );
+  }
+
+  const status = getPurchaseOrderStatus(order.status);
+  const isOpen = order.status === "draft" || order.status === "ordered";
+  const productName = (lineId: string) => order.items.find((line) => line.id === lineId)?.product.name || "-";
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">{order.po_number}</h1>
+          <div className="flex items-center gap-3 mt-2 text-sm text-gray-500">
+            <span className={`px-2.5 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${status.style}`}>
+              {t(status.translationKey) || status.label}
+            </span>
+            <span>{order.supplier?.name}</span>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {order.status === "draft" && (
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={handleSubmitOrder}
+              disabled={isUpdating}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm disabled:opacity-50"
+            >
+              <Send className="h-4 w-4" />
+              {t("purchaseOrders.submit") || "Submit to Supplier"}
+            </motion.button>
+          )}
+          {canReceive(order) && (
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={handleOpenReceive}
+              disabled={isUpdating}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors shadow-sm disabled:opacity-50"
+            >
+              <PackageCheck className="h-4 w-4" />
+              {t("purchaseOrders.receive") || "Receive Goods"}
+            </motion.button>
+          )}
+          {isOpen && (
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={handleCancelOrder}
+              disabled={isUpdating}
+              className="flex items-center gap-2 px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+            >
+              <XCircle className="h-4 w-4" />
+              {t("purchaseOrders.cancelOrder") || "Cancel Order"}
+            </motion.button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-500">{t("purchaseOrders.totalCost") || "Total Cost"}</p>
+          <p className="text-xl font-bold text-gray-900">
+            Rp {(parseFloat(order.total_cost) || 0).toLocaleString("id-ID")}
+          </p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-500">{t("purchaseOrders.orderedAt") || "Ordered"}</p>
+          <p className="text-xl font-bold text-gray-900">{formatDate(order.ordered_at)}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-500">{t("purchaseOrders.expected") || "Expected"}</p>
+          <p className="text-xl font-bold text-gray-900">{formatDate(order.expected_at)}</p>
+        </div>
+      </div>
+
+      {order.notes && (
+        <div className="bg-white rounded-lg shadow p-4 mb-6 text-sm text-gray-700 whitespace-pre-line">{order.notes}</div>
+      )}
+
+      {/* Lines */}
+      <div className="bg-white rounded-lg shadow overflow-hidden mb-6">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("orders.item") || "Item"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("purchaseOrders.quantity") || "Quantity"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("purchaseOrders.received") || "Received"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("purchaseOrders.outstanding") || "Outstanding"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("purchaseOrders.unitCost") || "Unit Cost"}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {order.items.map((line) => (
+                <tr key={line.id}>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {line.product.name}
+                    {line.product.sku && <div className="text-xs text-gray-500">{line.product.sku}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm text-gray-900">{line.quantity}</td>
+                  <td className="px-6 py-4 text-right text-sm text-gray-900">{line.received_quantity}</td>
+                  <td className="px-6 py-4 text-right text-sm font-semibold text-gray-900">
+                    {getOutstandingQuantity(line)}
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm text-gray-900">
+                    Rp {(parseFloat(line.unit_cost) || 0).toLocaleString("id-ID")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Receipts */}
+      {order.receipts && order.receipts.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">{t("purchaseOrders.receipts") || "Receipts"}</h2>
+          <div className="space-y-4">
+            {order.receipts.map((receipt) => (
+              <div key={receipt.id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex justify-between text-sm text-gray-500 mb-2">
+                  <span>{formatDate(receipt.received_at)}</span>
+                  <span>{receipt.received_by?.name}</span>
+                </div>
+                <ul className="text-sm text-gray-700 space-y-1">
+                  {receipt.items.map((item) => (
+                    <li key={item.purchase_order_item_id} className="flex justify-between gap-4">
+                      <span>
+                        {productName(item.purchase_order_item_id)} × {item.quantity}
+                      </span>
+                      <span className="text-gray-500">
+                        {item.location} · {t("orders.batchExpires") || "exp"} {formatDate(item.expiry_date)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Receive Modal */}
+      <AnimatePresence>
+        {isReceiveOpen && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white rounded-lg shadow-xl max-w-3xl w-full p-6 max-h-[90vh] overflow-y-auto"
+            >
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-gray-900">{t("purchaseOrders.receive") || "Receive Goods"}</h2>
+                <button onClick={() => setIsReceiveOpen(false)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+
+              <form onSubmit={handleReceive} className="space-y-4">
+                {receiveError && (
+                  <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{receiveError}</div>
+                )}
+
+                {receiveLines.map((line) => {
+                  const orderLine = order.items.find((item) => item.id === line.lineId);
+                  if (!orderLine || getOutstandingQuantity(orderLine) === 0) return null;
+                  return (
+                    <div key={line.lineId} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex justify-between text-sm mb-3">
+                        <span className="font-medium text-gray-900">{orderLine.product.name}</span>
+                        <span className="text-gray-500">
+                          {t("purchaseOrders.outstanding") || "Outstanding"}: {getOutstandingQuantity(orderLine)}
+                        </span>
+                      </div>
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        <input
+                          type="number"
+                          min="0"
+                          max={getOutstandingQuantity(orderLine)}
+                          value={line.quantity}
+                          onChange={(e) => handleReceiveLineChange(line.lineId, "quantity", e.target.value)}
+                          placeholder={t("purchaseOrders.quantity") || "Quantity"}
+                          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <input
+                          type="date"
+                          value={line.expiryDate}
+                          onChange={(e) => handleReceiveLineChange(line.lineId, "expiryDate", e.target.value)}
+                          title={t("inventory.expiryDate") || "Expiry Date"}
+                          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <input
+                          type="text"
+                          value={line.location}
+                          onChange={(e) => handleReceiveLineChange(line.lineId, "location", e.target.value)}
+                          placeholder={t("inventory.location") || "Location"}
+                          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+
+                <div className="flex justify-end gap-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setIsReceiveOpen(false)}
+                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    {t("common.cancel") || "Cancel"}
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isUpdating}
+                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                  >
+                    {isUpdating ? t("common.saving") || "Saving..." : t("purchaseOrders.confirmReceive") || "Receive into Stock"}
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import { Search, Trash2, Save, Send, Truck, Calendar } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/useAuth";
+import { api, getErrorMessage, type Product, type Supplier } from "@/lib/api";
+import { getDraftTotal, validateDraft, type DraftLine } from "@/lib/purchasing";
+
+export default function CreatePurchaseOrderPage() {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const router = useRouter();
+  const storeId = user?.store?.id;
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [supplierId, setSupplierId] = useState("");
+  const [expectedAt, setExpectedAt] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [productQuery, setProductQuery] = useState("");
+  const [productMatches, setProductMatches] = useState<Product[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const fetchSuppliers = async () => {
+      try {
+        const result = await api.suppliers.list({ limit: 100 });
+        setSuppliers(result.data);
+      } catch (err) {
+        console.error("Error fetching suppliers:", err);
+        setError(getErrorMessage(err, "An error occurred while loading suppliers"));
+      }
+    };
+
+    fetchSuppliers();
+  }, []);
+
+  // Look up products as the name is typed
+  useEffect(() => {
+    const query = productQuery.trim();
+    if (query.length < 2) {
+      setProductMatches([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await api.products.list({ name: query, limit: 8, store_id: storeId });
+        if (!cancelled) setProductMatches(result.data);
+      } catch {
+        if (!cancelled) setProductMatches([]);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [productQuery, storeId]);
+
+  const handleAddProduct = (product: Product) => {
+    setLines((prev) =>
+      prev.some((line) => line.productId === product.id)
+        ? prev
+        : [
+            ...prev,
+            {
+              productId: product.id,
+              name: product.name,
+              sku: product.sku || "",
+              quantity: "1",
+              unitCost: String(product.purchase_price ?? ""),
+            },
+          ]
+    );
+    setProductQuery("");
+    setProductMatches([]);
+  };
+
+  const handleLineChange = (productId: string, field: "quantity" | "unitCost", value: string) => {
+    setLines((prev) => prev.map((line) => (line.productId === productId ? { ...line, [field]: value } : line)));
+  };
+
+  const handleRemoveLine = (productId: string) => {
+    setLines((prev) => prev.filter((line) => line.productId !== productId));
+  };
+
+  const handleSave = async (submitAfterSave: boolean) => {
+    const validationError = validateDraft(supplierId, lines, t);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError("");
+      const order = await api.purchaseOrders.create({
+        supplier_id: supplierId,
+        ...(storeId && { store_id: storeId }),
+        ...(expectedAt && { expected_at: expectedAt }),
+        ...(notes.trim() && { notes: notes.trim() }),
+        items: lines.map((line) => ({
+          product_id: line.productId,
+          quantity: parseInt(line.quantity),
+          unit_cost: parseFloat(line.unitCost),
+        })),
+      });
+      if (submitAfterSave) {
+        await api.purchaseOrders.submit(order.id);
+      }
+      router.push(`/dashboard/inventory/purchase-orders/${order.id}`);
+    } catch (err) {
+      setError(getErrorMessage(err, t("purchaseOrders.failedToSave") || "Failed to save purchase order"));
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ duration: 0.3 }}>
+      <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-6">
+        {t("purchaseOrders.newOrder") || "New Purchase Order"}
+      </h1>
+
+      <div className="bg-white rounded-lg shadow p-6 space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label htmlFor="supplier_id" className="block text-sm font-medium text-gray-700 mb-2">
+              {t("purchaseOrders.supplier") || "Supplier"} <span className="text-red-500">*</span>
+            </label>
+            <div className="relative">
+              <Truck className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400 z-10" />
+              <select
+                id="supplier_id"
+                value={supplierId}
+                onChange={(e) => setSupplierId(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none bg-white"
+              >
+                <option value="">{t("purchaseOrders.selectSupplier") || "Select a supplier"}</option>
+                {suppliers.map((supplier) => (
+                  <option key={supplier.id} value={supplier.id}>
+                    {supplier.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="expected_at" className="block text-sm font-medium text-gray-700 mb-2">
+              {t("purchaseOrders.expected") || "Expected"}
+            </label>
+            <div className="relative">
+              <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+              <input
+                type="date"
+                id="expected_at"
+                value={expectedAt}
+                onChange={(e) => setExpectedAt(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-2">
+            {t("suppliers.notes") || "Notes"}
+          </label>
+          <textarea
+            id="notes"
+            rows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        {/* Product search */}
+        <div className="relative">
+          <label htmlFor="product_search" className="block text-sm font-medium text-gray-700 mb-2">
+            {t("purchaseOrders.addProduct") || "Add Product"}
+          </label>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              type="text"
+              id="product_search"
+              value={productQuery}
+              onChange={(e) => setProductQuery(e.target.value)}
+              placeholder={t("purchaseOrders.searchProduct") || "Search products by name..."}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          {productMatches.length > 0 && (
+            <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-64 overflow-y-auto">
+              {productMatches.map((product) => (
+                <button
+                  key={product.id}
+                  type="button"
+                  onClick={() => handleAddProduct(product)}
+                  className="w-full text-left px-4 py-2 hover:bg-gray-50 flex justify-between text-sm"
+                >
+                  <span className="text-gray-900">
+                    {product.name}
+                    {product.sku && <span className="text-gray-500 ml-2">{product.sku}</span>}
+                  </span>
+                  <span className="text-gray-500">Rp {(product.purchase_price || 0).toLocaleString("id-ID")}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Lines */}
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("orders.item") || "Item"}
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("purchaseOrders.quantity") || "Quantity"}
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("purchaseOrders.unitCost") || "Unit Cost"} (Rp)
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("purchaseOrders.lineTotal") || "Line Total"}
+                </th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {lines.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-sm text-gray-500">
+                    {t("purchaseOrders.noLines") || "Search for products to add them to this order"}
+                  </td>
+                </tr>
+              ) : (
+                lines.map((line) => (
+                  <tr key={line.productId}>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      {line.name}
+                      {line.sku && <div className="text-xs text-gray-500">{line.sku}</div>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="number"
+                        min="1"
+                        value={line.quantity}
+                        onChange={(e) => handleLineChange(line.productId, "quantity", e.target.value)}
+                        className="w-24 px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={line.unitCost}
+                        onChange={(e) => handleLineChange(line.productId, "unitCost", e.target.value)}
+                        className="w-32 px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-900">
+                      Rp {((parseFloat(line.quantity) || 0) * (parseFloat(line.unitCost) || 0)).toLocaleString("id-ID")}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveLine(line.productId)}
+                        className="text-red-600 hover:text-red-800"
+                        title={t("common.delete") || "Delete"}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+            {lines.length > 0 && (
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td colSpan={3} className="px-4 py-3 text-right text-sm font-semibold text-gray-700">
+                    {t("purchaseOrders.totalCost") || "Total Cost"}
+                  </td>
+                  <td className="px-4 py-3 text-right text-sm font-bold text-gray-900">
+                    Rp {getDraftTotal(lines).toLocaleString("id-ID")}
+                  </td>
+                  <td></td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+
+        <div className="flex flex-col sm:flex-row justify-end gap-4 pt-4">
+          <motion.button
+            type="button"
+            onClick={() => router.back()}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            {t("common.cancel") || "Cancel"}
+          </motion.button>
+          <motion.button
+            type="button"
+            onClick={() => handleSave(false)}
+            disabled={isSubmitting}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            className="px-6 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            <Save className="h-4 w-4" />
+            {t("purchaseOrders.saveDraft") || "Save Draft"}
+          </motion.button>
+          <motion.button
+            type="button"
+            onClick={() => handleSave(true)}
+            disabled={isSubmitting}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {isSubmitting ? (
+              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+            ) : (
+              <Send className="h-4 w-4" />
+            )}
+            {t("purchaseOrders.saveAndSubmit") || "Save & Submit"}
+          </motion.button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { Plus, Search, Eye } from "lucide-react";
+import Pagination from "@/components/admin/Pagination";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/useAuth";
+import { api, type PurchaseOrder, type PurchaseOrderStatus } from "@/lib/api";
+import { PURCHASE_ORDER_STATUSES, getPurchaseOrderStatus } from "@/lib/purchasing";
+
+const formatDate = (dateString?: string | null) =>
+  dateString
+    ? new Date(dateString).toLocaleDateString("id-ID", { year: "numeric", month: "short", day: "numeric" })
+    : "-";
+
+export default function PurchaseOrdersPage() {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const storeId = user?.store?.id;
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | "">("");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalItems, setTotalItems] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const itemsPerPage = 10;
+
+  useEffect(() => {
+    const fetchOrders = async () => {
+      try {
+        setIsLoading(true);
+        const result = await api.purchaseOrders.list({
+          limit: itemsPerPage,
+          offset: (currentPage - 1) * itemsPerPage,
+          search: searchQuery,
+          store_id: storeId,
+          ...(statusFilter && { status: statusFilter }),
+        });
+        setOrders(result.data);
+        setTotalItems(result.total);
+      } catch (error) {
+        console.error("Error fetching purchase orders:", error);
+        setOrders([]);
+        setTotalItems(0);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchOrders();
+  }, [currentPage, searchQuery, statusFilter, storeId]);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [searchQuery, statusFilter]);
+
+  const totalPages = Math.ceil(totalItems / itemsPerPage);
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">
+          {t("purchaseOrders.title") || "Purchase Orders"}
+        </h1>
+        <Link href="/dashboard/inventory/purchase-orders/create">
+          <motion.span
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
+          >
+            <Plus className="h-4 w-4" />
+            {t("purchaseOrders.newOrder") || "New Purchase Order"}
+          </motion.span>
+        </Link>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              type="text"
+              placeholder={t("purchaseOrders.searchPlaceholder") || "Search by PO number or supplier..."}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as PurchaseOrderStatus | "")}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+          >
+            <option value="">{t("purchaseOrders.allStatuses") || "All statuses"}</option>
+            {PURCHASE_ORDER_STATUSES.map((status) => (
+              <option key={status.value} value={status.value}>
+                {t(status.translationKey) || status.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Purchase Orders Table */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("purchaseOrders.poNumber") || "PO Number"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("purchaseOrders.supplier") || "Supplier"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("orders.items") || "Items"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("purchaseOrders.totalCost") || "Total Cost"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("orders.status") || "Status"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("purchaseOrders.expected") || "Expected"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("common.actions")}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                    <div className="flex items-center justify-center">
+                      <div className="w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mr-3"></div>
+                      {t("common.loading") || "Loading..."}
+                    </div>
+                  </td>
+                </tr>
+              ) : orders.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                    {t("purchaseOrders.noOrders") || "No purchase orders found"}
+                  </td>
+                </tr>
+              ) : (
+                orders.map((order, index) => {
+                  const status = getPurchaseOrderStatus(order.status);
+                  return (
+                    <motion.tr
+                      key={order.id}
+                      initial={{ opacity: 0, x: -20 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      transition={{ delay: index * 0.05 }}
+                      whileHover={{ backgroundColor: "#f9fafb" }}
+                      className="hover:bg-gray-50 transition-colors"
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {order.po_number}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{order.supplier?.name || "-"}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{order.items.length}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900">
+                        Rp {(parseFloat(order.total_cost) || 0).toLocaleString("id-ID")}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`px-2.5 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${status.style}`}
+                        >
+                          {t(status.translationKey) || status.label}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatDate(order.expected_at)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <Link
+                          href={`/dashboard/inventory/purchase-orders/${order.id}`}
+                          className="flex items-center gap-1 text-blue-600 hover:text-blue-900 hover:underline"
+                        >
+                          <Eye className="h-4 w-4" />
+                          {t("common.view") || "View"}
+                        </Link>
+                      </td>
+                    </motion.tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+        {!isLoading && orders.length > 0 && (
+          <Pagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            onPageChange={setCurrentPage}
+            itemsPerPage={itemsPerPage}
+            totalItems={totalItems}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
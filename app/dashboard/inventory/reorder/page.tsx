@@ -0,0 +1,333 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { motion } from "framer-motion";
+import { Download, Printer, PackageCheck } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/useAuth";
+import { isSuperAdmin } from "@/lib/roles";
+import { api, getErrorMessage, type StockLevel, type Store } from "@/lib/api";
+import { downloadCsv, getFileDate } from "@/lib/exports";
+import {
+  COVER_PERIODS,
+  SALES_WINDOWS,
+  getReorderSuggestions,
+  getReorderTotal,
+  toReorderCsvRows,
+  type ReorderLine,
+} from "@/lib/reorder";
+
+export default function ReorderPage() {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const userIsSuperAdmin = isSuperAdmin(user?.role);
+  const [stores, setStores] = useState<Store[]>([]);
+  const [storeId, setStoreId] = useState("");
+  const [windowDays, setWindowDays] = useState(30);
+  const [coverDays, setCoverDays] = useState(14);
+  const [levels, setLevels] = useState<StockLevel[]>([]);
+  // Quantities edited by hand, keyed by product; unticked products are left off the list
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (user?.store?.id) {
+      setStoreId((current) => current || user.store!.id);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!userIsSuperAdmin) return;
+    const fetchStores = async () => {
+      try {
+        const result = await api.stores.list({ limit: 100, offset: 0 });
+        setStores(result.data);
+      } catch (err) {
+        console.error("Error fetching stores:", err);
+      }
+    };
+
+    fetchStores();
+  }, [userIsSuperAdmin]);
+
+  useEffect(() => {
+    const fetchLevels = async () => {
+      try {
+        setIsLoading(true);
+        setError("");
+        setLevels(await api.inventories.stockLevels({ store_id: storeId || undefined, days: windowDays }));
+      } catch (err) {
+        setError(getErrorMessage(err, t("reorder.failedToLoad") || "Failed to load stock levels"));
+        setLevels([]);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchLevels();
+  }, [storeId, windowDays, t]);
+
+  const suggestions = useMemo(
+    () => getReorderSuggestions(levels, windowDays, coverDays),
+    [levels, windowDays, coverDays]
+  );
+
+  // The suggestions change with the settings, so earlier edits no longer apply
+  useEffect(() => {
+    setQuantities({});
+    setExcluded(new Set());
+  }, [suggestions]);
+
+  const lines: ReorderLine[] = suggestions
+    .filter((suggestion) => !excluded.has(suggestion.productId))
+    .map((suggestion) => ({
+      suggestion,
+      quantity: parseInt(quantities[suggestion.productId] ?? String(suggestion.suggestedQuantity)) || 0,
+    }))
+    .filter((line) => line.quantity > 0);
+
+  const toggleProduct = (productId: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(productId)) {
+        next.delete(productId);
+      } else {
+        next.add(productId);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    if (lines.length === 0) {
+      alert(t("reorder.nothingSelected") || "Select at least one product to order");
+      return;
+    }
+    downloadCsv(toReorderCsvRows(lines), `reorder_list_${getFileDate()}.csv`);
+  };
+
+  const handlePrint = () => {
+    if (lines.length === 0) {
+      alert(t("reorder.nothingSelected") || "Select at least one product to order");
+      return;
+    }
+    window.print();
+  };
+
+  const storeName = stores.find((store) => store.id === storeId)?.name || user?.store?.name;
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ duration: 0.3 }}>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">{t("reorder.title") || "Reorder List"}</h1>
+          <p className="text-gray-500 mt-1">
+            {t("reorder.subtitle") || "Products at or heading below their reorder point"}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <motion.button
+            onClick={handleExport}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Download className="h-4 w-4" />
+            {t("movements.exportCsv") || "Export CSV"}
+          </motion.button>
+          <motion.button
+            onClick={handlePrint}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
+          >
+            <Printer className="h-4 w-4" />
+            {t("reorder.print") || "Print"}
+          </motion.button>
+        </div>
+      </div>
+
+      {/* Settings */}
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="flex flex-col md:flex-row gap-4">
+          {userIsSuperAdmin && (
+            <select
+              value={storeId}
+              onChange={(e) => setStoreId(e.target.value)}
+              className="md:w-56 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+            >
+              <option value="">{t("inventory.selectStore") || "Select store"}</option>
+              {stores.map((store) => (
+                <option key={store.id} value={store.id}>
+                  {store.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <div className="flex items-center gap-2">
+            <label htmlFor="sales_window" className="text-sm text-gray-600">
+              {t("reorder.salesWindow") || "Sales over"}
+            </label>
+            <select
+              id="sales_window"
+              value={windowDays}
+              onChange={(e) => setWindowDays(parseInt(e.target.value))}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+            >
+              {SALES_WINDOWS.map((days) => (
+                <option key={days} value={days}>
+                  {days} {t("reorder.days") || "days"}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor="cover_days" className="text-sm text-gray-600">
+              {t("reorder.coverDays") || "Order enough for"}
+            </label>
+            <select
+              id="cover_days"
+              value={coverDays}
+              onChange={(e) => setCoverDays(parseInt(e.target.value))}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+            >
+              {COVER_PERIODS.map((days) => (
+                <option key={days} value={days}>
+                  {days} {t("reorder.days") || "days"}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">{error}</div>}
+
+      {/* Draft purchase list */}
+      <div className="print-area bg-white rounded-lg shadow overflow-hidden">
+        <div className="hidden print:block px-6 pt-6">
+          <h2 className="text-xl font-bold text-gray-900">{t("reorder.title") || "Reorder List"}</h2>
+          <p className="text-sm text-gray-500">
+            {[storeName, new Date().toLocaleDateString("id-ID", { day: "numeric", month: "long", year: "numeric" })]
+              .filter(Boolean)
+              .join(" · ")}
+          </p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 print:hidden"></th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("inventory.name") || "Product Name"}
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("reorder.onHand") || "On Hand"}
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("products.reorderPoint") || "Reorder Point"}
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("reorder.soldPerDay") || "Sold / Day"}
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("reorder.daysOfStock") || "Days Left"}
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("reorder.orderQuantity") || "Order Qty"}
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("reorder.estimatedCost") || "Est. Cost"}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={8} className="px-6 py-8 text-center text-gray-500">
+                    <div className="flex items-center justify-center">
+                      <div className="w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mr-3"></div>
+                      {t("common.loading") || "Loading..."}
+                    </div>
+                  </td>
+                </tr>
+              ) : suggestions.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-6 py-8 text-center text-gray-500">
+                    <PackageCheck className="h-8 w-8 mx-auto mb-2 text-green-500" />
+                    {t("reorder.nothingToReorder") || "Nothing needs reordering right now"}
+                  </td>
+                </tr>
+              ) : (
+                suggestions.map((suggestion) => {
+                  const isIncluded = !excluded.has(suggestion.productId);
+                  const quantity = quantities[suggestion.productId] ?? String(suggestion.suggestedQuantity);
+                  return (
+                    <tr
+                      key={suggestion.productId}
+                      className={isIncluded ? "hover:bg-gray-50 transition-colors" : "opacity-50 print:hidden"}
+                    >
+                      <td className="px-4 py-3 print:hidden">
+                        <input
+                          type="checkbox"
+                          checked={isIncluded}
+                          onChange={() => toggleProduct(suggestion.productId)}
+                          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        {suggestion.name}
+                        {suggestion.sku && <div className="text-xs text-gray-500">{suggestion.sku}</div>}
+                      </td>
+                      <td
+                        className={`px-4 py-3 text-right text-sm font-semibold ${
+                          suggestion.onHand <= 0 ? "text-red-600" : "text-gray-900"
+                        }`}
+                      >
+                        {suggestion.onHand}
+                      </td>
+                      <td className="px-4 py-3 text-right text-sm text-gray-500">{suggestion.reorderPoint ?? "-"}</td>
+                      <td className="px-4 py-3 text-right text-sm text-gray-500">{suggestion.dailySales.toFixed(1)}</td>
+                      <td className="px-4 py-3 text-right text-sm text-gray-500">
+                        {suggestion.daysOfStock == null ? "-" : Math.floor(suggestion.daysOfStock)}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <input
+                          type="number"
+                          min="0"
+                          value={quantity}
+                          disabled={!isIncluded}
+                          onChange={(e) =>
+                            setQuantities((prev) => ({ ...prev, [suggestion.productId]: e.target.value }))
+                          }
+                          className="w-24 px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 print:border-0 print:p-0"
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-right text-sm text-gray-900">
+                        Rp {((parseInt(quantity) || 0) * suggestion.unitCost).toLocaleString("id-ID")}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+            {!isLoading && lines.length > 0 && (
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td colSpan={7} className="px-4 py-3 text-right text-sm font-medium text-gray-700">
+                    {t("reorder.total") || "Total"} ({lines.length} {t("orders.items") || "items"})
+                  </td>
+                  <td className="px-4 py-3 text-right text-sm font-bold text-gray-900">
+                    Rp {getReorderTotal(lines).toLocaleString("id-ID")}
+                  </td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
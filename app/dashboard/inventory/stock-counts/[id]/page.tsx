@@ -0,0 +1,370 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useParams } from "next/navigation";
+import { motion } from "framer-motion";
+import { QrCode, Search, Save, ClipboardList, CheckCircle, XCircle, ArrowLeft } from "lucide-react";
+import QRScanner from "@/components/admin/QRScanner";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { api, getErrorMessage, type StockCount } from "@/lib/api";
+import {
+  addCountBatches,
+  getCountedLines,
+  getStockCountStatus,
+  getVarianceReport,
+  toCountLines,
+  type CountLine,
+} from "@/lib/adjustments";
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("id-ID", { year: "numeric", month: "short", day: "numeric" });
+
+const formatVariance = (variance: number) => (variance > 0 ? `+${variance}` : String(variance));
+
+export default function StockCountPage() {
+  const { t } = useLanguage();
+  const params = useParams();
+  const countId = params.id as string;
+  const [count, setCount] = useState<StockCount | null>(null);
+  const [lines, setLines] = useState<CountLine[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [skuInput, setSkuInput] = useState("");
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [isQRScannerOpen, setIsQRScannerOpen] = useState(false);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadCount = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await api.stockCounts.get(countId);
+      setCount(data);
+      setLines(toCountLines(data.lines));
+    } catch (err) {
+      console.error("Error fetching stock count:", err);
+      setError(getErrorMessage(err, "An error occurred while loading the stock count"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [countId]);
+
+  useEffect(() => {
+    if (countId) {
+      loadCount();
+    }
+  }, [countId, loadCount]);
+
+  const report = useMemo(() => getVarianceReport(lines), [lines]);
+  const isOpen = count?.status === "open";
+
+  const handleLookupSku = async (sku: string) => {
+    const query = sku.trim();
+    if (!query) return;
+
+    try {
+      setIsLookingUp(true);
+      const result = await api.inventories.list({ search: query, limit: 50 });
+      const batches = result.data.filter((item) => item.product?.sku?.toLowerCase() === query.toLowerCase());
+      if (batches.length === 0) {
+        alert((t("stockCounts.skuNotFound") || "No stock batches found for SKU {{sku}}").replace("{{sku}}", query));
+        return;
+      }
+      setLines((prev) => addCountBatches(prev, batches));
+      setSkuInput("");
+    } catch (err) {
+      alert(getErrorMessage(err, t("stockCounts.failedToLookup") || "Failed to look up SKU"));
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const handleQRScan = (decodedText: string) => {
+    setIsQRScannerOpen(false);
+    handleLookupSku(decodedText);
+  };
+
+  const handleCountChange = (inventoryId: string, value: string) => {
+    setLines((prev) => prev.map((line) => (line.inventoryId === inventoryId ? { ...line, counted: value } : line)));
+  };
+
+  // Saved counts come back from the server; scanned batches that are not counted yet stay on screen
+  const saveProgress = async () => {
+    const updated = await api.stockCounts.saveLines(countId, { lines: getCountedLines(lines) });
+    const saved = toCountLines(updated.lines);
+    setCount(updated);
+    setLines([...saved, ...lines.filter((line) => !saved.some((s) => s.inventoryId === line.inventoryId))]);
+    return updated;
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await saveProgress();
+    } catch (err) {
+      alert(getErrorMessage(err, t("stockCounts.failedToSave") || "Failed to save counts"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!confirm(t("stockCounts.confirmCommit") || "Post adjustments for every variance? This cannot be undone.")) return;
+    try {
+      setIsSaving(true);
+      await saveProgress();
+      const committed = await api.stockCounts.commit(countId);
+      setCount(committed);
+      setLines(toCountLines(committed.lines));
+    } catch (err) {
+      alert(getErrorMessage(err, t("stockCounts.failedToCommit") || "Failed to commit adjustments"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!confirm(t("stockCounts.confirmCancel") || "Discard this stock opname? No stock will be changed.")) return;
+    try {
+      setIsSaving(true);
+      setCount(await api.stockCounts.cancel(countId));
+    } catch (err) {
+      alert(getErrorMessage(err, t("stockCounts.failedToCancel") || "Failed to cancel stock opname"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading && !count) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!count) {
+    return (
+      <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+        {error || t("stockCounts.notFound") || "Stock count not found"}
+      </div>
+    );
+  }
+
+  const status = getStockCountStatus(count.status);
+  const showReport = isReviewing || !isOpen;
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">{count.count_number}</h1>
+          <span
+            className={`mt-2 px-2.5 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${status.style}`}
+          >
+            {t(status.translationKey) || status.label}
+          </span>
+        </div>
+        {isOpen && (
+          <div className="flex flex-wrap gap-2">
+            {isReviewing ? (
+              <>
+                <button
+                  onClick={() => setIsReviewing(false)}
+                  disabled={isSaving}
+                  className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  <ArrowLeft className="h-4 w-4" />
+                  {t("stockCounts.backToCounting") || "Back to Counting"}
+                </button>
+                <motion.button
+                  onClick={handleCommit}
+                  disabled={isSaving || report.rows.length + report.matched === 0}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <CheckCircle className="h-4 w-4" />
+                  {t("stockCounts.commit") || "Commit Adjustments"}
+                </motion.button>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={handleCancel}
+                  disabled={isSaving}
+                  className="flex items-center gap-2 px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                >
+                  <XCircle className="h-4 w-4" />
+                  {t("common.cancel") || "Cancel"}
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving}
+                  className="flex items-center gap-2 px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50"
+                >
+                  <Save className="h-4 w-4" />
+                  {t("stockCounts.saveProgress") || "Save Progress"}
+                </button>
+                <motion.button
+                  onClick={() => setIsReviewing(true)}
+                  disabled={isSaving}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm disabled:opacity-50"
+                >
+                  <ClipboardList className="h-4 w-4" />
+                  {t("stockCounts.reviewVariance") || "Review Variance"}
+                </motion.button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Scan bar */}
+      {isOpen && !isReviewing && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleLookupSku(skuInput);
+            }}
+            className="flex flex-col sm:flex-row gap-4"
+          >
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+              <input
+                type="text"
+                value={skuInput}
+                onChange={(e) => setSkuInput(e.target.value)}
+                placeholder={t("stockCounts.skuPlaceholder") || "Scan or type a SKU..."}
+                autoFocus
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => setIsQRScannerOpen(true)}
+              className="flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <QrCode className="h-4 w-4" />
+              {t("stockCounts.scan") || "Scan"}
+            </button>
+            <button
+              type="submit"
+              disabled={isLookingUp}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {t("stockCounts.addSku") || "Add"}
+            </button>
+          </form>
+        </div>
+      )}
+
+      {/* Variance summary */}
+      {showReport && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-500">{t("stockCounts.matched") || "Matched"}</p>
+            <p className="text-xl font-bold text-gray-900">{report.matched}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-500">{t("stockCounts.shortage") || "Shortage"}</p>
+            <p className="text-xl font-bold text-red-600">{report.shortage}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-500">{t("stockCounts.surplus") || "Surplus"}</p>
+            <p className="text-xl font-bold text-green-600">+{report.surplus}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-500">{t("stockCounts.uncounted") || "Not Counted"}</p>
+            <p className="text-xl font-bold text-gray-900">{report.uncounted}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Lines */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("inventory.name") || "Product Name"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("inventory.location") || "Location"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("inventory.expiryDate") || "Expiry Date"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("stockCounts.system") || "System"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("stockCounts.counted") || "Counted"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("stockCounts.variance") || "Variance"}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {(showReport ? report.rows : lines).length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    {showReport
+                      ? t("stockCounts.noVariance") || "No variances: every counted batch matches the system"
+                      : t("stockCounts.noLines") || "Scan a SKU to start counting its batches"}
+                  </td>
+                </tr>
+              ) : (
+                (showReport ? report.rows : lines).map((line) => {
+                  const variance = line.counted.trim() === "" ? null : (parseInt(line.counted) || 0) - line.systemQuantity;
+                  return (
+                    <tr key={line.inventoryId}>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {line.name}
+                        {line.sku && <div className="text-xs text-gray-500">{line.sku}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{line.location}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(line.expiryDate)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">{line.systemQuantity}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                        {isOpen && !isReviewing ? (
+                          <input
+                            type="number"
+                            min="0"
+                            value={line.counted}
+                            onChange={(e) => handleCountChange(line.inventoryId, e.target.value)}
+                            className="w-24 px-3 py-1.5 border border-gray-300 rounded-lg text-right focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        ) : (
+                          line.counted || "-"
+                        )}
+                      </td>
+                      <td
+                        className={`px-6 py-4 whitespace-nowrap text-right text-sm font-semibold ${
+                          variance === null || variance === 0
+                            ? "text-gray-500"
+                            : variance < 0
+                              ? "text-red-600"
+                              : "text-green-600"
+                        }`}
+                      >
+                        {variance === null ? "-" : formatVariance(variance)}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <QRScanner isOpen={isQRScannerOpen} onClose={() => setIsQRScannerOpen(false)} onScanSuccess={handleQRScan} />
+    </div>
+  );
+}
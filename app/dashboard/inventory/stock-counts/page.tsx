@@ -0,0 +1,183 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import { ClipboardCheck, Eye } from "lucide-react";
+import Pagination from "@/components/admin/Pagination";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/useAuth";
+import { api, getErrorMessage, type StockCount } from "@/lib/api";
+import { getStockCountStatus } from "@/lib/adjustments";
+
+const formatDate = (dateString?: string | null) =>
+  dateString
+    ? new Date(dateString).toLocaleDateString("id-ID", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : "-";
+
+export default function StockCountsPage() {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const router = useRouter();
+  const storeId = user?.store?.id;
+  const [counts, setCounts] = useState<StockCount[]>([]);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalItems, setTotalItems] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isStarting, setIsStarting] = useState(false);
+  const itemsPerPage = 10;
+
+  useEffect(() => {
+    const fetchCounts = async () => {
+      try {
+        setIsLoading(true);
+        const result = await api.stockCounts.list({
+          limit: itemsPerPage,
+          offset: (currentPage - 1) * itemsPerPage,
+          store_id: storeId,
+        });
+        setCounts(result.data);
+        setTotalItems(result.total);
+      } catch (error) {
+        console.error("Error fetching stock counts:", error);
+        setCounts([]);
+        setTotalItems(0);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchCounts();
+  }, [currentPage, storeId]);
+
+  const handleStartCount = async () => {
+    try {
+      setIsStarting(true);
+      const count = await api.stockCounts.create({ ...(storeId && { store_id: storeId }) });
+      router.push(`/dashboard/inventory/stock-counts/${count.id}`);
+    } catch (err) {
+      alert(getErrorMessage(err, t("stockCounts.failedToStart") || "Failed to start stock opname"));
+      setIsStarting(false);
+    }
+  };
+
+  const totalPages = Math.ceil(totalItems / itemsPerPage);
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">{t("stockCounts.title") || "Stock Opname"}</h1>
+        <motion.button
+          onClick={handleStartCount}
+          disabled={isStarting}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm disabled:opacity-50"
+        >
+          <ClipboardCheck className="h-4 w-4" />
+          {t("stockCounts.start") || "Start Stock Opname"}
+        </motion.button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("stockCounts.countNumber") || "Count"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("common.createdAt") || "Created At"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("common.createdBy") || "Created By"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("stockCounts.batchesCounted") || "Batches Counted"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("orders.status") || "Status"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("common.actions")}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    <div className="flex items-center justify-center">
+                      <div className="w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mr-3"></div>
+                      {t("common.loading") || "Loading..."}
+                    </div>
+                  </td>
+                </tr>
+              ) : counts.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    {t("stockCounts.noCounts") || "No stock opname sessions yet"}
+                  </td>
+                </tr>
+              ) : (
+                counts.map((count, index) => {
+                  const status = getStockCountStatus(count.status);
+                  return (
+                    <motion.tr
+                      key={count.id}
+                      initial={{ opacity: 0, x: -20 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      transition={{ delay: index * 0.05 }}
+                      whileHover={{ backgroundColor: "#f9fafb" }}
+                      className="hover:bg-gray-50 transition-colors"
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {count.count_number}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(count.created_at)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{count.created_by?.name || "-"}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{count.lines.length}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`px-2.5 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${status.style}`}
+                        >
+                          {t(status.translationKey) || status.label}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <Link
+                          href={`/dashboard/inventory/stock-counts/${count.id}`}
+                          className="flex items-center gap-1 text-blue-600 hover:text-blue-900 hover:underline"
+                        >
+                          <Eye className="h-4 w-4" />
+                          {count.status === "open" ? t("stockCounts.continue") || "Continue" : t("common.view") || "View"}
+                        </Link>
+                      </td>
+                    </motion.tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+        {!isLoading && counts.length > 0 && (
+          <Pagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            onPageChange={setCurrentPage}
+            itemsPerPage={itemsPerPage}
+            totalItems={totalItems}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { motion } from "framer-motion";
+import { Plus, Edit, Trash2, Search, X } from "lucide-react";
+import Pagination from "@/components/admin/Pagination";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { api, getErrorMessage, type Supplier } from "@/lib/api";
+
+const emptyForm = { name: "", contact_name: "", phone: "", email: "", address: "", notes: "" };
+
+export default function SuppliersPage() {
+  const { t } = useLanguage();
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalItems, setTotalItems] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [error, setError] = useState("");
+  const itemsPerPage = 10;
+
+  const loadSuppliers = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await api.suppliers.list({
+        limit: itemsPerPage,
+        offset: (currentPage - 1) * itemsPerPage,
+        search: searchQuery,
+      });
+      setSuppliers(result.data);
+      setTotalItems(result.total);
+    } catch (error) {
+      console.error("Error fetching suppliers:", error);
+      setSuppliers([]);
+      setTotalItems(0);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentPage, searchQuery]);
+
+  useEffect(() => {
+    loadSuppliers();
+  }, [loadSuppliers]);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [searchQuery]);
+
+  const handleOpenModal = (supplier?: Supplier) => {
+    setEditingSupplier(supplier || null);
+    setFormData(
+      supplier
+        ? {
+            name: supplier.name,
+            contact_name: supplier.contact_name || "",
+            phone: supplier.phone || "",
+            email: supplier.email || "",
+            address: supplier.address || "",
+            notes: supplier.notes || "",
+          }
+        : emptyForm
+    );
+    setError("");
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingSupplier(null);
+    setFormData(emptyForm);
+    setError("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!formData.name.trim()) {
+      setError(t("suppliers.nameRequired") || "Supplier name is required");
+      return;
+    }
+
+    const input = {
+      name: formData.name.trim(),
+      contact_name: formData.contact_name.trim() || undefined,
+      phone: formData.phone.trim() || undefined,
+      email: formData.email.trim() || undefined,
+      address: formData.address.trim() || undefined,
+      notes: formData.notes.trim() || undefined,
+    };
+
+    try {
+      if (editingSupplier) {
+        await api.suppliers.update(editingSupplier.id, input);
+      } else {
+        await api.suppliers.create(input);
+      }
+      await loadSuppliers();
+      handleCloseModal();
+    } catch (err) {
+      setError(getErrorMessage(err, t("suppliers.failedToSave") || "Failed to save supplier"));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (window.confirm(t("suppliers.confirmDelete") || "Are you sure you want to delete this supplier?")) {
+      try {
+        await api.suppliers.remove(id);
+        await loadSuppliers();
+      } catch (err) {
+        window.alert(getErrorMessage(err, t("suppliers.failedToDelete") || "Failed to delete supplier"));
+      }
+    }
+  };
+
+  const totalPages = Math.ceil(totalItems / itemsPerPage);
+
+  const textFields: { key: keyof typeof emptyForm; label: string; type?: string }[] = [
+    { key: "contact_name", label: t("suppliers.contactName") || "Contact Person" },
+    { key: "phone", label: t("suppliers.phone") || "Phone", type: "tel" },
+    { key: "email", label: t("suppliers.email") || "Email", type: "email" },
+    { key: "address", label: t("suppliers.address") || "Address" },
+  ];
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">{t("suppliers.title") || "Suppliers"}</h1>
+        <motion.button
+          onClick={() => handleOpenModal()}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
+        >
+          <Plus className="h-4 w-4" />
+          {t("suppliers.addSupplier") || "Add Supplier"}
+        </motion.button>
+      </div>
+
+      {/* Search */}
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+          <input
+            type="text"
+            placeholder={t("suppliers.searchPlaceholder") || "Search suppliers by name, contact or phone..."}
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      {/* Suppliers Table */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("suppliers.name") || "Name"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("suppliers.contactName") || "Contact Person"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("suppliers.phone") || "Phone"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("suppliers.address") || "Address"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("common.actions")}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                    <div className="flex items-center justify-center">
+                      <div className="w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mr-3"></div>
+                      {t("common.loading") || "Loading..."}
+                    </div>
+                  </td>
+                </tr>
+              ) : suppliers.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                    {t("suppliers.noSuppliers") || "No suppliers found"}
+                  </td>
+                </tr>
+              ) : (
+                suppliers.map((supplier, index) => (
+                  <motion.tr
+                    key={supplier.id}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: index * 0.05 }}
+                    whileHover={{ backgroundColor: "#f9fafb" }}
+                    className="transition-colors"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{supplier.name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{supplier.contact_name || "-"}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{supplier.phone || "-"}</td>
+                    <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">{supplier.address || "-"}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex items-center gap-2">
+                        <motion.button
+                          onClick={() => handleOpenModal(supplier)}
+                          whileHover={{ scale: 1.1 }}
+                          whileTap={{ scale: 0.9 }}
+                          className="text-blue-600 hover:text-blue-900"
+                          title={t("common.edit")}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </motion.button>
+                        <motion.button
+                          onClick={() => handleDelete(supplier.id)}
+                          whileHover={{ scale: 1.1 }}
+                          whileTap={{ scale: 0.9 }}
+                          className="text-red-600 hover:text-red-900"
+                          title={t("common.delete")}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </motion.button>
+                      </div>
+                    </td>
+                  </motion.tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+        {!isLoading && suppliers.length > 0 && (
+          <Pagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            onPageChange={setCurrentPage}
+            itemsPerPage={itemsPerPage}
+            totalItems={totalItems}
+          />
+        )}
+      </div>
+
+      {/* Add/Edit Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="bg-white rounded-lg shadow-xl max-w-md w-full p-6 max-h-[90vh] overflow-y-auto"
+          >
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {editingSupplier
+                  ? t("suppliers.editSupplier") || "Edit Supplier"
+                  : t("suppliers.addSupplier") || "Add Supplier"}
+              </h2>
+              <button onClick={handleCloseModal} className="text-gray-400 hover:text-gray-600 transition-colors">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>
+              )}
+
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t("suppliers.name") || "Name"} <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+
+              {textFields.map((field) => (
+                <div key={field.key}>
+                  <label htmlFor={field.key} className="block text-sm font-medium text-gray-700 mb-2">
+                    {field.label}
+                  </label>
+                  <input
+                    type={field.type || "text"}
+                    id={field.key}
+                    value={formData[field.key]}
+                    onChange={(e) => setFormData({ ...formData, [field.key]: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              ))}
+
+              <div>
+                <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t("suppliers.notes") || "Notes"}
+                </label>
+                <textarea
+                  id="notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={3}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="flex justify-end gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={handleCloseModal}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  {t("common.cancel")}
+                </button>
+                <motion.button
+                  type="submit"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  {editingSupplier ? t("common.save") : t("suppliers.addSupplier") || "Add Supplier"}
+                </motion.button>
+              </div>
+            </form>
+          </motion.div>
+        </div>
+      )}
+    </div>
+  );
+}
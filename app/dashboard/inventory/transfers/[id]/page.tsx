@@ -0,0 +1,382 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams } from "next/navigation";
+import { motion, AnimatePresence } from "framer-motion";
+import { ArrowRight, PackageCheck, Truck, X, XCircle, AlertTriangle } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/useAuth";
+import { api, getErrorMessage, type StockTransfer } from "@/lib/api";
+import { isSuperAdmin } from "@/lib/roles";
+import { formatBatchExpiry } from "@/lib/batches";
+import {
+  createTransferReceiveLines,
+  getDiscrepancy,
+  getTransferStatus,
+  hasDiscrepancies,
+  validateTransferReceive,
+  type TransferReceiveLine,
+} from "@/lib/transfers";
+
+const formatDate = (dateString?: string | null) =>
+  dateString
+    ? new Date(dateString).toLocaleDateString("id-ID", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : "-";
+
+export default function TransferDetailPage() {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const params = useParams();
+  const transferId = params.id as string;
+  const [transfer, setTransfer] = useState<StockTransfer | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [isReceiveOpen, setIsReceiveOpen] = useState(false);
+  const [receiveLines, setReceiveLines] = useState<TransferReceiveLine[]>([]);
+  const [receiveError, setReceiveError] = useState("");
+
+  const loadTransfer = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setTransfer(await api.transfers.get(transferId));
+    } catch (err) {
+      console.error("Error fetching transfer:", err);
+      setError(getErrorMessage(err, "An error occurred while loading the transfer"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [transferId]);
+
+  useEffect(() => {
+    if (transferId) {
+      loadTransfer();
+    }
+  }, [transferId, loadTransfer]);
+
+  const handleDispatch = async () => {
+    if (!transfer) return;
+    if (!confirm(t("transfers.confirmDispatch") || "Dispatch this transfer? The stock will be taken out of the source store.")) {
+      return;
+    }
+    try {
+      setIsUpdating(true);
+      setTransfer(await api.transfers.dispatch(transfer.id));
+    } catch (err) {
+      alert(getErrorMessage(err, t("transfers.failedToDispatch") || "Failed to dispatch transfer"));
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!transfer) return;
+    if (!confirm(t("transfers.confirmCancel") || "Cancel this transfer request?")) return;
+    try {
+      setIsUpdating(true);
+      setTransfer(await api.transfers.cancel(transfer.id));
+    } catch (err) {
+      alert(getErrorMessage(err, t("transfers.failedToCancel") || "Failed to cancel transfer"));
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleOpenReceive = () => {
+    if (!transfer) return;
+    setReceiveLines(createTransferReceiveLines(transfer));
+    setReceiveError("");
+    setIsReceiveOpen(true);
+  };
+
+  const handleReceiveLineChange = (lineId: string, field: keyof Omit<TransferReceiveLine, "lineId">, value: string) => {
+    setReceiveLines((prev) => prev.map((line) => (line.lineId === lineId ? { ...line, [field]: value } : line)));
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!transfer) return;
+    const validationError = validateTransferReceive(transfer, receiveLines, t);
+    if (validationError) {
+      setReceiveError(validationError);
+      return;
+    }
+
+    try {
+      setIsUpdating(true);
+      setReceiveError("");
+      const updated = await api.transfers.receive(transfer.id, {
+        items: receiveLines.map((line) => ({
+          transfer_item_id: line.lineId,
+          received_quantity: parseInt(line.receivedQuantity),
+          location: line.location.trim(),
+          ...(line.note.trim() && { discrepancy_note: line.note.trim() }),
+        })),
+      });
+      setTransfer(updated);
+      setIsReceiveOpen(false);
+    } catch (err) {
+      setReceiveError(getErrorMessage(err, t("transfers.failedToReceive") || "Failed to receive transfer"));
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  if (isLoading && !transfer) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!transfer) {
+    return (
+      <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+        {error || t("transfers.notFound") || "Transfer not found"}
+      </div>
+    );
+  }
+
+  const status = getTransferStatus(transfer.status);
+  const userIsSuperAdmin = isSuperAdmin(user?.role);
+  // The source store dispatches and the destination store receives
+  const canDispatch =
+    transfer.status === "requested" && (userIsSuperAdmin || user?.store?.id === transfer.from_store_id);
+  const canReceive =
+    transfer.status === "dispatched" && (userIsSuperAdmin || user?.store?.id === transfer.to_store_id);
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">{transfer.transfer_number}</h1>
+          <div className="flex items-center gap-3 mt-2 text-sm text-gray-500">
+            <span className={`px-2.5 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${status.style}`}>
+              {t(status.translationKey) || status.label}
+            </span>
+            <span className="inline-flex items-center gap-2">
+              {transfer.from_store?.name}
+              <ArrowRight className="h-4 w-4 text-gray-400" />
+              {transfer.to_store?.name}
+            </span>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {canDispatch && (
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={handleDispatch}
+              disabled={isUpdating}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm disabled:opacity-50"
+            >
+              <Truck className="h-4 w-4" />
+              {t("transfers.dispatch") || "Dispatch"}
+            </motion.button>
+          )}
+          {canReceive && (
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={handleOpenReceive}
+              disabled={isUpdating}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors shadow-sm disabled:opacity-50"
+            >
+              <PackageCheck className="h-4 w-4" />
+              {t("transfers.receive") || "Receive"}
+            </motion.button>
+          )}
+          {transfer.status === "requested" && (
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={handleCancel}
+              disabled={isUpdating}
+              className="flex items-center gap-2 px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+            >
+              <XCircle className="h-4 w-4" />
+              {t("transfers.cancelTransfer") || "Cancel Transfer"}
+            </motion.button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-500">{t("transfers.requested") || "Requested"}</p>
+          <p className="font-semibold text-gray-900">{formatDate(transfer.created_at)}</p>
+          <p className="text-sm text-gray-500">{transfer.created_by?.name}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-500">{t("transfers.dispatched") || "Dispatched"}</p>
+          <p className="font-semibold text-gray-900">{formatDate(transfer.dispatched_at)}</p>
+          <p className="text-sm text-gray-500">{transfer.dispatched_by?.name}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-500">{t("transfers.received") || "Received"}</p>
+          <p className="font-semibold text-gray-900">{formatDate(transfer.received_at)}</p>
+          <p className="text-sm text-gray-500">{transfer.received_by?.name}</p>
+        </div>
+      </div>
+
+      {transfer.note && (
+        <div className="bg-white rounded-lg shadow p-4 mb-6 text-sm text-gray-700 whitespace-pre-line">{transfer.note}</div>
+      )}
+
+      {transfer.status === "received" && hasDiscrepancies(transfer) && (
+        <div className="flex items-center gap-2 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg mb-6">
+          <AlertTriangle className="h-5 w-5" />
+          {t("transfers.hasDiscrepancies") || "Some lines were received with a different quantity than was sent"}
+        </div>
+      )}
+
+      {/* Lines */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("orders.item") || "Item"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("movements.batch") || "Batch"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("transfers.sent") || "Sent"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("transfers.received") || "Received"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("transfers.discrepancy") || "Discrepancy"}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {transfer.items.map((line) => {
+                const discrepancy = getDiscrepancy(line);
+                return (
+                  <tr key={line.id}>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {line.product.name}
+                      {line.product.sku && <div className="text-xs text-gray-500">{line.product.sku}</div>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {line.source_location} · {formatBatchExpiry(line.expiry_date)}
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm text-gray-900">{line.quantity}</td>
+                    <td className="px-6 py-4 text-right text-sm text-gray-900">{line.received_quantity ?? "-"}</td>
+                    <td className="px-6 py-4 text-sm">
+                      {discrepancy !== 0 ? (
+                        <div className="text-red-600">
+                          <span className="font-semibold">{discrepancy > 0 ? `-${discrepancy}` : `+${-discrepancy}`}</span>
+                          {line.discrepancy_note && <div className="text-xs text-gray-500">{line.discrepancy_note}</div>}
+                        </div>
+                      ) : (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Receive Modal */}
+      <AnimatePresence>
+        {isReceiveOpen && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white rounded-lg shadow-xl max-w-3xl w-full p-6 max-h-[90vh] overflow-y-auto"
+            >
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-gray-900">{t("transfers.receive") || "Receive"}</h2>
+                <button onClick={() => setIsReceiveOpen(false)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+
+              <form onSubmit={handleReceive} className="space-y-4">
+                {receiveError && (
+                  <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{receiveError}</div>
+                )}
+
+                {receiveLines.map((line) => {
+                  const transferLine = transfer.items.find((item) => item.id === line.lineId);
+                  if (!transferLine) return null;
+                  const isShort = line.receivedQuantity !== "" && parseInt(line.receivedQuantity) !== transferLine.quantity;
+                  return (
+                    <div key={line.lineId} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex justify-between text-sm mb-3">
+                        <span className="font-medium text-gray-900">{transferLine.product.name}</span>
+                        <span className="text-gray-500">
+                          {t("transfers.sent") || "Sent"}: {transferLine.quantity} · {formatBatchExpiry(transferLine.expiry_date)}
+                        </span>
+                      </div>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <input
+                          type="number"
+                          min="0"
+                          value={line.receivedQuantity}
+                          onChange={(e) => handleReceiveLineChange(line.lineId, "receivedQuantity", e.target.value)}
+                          placeholder={t("transfers.received") || "Received"}
+                          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <input
+                          type="text"
+                          value={line.location}
+                          onChange={(e) => handleReceiveLineChange(line.lineId, "location", e.target.value)}
+                          placeholder={t("inventory.location") || "Location"}
+                          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                      {isShort && (
+                        <input
+                          type="text"
+                          value={line.note}
+                          onChange={(e) => handleReceiveLineChange(line.lineId, "note", e.target.value)}
+                          placeholder={t("transfers.discrepancyPlaceholder") || "What happened to the difference? (e.g. 2 broken in transit)"}
+                          className="mt-3 w-full px-3 py-2 border border-yellow-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+
+                <div className="flex justify-end gap-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setIsReceiveOpen(false)}
+                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    {t("common.cancel") || "Cancel"}
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isUpdating}
+                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                  >
+                    {isUpdating ? t("common.saving") || "Saving..." : t("transfers.confirmReceive") || "Receive into Stock"}
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
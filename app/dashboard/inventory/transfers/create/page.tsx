@@ -0,0 +1,305 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import { Search, Trash2, Send, Store as StoreIcon } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/useAuth";
+import { api, getErrorMessage, type InventoryItem, type Store } from "@/lib/api";
+import { formatBatchExpiry } from "@/lib/batches";
+import { toTransferDraftLine, validateTransferDraft, type TransferDraftLine } from "@/lib/transfers";
+
+export default function CreateTransferPage() {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const router = useRouter();
+  const [stores, setStores] = useState<Store[]>([]);
+  const [fromStoreId, setFromStoreId] = useState("");
+  const [toStoreId, setToStoreId] = useState("");
+  const [note, setNote] = useState("");
+  const [lines, setLines] = useState<TransferDraftLine[]>([]);
+  const [batchQuery, setBatchQuery] = useState("");
+  const [batchMatches, setBatchMatches] = useState<InventoryItem[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const fetchStores = async () => {
+      try {
+        const result = await api.stores.list({ limit: 100, offset: 0 });
+        setStores(result.data);
+      } catch (err) {
+        console.error("Error fetching stores:", err);
+        setError(getErrorMessage(err, "An error occurred while loading stores"));
+      }
+    };
+
+    fetchStores();
+  }, []);
+
+  // Default the source to the user's own store
+  useEffect(() => {
+    if (user?.store?.id) {
+      setFromStoreId((current) => current || user.store!.id);
+    }
+  }, [user]);
+
+  // Look up batches at the source store as the product is typed
+  useEffect(() => {
+    const query = batchQuery.trim();
+    if (!fromStoreId || query.length < 2) {
+      setBatchMatches([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await api.inventories.list({ search: query, limit: 10, store_id: fromStoreId });
+        if (!cancelled) setBatchMatches(result.data.filter((batch) => batch.quantity > 0));
+      } catch {
+        if (!cancelled) setBatchMatches([]);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [batchQuery, fromStoreId]);
+
+  const handleFromStoreChange = (storeId: string) => {
+    // Batches belong to the source store, so they cannot carry over
+    if (lines.length > 0 && !confirm(t("transfers.confirmChangeSource") || "Changing the source store clears the batches added so far. Continue?")) {
+      return;
+    }
+    setFromStoreId(storeId);
+    setLines([]);
+  };
+
+  const handleAddBatch = (batch: InventoryItem) => {
+    setLines((prev) => (prev.some((line) => line.inventoryId === batch.id) ? prev : [...prev, toTransferDraftLine(batch)]));
+    setBatchQuery("");
+    setBatchMatches([]);
+  };
+
+  const handleQuantityChange = (inventoryId: string, quantity: string) => {
+    setLines((prev) => prev.map((line) => (line.inventoryId === inventoryId ? { ...line, quantity } : line)));
+  };
+
+  const handleRemoveLine = (inventoryId: string) => {
+    setLines((prev) => prev.filter((line) => line.inventoryId !== inventoryId));
+  };
+
+  const handleSubmit = async () => {
+    const validationError = validateTransferDraft(fromStoreId, toStoreId, lines, t);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError("");
+      const transfer = await api.transfers.create({
+        from_store_id: fromStoreId,
+        to_store_id: toStoreId,
+        ...(note.trim() && { note: note.trim() }),
+        items: lines.map((line) => ({ inventory_id: line.inventoryId, quantity: parseInt(line.quantity) })),
+      });
+      router.push(`/dashboard/inventory/transfers/${transfer.id}`);
+    } catch (err) {
+      setError(getErrorMessage(err, t("transfers.failedToCreate") || "Failed to create transfer"));
+      setIsSubmitting(false);
+    }
+  };
+
+  const storeSelect = (id: string, value: string, onChange: (value: string) => void) => (
+    <div className="relative">
+      <StoreIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400 z-10" />
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none bg-white"
+      >
+        <option value="">{t("inventory.selectStore") || "Select store"}</option>
+        {stores.map((store) => (
+          <option key={store.id} value={store.id}>
+            {store.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ duration: 0.3 }}>
+      <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-6">{t("transfers.newTransfer") || "New Transfer"}</h1>
+
+      <div className="bg-white rounded-lg shadow p-6 space-y-6">
+        {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label htmlFor="from_store_id" className="block text-sm font-medium text-gray-700 mb-2">
+              {t("transfers.fromStore") || "From Store"} <span className="text-red-500">*</span>
+            </label>
+            {storeSelect("from_store_id", fromStoreId, handleFromStoreChange)}
+          </div>
+          <div>
+            <label htmlFor="to_store_id" className="block text-sm font-medium text-gray-700 mb-2">
+              {t("transfers.toStore") || "To Store"} <span className="text-red-500">*</span>
+            </label>
+            {storeSelect("to_store_id", toStoreId, setToStoreId)}
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="note" className="block text-sm font-medium text-gray-700 mb-2">
+            {t("adjustments.note") || "Note"}
+          </label>
+          <input
+            type="text"
+            id="note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        {/* Batch search */}
+        <div className="relative">
+          <label htmlFor="batch_search" className="block text-sm font-medium text-gray-700 mb-2">
+            {t("transfers.addBatch") || "Add Batch"}
+          </label>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              type="text"
+              id="batch_search"
+              value={batchQuery}
+              onChange={(e) => setBatchQuery(e.target.value)}
+              disabled={!fromStoreId}
+              placeholder={t("transfers.searchBatch") || "Search stock at the source store by product or SKU..."}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            />
+          </div>
+          {batchMatches.length > 0 && (
+            <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-64 overflow-y-auto">
+              {batchMatches.map((batch) => (
+                <button
+                  key={batch.id}
+                  type="button"
+                  onClick={() => handleAddBatch(batch)}
+                  className="w-full text-left px-4 py-2 hover:bg-gray-50 flex justify-between gap-4 text-sm"
+                >
+                  <span className="text-gray-900">
+                    {batch.product?.name}
+                    <span className="text-gray-500 ml-2">
+                      {batch.location} · {formatBatchExpiry(batch.expiry_date)}
+                    </span>
+                  </span>
+                  <span className="text-gray-500">{batch.quantity}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Lines */}
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("orders.item") || "Item"}
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("movements.batch") || "Batch"}
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("transfers.available") || "Available"}
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("purchaseOrders.quantity") || "Quantity"}
+                </th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {lines.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-sm text-gray-500">
+                    {t("transfers.noLines") || "Search for stock at the source store to add batches"}
+                  </td>
+                </tr>
+              ) : (
+                lines.map((line) => (
+                  <tr key={line.inventoryId}>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      {line.name}
+                      {line.sku && <div className="text-xs text-gray-500">{line.sku}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500">
+                      {line.location} · {formatBatchExpiry(line.expiryDate)}
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-900">{line.available}</td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="number"
+                        min="1"
+                        max={line.available}
+                        value={line.quantity}
+                        onChange={(e) => handleQuantityChange(line.inventoryId, e.target.value)}
+                        className="w-24 px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveLine(line.inventoryId)}
+                        className="text-red-600 hover:text-red-800"
+                        title={t("common.delete") || "Delete"}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-col sm:flex-row justify-end gap-4 pt-4">
+          <motion.button
+            type="button"
+            onClick={() => router.back()}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            {t("common.cancel") || "Cancel"}
+          </motion.button>
+          <motion.button
+            type="button"
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {isSubmitting ? (
+              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+            ) : (
+              <Send className="h-4 w-4" />
+            )}
+            {t("transfers.request") || "Request Transfer"}
+          </motion.button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
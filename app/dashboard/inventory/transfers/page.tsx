@@ -0,0 +1,212 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { Plus, Search, Eye, ArrowRight } from "lucide-react";
+import Pagination from "@/components/admin/Pagination";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/useAuth";
+import { api, type StockTransfer, type TransferStatus } from "@/lib/api";
+import { isSuperAdmin } from "@/lib/roles";
+import { TRANSFER_STATUSES, getTransferStatus } from "@/lib/transfers";
+
+const formatDate = (dateString?: string | null) =>
+  dateString
+    ? new Date(dateString).toLocaleDateString("id-ID", { year: "numeric", month: "short", day: "numeric" })
+    : "-";
+
+export default function TransfersPage() {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  // Super admins see transfers between every store; others only those touching their own store
+  const storeId = isSuperAdmin(user?.role) ? undefined : user?.store?.id;
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<TransferStatus | "">("");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalItems, setTotalItems] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const itemsPerPage = 10;
+
+  useEffect(() => {
+    const fetchTransfers = async () => {
+      try {
+        setIsLoading(true);
+        const result = await api.transfers.list({
+          limit: itemsPerPage,
+          offset: (currentPage - 1) * itemsPerPage,
+          search: searchQuery,
+          store_id: storeId,
+          ...(statusFilter && { status: statusFilter }),
+        });
+        setTransfers(result.data);
+        setTotalItems(result.total);
+      } catch (error) {
+        console.error("Error fetching transfers:", error);
+        setTransfers([]);
+        setTotalItems(0);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTransfers();
+  }, [currentPage, searchQuery, statusFilter, storeId]);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [searchQuery, statusFilter]);
+
+  const totalPages = Math.ceil(totalItems / itemsPerPage);
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">
+          {t("transfers.title") || "Stock Transfers"}
+        </h1>
+        <Link href="/dashboard/inventory/transfers/create">
+          <motion.span
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
+          >
+            <Plus className="h-4 w-4" />
+            {t("transfers.newTransfer") || "New Transfer"}
+          </motion.span>
+        </Link>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              type="text"
+              placeholder={t("transfers.searchPlaceholder") || "Search by transfer number or product..."}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as TransferStatus | "")}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+          >
+            <option value="">{t("transfers.allStatuses") || "All statuses"}</option>
+            {TRANSFER_STATUSES.map((status) => (
+              <option key={status.value} value={status.value}>
+                {t(status.translationKey) || status.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Transfers Table */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("transfers.transferNumber") || "Transfer Number"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("transfers.route") || "From → To"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("orders.items") || "Items"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("orders.status") || "Status"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("common.createdAt") || "Created At"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("common.actions")}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    <div className="flex items-center justify-center">
+                      <div className="w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mr-3"></div>
+                      {t("common.loading") || "Loading..."}
+                    </div>
+                  </td>
+                </tr>
+              ) : transfers.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    {t("transfers.noTransfers") || "No transfers found"}
+                  </td>
+                </tr>
+              ) : (
+                transfers.map((transfer, index) => {
+                  const status = getTransferStatus(transfer.status);
+                  return (
+                    <motion.tr
+                      key={transfer.id}
+                      initial={{ opacity: 0, x: -20 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      transition={{ delay: index * 0.05 }}
+                      whileHover={{ backgroundColor: "#f9fafb" }}
+                      className="hover:bg-gray-50 transition-colors"
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {transfer.transfer_number}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        <span className="inline-flex items-center gap-2">
+                          {transfer.from_store?.name || "-"}
+                          <ArrowRight className="h-4 w-4 text-gray-400" />
+                          {transfer.to_store?.name || "-"}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{transfer.items.length}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`px-2.5 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${status.style}`}
+                        >
+                          {t(status.translationKey) || status.label}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatDate(transfer.created_at)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <Link
+                          href={`/dashboard/inventory/transfers/${transfer.id}`}
+                          className="flex items-center gap-1 text-blue-600 hover:text-blue-900 hover:underline"
+                        >
+                          <Eye className="h-4 w-4" />
+                          {t("common.view") || "View"}
+                        </Link>
+                      </td>
+                    </motion.tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+        {!isLoading && transfers.length > 0 && (
+          <Pagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            onPageChange={setCurrentPage}
+            itemsPerPage={itemsPerPage}
+            totalItems={totalItems}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
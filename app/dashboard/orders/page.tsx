@@ -1,126 +1,151 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { motion } from "framer-motion";
-import { Eye, Search } from "lucide-react";
-import { type Order } from "@/lib/orders";
+import { Eye, Search, Receipt as ReceiptIcon, Download, X } from "lucide-react";
+import {
+  ORDER_STATUSES,
+  ORDER_STATUS_STYLES,
+  exportOrdersCsv,
+  exportOrdersXlsx,
+  fetchAllOrders,
+  formatOrderStatus,
+  validateAmountRange,
+  type Order,
+} from "@/lib/orders";
 import Pagination from "@/components/admin/Pagination";
+import ReceiptModal from "@/components/admin/ReceiptModal";
+import OrderDetailModal from "@/components/admin/OrderDetailModal";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  api,
+  getErrorMessage,
+  type ApiOrder,
+  type ApiOrderItem,
+  type OrderStatus,
+  type Store,
+  type UserRef,
+} from "@/lib/api";
+import { getFileDate } from "@/lib/exports";
+import { isSuperAdmin } from "@/lib/roles";
+import { receiptFromOrder, type Receipt } from "@/lib/receipts";
+import { parseOrderPayments } from "@/lib/payments";
 
-interface ApiOrderItem {
-  id: number;
-  product_id: string;
-  quantity: number;
-  total_price: string;
-  product: {
-    id: string;
-    name: string;
-    sku: string;
-    selling_price: string;
-  };
-}
+// Transform an API order to match the Order interface
+const toOrder = (order: ApiOrder): Order => {
+  // Ensure orderItems is an array
+  const orderItems = Array.isArray(order.orderItems) ? order.orderItems : [];
 
-interface ApiOrder {
-  id: number;
-  invoice_number: string;
-  customer_name: string;
-  total_price: string;
-  store_id: string;
-  created_at: string;
-  created_by?: {
-    id: string;
-    name: string;
-    email: string;
-  };
-  store?: {
-    id: string;
-    name: string;
-    store_code: string;
+  return {
+    id: String(order.id),
+    orderNumber: order.invoice_number || `ORD-${order.id}`,
+    customerName: order.customer_name || "Walk-in Customer",
+    total: parseFloat(order.total_price) || 0,
+    status: order.status || "completed", // Orders created before returns existed have no status
+    createdAt: order.created_at || new Date().toISOString(),
+    items: orderItems.map((item: ApiOrderItem) => ({
+      id: item.product?.id || item.product_id || "",
+      sku: item.product?.sku || "",
+      name: item.product?.name || "Unknown Product",
+      price: parseFloat(item.product?.selling_price) || parseFloat(item.total_price) / item.quantity || 0,
+      quantity: item.quantity || 0,
+    })),
+    payments: parseOrderPayments(order.payments),
+    grossTotal: parseFloat(order.gross_total || "") || parseFloat(order.total_price) || 0,
+    discountTotal: parseFloat(order.discount_total || "") || 0,
+    discountReason: order.discount_reason || undefined,
+    refundTotal: parseFloat(order.refund_total || "") || 0,
   };
-  orderItems: ApiOrderItem[];
-}
+};
 
 export default function OrdersPage() {
   const { t } = useLanguage();
+  const { user } = useAuth();
+  const userIsSuperAdmin = isSuperAdmin(user?.role);
   const [orders, setOrders] = useState<Order[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | "">("");
+  const [cashierId, setCashierId] = useState("");
+  const [minTotal, setMinTotal] = useState("");
+  const [maxTotal, setMaxTotal] = useState("");
+  const [stores, setStores] = useState<Store[]>([]);
+  const [selectedStoreId, setSelectedStoreId] = useState("");
+  // The backend limits everyone else to their own store
+  const storeId = userIsSuperAdmin ? selectedStoreId : undefined;
+  const [cashiers, setCashiers] = useState<UserRef[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [isLoading, setIsLoading] = useState(true);
   const [totalItems, setTotalItems] = useState(0);
+  const [apiOrders, setApiOrders] = useState<ApiOrder[]>([]);
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [selectedOrder, setSelectedOrder] = useState<ApiOrder | null>(null);
+  const storeCache = useRef(new Map<string, Store | null>());
   const itemsPerPage = 10;
 
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+  const amountError = validateAmountRange(minTotal, maxTotal, t);
+  const filters = useMemo(
+    () => ({
+      search: searchQuery,
+      ...(storeId && { store_id: storeId }),
+      ...(cashierId && { created_by: cashierId }),
+      ...(statusFilter && { status: statusFilter }),
+      ...(fromDate && { from: fromDate }),
+      ...(toDate && { to: toDate }),
+      // Amounts are left out until the range is valid
+      ...(!amountError && minTotal && { min_total: parseFloat(minTotal) }),
+      ...(!amountError && maxTotal && { max_total: parseFloat(maxTotal) }),
+    }),
+    [searchQuery, storeId, cashierId, statusFilter, fromDate, toDate, minTotal, maxTotal, amountError]
+  );
+  const hasFilters =
+    !!searchQuery || !!storeId || !!cashierId || !!statusFilter || !!fromDate || !!toDate || !!minTotal || !!maxTotal;
 
   useEffect(() => {
-    const fetchOrders = async () => {
+    if (!userIsSuperAdmin) return;
+    const fetchStores = async () => {
       try {
-        setIsLoading(true);
-        const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
+        const result = await api.stores.list({ limit: 100, offset: 0 });
+        setStores(result.data);
+      } catch (err) {
+        console.error("Error fetching stores:", err);
+      }
+    };
 
-        const params = new URLSearchParams({
-          limit: itemsPerPage.toString(),
-          offset: ((currentPage - 1) * itemsPerPage).toString(),
-        });
+    fetchStores();
+  }, [userIsSuperAdmin]);
 
-        // Add search parameter if search query exists
-        if (searchQuery.trim()) {
-          params.append("search", searchQuery.trim());
-        }
+  useEffect(() => {
+    const fetchCashiers = async () => {
+      try {
+        setCashiers(await api.orders.cashiers(storeId ? { store_id: storeId } : undefined));
+      } catch (err) {
+        console.error("Error fetching cashiers:", err);
+        setCashiers([]);
+      }
+    };
 
-        const response = await fetch(`${API_BASE_URL}/api/orders?${params.toString()}`, {
-          headers: {
-            ...(token && { Authorization: `Bearer ${token}` }),
-          },
-        });
+    fetchCashiers();
+  }, [storeId]);
 
-        if (response.ok) {
-          const result = await response.json();
-          
-          // Handle different response formats
-          let ordersData: ApiOrder[] = [];
-          let total = 0;
-          
-          if (result.data && Array.isArray(result.data)) {
-            ordersData = result.data;
-            total = result.total || result.data.length;
-          } else if (Array.isArray(result)) {
-            ordersData = result;
-            total = result.length;
-          } else if (result.orders && Array.isArray(result.orders)) {
-            ordersData = result.orders;
-            total = result.total || result.orders.length;
-          }
+  useEffect(() => {
+    const fetchOrders = async () => {
+      try {
+        setIsLoading(true);
+        const result = await api.orders.list({
+          ...filters,
+          limit: itemsPerPage,
+          offset: (currentPage - 1) * itemsPerPage,
+        });
 
-          // Transform API response to match Order interface
-          const transformedOrders: Order[] = ordersData.map((order: ApiOrder) => {
-            // Ensure orderItems is an array
-            const orderItems = Array.isArray(order.orderItems) ? order.orderItems : [];
-            
-            return {
-              id: String(order.id),
-              orderNumber: order.invoice_number || `ORD-${order.id}`,
-              customerName: order.customer_name || "Walk-in Customer",
-              total: parseFloat(order.total_price) || 0,
-              status: "completed" as Order["status"], // Default to completed since API doesn't provide status
-              createdAt: order.created_at || new Date().toISOString(),
-              items: orderItems.map((item: ApiOrderItem) => ({
-                id: item.product?.id || item.product_id || "",
-                sku: item.product?.sku || "",
-                name: item.product?.name || "Unknown Product",
-                price: parseFloat(item.product?.selling_price) || parseFloat(item.total_price) / item.quantity || 0,
-                quantity: item.quantity || 0,
-              })),
-            };
-          });
+        const transformedOrders: Order[] = result.data.map(toOrder);
 
-          setOrders(transformedOrders);
-          setTotalItems(total);
-        } else {
-          const errorData = await response.json().catch(() => ({}));
-          console.error("Failed to fetch orders:", response.status, errorData);
-          setOrders([]);
-          setTotalItems(0);
-        }
+        setOrders(transformedOrders);
+        setApiOrders(result.data);
+        setTotalItems(result.total);
       } catch (error) {
         console.error("Error fetching orders:", error);
         setOrders([]);
@@ -131,31 +156,85 @@ export default function OrdersPage() {
     };
 
     fetchOrders();
-  }, [currentPage, searchQuery, API_BASE_URL, itemsPerPage]);
+  }, [currentPage, filters, itemsPerPage]);
 
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchQuery]);
+  }, [filters]);
+
+  const clearFilters = () => {
+    setSearchQuery("");
+    setSelectedStoreId("");
+    setCashierId("");
+    setStatusFilter("");
+    setFromDate("");
+    setToDate("");
+    setMinTotal("");
+    setMaxTotal("");
+  };
+
+  // Exports every order matching the filters, not just the current page
+  const handleExport = async (format: "csv" | "xlsx") => {
+    if (amountError) {
+      alert(amountError);
+      return;
+    }
+
+    try {
+      setIsExporting(true);
+      const allOrders = await fetchAllOrders(filters);
+      if (allOrders.length === 0) {
+        alert(t("orders.nothingToExport") || "There are no orders to export");
+        return;
+      }
+      const filename = `orders_${fromDate || "all"}_${toDate || getFileDate()}.${format}`;
+      if (format === "csv") {
+        exportOrdersCsv(allOrders, filename);
+      } else {
+        exportOrdersXlsx(allOrders, filename);
+      }
+    } catch (err) {
+      alert(getErrorMessage(err, t("orders.failedToExport") || "Failed to export orders"));
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
   const totalPages = Math.ceil(totalItems / itemsPerPage);
   const paginatedOrders = orders;
 
   const getStatusBadge = (status: Order["status"]) => {
-    const styles = {
-      completed: "bg-green-100 text-green-800",
-      pending: "bg-yellow-100 text-yellow-800",
-      processing: "bg-blue-100 text-blue-800",
-    };
-
     return (
       <span
-        className={`px-2.5 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${styles[status]}`}
+        className={`px-2.5 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${ORDER_STATUS_STYLES[status]}`}
       >
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {formatOrderStatus(status)}
       </span>
     );
   };
 
+  const handleOrderUpdated = (updated: ApiOrder) => {
+    setApiOrders((current) => current.map((o) => (o.id === updated.id ? updated : o)));
+    setOrders((current) => current.map((o) => (o.id === String(updated.id) ? toOrder(updated) : o)));
+    setSelectedOrder(updated);
+  };
+
+  const handleShowReceipt = async (orderId: string) => {
+    const order = apiOrders.find((o) => String(o.id) === orderId);
+    if (!order) return;
+
+    // Receipts need the store address, which the order only references by id
+    if (order.store_id && !storeCache.current.has(order.store_id)) {
+      try {
+        storeCache.current.set(order.store_id, await api.stores.get(order.store_id));
+      } catch (error) {
+        console.error("Error fetching store:", error);
+        storeCache.current.set(order.store_id, null);
+      }
+    }
+    setReceipt(receiptFromOrder(order, storeCache.current.get(order.store_id)));
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString("id-ID", {
@@ -171,10 +250,32 @@ export default function OrdersPage() {
     <div>
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
         <h1 className="text-3xl font-bold text-gray-900">{t("orders.title")}</h1>
+        <div className="flex gap-2">
+          <motion.button
+            onClick={() => handleExport("csv")}
+            disabled={isExporting}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <Download className="h-4 w-4" />
+            {t("movements.exportCsv") || "Export CSV"}
+          </motion.button>
+          <motion.button
+            onClick={() => handleExport("xlsx")}
+            disabled={isExporting}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <Download className="h-4 w-4" />
+            {t("profit.exportXlsx") || "Export XLSX"}
+          </motion.button>
+        </div>
       </div>
 
-      {/* Search Section */}
-      <div className="bg-white rounded-lg shadow p-6 mb-6">
+      {/* Search and Filters */}
+      <div className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
           <input
@@ -185,8 +286,110 @@ export default function OrdersPage() {
             className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
         </div>
-        {searchQuery && !isLoading && (
-          <p className="text-sm text-gray-500 mt-3">
+        <div className="flex flex-col md:flex-row md:flex-wrap md:items-center gap-4">
+          {userIsSuperAdmin && (
+            <select
+              value={selectedStoreId}
+              onChange={(e) => setSelectedStoreId(e.target.value)}
+              className="md:w-48 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+            >
+              <option value="">{t("dashboard.allStores") || "All stores"}</option>
+              {stores.map((store) => (
+                <option key={store.id} value={store.id}>
+                  {store.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            value={cashierId}
+            onChange={(e) => setCashierId(e.target.value)}
+            className="md:w-48 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+          >
+            <option value="">{t("orders.allCashiers") || "All cashiers"}</option>
+            {cashiers.map((cashier) => (
+              <option key={cashier.id} value={cashier.id}>
+                {cashier.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as OrderStatus | "")}
+            className="md:w-48 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+          >
+            <option value="">{t("orders.allStatuses") || "All statuses"}</option>
+            {ORDER_STATUSES.map((status) => (
+              <option key={status.value} value={status.value}>
+                {t(status.translationKey) || status.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col md:flex-row md:flex-wrap md:items-center gap-4">
+          <div className="flex items-center gap-2">
+            <label htmlFor="orders_from" className="text-sm text-gray-600">
+              {t("movements.from") || "From"}
+            </label>
+            <input
+              type="date"
+              id="orders_from"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor="orders_to" className="text-sm text-gray-600">
+              {t("movements.to") || "To"}
+            </label>
+            <input
+              type="date"
+              id="orders_to"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor="orders_min_total" className="text-sm text-gray-600">
+              {t("orders.total") || "Total"}
+            </label>
+            <input
+              type="number"
+              id="orders_min_total"
+              min="0"
+              value={minTotal}
+              onChange={(e) => setMinTotal(e.target.value)}
+              placeholder={t("orders.minAmount") || "Min"}
+              className="w-32 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <span className="text-gray-400">–</span>
+            <input
+              type="number"
+              min="0"
+              value={maxTotal}
+              onChange={(e) => setMaxTotal(e.target.value)}
+              placeholder={t("orders.maxAmount") || "Max"}
+              className="w-32 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label={t("orders.maxAmount") || "Max"}
+            />
+          </div>
+          {hasFilters && (
+            <button
+              onClick={clearFilters}
+              className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+            >
+              <X className="h-4 w-4" />
+              {t("orders.clearFilters") || "Clear filters"}
+            </button>
+          )}
+        </div>
+        {amountError && <p className="text-sm text-red-600">{amountError}</p>}
+        {hasFilters && !isLoading && (
+          <p className="text-sm text-gray-500">
             Found {totalItems} order{totalItems !== 1 ? "s" : ""}
           </p>
         )}
@@ -234,8 +437,8 @@ export default function OrdersPage() {
               ) : paginatedOrders.length === 0 ? (
                 <tr>
                   <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
-                    {searchQuery
-                      ? "No orders found matching your search."
+                    {hasFilters
+                      ? "No orders found matching your filters."
                       : "No orders yet. Start by creating an order from the Cashier page."}
                   </td>
                 </tr>
@@ -260,6 +463,17 @@ export default function OrdersPage() {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900">
                       Rp {order.total.toLocaleString("id-ID")}
+                      {!!order.discountTotal && (
+                        <div className="text-xs font-normal text-gray-500">
+                          {t("orders.gross") || "Gross"} Rp {(order.grossTotal || 0).toLocaleString("id-ID")} • -Rp{" "}
+                          {order.discountTotal.toLocaleString("id-ID")}
+                        </div>
+                      )}
+                      {!!order.refundTotal && (
+                        <div className="text-xs font-normal text-red-600">
+                          -Rp {order.refundTotal.toLocaleString("id-ID")} {t("orders.refunded") || "refunded"}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">{getStatusBadge(order.status)}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
@@ -267,27 +481,19 @@ export default function OrdersPage() {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <button
-                        onClick={() => {
-                          // Show order details
-                          const itemsList = order.items
-                            .map((item) => `${item.name} (${item.quantity}x)`)
-                            .join("\n");
-                          if (typeof window !== "undefined") {
-                            window.alert(
-                              `Order #${order.orderNumber}\n\n` +
-                                `Customer: ${order.customerName || "Walk-in Customer"}\n` +
-                                `Date: ${formatDate(order.createdAt)}\n` +
-                                `Status: ${order.status}\n\n` +
-                                `Items:\n${itemsList}\n\n` +
-                                `Total: Rp ${order.total.toLocaleString("id-ID")}`
-                            );
-                          }
-                        }}
+                        onClick={() => setSelectedOrder(apiOrders.find((o) => String(o.id) === order.id) || null)}
                         className="flex items-center gap-1 text-blue-600 hover:text-blue-900 hover:underline"
                       >
                         <Eye className="h-4 w-4" />
                         View
                       </button>
+                      <button
+                        onClick={() => handleShowReceipt(order.id)}
+                        className="flex items-center gap-1 mt-1 text-gray-600 hover:text-gray-900 hover:underline"
+                      >
+                        <ReceiptIcon className="h-4 w-4" />
+                        {t("receipt.title") || "Receipt"}
+                      </button>
                     </td>
                   </motion.tr>
                 ))
@@ -305,6 +511,14 @@ export default function OrdersPage() {
           />
         )}
       </div>
+
+      <OrderDetailModal
+        order={selectedOrder}
+        onClose={() => setSelectedOrder(null)}
+        onUpdated={handleOrderUpdated}
+      />
+
+      <ReceiptModal isOpen={!!receipt} onClose={() => setReceipt(null)} receipt={receipt} />
     </div>
   );
 }
@@ -0,0 +1,311 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { motion } from "framer-motion";
+import { Download, DollarSign, ShoppingCart, TrendingUp, Percent, AlertTriangle } from "lucide-react";
+import DashboardStatsCard from "@/components/admin/DashboardStatsCard";
+import DateRangePicker from "@/components/admin/DateRangePicker";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/useAuth";
+import { isSuperAdmin } from "@/lib/roles";
+import { api, getErrorMessage, type ProfitGrouping, type ProfitReportRow, type Store } from "@/lib/api";
+import { formatRupiah, getLastDaysRange, validateDateRange, type DateRange } from "@/lib/sales";
+import {
+  PROFIT_GROUPINGS,
+  exportProfitXlsx,
+  formatMargin,
+  getGrossProfit,
+  getMargin,
+  getProfitTotals,
+  isBelowCost,
+} from "@/lib/profit";
+
+type SortKey = "revenue" | "profit" | "margin";
+
+export default function ProfitReportPage() {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const userIsSuperAdmin = isSuperAdmin(user?.role);
+  const [stores, setStores] = useState<Store[]>([]);
+  const [selectedStoreId, setSelectedStoreId] = useState("");
+  const storeId = userIsSuperAdmin ? selectedStoreId : user?.store?.id;
+  const [range, setRange] = useState<DateRange>(() => getLastDaysRange(30));
+  const [grouping, setGrouping] = useState<ProfitGrouping>("product");
+  const [sortKey, setSortKey] = useState<SortKey>("revenue");
+  const [belowCostOnly, setBelowCostOnly] = useState(false);
+  const [rows, setRows] = useState<ProfitReportRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!userIsSuperAdmin) return;
+    const fetchStores = async () => {
+      try {
+        const result = await api.stores.list({ limit: 100, offset: 0 });
+        setStores(result.data);
+      } catch (err) {
+        console.error("Error fetching stores:", err);
+      }
+    };
+
+    fetchStores();
+  }, [userIsSuperAdmin]);
+
+  useEffect(() => {
+    if (!user) return;
+    const validationError = validateDateRange(range, t);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchReport = async () => {
+      try {
+        setIsLoading(true);
+        setError("");
+        const result = await api.reports.profit({ store_id: storeId || undefined, ...range, group_by: grouping });
+        if (!cancelled) setRows(result);
+      } catch (err) {
+        if (!cancelled) {
+          setError(getErrorMessage(err, t("profit.failedToLoad") || "Failed to load the profit report"));
+          setRows([]);
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchReport();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, storeId, range, grouping, t]);
+
+  const visibleRows = useMemo(() => {
+    const sortValue = (row: ProfitReportRow) =>
+      sortKey === "profit" ? getGrossProfit(row) : sortKey === "margin" ? getMargin(row) ?? -Infinity : row.revenue;
+    return rows.filter((row) => !belowCostOnly || isBelowCost(row)).sort((a, b) => sortValue(b) - sortValue(a));
+  }, [rows, sortKey, belowCostOnly]);
+
+  const totals = getProfitTotals(rows);
+  const groupingLabel = PROFIT_GROUPINGS.find((g) => g.value === grouping);
+  const storeName = userIsSuperAdmin
+    ? stores.find((store) => store.id === selectedStoreId)?.name || t("dashboard.allStores") || "All stores"
+    : user?.store?.name || "";
+
+  const handleExport = () => {
+    if (visibleRows.length === 0) {
+      alert(t("profit.nothingToExport") || "There is nothing to export for this range");
+      return;
+    }
+    exportProfitXlsx(visibleRows, grouping, range, storeName);
+  };
+
+  const stats = [
+    {
+      title: t("dashboard.revenue") || "Revenue",
+      value: formatRupiah(totals.revenue),
+      icon: DollarSign,
+      iconColor: "text-green-600",
+      iconBgColor: "bg-green-100",
+      description: `${totals.quantity.toLocaleString("id-ID")} ${t("profit.unitsSold") || "units sold"}`,
+    },
+    {
+      title: t("profit.cogs") || "Cost of Goods Sold",
+      value: formatRupiah(totals.cogs),
+      icon: ShoppingCart,
+      iconColor: "text-orange-600",
+      iconBgColor: "bg-orange-100",
+      description: t("profit.cogsHint") || "At purchase price when sold",
+    },
+    {
+      title: t("profit.grossProfit") || "Gross Profit",
+      value: formatRupiah(getGrossProfit(totals)),
+      icon: TrendingUp,
+      iconColor: "text-blue-600",
+      iconBgColor: "bg-blue-100",
+    },
+    {
+      title: t("profit.margin") || "Margin",
+      value: formatMargin(getMargin(totals)),
+      icon: Percent,
+      iconColor: "text-purple-600",
+      iconBgColor: "bg-purple-100",
+      description:
+        totals.belowCostRows > 0
+          ? `${totals.belowCostRows} ${t("profit.belowCostCount") || "selling below cost"}`
+          : undefined,
+    },
+  ];
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ duration: 0.3 }}>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">{t("profit.title") || "Gross Profit"}</h1>
+        <motion.button
+          onClick={handleExport}
+          disabled={isLoading}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+        >
+          <Download className="h-4 w-4" />
+          {t("profit.exportXlsx") || "Export XLSX"}
+        </motion.button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+        <DateRangePicker range={range} onChange={setRange} />
+        <div className="flex flex-col md:flex-row md:items-center gap-4">
+          {userIsSuperAdmin && (
+            <select
+              value={selectedStoreId}
+              onChange={(e) => setSelectedStoreId(e.target.value)}
+              className="md:w-56 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+            >
+              <option value="">{t("dashboard.allStores") || "All stores"}</option>
+              {stores.map((store) => (
+                <option key={store.id} value={store.id}>
+                  {store.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden self-start">
+            {PROFIT_GROUPINGS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setGrouping(option.value)}
+                className={`px-3 py-1.5 text-sm transition-colors ${
+                  grouping === option.value ? "bg-gray-900 text-white" : "bg-white text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                {t(option.translationKey) || option.label}
+              </button>
+            ))}
+          </div>
+          <select
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value as SortKey)}
+            className="md:w-48 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+          >
+            <option value="revenue">{t("profit.sortRevenue") || "Highest revenue"}</option>
+            <option value="profit">{t("profit.sortProfit") || "Highest profit"}</option>
+            <option value="margin">{t("profit.sortMargin") || "Highest margin"}</option>
+          </select>
+          <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={belowCostOnly}
+              onChange={(e) => setBelowCostOnly(e.target.checked)}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            {t("profit.belowCostOnly") || "Below cost only"}
+          </label>
+        </div>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">{error}</div>}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6 mb-6">
+        {stats.map((stat, index) => (
+          <DashboardStatsCard key={stat.title} {...stat} index={index} />
+        ))}
+      </div>
+
+      {/* Report Table */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {groupingLabel ? t(groupingLabel.translationKey) || groupingLabel.label : ""}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("profit.units") || "Units"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("dashboard.revenue") || "Revenue"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("profit.cogsShort") || "COGS"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("profit.grossProfit") || "Gross Profit"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("profit.margin") || "Margin"}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    <div className="flex items-center justify-center">
+                      <div className="w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mr-3"></div>
+                      {t("common.loading") || "Loading..."}
+                    </div>
+                  </td>
+                </tr>
+              ) : visibleRows.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    {t("profit.noSales") || "No sales in this range"}
+                  </td>
+                </tr>
+              ) : (
+                visibleRows.map((row) => {
+                  const profit = getGrossProfit(row);
+                  const belowCost = isBelowCost(row);
+                  return (
+                    <tr key={row.id} className={belowCost ? "bg-red-50" : "hover:bg-gray-50 transition-colors"}>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        <div className="flex items-center gap-2">
+                          {row.name}
+                          {belowCost && (
+                            <span
+                              className="px-2 py-0.5 inline-flex items-center gap-1 text-xs font-semibold rounded-full bg-red-100 text-red-800"
+                              title={`${row.below_cost_quantity} ${t("profit.unitsBelowCost") || "units sold below cost"}`}
+                            >
+                              <AlertTriangle className="h-3 w-3" />
+                              {t("profit.belowCost") || "Below cost"}
+                            </span>
+                          )}
+                        </div>
+                        {row.sku && <div className="text-xs text-gray-500">{row.sku}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                        {row.quantity.toLocaleString("id-ID")}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                        {formatRupiah(row.revenue)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-500">
+                        {formatRupiah(row.cogs)}
+                      </td>
+                      <td
+                        className={`px-6 py-4 whitespace-nowrap text-right text-sm font-semibold ${
+                          profit < 0 ? "text-red-600" : "text-green-600"
+                        }`}
+                      >
+                        {formatRupiah(profit)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                        {formatMargin(getMargin(row))}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -1,115 +1,74 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect } from "react";
+import Link from "next/link";
 import { motion } from "framer-motion";
 import DashboardStatsCard from "@/components/admin/DashboardStatsCard";
-import { Package, AlertTriangle, XCircle, Box, DollarSign, TrendingUp, Award } from "lucide-react";
-import { getOrders, type Order } from "@/lib/orders";
-import { getInventory, type InventoryItem } from "@/lib/inventory";
+import SalesTrends from "@/components/admin/SalesTrends";
+import { Package, AlertTriangle, XCircle, Box, DollarSign, TrendingUp, Award, Store as StoreIcon } from "lucide-react";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/useAuth";
+import { useExpirySettings } from "@/hooks/useExpirySettings";
+import { isSuperAdmin } from "@/lib/roles";
+import { api, getErrorMessage, type DashboardSummary, type Store } from "@/lib/api";
+import { getDaysUntilExpiry } from "@/lib/expiry";
 
 export default function DashboardPage() {
   const { t } = useLanguage();
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const { user } = useAuth();
+  const userIsSuperAdmin = isSuperAdmin(user?.role);
+  const [stores, setStores] = useState<Store[]>([]);
+  // Super admins start on all stores; everyone else only sees their own store
+  const [selectedStoreId, setSelectedStoreId] = useState("");
+  const storeId = userIsSuperAdmin ? selectedStoreId : user?.store?.id;
+  const [summary, setSummary] = useState<DashboardSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const { settings: expirySettings } = useExpirySettings(storeId);
 
   useEffect(() => {
-    // Load orders and inventory from localStorage
-    setOrders(getOrders());
-    setInventory(getInventory());
-    
-    // Listen for storage changes
-    const handleStorageChange = () => {
-      setOrders(getOrders());
-      setInventory(getInventory());
-    };
-    
-    window.addEventListener("storage", handleStorageChange);
-    // Also check periodically for changes
-    const interval = setInterval(() => {
-      setOrders(getOrders());
-      setInventory(getInventory());
-    }, 1000);
-
-    return () => {
-      window.removeEventListener("storage", handleStorageChange);
-      clearInterval(interval);
+    if (!userIsSuperAdmin) return;
+    const fetchStores = async () => {
+      try {
+        const result = await api.stores.list({ limit: 100, offset: 0 });
+        setStores(result.data);
+      } catch (err) {
+        console.error("Error fetching stores:", err);
+      }
     };
-  }, []);
 
-  // Calculate revenue metrics
-  const revenueData = useMemo(() => {
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const thisWeek = new Date(today);
-    thisWeek.setDate(today.getDate() - today.getDay()); // Start of week (Sunday)
-    const thisMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+    fetchStores();
+  }, [userIsSuperAdmin]);
 
-    const totalRevenue = orders.reduce((sum, order) => sum + order.total, 0);
-    
-    const todayRevenue = orders
-      .filter((order) => {
-        const orderDate = new Date(order.createdAt);
-        return orderDate >= today;
-      })
-      .reduce((sum, order) => sum + order.total, 0);
-
-    const weekRevenue = orders
-      .filter((order) => {
-        const orderDate = new Date(order.createdAt);
-        return orderDate >= thisWeek;
-      })
-      .reduce((sum, order) => sum + order.total, 0);
-
-    const monthRevenue = orders
-      .filter((order) => {
-        const orderDate = new Date(order.createdAt);
-        return orderDate >= thisMonth;
-      })
-      .reduce((sum, order) => sum + order.total, 0);
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
 
-    return {
-      total: totalRevenue,
-      today: todayRevenue,
-      week: weekRevenue,
-      month: monthRevenue,
-      orderCount: orders.length,
+    const fetchSummary = async () => {
+      try {
+        setIsLoading(true);
+        setError("");
+        const result = await api.dashboard.summary({ store_id: storeId || undefined });
+        if (!cancelled) setSummary(result);
+      } catch (err) {
+        if (!cancelled) {
+          setError(getErrorMessage(err, t("dashboard.failedToLoad") || "Failed to load dashboard"));
+          setSummary(null);
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
     };
-  }, [orders]);
 
-  // Calculate inventory stats from actual inventory data
-  const dashboardData = useMemo(() => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    let nearExpiryCount = 0;
-    let expiredCount = 0;
-    let emptyStockCount = 0;
-    
-    inventory.forEach((item) => {
-      const expiry = new Date(item.expiry_date);
-      expiry.setHours(0, 0, 0, 0);
-      const diffTime = expiry.getTime() - today.getTime();
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-      
-      if (diffDays < 0) {
-        expiredCount++;
-      } else if (diffDays <= 7) {
-        nearExpiryCount++;
-      }
-      
-      if (item.quantity === 0) {
-        emptyStockCount++;
-      }
-    });
-    
-    return {
-      totalProducts: inventory.length,
-      nearExpiryDate: nearExpiryCount,
-      passExpiryDate: expiredCount,
-      emptyStock: emptyStockCount,
+    fetchSummary();
+    return () => {
+      cancelled = true;
     };
-  }, [inventory]);
+  }, [user, storeId, t]);
+
+  const revenueData = summary?.revenue ?? { total: 0, gross: 0, discounts: 0, refunds: 0, today: 0, week: 0, month: 0 };
+  const orderCount = summary?.order_count ?? 0;
+  const dashboardData = summary?.inventory ?? { total_products: 0, near_expiry: 0, expired: 0, empty_stock: 0 };
 
   const stats = [
     {
@@ -118,7 +77,15 @@ export default function DashboardPage() {
       icon: DollarSign,
       iconColor: "text-green-600",
       iconBgColor: "bg-green-100",
-      description: `${revenueData.orderCount} ${t("dashboard.orders")}`,
+      description: [
+        `${orderCount} ${t("dashboard.orders")}`,
+        revenueData.discounts > 0 &&
+          `${t("dashboard.gross") || "Gross"} Rp ${revenueData.gross.toLocaleString("id-ID")} • ${t("dashboard.discounts") || "Discounts"} Rp ${revenueData.discounts.toLocaleString("id-ID")}`,
+        revenueData.refunds > 0 &&
+          `${t("dashboard.refunds") || "Refunds"} Rp ${revenueData.refunds.toLocaleString("id-ID")}`,
+      ]
+        .filter(Boolean)
+        .join(" • "),
     },
     {
       title: t("dashboard.todayRevenue"),
@@ -146,7 +113,7 @@ export default function DashboardPage() {
     },
     {
       title: t("dashboard.totalProducts"),
-      value: dashboardData.totalProducts,
+      value: dashboardData.total_products,
       icon: Package,
       iconColor: "text-blue-600",
       iconBgColor: "bg-blue-100",
@@ -154,15 +121,15 @@ export default function DashboardPage() {
     },
     {
       title: t("dashboard.nearExpiry"),
-      value: dashboardData.nearExpiryDate,
+      value: dashboardData.near_expiry,
       icon: AlertTriangle,
       iconColor: "text-yellow-600",
       iconBgColor: "bg-yellow-100",
-      description: t("dashboard.expiringWithin7Days"),
+      description: `${t("dashboard.expiringWithin") || "Products expiring within"} ${expirySettings.nearExpiryDays} ${t("dashboard.days") || "days"}`,
     },
     {
       title: t("dashboard.pastExpiry"),
-      value: dashboardData.passExpiryDate,
+      value: dashboardData.expired,
       icon: XCircle,
       iconColor: "text-red-600",
       iconBgColor: "bg-red-100",
@@ -170,7 +137,7 @@ export default function DashboardPage() {
     },
     {
       title: t("dashboard.emptyStock"),
-      value: dashboardData.emptyStock,
+      value: dashboardData.empty_stock,
       icon: Box,
       iconColor: "text-gray-600",
       iconBgColor: "bg-gray-100",
@@ -178,37 +145,8 @@ export default function DashboardPage() {
     },
   ];
 
-  // Calculate most sold SKUs
-  const topSellingSKUs = useMemo(() => {
-    const skuSales: Record<
-      string,
-      { sku: string; name: string; quantity: number; revenue: number }
-    > = {};
-
-    // Aggregate sales by SKU
-    orders.forEach((order) => {
-      order.items.forEach((item) => {
-        if (!skuSales[item.sku]) {
-          skuSales[item.sku] = {
-            sku: item.sku,
-            name: item.name,
-            quantity: 0,
-            revenue: 0,
-          };
-        }
-        skuSales[item.sku].quantity += item.quantity;
-        skuSales[item.sku].revenue += item.price * item.quantity;
-      });
-    });
-
-    // Convert to array and sort by quantity sold
-    return Object.values(skuSales)
-      .sort((a, b) => b.quantity - a.quantity)
-      .slice(0, 10); // Top 10
-  }, [orders]);
-
-  // Get recent orders for display
-  const recentOrders = orders.slice(0, 5);
+  const topSellingSKUs = summary?.top_sellers ?? [];
+  const recentOrders = summary?.recent_orders ?? [];
 
   return (
     <motion.div
@@ -216,15 +154,42 @@ export default function DashboardPage() {
       animate={{ opacity: 1 }}
       transition={{ duration: 0.3 }}
     >
-      <motion.h1
-        initial={{ opacity: 0, y: -10 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ delay: 0.1 }}
-        className="text-2xl sm:text-3xl font-bold text-gray-900 mb-6"
-      >
-        {t("dashboard.title")}
-      </motion.h1>
-      
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <motion.h1
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="text-2xl sm:text-3xl font-bold text-gray-900"
+        >
+          {t("dashboard.title")}
+        </motion.h1>
+        {userIsSuperAdmin && (
+          <div className="relative sm:w-64 w-full">
+            <StoreIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400 z-10" />
+            <select
+              value={selectedStoreId}
+              onChange={(e) => setSelectedStoreId(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none bg-white"
+            >
+              <option value="">{t("dashboard.allStores") || "All stores"}</option>
+              {stores.map((store) => (
+                <option key={store.id} value={store.id}>
+                  {store.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">{error}</div>}
+
+      {isLoading && !summary && (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      )}
+
       {/* Revenue Stats */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -240,6 +205,9 @@ export default function DashboardPage() {
         </div>
       </motion.div>
 
+      {/* Sales Trends */}
+      {user && <SalesTrends storeId={storeId || undefined} />}
+
       {/* Other Stats */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -287,7 +255,7 @@ export default function DashboardPage() {
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {recentOrders.map((order, index) => {
-                  const orderDate = new Date(order.createdAt);
+                  const orderDate = new Date(order.created_at);
                   const formattedDate = orderDate.toLocaleDateString("id-ID", {
                     year: "numeric",
                     month: "short",
@@ -306,16 +274,16 @@ export default function DashboardPage() {
                       className="transition-colors"
                     >
                       <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
-                        #{order.orderNumber}
+                        #{order.invoice_number}
                       </td>
                       <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
-                        {order.customerName || "Walk-in Customer"}
+                        {order.customer_name || "Walk-in Customer"}
                       </td>
                       <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
-                        {order.items.length} item{order.items.length !== 1 ? "s" : ""}
+                        {order.orderItems.length} item{order.orderItems.length !== 1 ? "s" : ""}
                       </td>
                       <td className="px-4 py-3 whitespace-nowrap text-sm font-semibold text-gray-900">
-                        Rp {order.total.toLocaleString("id-ID")}
+                        Rp {Number(order.total_price).toLocaleString("id-ID")}
                       </td>
                       <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
                         {formattedDate}
@@ -360,7 +328,7 @@ export default function DashboardPage() {
               <tbody className="bg-white divide-y divide-gray-200">
                 {topSellingSKUs.map((item, index) => (
                   <motion.tr
-                    key={item.sku}
+                    key={item.product_id}
                     initial={{ opacity: 0, y: 10 }}
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ delay: index * 0.05 }}
@@ -386,7 +354,7 @@ export default function DashboardPage() {
                       </div>
                     </td>
                     <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
-                      {item.sku}
+                      {item.sku || "-"}
                     </td>
                     <td className="px-4 py-3 text-sm text-gray-900">{item.name}</td>
                     <td className="px-4 py-3 whitespace-nowrap text-sm font-semibold text-gray-900">
@@ -404,98 +372,100 @@ export default function DashboardPage() {
       )}
 
       {/* Additional Dashboard Content */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {/* Products Near Expiry */}
-        <div className="bg-white rounded-lg shadow p-6">
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">
-            {t("dashboard.productsNearExpiry")}
-          </h2>
-          <div className="space-y-3">
-            <div className="flex justify-between items-center p-3 bg-yellow-50 rounded-lg border border-yellow-200">
-              <div>
-                <p className="font-medium text-gray-900">Es Teh Manis</p>
-                <p className="text-sm text-gray-500">SKU: ETM-001 • Expires in 3 days</p>
-              </div>
-              <span className="px-3 py-1 bg-yellow-100 text-yellow-800 rounded-full text-xs font-semibold">
-                Warning
-              </span>
-            </div>
-            <div className="flex justify-between items-center p-3 bg-yellow-50 rounded-lg border border-yellow-200">
-              <div>
-                <p className="font-medium text-gray-900">Es Jeruk</p>
-                <p className="text-sm text-gray-500">SKU: EJ-001 • Expires in 5 days</p>
-              </div>
-              <span className="px-3 py-1 bg-yellow-100 text-yellow-800 rounded-full text-xs font-semibold">
-                Warning
-              </span>
-            </div>
-            <div className="flex justify-between items-center p-3 bg-yellow-50 rounded-lg border border-yellow-200">
-              <div>
-                <p className="font-medium text-gray-900">Sate Ayam</p>
-                <p className="text-sm text-gray-500">SKU: SG-001 • Expires in 6 days</p>
-              </div>
-              <span className="px-3 py-1 bg-yellow-100 text-yellow-800 rounded-full text-xs font-semibold">
-                Warning
-              </span>
+      {summary && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Products Near Expiry */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              {t("dashboard.productsNearExpiry")}
+            </h2>
+            <div className="space-y-3">
+              {summary.near_expiry_batches.length === 0 ? (
+                <p className="text-sm text-gray-500">{t("expiry.noNearExpiry") || "Nothing is close to expiring"}</p>
+              ) : (
+                summary.near_expiry_batches.map((batch) => {
+                  const daysLeft = getDaysUntilExpiry(batch.expiry_date);
+                  return (
+                    <div
+                      key={batch.id}
+                      className="flex justify-between items-center p-3 bg-yellow-50 rounded-lg border border-yellow-200"
+                    >
+                      <div>
+                        <p className="font-medium text-gray-900">{batch.product.name}</p>
+                        <p className="text-sm text-gray-500">
+                          {batch.product.sku && `SKU: ${batch.product.sku} • `}
+                          {daysLeft === 0 ? "Expires today" : `Expires in ${daysLeft} day${daysLeft !== 1 ? "s" : ""}`}
+                        </p>
+                      </div>
+                      <span className="px-3 py-1 bg-yellow-100 text-yellow-800 rounded-full text-xs font-semibold">
+                        {batch.quantity}
+                      </span>
+                    </div>
+                  );
+                })
+              )}
             </div>
           </div>
-        </div>
 
-        {/* Products Pass Expiry */}
-        <div className="bg-white rounded-lg shadow p-6">
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">
-            {t("dashboard.productsPassExpiry")}
-          </h2>
-          <div className="space-y-3">
-            <div className="flex justify-between items-center p-3 bg-red-50 rounded-lg border border-red-200">
-              <div>
-                <p className="font-medium text-gray-900">Nasi Goreng</p>
-                <p className="text-sm text-gray-500">SKU: NG-002 • Expired 2 days ago</p>
-              </div>
-              <span className="px-3 py-1 bg-red-100 text-red-800 rounded-full text-xs font-semibold">
-                Expired
-              </span>
-            </div>
-            <div className="flex justify-between items-center p-3 bg-red-50 rounded-lg border border-red-200">
-              <div>
-                <p className="font-medium text-gray-900">Es Teh Manis</p>
-                <p className="text-sm text-gray-500">SKU: ETM-002 • Expired 5 days ago</p>
-              </div>
-              <span className="px-3 py-1 bg-red-100 text-red-800 rounded-full text-xs font-semibold">
-                Expired
-              </span>
-            </div>
-            <div className="flex justify-between items-center p-3 bg-red-50 rounded-lg border border-red-200">
-              <div>
-                <p className="font-medium text-gray-900">Mie Ayam</p>
-                <p className="text-sm text-gray-500">SKU: MA-002 • Expired 1 day ago</p>
-              </div>
-              <span className="px-3 py-1 bg-red-100 text-red-800 rounded-full text-xs font-semibold">
-                Expired
-              </span>
+          {/* Products Pass Expiry */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              {t("dashboard.productsPassExpiry")}
+            </h2>
+            <div className="space-y-3">
+              {summary.expired_batches.length === 0 ? (
+                <p className="text-sm text-gray-500">{t("expiry.noExpired") || "No expired stock on hand"}</p>
+              ) : (
+                summary.expired_batches.map((batch) => {
+                  const daysAgo = -getDaysUntilExpiry(batch.expiry_date);
+                  return (
+                    <div
+                      key={batch.id}
+                      className="flex justify-between items-center p-3 bg-red-50 rounded-lg border border-red-200"
+                    >
+                      <div>
+                        <p className="font-medium text-gray-900">{batch.product.name}</p>
+                        <p className="text-sm text-gray-500">
+                          {batch.product.sku && `SKU: ${batch.product.sku} • `}
+                          Expired {daysAgo} day{daysAgo !== 1 ? "s" : ""} ago
+                        </p>
+                      </div>
+                      <span className="px-3 py-1 bg-red-100 text-red-800 rounded-full text-xs font-semibold">
+                        {batch.quantity}
+                      </span>
+                    </div>
+                  );
+                })
+              )}
             </div>
+            {summary.expired_batches.length > 0 && (
+              <Link
+                href="/dashboard/inventory/expiry"
+                className="inline-block mt-4 text-sm text-blue-600 hover:text-blue-900 hover:underline"
+              >
+                {t("expiry.title") || "Expiry Worklist"} →
+              </Link>
+            )}
           </div>
         </div>
-      </div>
+      )}
 
       {/* Empty Stock Section */}
-      <div className="mt-6 bg-white rounded-lg shadow p-6">
-        <h2 className="text-xl font-semibold text-gray-900 mb-4">{t("dashboard.emptyStockProducts")}</h2>
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-          <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
-            <p className="font-medium text-gray-900">Nasi Goreng</p>
-            <p className="text-sm text-gray-500 mt-1">SKU: NG-002 • Quantity: 0</p>
-          </div>
-          <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
-            <p className="font-medium text-gray-900">Es Campur</p>
-            <p className="text-sm text-gray-500 mt-1">SKU: EC-001 • Quantity: 0</p>
-          </div>
-          <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
-            <p className="font-medium text-gray-900">Kerupuk</p>
-            <p className="text-sm text-gray-500 mt-1">SKU: KR-001 • Quantity: 0</p>
+      {summary && summary.empty_stock_products.length > 0 && (
+        <div className="mt-6 bg-white rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">{t("dashboard.emptyStockProducts")}</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {summary.empty_stock_products.map((product) => (
+              <div key={product.id} className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+                <p className="font-medium text-gray-900">{product.name}</p>
+                <p className="text-sm text-gray-500 mt-1">
+                  {product.sku && `SKU: ${product.sku} • `}Quantity: 0
+                </p>
+              </div>
+            ))}
           </div>
         </div>
-      </div>
+      )}
     </motion.div>
   );
 }
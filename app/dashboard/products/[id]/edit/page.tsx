@@ -0,0 +1,376 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { Package, Tag, Barcode, Store, DollarSign, ShoppingCart, Save, AlertTriangle, RefreshCw } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useRouter, useParams } from "next/navigation";
+import { can, isSuperAdmin } from "@/lib/roles";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { fetchCategories, type Category } from "@/lib/categories";
+import { api, getErrorMessage, type Store as StoreOption } from "@/lib/api";
+import {
+  emptyProductForm,
+  productToFormData,
+  toProductInput,
+  validateProductForm,
+  type ProductFormData,
+} from "@/lib/products";
+
+export default function EditProductPage() {
+  const { t } = useLanguage();
+  const { user, isLoading } = useAuth();
+  const router = useRouter();
+  const params = useParams();
+  const productId = params.id as string;
+  const userIsSuperAdmin = isSuperAdmin(user?.role);
+  const canWriteProducts = can(user, "products:write");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isLoadingProduct, setIsLoadingProduct] = useState(true);
+  const [error, setError] = useState("");
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [stores, setStores] = useState<StoreOption[]>([]);
+  const [isLoadingStores, setIsLoadingStores] = useState(false);
+  const [formData, setFormData] = useState<ProductFormData>(emptyProductForm);
+
+  // Redirect if not allowed to edit products
+  useEffect(() => {
+    if (!isLoading && user && !canWriteProducts) {
+      router.push("/dashboard/products");
+    }
+  }, [user, isLoading, canWriteProducts, router]);
+
+  useEffect(() => {
+    const fetchProduct = async () => {
+      try {
+        setIsLoadingProduct(true);
+        const product = await api.products.get(productId);
+        setFormData(productToFormData(product));
+      } catch (error) {
+        console.error("Error fetching product:", error);
+        setError(getErrorMessage(error, "An error occurred while loading the product"));
+      } finally {
+        setIsLoadingProduct(false);
+      }
+    };
+
+    if (canWriteProducts && productId) {
+      fetchProduct();
+    }
+  }, [canWriteProducts, productId]);
+
+  // Load categories from API
+  useEffect(() => {
+    const loadCategories = async () => {
+      const cats = await fetchCategories();
+      setCategories(cats);
+    };
+    loadCategories();
+  }, []);
+
+  // Fetch stores if user is super_admin
+  useEffect(() => {
+    const fetchStores = async () => {
+      try {
+        setIsLoadingStores(true);
+        const result = await api.stores.list({ limit: 100, offset: 0 });
+        setStores(result.data);
+      } catch (error) {
+        console.error("Error fetching stores:", error);
+      } finally {
+        setIsLoadingStores(false);
+      }
+    };
+
+    if (userIsSuperAdmin) {
+      fetchStores();
+    }
+  }, [userIsSuperAdmin]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    const validationError = validateProductForm(formData, userIsSuperAdmin, t);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await api.products.update(productId, toProductInput(formData, userIsSuperAdmin));
+      window.alert(`Product "${formData.name}" updated successfully!`);
+      router.push("/dashboard/products");
+    } catch (error) {
+      console.error("Error updating product:", error);
+      setError(getErrorMessage(error, "An error occurred while updating the product. Please try again."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isLoading && !canWriteProducts) {
+    return null;
+  }
+
+  if (isLoading || isLoadingProduct) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.3 }}
+    >
+      <motion.h1
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="text-2xl sm:text-3xl font-bold text-gray-900 mb-6"
+      >
+        {t("products.editProduct") || "Edit Product"}
+      </motion.h1>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+        className="bg-white rounded-lg shadow p-6"
+      >
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
+              {t("products.productName") || "Product Name"} <span className="text-red-500">*</span>
+            </label>
+            <div className="relative">
+              <Package className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+              <input
+                type="text"
+                id="name"
+                name="name"
+                required
+                value={formData.name}
+                onChange={handleChange}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="e.g., Nasi Goreng"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="category_id" className="block text-sm font-medium text-gray-700 mb-2">
+              {t("products.category") || "Category"} <span className="text-red-500">*</span>
+            </label>
+            <div className="relative">
+              <Tag className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400 z-10" />
+              <select
+                id="category_id"
+                name="category_id"
+                required
+                value={formData.category_id}
+                onChange={handleChange}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none bg-white"
+              >
+                <option value="">Select a category</option>
+                {categories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="sku" className="block text-sm font-medium text-gray-700 mb-2">
+              {t("products.sku") || "SKU"}
+            </label>
+            <div className="relative">
+              <Barcode className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+              <input
+                type="text"
+                id="sku"
+                name="sku"
+                value={formData.sku}
+                onChange={handleChange}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="e.g., NG-001 (optional)"
+              />
+            </div>
+          </div>
+
+          {userIsSuperAdmin && (
+            <div>
+              <label htmlFor="store_id" className="block text-sm font-medium text-gray-700 mb-2">
+                Store <span className="text-red-500">*</span>
+              </label>
+              <div className="relative">
+                <Store className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400 z-10" />
+                <select
+                  id="store_id"
+                  name="store_id"
+                  required
+                  value={formData.store_id}
+                  onChange={handleChange}
+                  disabled={isLoadingStores}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none bg-white disabled:bg-gray-100"
+                >
+                  <option value="">{isLoadingStores ? "Loading stores..." : "Select a store"}</option>
+                  {stores.map((store) => (
+                    <option key={store.id} value={store.id}>
+                      {store.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="selling_price" className="block text-sm font-medium text-gray-700 mb-2">
+                {t("products.sellingPrice") || "Selling Price"} (Rp) <span className="text-red-500">*</span>
+              </label>
+              <div className="relative">
+                <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                <input
+                  type="number"
+                  id="selling_price"
+                  name="selling_price"
+                  required
+                  min="0"
+                  step="0.01"
+                  value={formData.selling_price}
+                  onChange={handleChange}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="25000"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="purchase_price" className="block text-sm font-medium text-gray-700 mb-2">
+                {t("products.purchasePrice") || "Purchase Price"} (Rp) <span className="text-red-500">*</span>
+              </label>
+              <div className="relative">
+                <ShoppingCart className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                <input
+                  type="number"
+                  id="purchase_price"
+                  name="purchase_price"
+                  required
+                  min="0"
+                  step="0.01"
+                  value={formData.purchase_price}
+                  onChange={handleChange}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="15000"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="reorder_point" className="block text-sm font-medium text-gray-700 mb-2">
+                {t("products.reorderPoint") || "Reorder Point"}
+              </label>
+              <div className="relative">
+                <AlertTriangle className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                <input
+                  type="number"
+                  id="reorder_point"
+                  name="reorder_point"
+                  min="0"
+                  step="1"
+                  value={formData.reorder_point}
+                  onChange={handleChange}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="10"
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {t("products.reorderPointHint") || "Minimum stock before the product is suggested for reorder"}
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="reorder_quantity" className="block text-sm font-medium text-gray-700 mb-2">
+                {t("products.reorderQuantity") || "Reorder Quantity"}
+              </label>
+              <div className="relative">
+                <RefreshCw className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                <input
+                  type="number"
+                  id="reorder_quantity"
+                  name="reorder_quantity"
+                  min="1"
+                  step="1"
+                  value={formData.reorder_quantity}
+                  onChange={handleChange}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="24"
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {t("products.reorderQuantityHint") || "Usual order size, e.g. one carton"}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-4 pt-4">
+            <motion.button
+              type="button"
+              onClick={() => router.back()}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </motion.button>
+            <motion.button
+              type="submit"
+              disabled={isSubmitting}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {isSubmitting ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  Updating...
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4" />
+                  Update Product
+                </>
+              )}
+            </motion.button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+}
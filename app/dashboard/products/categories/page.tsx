@@ -5,14 +5,18 @@ import { motion } from "framer-motion";
 import { Plus, Edit, Trash2, Download, Search, X } from "lucide-react";
 import { fetchCategories, createCategory, updateCategory, deleteCategory, type Category } from "@/lib/categories";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/useAuth";
+import { can } from "@/lib/roles";
 
 export default function CategoriesPage() {
   const { t } = useLanguage();
+  const { user } = useAuth();
+  const canWriteProducts = can(user, "products:write");
   const [categories, setCategories] = useState<Category[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
-  const [formData, setFormData] = useState({ name: "", category_code: "", description: "" });
+  const [formData, setFormData] = useState({ name: "", category_code: "", description: "", near_expiry_days: "" });
   const [error, setError] = useState("");
   const [isLoading, setIsLoading] = useState(true);
 
@@ -47,10 +51,15 @@ export default function CategoriesPage() {
   const handleOpenModal = (category?: Category) => {
     if (category) {
       setEditingCategory(category);
-      setFormData({ name: category.name, category_code: category.category_code || "", description: category.description || "" });
+      setFormData({
+        name: category.name,
+        category_code: category.category_code || "",
+        description: category.description || "",
+        near_expiry_days: category.near_expiry_days != null ? String(category.near_expiry_days) : "",
+      });
     } else {
       setEditingCategory(null);
-      setFormData({ name: "", category_code: "", description: "" });
+      setFormData({ name: "", category_code: "", description: "", near_expiry_days: "" });
     }
     setError("");
     setIsModalOpen(true);
@@ -59,7 +68,7 @@ export default function CategoriesPage() {
   const handleCloseModal = () => {
     setIsModalOpen(false);
     setEditingCategory(null);
-    setFormData({ name: "", category_code: "", description: "" });
+    setFormData({ name: "", category_code: "", description: "", near_expiry_days: "" });
     setError("");
   };
 
@@ -101,6 +110,7 @@ export default function CategoriesPage() {
           name: formData.name.trim(),
           category_code: formData.category_code.trim(),
           description: formData.description.trim() || undefined,
+          near_expiry_days: formData.near_expiry_days ? parseInt(formData.near_expiry_days) : null,
         });
         if (!updated) {
           setError("Failed to update category");
@@ -111,6 +121,7 @@ export default function CategoriesPage() {
           name: formData.name.trim(),
           category_code: formData.category_code.trim(),
           description: formData.description.trim() || undefined,
+          ...(formData.near_expiry_days && { near_expiry_days: parseInt(formData.near_expiry_days) }),
         });
         if (!created) {
           setError("Failed to create category");
@@ -181,15 +192,17 @@ export default function CategoriesPage() {
             <Download className="h-4 w-4" />
             {t("categories.download")}
           </motion.button>
-          <motion.button
-            onClick={() => handleOpenModal()}
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
-          >
-            <Plus className="h-4 w-4" />
-            {t("categories.addCategory")}
-          </motion.button>
+          {canWriteProducts && (
+            <motion.button
+              onClick={() => handleOpenModal()}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
+            >
+              <Plus className="h-4 w-4" />
+              {t("categories.addCategory")}
+            </motion.button>
+          )}
         </div>
       </div>
 
@@ -263,24 +276,28 @@ export default function CategoriesPage() {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                     <div className="flex items-center gap-2">
-                      <motion.button
-                        onClick={() => handleOpenModal(category)}
-                        whileHover={{ scale: 1.1 }}
-                        whileTap={{ scale: 0.9 }}
-                        className="text-blue-600 hover:text-blue-900"
-                        title={t("common.edit")}
-                      >
-                        <Edit className="h-4 w-4" />
-                      </motion.button>
-                      <motion.button
-                        onClick={() => handleDelete(category.id)}
-                        whileHover={{ scale: 1.1 }}
-                        whileTap={{ scale: 0.9 }}
-                        className="text-red-600 hover:text-red-900"
-                        title={t("common.delete")}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </motion.button>
+                      {canWriteProducts && (
+                        <>
+                          <motion.button
+                            onClick={() => handleOpenModal(category)}
+                            whileHover={{ scale: 1.1 }}
+                            whileTap={{ scale: 0.9 }}
+                            className="text-blue-600 hover:text-blue-900"
+                            title={t("common.edit")}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </motion.button>
+                          <motion.button
+                            onClick={() => handleDelete(category.id)}
+                            whileHover={{ scale: 1.1 }}
+                            whileTap={{ scale: 0.9 }}
+                            className="text-red-600 hover:text-red-900"
+                            title={t("common.delete")}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </motion.button>
+                        </>
+                      )}
                     </div>
                   </td>
                 </motion.tr>
@@ -359,6 +376,22 @@ export default function CategoriesPage() {
                 />
               </div>
 
+              <div>
+                <label htmlFor="near_expiry_days" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t("categories.nearExpiryDays") || "Near-expiry window (days)"}
+                </label>
+                <input
+                  type="number"
+                  id="near_expiry_days"
+                  min="0"
+                  step="1"
+                  value={formData.near_expiry_days}
+                  onChange={(e) => setFormData({ ...formData, near_expiry_days: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder={t("categories.nearExpiryDaysPlaceholder") || "Use the store setting"}
+                />
+              </div>
+
               <div className="flex justify-end gap-3 pt-4">
                 <button
                   type="button"
@@ -10,42 +10,15 @@ import AddProductModal from "@/components/admin/AddProductModal";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { fetchCategories, type Category } from "@/lib/categories";
 import { useAuth } from "@/hooks/useAuth";
-import { isSuperAdmin } from "@/lib/roles";
-
-interface UserRef {
-  id: string;
-  name: string;
-  email: string;
-}
-
-interface Product {
-  id: string;
-  name: string;
-  category: {
-    id: string;
-    name: string;
-  };
-  sku?: string;
-  selling_price: number;
-  purchase_price: number;
-  created_at?: string;
-  created_by?: UserRef | null;
-  updated_at?: string;
-  updated_by?: UserRef | null;
-}
-
-interface Store {
-  id: string;
-  name: string;
-  address?: string;
-  phone?: string;
-}
+import { can, isSuperAdmin } from "@/lib/roles";
+import { api, getErrorMessage, type Product, type ProductInput, type Store } from "@/lib/api";
 
 export default function ProductsPage() {
   const { t } = useLanguage();
   const { user } = useAuth();
   const router = useRouter();
   const userIsSuperAdmin = isSuperAdmin(user?.role);
+  const canWriteProducts = can(user, "products:write");
   const [searchInput, setSearchInput] = useState("");
   const [skuInput, setSkuInput] = useState("");
   const [storeFilter, setStoreFilter] = useState("");
@@ -65,8 +38,6 @@ export default function ProductsPage() {
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
   const itemsPerPage = 10;
 
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
-
   // Load categories from API
   useEffect(() => {
     const loadCategories = async () => {
@@ -86,22 +57,8 @@ export default function ProductsPage() {
       if (userIsSuperAdmin) {
         try {
           setIsLoadingStores(true);
-          const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-          
-          const response = await fetch(`${API_BASE_URL}/api/stores?limit=100&offset=0`, {
-            headers: {
-              ...(token && { Authorization: `Bearer ${token}` }),
-            },
-          });
-
-          if (response.ok) {
-            const result = await response.json();
-            if (result.data && Array.isArray(result.data)) {
-              setStores(result.data);
-            } else if (Array.isArray(result)) {
-              setStores(result);
-            }
-          }
+          const result = await api.stores.list({ limit: 100, offset: 0 });
+          setStores(result.data);
         } catch (error) {
           console.error("Error fetching stores:", error);
         } finally {
@@ -113,7 +70,7 @@ export default function ProductsPage() {
     if (userIsSuperAdmin) {
       fetchStores();
     }
-  }, [userIsSuperAdmin, API_BASE_URL]);
+  }, [userIsSuperAdmin]);
 
   // Fetch products from API
   useEffect(() => {
@@ -123,49 +80,15 @@ export default function ProductsPage() {
   const fetchProducts = async (page: number = 1, name: string = "", sku: string = "", store_id: string = "") => {
     try {
       setIsLoading(true);
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-      const offset = (page - 1) * itemsPerPage;
-      
-      // Build query parameters
-      const params = new URLSearchParams({
-        limit: itemsPerPage.toString(),
-        offset: offset.toString(),
-      });
-      if (name.trim()) {
-        params.append("name", name.trim());
-      }
-      if (sku.trim()) {
-        params.append("sku", sku.trim());
-      }
-      if (store_id.trim()) {
-        params.append("store_id", store_id.trim());
-      }
-      
-      const response = await fetch(`${API_BASE_URL}/api/products?${params.toString()}`, {
-        headers: {
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
+      const result = await api.products.list({
+        limit: itemsPerPage,
+        offset: (page - 1) * itemsPerPage,
+        name,
+        sku,
+        store_id,
       });
-
-      if (response.ok) {
-        const result = await response.json();
-        // Handle response format: {data, limit, offset, total}
-        if (result.data && Array.isArray(result.data)) {
-          setProducts(result.data);
-          setTotalItems(result.total || 0);
-        } else if (Array.isArray(result)) {
-          // Fallback for old format
-          setProducts(result);
-          setTotalItems(result.length);
-        } else {
-          setProducts(result.products || []);
-          setTotalItems(result.total || 0);
-        }
-      } else {
-        console.error("Failed to fetch products");
-        setProducts([]);
-        setTotalItems(0);
-      }
+      setProducts(result.data);
+      setTotalItems(result.total);
     } catch (error) {
       console.error("Error fetching products:", error);
       setProducts([]);
@@ -199,63 +122,29 @@ export default function ProductsPage() {
     setIsQRScannerOpen(false);
   };
 
-  const handleAddProduct = async (product: { name: string; category_id: string; sku?: string; selling_price: number; purchase_price: number; store_id?: string }) => {
+  const handleAddProduct = async (product: ProductInput) => {
     try {
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-      
-      const response = await fetch(`${API_BASE_URL}/api/products`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
-        body: JSON.stringify(product),
-      });
-
-      const data = await response.json();
-
-      if (response.ok) {
-        window.alert(`Product "${product.name}" added successfully!`);
-        setIsAddProductModalOpen(false);
-        // Refresh products list
-        fetchProducts(currentPage, nameQuery, skuQuery, storeQuery);
-      } else {
-        window.alert(data.error || data.message || "Failed to add product");
-      }
+      await api.products.create(product);
+      window.alert(`Product "${product.name}" added successfully!`);
+      setIsAddProductModalOpen(false);
+      // Refresh products list
+      fetchProducts(currentPage, nameQuery, skuQuery, storeQuery);
     } catch (error) {
       console.error("Error adding product:", error);
-      window.alert("An error occurred while adding the product");
+      window.alert(getErrorMessage(error, "An error occurred while adding the product"));
     }
   };
 
   const handleBulkAdd = async (file: File) => {
     try {
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-      
-      const formData = new FormData();
-      formData.append("file", file);
-
-      const response = await fetch(`${API_BASE_URL}/api/products/batch`, {
-        method: "POST",
-        headers: {
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
-        body: formData,
-      });
-
-      const data = await response.json();
-
-      if (response.ok) {
-        window.alert(`Bulk upload successful! ${data.count || "Products"} added.`);
-        setIsAddProductModalOpen(false);
-        // Refresh products list
-        fetchProducts(currentPage, nameQuery, skuQuery, storeQuery);
-      } else {
-        window.alert(data.error || data.message || "Failed to upload products");
-      }
+      const data = await api.products.bulkUpload(file);
+      window.alert(`Bulk upload successful! ${data?.count || "Products"} added.`);
+      setIsAddProductModalOpen(false);
+      // Refresh products list
+      fetchProducts(currentPage, nameQuery, skuQuery, storeQuery);
     } catch (error) {
       console.error("Error uploading products:", error);
-      window.alert("An error occurred while uploading products");
+      window.alert(getErrorMessage(error, "An error occurred while uploading products"));
     }
   };
 
@@ -267,25 +156,12 @@ export default function ProductsPage() {
   const handleDelete = async (id: string) => {
     if (window.confirm(t("products.confirmDelete") || "Are you sure you want to delete this product?")) {
       try {
-        const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-        
-        const response = await fetch(`${API_BASE_URL}/api/products/${id}`, {
-          method: "DELETE",
-          headers: {
-            ...(token && { Authorization: `Bearer ${token}` }),
-          },
-        });
-
-        if (response.ok) {
-          window.alert(t("products.productDeleted") || "Product deleted successfully");
-          fetchProducts(currentPage, nameQuery, skuQuery, storeQuery);
-        } else {
-          const data = await response.json();
-          window.alert(data.error || data.message || t("products.failedToDeleteProduct") || "Failed to delete product");
-        }
+        await api.products.remove(id);
+        window.alert(t("products.productDeleted") || "Product deleted successfully");
+        fetchProducts(currentPage, nameQuery, skuQuery, storeQuery);
       } catch (error) {
         console.error("Error deleting product:", error);
-        window.alert(t("products.errorDeletingProduct") || "An error occurred while deleting the product");
+        window.alert(getErrorMessage(error, t("products.errorDeletingProduct") || "An error occurred while deleting the product"));
       }
     }
   };
@@ -296,15 +172,17 @@ export default function ProductsPage() {
     <div>
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
         <h1 className="text-3xl font-bold text-gray-900">{t("products.title")}</h1>
-        <motion.button
-          onClick={() => setIsAddProductModalOpen(true)}
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
-          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
-        >
-          <Plus className="h-4 w-4" />
-          Add Product
-        </motion.button>
+        {canWriteProducts && (
+          <motion.button
+            onClick={() => setIsAddProductModalOpen(true)}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
+          >
+            <Plus className="h-4 w-4" />
+            Add Product
+          </motion.button>
+        )}
       </div>
 
       {/* Search Section */}
@@ -476,24 +354,28 @@ export default function ProductsPage() {
                         >
                           <Eye className="h-4 w-4" />
                         </motion.button>
-                        <motion.button
-                          onClick={() => router.push(`/dashboard/products/${product.id}/edit`)}
-                          whileHover={{ scale: 1.1 }}
-                          whileTap={{ scale: 0.9 }}
-                          className="text-blue-600 hover:text-blue-900"
-                          title="Edit"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </motion.button>
-                        <motion.button
-                          onClick={() => handleDelete(product.id)}
-                          whileHover={{ scale: 1.1 }}
-                          whileTap={{ scale: 0.9 }}
-                          className="text-red-600 hover:text-red-900"
-                          title="Delete"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </motion.button>
+                        {canWriteProducts && (
+                          <>
+                            <motion.button
+                              onClick={() => router.push(`/dashboard/products/${product.id}/edit`)}
+                              whileHover={{ scale: 1.1 }}
+                              whileTap={{ scale: 0.9 }}
+                              className="text-blue-600 hover:text-blue-900"
+                              title="Edit"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </motion.button>
+                            <motion.button
+                              onClick={() => handleDelete(product.id)}
+                              whileHover={{ scale: 1.1 }}
+                              whileTap={{ scale: 0.9 }}
+                              className="text-red-600 hover:text-red-900"
+                              title="Delete"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </motion.button>
+                          </>
+                        )}
                       </div>
                     </td>
                   </motion.tr>
@@ -636,17 +518,19 @@ export default function ProductsPage() {
               >
                 {t("common.close") || "Close"}
               </motion.button>
-              <motion.button
-                onClick={() => {
-                  setIsDetailModalOpen(false);
-                  router.push(`/dashboard/products/${selectedProduct.id}/edit`);
-                }}
-                whileHover={{ scale: 1.02 }}
-                whileTap={{ scale: 0.98 }}
-                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-              >
-                {t("common.edit") || "Edit Product"}
-              </motion.button>
+              {canWriteProducts && (
+                <motion.button
+                  onClick={() => {
+                    setIsDetailModalOpen(false);
+                    router.push(`/dashboard/products/${selectedProduct.id}/edit`);
+                  }}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  {t("common.edit") || "Edit Product"}
+                </motion.button>
+              )}
             </div>
           </motion.div>
         </div>
@@ -1,47 +1,28 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { motion } from "framer-motion";
 import { Shield, Hash } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useRouter } from "next/navigation";
-import { isSuperAdmin } from "@/lib/roles";
+import { can, validateRoleGrant, type Permission } from "@/lib/roles";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { api, getErrorMessage } from "@/lib/api";
+import PermissionMatrix from "@/components/admin/PermissionMatrix";
 
 export default function CreateRolePage() {
   const { t } = useLanguage();
   const { user, isLoading } = useAuth();
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [showContent, setShowContent] = useState(false);
   const [error, setError] = useState("");
   const [formData, setFormData] = useState({
     name: "",
     level: "",
   });
+  const [permissions, setPermissions] = useState<Permission[]>([]);
 
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
-
-  // Timeout fallback
-  useEffect(() => {
-    const timer = setTimeout(() => setShowContent(true), 2000);
-    return () => clearTimeout(timer);
-  }, []);
-
-  // Redirect if not super_admin
-  useEffect(() => {
-    if ((!isLoading || showContent) && user !== undefined) {
-      if (!user) {
-        router.push("/login");
-        return;
-      }
-      if (!user.role || !isSuperAdmin(user.role)) {
-        router.push("/dashboard");
-      }
-    }
-  }, [user, isLoading, router, showContent]);
-
-  if (isLoading && !showContent) {
+  if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
@@ -50,7 +31,7 @@ export default function CreateRolePage() {
     );
   }
 
-  if (!user || !user.role || !isSuperAdmin(user.role)) {
+  if (!user || !can(user, "roles:manage")) {
     return null;
   }
 
@@ -73,42 +54,35 @@ export default function CreateRolePage() {
       return;
     }
 
+    const grantError = validateRoleGrant(user, { level, permissions });
+    if (grantError) {
+      setError(grantError);
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-      
-      const response = await fetch(`${API_BASE_URL}/api/roles`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
-        body: JSON.stringify({
-          name: formData.name,
-          level: level,
-        }),
+      await api.roles.create({
+        name: formData.name,
+        level: level,
+        permissions,
+      });
+
+      window.alert(`Role "${formData.name}" created successfully!`);
+
+      // Reset form
+      setFormData({
+        name: "",
+        level: "",
       });
+      setPermissions([]);
 
-      const data = await response.json();
-
-      if (response.ok) {
-        window.alert(`Role "${formData.name}" created successfully!`);
-        
-        // Reset form
-        setFormData({
-          name: "",
-          level: "",
-        });
-        
-        // Redirect to roles list
-        router.push("/dashboard/roles");
-      } else {
-        setError(data.error || data.message || "Failed to create role");
-      }
+      // Redirect to roles list
+      router.push("/dashboard/roles");
     } catch (error) {
       console.error("Error creating role:", error);
-      setError("An error occurred while creating the role. Please try again.");
+      setError(getErrorMessage(error, "An error occurred while creating the role. Please try again."));
     } finally {
       setIsSubmitting(false);
     }
@@ -186,6 +160,17 @@ export default function CreateRolePage() {
             </p>
           </div>
 
+          {/* Permissions */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t("roles.permissions") || "Permissions"}
+            </label>
+            <PermissionMatrix value={permissions} onChange={setPermissions} />
+            <p className="mt-1 text-xs text-gray-500">
+              Super admins (level 99) always have every permission.
+            </p>
+          </div>
+
           {/* Submit Button */}
           <div className="flex justify-end gap-4 pt-4">
             <motion.button
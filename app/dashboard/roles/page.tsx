@@ -5,26 +5,11 @@ import { motion } from "framer-motion";
 import { Plus, Search, Edit, Trash2, Shield, Eye, X } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/hooks/useAuth";
-import { isSuperAdmin } from "@/lib/roles";
+import { can } from "@/lib/roles";
 import Pagination from "@/components/admin/Pagination";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { api, getErrorMessage, type Role } from "@/lib/api";
 
-interface UserRef {
-  id: string;
-  name: string;
-  email: string;
-}
-
-interface Role {
-  id: string;
-  name: string;
-  level: number;
-  description?: string;
-  created_at?: string;
-  created_by?: UserRef | null;
-  updated_at?: string;
-  updated_by?: UserRef | null;
-}
 
 export default function RolesPage() {
   const { t } = useLanguage();
@@ -35,28 +20,12 @@ export default function RolesPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
   const [totalItems, setTotalItems] = useState(0);
-  const [showContent, setShowContent] = useState(false);
   const [selectedRole, setSelectedRole] = useState<Role | null>(null);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
   const itemsPerPage = 10;
 
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
-
-  useEffect(() => {
-    const timer = setTimeout(() => setShowContent(true), 2000);
-    return () => clearTimeout(timer);
-  }, []);
-
-  useEffect(() => {
-    if ((!authLoading || showContent) && user !== undefined) {
-      if (!user || !isSuperAdmin(user?.role)) {
-        router.push("/dashboard");
-      }
-    }
-  }, [user, authLoading, router, showContent]);
-
   useEffect(() => {
-    if (user && isSuperAdmin(user.role)) {
+    if (user && can(user, "roles:manage")) {
       fetchRoles(currentPage, searchQuery);
     }
   }, [user, currentPage, searchQuery]);
@@ -66,41 +35,13 @@ export default function RolesPage() {
   const fetchRoles = async (page: number = 1, search: string = "") => {
     try {
       setIsLoading(true);
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-      const offset = (page - 1) * itemsPerPage;
-      
-      // Build query parameters
-      const params = new URLSearchParams({
-        limit: itemsPerPage.toString(),
-        offset: offset.toString(),
+      const result = await api.roles.list({
+        limit: itemsPerPage,
+        offset: (page - 1) * itemsPerPage,
+        search,
       });
-      if (search.trim()) {
-        params.append("search", search.trim());
-      }
-      
-      const response = await fetch(`${API_BASE_URL}/api/roles?${params.toString()}`, {
-        headers: {
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
-      });
-
-      if (response.ok) {
-        const result = await response.json();
-        // Handle new response format: {data, limit, offset, total}
-        if (result.data && Array.isArray(result.data)) {
-          setRoles(result.data);
-          setTotalItems(result.total || 0);
-        } else if (Array.isArray(result)) {
-          // Fallback for old format
-          setRoles(result);
-          setTotalItems(result.length);
-        } else {
-          setRoles(result.roles || []);
-          setTotalItems(result.total || 0);
-        }
-      } else {
-        console.error("Failed to fetch roles");
-      }
+      setRoles(result.data);
+      setTotalItems(result.total);
     } catch (error) {
       console.error("Error fetching roles:", error);
     } finally {
@@ -112,26 +53,13 @@ export default function RolesPage() {
     if (!window.confirm("Are you sure you want to delete this role?")) return;
 
     try {
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-      
-      const response = await fetch(`${API_BASE_URL}/api/roles/${id}`, {
-        method: "DELETE",
-        headers: {
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
-      });
-
-      if (response.ok) {
-        window.alert("Role deleted successfully!");
-        // Refresh the list
-        fetchRoles(currentPage, searchQuery);
-      } else {
-        const data = await response.json();
-        window.alert(data.error || data.message || "Failed to delete role");
-      }
+      await api.roles.remove(id);
+      window.alert("Role deleted successfully!");
+      // Refresh the list
+      fetchRoles(currentPage, searchQuery);
     } catch (error) {
       console.error("Error deleting role:", error);
-      window.alert("An error occurred while deleting the role");
+      window.alert(getErrorMessage(error, "An error occurred while deleting the role"));
     }
   };
 
@@ -157,7 +85,7 @@ export default function RolesPage() {
   const totalPages = Math.ceil(totalItems / itemsPerPage);
   const paginatedRoles = roles;
 
-  if (authLoading && !showContent) {
+  if (authLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
@@ -165,7 +93,7 @@ export default function RolesPage() {
     );
   }
 
-  if (!user || !isSuperAdmin(user?.role)) {
+  if (!user || !can(user, "roles:manage")) {
     return null;
   }
 
@@ -347,6 +275,26 @@ export default function RolesPage() {
                 <label className="text-sm font-medium text-gray-500">Description</label>
                 <p className="mt-1 text-lg text-gray-900">{selectedRole.description || "No description provided"}</p>
               </div>
+
+              <div>
+                <label className="text-sm font-medium text-gray-500">{t("roles.permissions") || "Permissions"}</label>
+                {selectedRole.level === 99 ? (
+                  <p className="mt-1 text-sm text-gray-900">All permissions (super admin)</p>
+                ) : selectedRole.permissions && selectedRole.permissions.length > 0 ? (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {selectedRole.permissions.map((permission) => (
+                      <span
+                        key={permission}
+                        className="px-2.5 py-1 text-xs font-mono font-medium rounded-full bg-blue-100 text-blue-800"
+                      >
+                        {permission}
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="mt-1 text-sm text-gray-900">No permissions assigned</p>
+                )}
+              </div>
               
               <div className="border-t border-gray-200 pt-6 mt-6">
                 <h3 className="text-sm font-semibold text-gray-700 mb-4">Metadata</h3>
@@ -2,11 +2,13 @@
 
 import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
-import { User, Mail, AtSign, Lock, Save, Store, MapPin } from "lucide-react";
+import { User, Mail, AtSign, Lock, Save, Store, MapPin, CalendarClock } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useRouter } from "next/navigation";
 import { isSuperAdmin } from "@/lib/roles";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { api, getErrorMessage, type UserInput } from "@/lib/api";
+import { DEFAULT_NEAR_EXPIRY_DAYS } from "@/lib/expiry";
 
 export default function SettingsPage() {
   const { user, isLoading: authLoading } = useAuth();
@@ -24,9 +26,9 @@ export default function SettingsPage() {
     confirmPassword: "",
     storeName: "",
     storeAddress: "",
+    storeNearExpiryDays: "",
   });
 
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
   const isUserSuperAdmin = user?.role && isSuperAdmin(user.role);
 
   // Load user data
@@ -50,22 +52,13 @@ export default function SettingsPage() {
       if (user?.store?.id) {
         try {
           setIsLoadingStore(true);
-          const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-          
-          const response = await fetch(`${API_BASE_URL}/api/stores/${user.store.id}`, {
-            headers: {
-              ...(token && { Authorization: `Bearer ${token}` }),
-            },
-          });
-
-          if (response.ok) {
-            const storeData = await response.json();
-            setFormData((prev) => ({
-              ...prev,
-              storeName: storeData.name || user.store?.name || "",
-              storeAddress: storeData.address || "",
-            }));
-          }
+          const storeData = await api.stores.get(user.store.id);
+          setFormData((prev) => ({
+            ...prev,
+            storeName: storeData.name || user.store?.name || "",
+            storeAddress: storeData.address || "",
+            storeNearExpiryDays: storeData.near_expiry_days != null ? String(storeData.near_expiry_days) : "",
+          }));
         } catch (error) {
           console.error("Error fetching store:", error);
         } finally {
@@ -77,7 +70,7 @@ export default function SettingsPage() {
     if (user && !isUserSuperAdmin) {
       fetchStore();
     }
-  }, [user, isUserSuperAdmin, API_BASE_URL]);
+  }, [user, isUserSuperAdmin]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -107,15 +100,8 @@ export default function SettingsPage() {
     setIsSubmitting(true);
 
     try {
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-      
       // Update user profile
-      const updateUserPayload: {
-        name?: string;
-        email?: string;
-        username?: string;
-        password?: string;
-      } = {
+      const updateUserPayload: UserInput = {
         name: formData.name,
         email: formData.email,
         username: formData.username,
@@ -126,42 +112,23 @@ export default function SettingsPage() {
         updateUserPayload.password = formData.password;
       }
 
-      const userResponse = await fetch(`${API_BASE_URL}/api/users/${user?.id}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
-        body: JSON.stringify(updateUserPayload),
-      });
-
-      const userData = await userResponse.json();
-
-      if (!userResponse.ok) {
-        setError(userData.error || userData.message || "Failed to update profile");
-        setIsSubmitting(false);
+      try {
+        await api.users.update(user?.id || "", updateUserPayload);
+      } catch (error) {
+        setError(getErrorMessage(error, "Failed to update profile"));
         return;
       }
 
       // Update store if user has a store
       if (user?.store?.id) {
-        const storeResponse = await fetch(`${API_BASE_URL}/api/stores/${user.store.id}`, {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-            ...(token && { Authorization: `Bearer ${token}` }),
-          },
-          body: JSON.stringify({
+        try {
+          await api.stores.update(user.store.id, {
             name: formData.storeName,
             address: formData.storeAddress,
-          }),
-        });
-
-        const storeData = await storeResponse.json();
-
-        if (!storeResponse.ok) {
-          setError(storeData.error || storeData.message || "Failed to update store");
-          setIsSubmitting(false);
+            ...(formData.storeNearExpiryDays && { near_expiry_days: parseInt(formData.storeNearExpiryDays) }),
+          });
+        } catch (error) {
+          setError(getErrorMessage(error, "Failed to update store"));
           return;
         }
       }
@@ -403,6 +370,32 @@ export default function SettingsPage() {
                   />
                 </div>
               </div>
+
+              {/* Near-expiry window */}
+              <div>
+                <label htmlFor="storeNearExpiryDays" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t("settings.nearExpiryDays") || "Near-expiry window (days)"}
+                </label>
+                <div className="relative">
+                  <CalendarClock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                  <input
+                    type="number"
+                    id="storeNearExpiryDays"
+                    name="storeNearExpiryDays"
+                    min="0"
+                    step="1"
+                    value={formData.storeNearExpiryDays}
+                    onChange={handleChange}
+                    disabled={isLoadingStore}
+                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                    placeholder={String(DEFAULT_NEAR_EXPIRY_DAYS)}
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {t("settings.nearExpiryDaysHint") ||
+                    "Batches expiring within this many days are flagged as near expiry. Categories can override it."}
+                </p>
+              </div>
             </>
           )}
 
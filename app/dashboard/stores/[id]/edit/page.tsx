@@ -2,16 +2,19 @@
 
 import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
-import { Store, MapPin, Phone, Building } from "lucide-react";
+import { Store, MapPin, Phone, Building, CalendarClock } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useRouter, useParams } from "next/navigation";
-import { isSuperAdmin } from "@/lib/roles";
+import { can } from "@/lib/roles";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { api, getErrorMessage } from "@/lib/api";
+import { DEFAULT_NEAR_EXPIRY_DAYS } from "@/lib/expiry";
 
 interface StoreData {
   name: string;
   address: string;
   phone: string;
+  near_expiry_days: string;
 }
 
 export default function EditStorePage() {
@@ -22,35 +25,16 @@ export default function EditStorePage() {
   const storeId = params.id as string;
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoadingStore, setIsLoadingStore] = useState(true);
-  const [showContent, setShowContent] = useState(false);
   const [error, setError] = useState("");
   const [formData, setFormData] = useState<StoreData>({
     name: "",
     address: "",
     phone: "",
+    near_expiry_days: "",
   });
 
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
-
-  useEffect(() => {
-    const timer = setTimeout(() => setShowContent(true), 2000);
-    return () => clearTimeout(timer);
-  }, []);
-
   useEffect(() => {
-    if ((!isLoading || showContent) && user !== undefined) {
-      if (!user) {
-        router.push("/login");
-        return;
-      }
-      if (!user.role || !isSuperAdmin(user.role)) {
-        router.push("/dashboard");
-      }
-    }
-  }, [user, isLoading, router, showContent]);
-
-  useEffect(() => {
-    if (user && isSuperAdmin(user.role) && storeId) {
+    if (user && can(user, "stores:manage") && storeId) {
       fetchStore();
     }
   }, [user, storeId]);
@@ -58,27 +42,16 @@ export default function EditStorePage() {
   const fetchStore = async () => {
     try {
       setIsLoadingStore(true);
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-      
-      const response = await fetch(`${API_BASE_URL}/api/stores/${storeId}`, {
-        headers: {
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
+      const data = await api.stores.get(storeId);
+      setFormData({
+        name: data.name || "",
+        address: data.address || "",
+        phone: data.phone || "",
+        near_expiry_days: data.near_expiry_days != null ? String(data.near_expiry_days) : "",
       });
-
-      if (response.ok) {
-        const data = await response.json();
-        setFormData({
-          name: data.name || "",
-          address: data.address || "",
-          phone: data.phone || "",
-        });
-      } else {
-        setError("Failed to load store");
-      }
     } catch (error) {
       console.error("Error fetching store:", error);
-      setError("An error occurred while loading the store");
+      setError(getErrorMessage(error, "An error occurred while loading the store"));
     } finally {
       setIsLoadingStore(false);
     }
@@ -98,38 +71,24 @@ export default function EditStorePage() {
     setError("");
 
     try {
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-      
-      const response = await fetch(`${API_BASE_URL}/api/stores/${storeId}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
-        body: JSON.stringify({
-          name: formData.name,
-          address: formData.address,
-          phone: formData.phone,
-        }),
+      await api.stores.update(storeId, {
+        name: formData.name,
+        address: formData.address,
+        phone: formData.phone,
+        ...(formData.near_expiry_days && { near_expiry_days: parseInt(formData.near_expiry_days) }),
       });
 
-      const data = await response.json();
-
-      if (response.ok) {
-        window.alert(`Store "${formData.name}" updated successfully!`);
-        router.push("/dashboard/stores");
-      } else {
-        setError(data.error || data.message || "Failed to update store");
-      }
+      window.alert(`Store "${formData.name}" updated successfully!`);
+      router.push("/dashboard/stores");
     } catch (error) {
       console.error("Error updating store:", error);
-      setError("An error occurred while updating the store. Please try again.");
+      setError(getErrorMessage(error, "An error occurred while updating the store. Please try again."));
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  if (isLoading && !showContent) {
+  if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
@@ -137,7 +96,7 @@ export default function EditStorePage() {
     );
   }
 
-  if (!user || !user.role || !isSuperAdmin(user.role)) {
+  if (!user || !can(user, "stores:manage")) {
     return null;
   }
 
@@ -234,6 +193,26 @@ export default function EditStorePage() {
             </div>
           </div>
 
+          <div>
+            <label htmlFor="near_expiry_days" className="block text-sm font-medium text-gray-700 mb-2">
+              {t("settings.nearExpiryDays") || "Near-expiry window (days)"}
+            </label>
+            <div className="relative">
+              <CalendarClock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+              <input
+                type="number"
+                id="near_expiry_days"
+                name="near_expiry_days"
+                min="0"
+                step="1"
+                value={formData.near_expiry_days}
+                onChange={handleChange}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder={String(DEFAULT_NEAR_EXPIRY_DAYS)}
+              />
+            </div>
+          </div>
+
           <div className="flex justify-end gap-4 pt-4">
             <motion.button
               type="button"
@@ -1,19 +1,19 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { motion } from "framer-motion";
 import { Store, MapPin, Phone, Building } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useRouter } from "next/navigation";
-import { isSuperAdmin } from "@/lib/roles";
+import { can } from "@/lib/roles";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { api, getErrorMessage } from "@/lib/api";
 
 export default function CreateStorePage() {
   const { t } = useLanguage();
   const { user, isLoading } = useAuth();
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [showContent, setShowContent] = useState(false);
   const [error, setError] = useState("");
   const [formData, setFormData] = useState({
     name: "",
@@ -21,31 +21,8 @@ export default function CreateStorePage() {
     phone: "",
   });
 
-  // Timeout fallback to prevent infinite loading
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      setShowContent(true);
-    }, 2000); // 2 second timeout
-    return () => clearTimeout(timer);
-  }, []);
-
-  // Redirect if not super_admin
-  useEffect(() => {
-    // Wait for loading to complete or timeout
-    if ((!isLoading || showContent) && user !== undefined) {
-      if (!user) {
-        router.push("/login");
-        return;
-      }
-      // Check if user has role with level property
-      if (!user.role || !isSuperAdmin(user.role)) {
-        router.push("/dashboard");
-      }
-    }
-  }, [user, isLoading, router, showContent]);
-
-  // Show loading state only if still loading and haven't timed out
-  if (isLoading && !showContent) {
+  // Show loading state while the session is restored
+  if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
@@ -54,8 +31,8 @@ export default function CreateStorePage() {
     );
   }
 
-  // If no user or not super admin, show nothing (redirect will happen)
-  if (!user || !user.role || !isSuperAdmin(user.role)) {
+  // Middleware already redirects users without access; render nothing as a fallback
+  if (!user || !can(user, "stores:manage")) {
     return null;
   }
 
@@ -73,42 +50,26 @@ export default function CreateStorePage() {
     setError("");
 
     try {
-      const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
-      const session = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-      
-      const response = await fetch(`${API_BASE_URL}/api/stores`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(session && { Authorization: `Bearer ${session}` }),
-        },
-        body: JSON.stringify({
-          name: formData.name,
-          address: formData.address,
-          phone: formData.phone,
-        }),
+      await api.stores.create({
+        name: formData.name,
+        address: formData.address,
+        phone: formData.phone,
+      });
+
+      window.alert(`Store "${formData.name}" created successfully!`);
+
+      // Reset form
+      setFormData({
+        name: "",
+        address: "",
+        phone: "",
       });
 
-      const data = await response.json();
-
-      if (response.ok) {
-        window.alert(`Store "${formData.name}" created successfully!`);
-        
-        // Reset form
-        setFormData({
-          name: "",
-          address: "",
-          phone: "",
-        });
-        
-        // Redirect to stores list
-        router.push("/dashboard/stores");
-      } else {
-        setError(data.error || data.message || "Failed to create store");
-      }
+      // Redirect to stores list
+      router.push("/dashboard/stores");
     } catch (error) {
       console.error("Error creating store:", error);
-      setError("An error occurred while creating the store. Please try again.");
+      setError(getErrorMessage(error, "An error occurred while creating the store. Please try again."));
     } finally {
       setIsSubmitting(false);
     }
@@ -5,26 +5,10 @@ import { motion } from "framer-motion";
 import { Plus, Search, Edit, Trash2, Store as StoreIcon, Phone, Eye, X } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/hooks/useAuth";
-import { isSuperAdmin } from "@/lib/roles";
+import { can } from "@/lib/roles";
 import Pagination from "@/components/admin/Pagination";
 import { useLanguage } from "@/contexts/LanguageContext";
-
-interface UserRef {
-  id: string;
-  name: string;
-  email: string;
-}
-
-interface Store {
-  id: string;
-  name: string;
-  address: string;
-  phone: string;
-  created_at?: string;
-  created_by?: UserRef | null;
-  updated_at?: string;
-  updated_by?: UserRef | null;
-}
+import { api, getErrorMessage, type Store } from "@/lib/api";
 
 export default function StoresPage() {
   const { t } = useLanguage();
@@ -38,31 +22,13 @@ export default function StoresPage() {
   const [phoneQuery, setPhoneQuery] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
   const [totalItems, setTotalItems] = useState(0);
-  const [showContent, setShowContent] = useState(false);
   const [selectedStore, setSelectedStore] = useState<Store | null>(null);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
   const itemsPerPage = 10;
 
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
-
-  // Timeout fallback
-  useEffect(() => {
-    const timer = setTimeout(() => setShowContent(true), 2000);
-    return () => clearTimeout(timer);
-  }, []);
-
-  // Redirect if not super_admin
-  useEffect(() => {
-    if ((!authLoading || showContent) && user !== undefined) {
-      if (!user || !isSuperAdmin(user?.role)) {
-        router.push("/dashboard");
-      }
-    }
-  }, [user, authLoading, router, showContent]);
-
   // Fetch stores when page changes
   useEffect(() => {
-    if (user && isSuperAdmin(user.role)) {
+    if (user && can(user, "stores:manage")) {
       fetchStores(currentPage, nameQuery, phoneQuery);
     }
   }, [user, currentPage, nameQuery, phoneQuery]);
@@ -70,44 +36,14 @@ export default function StoresPage() {
   const fetchStores = async (page: number = 1, name: string = "", phone: string = "") => {
     try {
       setIsLoading(true);
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-      const offset = (page - 1) * itemsPerPage;
-      
-      // Build query parameters
-      const params = new URLSearchParams({
-        limit: itemsPerPage.toString(),
-        offset: offset.toString(),
+      const result = await api.stores.list({
+        limit: itemsPerPage,
+        offset: (page - 1) * itemsPerPage,
+        name,
+        phone,
       });
-      if (name.trim()) {
-        params.append("name", name.trim());
-      }
-      if (phone.trim()) {
-        params.append("phone", phone.trim());
-      }
-      
-      const response = await fetch(`${API_BASE_URL}/api/stores?${params.toString()}`, {
-        headers: {
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
-      });
-
-      if (response.ok) {
-        const result = await response.json();
-        // Handle new response format: {data, limit, offset, total}
-        if (result.data && Array.isArray(result.data)) {
-          setStores(result.data);
-          setTotalItems(result.total || 0);
-        } else if (Array.isArray(result)) {
-          // Fallback for old format
-          setStores(result);
-          setTotalItems(result.length);
-        } else {
-          setStores(result.stores || []);
-          setTotalItems(result.total || 0);
-        }
-      } else {
-        console.error("Failed to fetch stores");
-      }
+      setStores(result.data);
+      setTotalItems(result.total);
     } catch (error) {
       console.error("Error fetching stores:", error);
     } finally {
@@ -119,26 +55,13 @@ export default function StoresPage() {
     if (!window.confirm("Are you sure you want to delete this store?")) return;
 
     try {
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-      
-      const response = await fetch(`${API_BASE_URL}/api/stores/${id}`, {
-        method: "DELETE",
-        headers: {
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
-      });
-
-      if (response.ok) {
-        window.alert("Store deleted successfully!");
-        // Refresh the list
-        fetchStores(currentPage, nameQuery, phoneQuery);
-      } else {
-        const data = await response.json();
-        window.alert(data.error || data.message || "Failed to delete store");
-      }
+      await api.stores.remove(id);
+      window.alert("Store deleted successfully!");
+      // Refresh the list
+      fetchStores(currentPage, nameQuery, phoneQuery);
     } catch (error) {
       console.error("Error deleting store:", error);
-      window.alert("An error occurred while deleting the store");
+      window.alert(getErrorMessage(error, "An error occurred while deleting the store"));
     }
   };
 
@@ -166,7 +89,7 @@ export default function StoresPage() {
   const totalPages = Math.ceil(totalItems / itemsPerPage);
   const paginatedStores = stores;
 
-  if (authLoading && !showContent) {
+  if (authLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
@@ -174,7 +97,7 @@ export default function StoresPage() {
     );
   }
 
-  if (!user || !isSuperAdmin(user?.role)) {
+  if (!user || !can(user, "stores:manage")) {
     return null;
   }
 
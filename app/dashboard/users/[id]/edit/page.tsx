@@ -0,0 +1,451 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { Mail, Lock, User, Shield, Store, AtSign, Save, KeyRound } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useRouter, useParams } from "next/navigation";
+import { can, canManageLevel } from "@/lib/roles";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { api, getErrorMessage } from "@/lib/api";
+import { useRoleStoreOptions } from "@/hooks/useRoleStoreOptions";
+
+interface UserFormData {
+  username: string;
+  email: string;
+  name: string;
+  role_id: string;
+  store_id: string;
+}
+
+const MANAGE_TARGET_ERROR = "Only a super admin can edit users at or above your own level";
+
+export default function EditUserPage() {
+  const { t } = useLanguage();
+  const { user, isLoading } = useAuth();
+  const router = useRouter();
+  const params = useParams();
+  const userId = params.id as string;
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isLoadingUser, setIsLoadingUser] = useState(true);
+  const [error, setError] = useState("");
+  const { roles, stores, isLoadingRoles, isLoadingStores } = useRoleStoreOptions(
+    can(user, "users:manage")
+  );
+  // Only roles below the current user's own level can be given out
+  const assignableRoles = roles.filter((role) => canManageLevel(user, role.level));
+  // Level of the role the edited user holds now; users at or above our own level are read-only
+  const [targetLevel, setTargetLevel] = useState<number | null>(null);
+  const canManageTarget = targetLevel == null || canManageLevel(user, targetLevel);
+  const [formData, setFormData] = useState<UserFormData>({
+    username: "",
+    email: "",
+    name: "",
+    role_id: "",
+    store_id: "",
+  });
+  const [passwordData, setPasswordData] = useState({
+    password: "",
+    confirmPassword: "",
+  });
+  const [isResettingPassword, setIsResettingPassword] = useState(false);
+  const [passwordError, setPasswordError] = useState("");
+
+  useEffect(() => {
+    const fetchUser = async () => {
+      try {
+        setIsLoadingUser(true);
+        const data = await api.users.get(userId);
+        setFormData({
+          username: data.username || "",
+          email: data.email || "",
+          name: data.name || "",
+          role_id: data.role?.id || "",
+          store_id: data.store?.id || "",
+        });
+        setTargetLevel(data.role?.level ?? 0);
+        if (!canManageLevel(user, data.role?.level)) setError(MANAGE_TARGET_ERROR);
+      } catch (error) {
+        console.error("Error fetching user:", error);
+        setError(getErrorMessage(error, "An error occurred while loading the user"));
+      } finally {
+        setIsLoadingUser(false);
+      }
+    };
+
+    if (user && can(user, "users:manage") && userId) {
+      fetchUser();
+    }
+  }, [user, userId]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+    }));
+  };
+
+  const handlePasswordChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setPasswordData((prev) => ({
+      ...prev,
+      [name]: value,
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    // Validate required fields
+    if (!formData.role_id || !formData.store_id) {
+      setError("Please select both role and store!");
+      return;
+    }
+    if (!canManageTarget || !assignableRoles.some((role) => role.id === formData.role_id)) {
+      setError(MANAGE_TARGET_ERROR);
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await api.users.update(userId, {
+        username: formData.username,
+        email: formData.email,
+        name: formData.name,
+        role_id: formData.role_id,
+        store_id: formData.store_id,
+      });
+
+      window.alert(`User "${formData.name}" updated successfully!`);
+      router.push("/dashboard/users");
+    } catch (error) {
+      console.error("Error updating user:", error);
+      setError(getErrorMessage(error, "An error occurred while updating the user. Please try again."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordError("");
+
+    if (!canManageTarget) {
+      setPasswordError(MANAGE_TARGET_ERROR);
+      return;
+    }
+
+    // Validate passwords match
+    if (passwordData.password !== passwordData.confirmPassword) {
+      setPasswordError("Passwords do not match!");
+      return;
+    }
+
+    // Validate password strength
+    if (passwordData.password.length < 6) {
+      setPasswordError("Password must be at least 6 characters long!");
+      return;
+    }
+
+    if (!window.confirm(`Reset the password for "${formData.name}"?`)) return;
+
+    setIsResettingPassword(true);
+
+    try {
+      await api.users.update(userId, { password: passwordData.password });
+      window.alert(`Password for "${formData.name}" has been reset.`);
+      setPasswordData({ password: "", confirmPassword: "" });
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      setPasswordError(getErrorMessage(error, "An error occurred while resetting the password. Please try again."));
+    } finally {
+      setIsResettingPassword(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!user || !can(user, "users:manage")) {
+    return null;
+  }
+
+  if (isLoadingUser) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.3 }}
+    >
+      <motion.h1
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="text-2xl sm:text-3xl font-bold text-gray-900 mb-6"
+      >
+        {t("users.editUser") || "Edit User"}
+      </motion.h1>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+        className="bg-white rounded-lg shadow p-6"
+      >
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {/* Username */}
+          <div>
+            <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
+              Username <span className="text-red-500">*</span>
+            </label>
+            <div className="relative">
+              <AtSign className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+              <input
+                type="text"
+                id="username"
+                name="username"
+                required
+                value={formData.username}
+                onChange={handleChange}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Enter username"
+              />
+            </div>
+          </div>
+
+          {/* Email */}
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+              Email <span className="text-red-500">*</span>
+            </label>
+            <div className="relative">
+              <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+              <input
+                type="email"
+                id="email"
+                name="email"
+                required
+                value={formData.email}
+                onChange={handleChange}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Enter email address"
+              />
+            </div>
+          </div>
+
+          {/* Name */}
+          <div>
+            <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
+              Full Name <span className="text-red-500">*</span>
+            </label>
+            <div className="relative">
+              <User className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+              <input
+                type="text"
+                id="name"
+                name="name"
+                required
+                value={formData.name}
+                onChange={handleChange}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Enter full name"
+              />
+            </div>
+          </div>
+
+          {/* Role */}
+          <div>
+            <label htmlFor="role_id" className="block text-sm font-medium text-gray-700 mb-2">
+              Role <span className="text-red-500">*</span>
+            </label>
+            <div className="relative">
+              <Shield className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400 z-10" />
+              <select
+                id="role_id"
+                name="role_id"
+                required
+                value={formData.role_id}
+                onChange={handleChange}
+                disabled={isLoadingRoles}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none bg-white disabled:bg-gray-100 disabled:cursor-not-allowed"
+              >
+                <option value="">{isLoadingRoles ? "Loading roles..." : "Select a role"}</option>
+                {assignableRoles.map((role) => (
+                  <option key={role.id} value={role.id}>
+                    {role.name} (Level {role.level})
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Store */}
+          <div>
+            <label htmlFor="store_id" className="block text-sm font-medium text-gray-700 mb-2">
+              Store <span className="text-red-500">*</span>
+            </label>
+            <div className="relative">
+              <Store className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400 z-10" />
+              <select
+                id="store_id"
+                name="store_id"
+                required
+                value={formData.store_id}
+                onChange={handleChange}
+                disabled={isLoadingStores}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none bg-white disabled:bg-gray-100 disabled:cursor-not-allowed"
+              >
+                <option value="">{isLoadingStores ? "Loading stores..." : "Select a store"}</option>
+                {stores.map((store) => (
+                  <option key={store.id} value={store.id}>
+                    {store.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Submit Button */}
+          <div className="flex justify-end gap-4 pt-4">
+            <motion.button
+              type="button"
+              onClick={() => router.back()}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </motion.button>
+            <motion.button
+              type="submit"
+              disabled={isSubmitting || !canManageTarget}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {isSubmitting ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  Updating...
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4" />
+                  Update User
+                </>
+              )}
+            </motion.button>
+          </div>
+        </form>
+      </motion.div>
+
+      {/* Admin password reset */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.3 }}
+        className="bg-white rounded-lg shadow p-6 mt-6"
+      >
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">
+          {t("users.resetPassword") || "Reset Password"}
+        </h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Set a new password for this user. They will need it the next time they sign in.
+        </p>
+
+        <form onSubmit={handleResetPassword} className="space-y-6">
+          {passwordError && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {passwordError}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                New Password <span className="text-red-500">*</span>
+              </label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                <input
+                  type="password"
+                  id="password"
+                  name="password"
+                  required
+                  value={passwordData.password}
+                  onChange={handlePasswordChange}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Enter new password (min. 6 characters)"
+                  minLength={6}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                Confirm Password <span className="text-red-500">*</span>
+              </label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                <input
+                  type="password"
+                  id="confirmPassword"
+                  name="confirmPassword"
+                  required
+                  value={passwordData.confirmPassword}
+                  onChange={handlePasswordChange}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Confirm new password"
+                  minLength={6}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <motion.button
+              type="submit"
+              disabled={isResettingPassword || !canManageTarget}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {isResettingPassword ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  Resetting...
+                </>
+              ) : (
+                <>
+                  <KeyRound className="h-4 w-4" />
+                  {t("users.resetPassword") || "Reset Password"}
+                </>
+              )}
+            </motion.button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+}
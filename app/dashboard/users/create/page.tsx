@@ -1,35 +1,26 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { motion } from "framer-motion";
 import { UserPlus, Mail, Lock, User, Shield, Store, AtSign } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useRouter } from "next/navigation";
-import { isSuperAdmin } from "@/lib/roles";
+import { can, canManageLevel } from "@/lib/roles";
 import { useLanguage } from "@/contexts/LanguageContext";
-
-interface Role {
-  id: string;
-  name: string;
-  level: number;
-}
-
-interface Store {
-  id: string;
-  name: string;
-}
+import { api, getErrorMessage } from "@/lib/api";
+import { useRoleStoreOptions } from "@/hooks/useRoleStoreOptions";
 
 export default function CreateUserPage() {
   const { t } = useLanguage();
   const { user, isLoading } = useAuth();
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [showContent, setShowContent] = useState(false);
   const [error, setError] = useState("");
-  const [roles, setRoles] = useState<Role[]>([]);
-  const [stores, setStores] = useState<Store[]>([]);
-  const [isLoadingRoles, setIsLoadingRoles] = useState(true);
-  const [isLoadingStores, setIsLoadingStores] = useState(true);
+  const { roles, stores, isLoadingRoles, isLoadingStores } = useRoleStoreOptions(
+    can(user, "users:manage")
+  );
+  // Only roles below the current user's own level can be given out
+  const assignableRoles = roles.filter((role) => canManageLevel(user, role.level));
   const [formData, setFormData] = useState({
     username: "",
     email: "",
@@ -40,94 +31,7 @@ export default function CreateUserPage() {
     store_id: "",
   });
 
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
-
-  // Timeout fallback
-  useEffect(() => {
-    const timer = setTimeout(() => setShowContent(true), 2000);
-    return () => clearTimeout(timer);
-  }, []);
-
-  // Redirect if not super_admin
-  useEffect(() => {
-    if ((!isLoading || showContent) && user !== undefined) {
-      if (!user) {
-        router.push("/login");
-        return;
-      }
-      if (!user.role || !isSuperAdmin(user.role)) {
-        router.push("/dashboard");
-      }
-    }
-  }, [user, isLoading, router, showContent]);
-
-  // Fetch roles
-  useEffect(() => {
-    const fetchRoles = async () => {
-      try {
-        setIsLoadingRoles(true);
-        const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-        
-        const response = await fetch(`${API_BASE_URL}/api/roles?limit=100&offset=0`, {
-          headers: {
-            ...(token && { Authorization: `Bearer ${token}` }),
-          },
-        });
-
-        if (response.ok) {
-          const result = await response.json();
-          if (result.data && Array.isArray(result.data)) {
-            setRoles(result.data);
-          } else if (Array.isArray(result)) {
-            setRoles(result);
-          }
-        }
-      } catch (error) {
-        console.error("Error fetching roles:", error);
-      } finally {
-        setIsLoadingRoles(false);
-      }
-    };
-
-    if (user && isSuperAdmin(user.role)) {
-      fetchRoles();
-    }
-  }, [user, API_BASE_URL]);
-
-  // Fetch stores
-  useEffect(() => {
-    const fetchStores = async () => {
-      try {
-        setIsLoadingStores(true);
-        const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-        
-        const response = await fetch(`${API_BASE_URL}/api/stores?limit=100&offset=0`, {
-          headers: {
-            ...(token && { Authorization: `Bearer ${token}` }),
-          },
-        });
-
-        if (response.ok) {
-          const result = await response.json();
-          if (result.data && Array.isArray(result.data)) {
-            setStores(result.data);
-          } else if (Array.isArray(result)) {
-            setStores(result);
-          }
-        }
-      } catch (error) {
-        console.error("Error fetching stores:", error);
-      } finally {
-        setIsLoadingStores(false);
-      }
-    };
-
-    if (user && isSuperAdmin(user.role)) {
-      fetchStores();
-    }
-  }, [user, API_BASE_URL]);
-
-  if (isLoading && !showContent) {
+  if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
@@ -136,7 +40,7 @@ export default function CreateUserPage() {
     );
   }
 
-  if (!user || !user.role || !isSuperAdmin(user.role)) {
+  if (!user || !can(user, "users:manage")) {
     return null;
   }
 
@@ -169,52 +73,41 @@ export default function CreateUserPage() {
       setError("Please select both role and store!");
       return;
     }
+    if (!assignableRoles.some((role) => role.id === formData.role_id)) {
+      setError("Only a super admin can give out a role at or above your own level");
+      return;
+    }
 
     setIsSubmitting(true);
 
     try {
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-      
-      const response = await fetch(`${API_BASE_URL}/api/users`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
-        body: JSON.stringify({
-          username: formData.username,
-          email: formData.email,
-          name: formData.name,
-          password: formData.password,
-          role_id: formData.role_id,
-          store_id: formData.store_id,
-        }),
+      await api.users.create({
+        username: formData.username,
+        email: formData.email,
+        name: formData.name,
+        password: formData.password,
+        role_id: formData.role_id,
+        store_id: formData.store_id,
       });
 
-      const data = await response.json();
+      window.alert(`User "${formData.name}" created successfully!`);
+
+      // Reset form
+      setFormData({
+        username: "",
+        email: "",
+        name: "",
+        password: "",
+        confirmPassword: "",
+        role_id: "",
+        store_id: "",
+      });
 
-      if (response.ok) {
-        window.alert(`User "${formData.name}" created successfully!`);
-        
-        // Reset form
-        setFormData({
-          username: "",
-          email: "",
-          name: "",
-          password: "",
-          confirmPassword: "",
-          role_id: "",
-          store_id: "",
-        });
-        
-        // Redirect to users list
-        router.push("/dashboard/users");
-      } else {
-        setError(data.error || data.message || "Failed to create user");
-      }
+      // Redirect to users list
+      router.push("/dashboard/users");
     } catch (error) {
       console.error("Error creating user:", error);
-      setError("An error occurred while creating the user. Please try again.");
+      setError(getErrorMessage(error, "An error occurred while creating the user. Please try again."));
     } finally {
       setIsSubmitting(false);
     }
@@ -325,7 +218,7 @@ export default function CreateUserPage() {
                 className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none bg-white disabled:bg-gray-100 disabled:cursor-not-allowed"
               >
                 <option value="">{isLoadingRoles ? "Loading roles..." : "Select a role"}</option>
-                {roles.map((role) => (
+                {assignableRoles.map((role) => (
                   <option key={role.id} value={role.id}>
                     {role.name} (Level {role.level})
                   </option>
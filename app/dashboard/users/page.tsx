@@ -5,31 +5,10 @@ import { motion } from "framer-motion";
 import { Plus, Search, Edit, Trash2, User as UserIcon, Eye, X } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/hooks/useAuth";
-import { isSuperAdmin } from "@/lib/roles";
+import { can, canManageLevel } from "@/lib/roles";
 import Pagination from "@/components/admin/Pagination";
 import { useLanguage } from "@/contexts/LanguageContext";
-
-interface UserRef {
-  id: string;
-  name: string;
-  email: string;
-}
-
-interface User {
-  id: string;
-  username: string;
-  email: string;
-  name: string;
-  role: {
-    id: string;
-    name: string;
-    level: number;
-  };
-  created_at?: string;
-  created_by?: UserRef | null;
-  updated_at?: string;
-  updated_by?: UserRef | null;
-}
+import { api, getErrorMessage, type User } from "@/lib/api";
 
 export default function UsersPage() {
   const { t } = useLanguage();
@@ -40,28 +19,12 @@ export default function UsersPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
   const [totalItems, setTotalItems] = useState(0);
-  const [showContent, setShowContent] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
   const itemsPerPage = 10;
 
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
-
-  useEffect(() => {
-    const timer = setTimeout(() => setShowContent(true), 2000);
-    return () => clearTimeout(timer);
-  }, []);
-
   useEffect(() => {
-    if ((!authLoading || showContent) && user !== undefined) {
-      if (!user || !isSuperAdmin(user?.role)) {
-        router.push("/dashboard");
-      }
-    }
-  }, [user, authLoading, router, showContent]);
-
-  useEffect(() => {
-    if (user && isSuperAdmin(user.role)) {
+    if (user && can(user, "users:manage")) {
       fetchUsers(currentPage, searchQuery);
     }
   }, [user, currentPage, searchQuery]);
@@ -71,41 +34,13 @@ export default function UsersPage() {
   const fetchUsers = async (page: number = 1, search: string = "") => {
     try {
       setIsLoading(true);
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-      const offset = (page - 1) * itemsPerPage;
-      
-      // Build query parameters
-      const params = new URLSearchParams({
-        limit: itemsPerPage.toString(),
-        offset: offset.toString(),
-      });
-      if (search.trim()) {
-        params.append("search", search.trim());
-      }
-      
-      const response = await fetch(`${API_BASE_URL}/api/users?${params.toString()}`, {
-        headers: {
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
+      const result = await api.users.list({
+        limit: itemsPerPage,
+        offset: (page - 1) * itemsPerPage,
+        search,
       });
-
-      if (response.ok) {
-        const result = await response.json();
-        // Handle new response format: {data, limit, offset, total}
-        if (result.data && Array.isArray(result.data)) {
-          setUsers(result.data);
-          setTotalItems(result.total || 0);
-        } else if (Array.isArray(result)) {
-          // Fallback for old format
-          setUsers(result);
-          setTotalItems(result.length);
-        } else {
-          setUsers(result.users || []);
-          setTotalItems(result.total || 0);
-        }
-      } else {
-        console.error("Failed to fetch users");
-      }
+      setUsers(result.data);
+      setTotalItems(result.total);
     } catch (error) {
       console.error("Error fetching users:", error);
     } finally {
@@ -122,26 +57,13 @@ export default function UsersPage() {
     if (!window.confirm("Are you sure you want to delete this user?")) return;
 
     try {
-      const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-      
-      const response = await fetch(`${API_BASE_URL}/api/users/${id}`, {
-        method: "DELETE",
-        headers: {
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
-      });
-
-      if (response.ok) {
-        window.alert("User deleted successfully!");
-        // Refresh the list
-        fetchUsers(currentPage, searchQuery);
-      } else {
-        const data = await response.json();
-        window.alert(data.error || data.message || "Failed to delete user");
-      }
+      await api.users.remove(id);
+      window.alert("User deleted successfully!");
+      // Refresh the list
+      fetchUsers(currentPage, searchQuery);
     } catch (error) {
       console.error("Error deleting user:", error);
-      window.alert("An error occurred while deleting the user");
+      window.alert(getErrorMessage(error, "An error occurred while deleting the user"));
     }
   };
 
@@ -162,7 +84,7 @@ export default function UsersPage() {
   const totalPages = Math.ceil(totalItems / itemsPerPage);
   const paginatedUsers = users;
 
-  if (authLoading && !showContent) {
+  if (authLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
@@ -170,7 +92,7 @@ export default function UsersPage() {
     );
   }
 
-  if (!user || !isSuperAdmin(user?.role)) {
+  if (!user || !can(user, "users:manage")) {
     return null;
   }
 
@@ -285,24 +207,28 @@ export default function UsersPage() {
                           >
                             <Eye className="h-4 w-4" />
                           </motion.button>
-                          <motion.button
-                            onClick={() => router.push(`/dashboard/users/${u.id}/edit`)}
-                            whileHover={{ scale: 1.1 }}
-                            whileTap={{ scale: 0.9 }}
-                            className="text-blue-600 hover:text-blue-900"
-                            title="Edit"
-                          >
-                            <Edit className="h-4 w-4" />
-                          </motion.button>
-                          <motion.button
-                            onClick={() => handleDelete(u.id)}
-                            whileHover={{ scale: 1.1 }}
-                            whileTap={{ scale: 0.9 }}
-                            className="text-red-600 hover:text-red-900"
-                            title="Delete"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </motion.button>
+                          {canManageLevel(user, u.role.level) && (
+                            <>
+                              <motion.button
+                                onClick={() => router.push(`/dashboard/users/${u.id}/edit`)}
+                                whileHover={{ scale: 1.1 }}
+                                whileTap={{ scale: 0.9 }}
+                                className="text-blue-600 hover:text-blue-900"
+                                title="Edit"
+                              >
+                                <Edit className="h-4 w-4" />
+                              </motion.button>
+                              <motion.button
+                                onClick={() => handleDelete(u.id)}
+                                whileHover={{ scale: 1.1 }}
+                                whileTap={{ scale: 0.9 }}
+                                className="text-red-600 hover:text-red-900"
+                                title="Delete"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </motion.button>
+                            </>
+                          )}
                         </div>
                       </td>
                     </motion.tr>
@@ -431,17 +357,19 @@ export default function UsersPage() {
               >
                 Close
               </motion.button>
-              <motion.button
-                onClick={() => {
-                  setIsDetailModalOpen(false);
-                  router.push(`/dashboard/users/${selectedUser.id}/edit`);
-                }}
-                whileHover={{ scale: 1.02 }}
-                whileTap={{ scale: 0.98 }}
-                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-              >
-                Edit User
-              </motion.button>
+              {canManageLevel(user, selectedUser.role.level) && (
+                <motion.button
+                  onClick={() => {
+                    setIsDetailModalOpen(false);
+                    router.push(`/dashboard/users/${selectedUser.id}/edit`);
+                  }}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Edit User
+                </motion.button>
+              )}
             </div>
           </motion.div>
         </div>
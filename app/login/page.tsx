@@ -5,6 +5,21 @@ import { motion } from "framer-motion";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/hooks/useAuth";
 
+// Only allow redirecting back to pages inside this app. The value is resolved the way the browser would,
+// so tricks like "//evil.example" or "/\evil.example" that point at another host are rejected.
+function getNextPath(): string {
+  if (typeof window === "undefined") return "/dashboard";
+  const next = new URLSearchParams(window.location.search).get("next");
+  if (!next || !next.startsWith("/")) return "/dashboard";
+  try {
+    const url = new URL(next, window.location.origin);
+    if (url.origin !== window.location.origin) return "/dashboard";
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return "/dashboard";
+  }
+}
+
 export default function LoginPage() {
   const router = useRouter();
   const { signIn, isAuthenticated, isLoading } = useAuth();
@@ -15,7 +30,7 @@ export default function LoginPage() {
   // Redirect if already authenticated (but wait for loading to complete)
   useEffect(() => {
     if (!isLoading && isAuthenticated) {
-      router.push("/dashboard");
+      router.push(getNextPath());
     }
   }, [isAuthenticated, isLoading, router]);
 
@@ -49,13 +64,8 @@ export default function LoginPage() {
         setError("Invalid email or password");
         setLoading(false);
       } else {
-        // Set a cookie for middleware (optional)
-        if (typeof document !== "undefined") {
-          document.cookie = "auth_token=authenticated; path=/; max-age=86400"; // 24 hours
-        }
-        // Redirect will happen via useEffect when isAuthenticated becomes true
-        // But also do immediate redirect as fallback
-        window.location.href = "/dashboard";
+        // The session cookie is set by /api/session; do a full navigation so middleware sees it
+        window.location.href = getNextPath();
       }
     } catch {
       setError("An error occurred. Please try again.");
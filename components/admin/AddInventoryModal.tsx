@@ -6,30 +6,14 @@ import { X, Plus, Search, Upload, FileText } from "lucide-react";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useAuth } from "@/hooks/useAuth";
 import { isSuperAdmin } from "@/lib/roles";
+import { api, type InventoryInput, type Product, type Store } from "@/lib/api";
 import Papa from "papaparse";
 import * as XLSX from "xlsx";
 
-interface Product {
-  id: string;
-  name: string;
-  sku?: string;
-}
-
-interface Store {
-  id: string;
-  name: string;
-}
-
 interface AddInventoryModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onAddInventory: (inventory: {
-    product_id: string;
-    quantity: number;
-    expiry_date: string;
-    location: string;
-    store_id?: string;
-  }) => Promise<void>;
+  onAddInventory: (inventory: InventoryInput) => Promise<void>;
   onBulkAdd?: (file: File) => Promise<void>;
 }
 
@@ -64,29 +48,13 @@ export default function AddInventoryModal({
   const [preview, setPreview] = useState<any[] | null>(null);
   const [allProducts, setAllProducts] = useState<Product[]>([]);
 
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
-
   // Fetch all products for bulk upload
   useEffect(() => {
     const fetchAllProducts = async () => {
       if (isOpen && activeTab === "bulk") {
         try {
-          const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-
-          const response = await fetch(`${API_BASE_URL}/api/products?limit=1000&offset=0`, {
-            headers: {
-              ...(token && { Authorization: `Bearer ${token}` }),
-            },
-          });
-
-          if (response.ok) {
-            const result = await response.json();
-            if (result.data && Array.isArray(result.data)) {
-              setAllProducts(result.data);
-            } else if (Array.isArray(result)) {
-              setAllProducts(result);
-            }
-          }
+          const result = await api.products.list({ limit: 1000, offset: 0 });
+          setAllProducts(result.data);
         } catch (error) {
           console.error("Error fetching products:", error);
         }
@@ -96,7 +64,7 @@ export default function AddInventoryModal({
     if (isOpen && activeTab === "bulk") {
       fetchAllProducts();
     }
-  }, [isOpen, activeTab, API_BASE_URL]);
+  }, [isOpen, activeTab]);
 
   // Fetch products with search
   useEffect(() => {
@@ -104,31 +72,8 @@ export default function AddInventoryModal({
       if (isOpen && activeTab === "single") {
         try {
           setIsLoadingProducts(true);
-          const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-
-          const params = new URLSearchParams({
-            limit: "100",
-            offset: "0",
-          });
-          
-          if (productSearch.trim()) {
-            params.append("name", productSearch.trim());
-          }
-
-          const response = await fetch(`${API_BASE_URL}/api/products?${params.toString()}`, {
-            headers: {
-              ...(token && { Authorization: `Bearer ${token}` }),
-            },
-          });
-
-          if (response.ok) {
-            const result = await response.json();
-            if (result.data && Array.isArray(result.data)) {
-              setProducts(result.data);
-            } else if (Array.isArray(result)) {
-              setProducts(result);
-            }
-          }
+          const result = await api.products.list({ limit: 100, offset: 0, name: productSearch });
+          setProducts(result.data);
         } catch (error) {
           console.error("Error fetching products:", error);
         } finally {
@@ -144,7 +89,7 @@ export default function AddInventoryModal({
 
       return () => clearTimeout(timeoutId);
     }
-  }, [isOpen, productSearch, activeTab, API_BASE_URL]);
+  }, [isOpen, productSearch, activeTab]);
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -178,22 +123,8 @@ export default function AddInventoryModal({
       if (isOpen && userIsSuperAdmin) {
         try {
           setIsLoadingStores(true);
-          const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-
-          const response = await fetch(`${API_BASE_URL}/api/stores?limit=100&offset=0`, {
-            headers: {
-              ...(token && { Authorization: `Bearer ${token}` }),
-            },
-          });
-
-          if (response.ok) {
-            const result = await response.json();
-            if (result.data && Array.isArray(result.data)) {
-              setStores(result.data);
-            } else if (Array.isArray(result)) {
-              setStores(result);
-            }
-          }
+          const result = await api.stores.list({ limit: 100, offset: 0 });
+          setStores(result.data);
         } catch (error) {
           console.error("Error fetching stores:", error);
         } finally {
@@ -205,7 +136,7 @@ export default function AddInventoryModal({
     if (isOpen && userIsSuperAdmin) {
       fetchStores();
     }
-  }, [isOpen, userIsSuperAdmin, API_BASE_URL]);
+  }, [isOpen, userIsSuperAdmin]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
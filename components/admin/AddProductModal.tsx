@@ -8,28 +8,15 @@ import * as XLSX from "xlsx";
 
 import { fetchCategories, type Category } from "@/lib/categories";
 import { useAuth } from "@/hooks/useAuth";
+import { useLanguage } from "@/contexts/LanguageContext";
 import { isSuperAdmin } from "@/lib/roles";
-
-interface Store {
-  id: string;
-  name: string;
-  address?: string;
-  phone?: string;
-}
-
-interface Product {
-  name: string;
-  category_id: string;
-  sku?: string;
-  selling_price: number;
-  purchase_price: number;
-  store_id?: string;
-}
+import { api, type ProductInput, type Store } from "@/lib/api";
+import { emptyProductForm, toProductInput, validateProductForm, type ProductFormData } from "@/lib/products";
 
 interface AddProductModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onAddProduct: (product: Product) => void;
+  onAddProduct: (product: ProductInput) => void;
   onBulkAdd: (file: File) => void;
   categories: Category[];
 }
@@ -41,17 +28,11 @@ export default function AddProductModal({
   onBulkAdd,
   categories,
 }: AddProductModalProps) {
+  const { t } = useLanguage();
   const { user } = useAuth();
   const userIsSuperAdmin = isSuperAdmin(user?.role);
   const [activeTab, setActiveTab] = useState<"single" | "bulk">("single");
-  const [formData, setFormData] = useState({
-    name: "",
-    category_id: "",
-    sku: "",
-    selling_price: "",
-    purchase_price: "",
-    store_id: "",
-  });
+  const [formData, setFormData] = useState<ProductFormData>(emptyProductForm);
   const [stores, setStores] = useState<Store[]>([]);
   const [isLoadingStores, setIsLoadingStores] = useState(false);
   const [file, setFile] = useState<File | null>(null);
@@ -59,30 +40,14 @@ export default function AddProductModal({
   const [error, setError] = useState<string | null>(null);
   const [preview, setPreview] = useState<any[] | null>(null);
 
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
-
   // Fetch stores if user is super_admin
   useEffect(() => {
     const fetchStores = async () => {
       if (userIsSuperAdmin) {
         try {
           setIsLoadingStores(true);
-          const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-          
-          const response = await fetch(`${API_BASE_URL}/api/stores?limit=100&offset=0`, {
-            headers: {
-              ...(token && { Authorization: `Bearer ${token}` }),
-            },
-          });
-
-          if (response.ok) {
-            const result = await response.json();
-            if (result.data && Array.isArray(result.data)) {
-              setStores(result.data);
-            } else if (Array.isArray(result)) {
-              setStores(result);
-            }
-          }
+          const result = await api.stores.list({ limit: 100, offset: 0 });
+          setStores(result.data);
         } catch (error) {
           console.error("Error fetching stores:", error);
         } finally {
@@ -94,31 +59,19 @@ export default function AddProductModal({
     if (isOpen && userIsSuperAdmin) {
       fetchStores();
     }
-  }, [isOpen, userIsSuperAdmin, API_BASE_URL]);
+  }, [isOpen, userIsSuperAdmin]);
 
   const handleSingleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
 
-    if (
-      !formData.name ||
-      !formData.category_id ||
-      !formData.selling_price ||
-      !formData.purchase_price ||
-      (userIsSuperAdmin && !formData.store_id)
-    ) {
-      setError("Please fill in all required fields");
+    const validationError = validateProductForm(formData, userIsSuperAdmin, t);
+    if (validationError) {
+      setError(validationError);
       return;
     }
 
-    const product: Product = {
-      name: formData.name,
-      category_id: formData.category_id,
-      ...(formData.sku && { sku: formData.sku }),
-      selling_price: parseFloat(formData.selling_price),
-      purchase_price: parseFloat(formData.purchase_price),
-      ...(userIsSuperAdmin && formData.store_id && { store_id: formData.store_id }),
-    };
+    const product = toProductInput(formData, userIsSuperAdmin);
 
     await onAddProduct(product);
     handleClose();
@@ -285,14 +238,7 @@ export default function AddProductModal({
   };
 
   const handleClose = () => {
-    setFormData({
-      name: "",
-      category_id: "",
-      sku: "",
-      selling_price: "",
-      purchase_price: "",
-      store_id: "",
-    });
+    setFormData(emptyProductForm);
     setFile(null);
     setPreview(null);
     setError(null);
@@ -463,6 +409,33 @@ export default function AddProductModal({
                 />
               </div>
 
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Reorder Point</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={formData.reorder_point}
+                    onChange={(e) => setFormData({ ...formData, reorder_point: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="10"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Reorder Quantity</label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={formData.reorder_quantity}
+                    onChange={(e) => setFormData({ ...formData, reorder_quantity: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="24"
+                  />
+                </div>
+              </div>
+
               <div className="flex justify-end gap-3 pt-4">
                 <button
                   type="button"
@@ -0,0 +1,179 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { api, getErrorMessage, type AdjustmentReason, type InventoryItem } from "@/lib/api";
+import { ADJUSTMENT_REASONS, getAdjustmentReason, getQuantityChange, validateAdjustment } from "@/lib/adjustments";
+
+interface AdjustStockModalProps {
+  item: InventoryItem | null;
+  onClose: () => void;
+  onAdjusted: () => void;
+}
+
+export default function AdjustStockModal({ item, onClose, onAdjusted }: AdjustStockModalProps) {
+  const { t } = useLanguage();
+  const [reason, setReason] = useState<AdjustmentReason>("damage");
+  const [quantity, setQuantity] = useState("");
+  const [note, setNote] = useState("");
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setReason("damage");
+    setQuantity("");
+    setNote("");
+    setError("");
+  }, [item]);
+
+  if (!item) return null;
+
+  const isWriteOff = getAdjustmentReason(reason).writeOff;
+  const change = quantity.trim() === "" ? 0 : getQuantityChange(item, reason, quantity);
+
+  const handleReasonChange = (value: AdjustmentReason) => {
+    setReason(value);
+    // A count correction starts from the current quantity so only the difference needs typing
+    setQuantity(getAdjustmentReason(value).writeOff ? "" : String(item.quantity));
+    setError("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateAdjustment(item, reason, quantity, t);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError("");
+      await api.inventories.adjust({
+        inventory_id: item.id,
+        quantity_change: getQuantityChange(item, reason, quantity),
+        reason,
+        ...(note.trim() && { note: note.trim() }),
+      });
+      onAdjusted();
+    } catch (err) {
+      setError(getErrorMessage(err, t("adjustments.failedToAdjust") || "Failed to adjust stock"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.9 }}
+          onClick={(e) => e.stopPropagation()}
+          className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4 p-6"
+        >
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">{t("adjustments.title") || "Adjust Stock"}</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="bg-gray-50 rounded-lg p-3 mb-4 text-sm">
+            <div className="font-medium text-gray-900">{item.product?.name}</div>
+            <div className="text-gray-500">
+              {item.location} · {t("inventory.quantity") || "Quantity"}: {item.quantity}
+            </div>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>
+            )}
+
+            <div>
+              <label htmlFor="adjust_reason" className="block text-sm font-medium text-gray-700 mb-2">
+                {t("adjustments.reasonLabel") || "Reason"}
+              </label>
+              <select
+                id="adjust_reason"
+                value={reason}
+                onChange={(e) => handleReasonChange(e.target.value as AdjustmentReason)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+              >
+                {ADJUSTMENT_REASONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {t(option.translationKey) || option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="adjust_quantity" className="block text-sm font-medium text-gray-700 mb-2">
+                {isWriteOff
+                  ? t("adjustments.unitsToWriteOff") || "Units to write off"
+                  : t("adjustments.physicalCount") || "Physical count"}
+              </label>
+              <input
+                type="number"
+                id="adjust_quantity"
+                min="0"
+                max={isWriteOff ? item.quantity : undefined}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {change !== 0 && (
+                <p className={`text-sm mt-1 ${change < 0 ? "text-red-600" : "text-green-600"}`}>
+                  {change > 0 ? `+${change}` : change} → {item.quantity + change}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="adjust_note" className="block text-sm font-medium text-gray-700 mb-2">
+                {t("adjustments.note") || "Note"}
+              </label>
+              <input
+                type="text"
+                id="adjust_note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div className="flex justify-end gap-3 pt-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+              >
+                {t("common.cancel") || "Cancel"}
+              </button>
+              <motion.button
+                type="submit"
+                disabled={isSubmitting}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? t("common.saving") || "Saving..." : t("adjustments.confirm") || "Save Adjustment"}
+              </motion.button>
+            </div>
+          </form>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
@@ -39,8 +39,18 @@ export default function Breadcrumb() {
         products: t("nav.products"),
         categories: t("nav.categories"),
         inventory: t("nav.inventory"),
+        suppliers: t("nav.suppliers"),
+        "purchase-orders": t("nav.purchaseOrders"),
+        "stock-counts": t("nav.stockCounts"),
+        movements: t("nav.movements"),
+        transfers: t("nav.transfers"),
+        reorder: t("nav.reorder"),
+        expiry: t("nav.expiry"),
+        profit: t("nav.profit"),
         cashier: t("nav.cashier"),
+        shifts: t("nav.shifts"),
         orders: t("nav.orders"),
+        customers: t("nav.customers"),
         settings: t("nav.settings"),
         stores: t("nav.stores"),
         users: t("nav.users"),
@@ -53,9 +63,9 @@ export default function Breadcrumb() {
       const isUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(path);
       
       if (isUUID) {
-        // If previous path is "stores", "users", or "roles", it's an edit page
+        // If previous path is "products", "stores", "users", or "roles", it's an edit page
         const prevPath = routePaths[index - 1];
-        if (prevPath === "stores" || prevPath === "users" || prevPath === "roles") {
+        if (prevPath === "products" || prevPath === "stores" || prevPath === "users" || prevPath === "roles") {
           label = t("common.edit");
         } else {
           label = path.substring(0, 8) + "...";
@@ -0,0 +1,193 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { UserPlus, UserCheck, X } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { api, getErrorMessage, type Customer } from "@/lib/api";
+import { getCustomerBalance } from "@/lib/customers";
+
+interface CustomerPickerProps {
+  // Free-text name, used for walk-in customers without a record
+  customerName: string;
+  onCustomerNameChange: (name: string) => void;
+  selected: Customer | null;
+  onSelect: (customer: Customer | null) => void;
+  storeId?: string;
+  onEnter?: () => void;
+}
+
+export default function CustomerPicker({
+  customerName,
+  onCustomerNameChange,
+  selected,
+  onSelect,
+  storeId,
+  onEnter,
+}: CustomerPickerProps) {
+  const { t } = useLanguage();
+  const [matches, setMatches] = useState<Customer[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [phone, setPhone] = useState("");
+  const [error, setError] = useState("");
+
+  // Look up customer records as the name is typed
+  useEffect(() => {
+    const query = customerName.trim();
+    if (selected || query.length < 2) {
+      setMatches([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        setIsSearching(true);
+        const result = await api.customers.list({ search: query, limit: 5, store_id: storeId });
+        if (!cancelled) setMatches(result.data);
+      } catch {
+        // Offline or unavailable: the name can still be entered as free text
+        if (!cancelled) setMatches([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [customerName, selected, storeId]);
+
+  const handleSelect = (customer: Customer) => {
+    onSelect(customer);
+    onCustomerNameChange(customer.name);
+    setMatches([]);
+    setIsCreating(false);
+  };
+
+  const handleClear = () => {
+    onSelect(null);
+    onCustomerNameChange("");
+  };
+
+  const handleCreate = async () => {
+    if (!customerName.trim()) {
+      setError(t("customers.nameRequired") || "Customer name is required");
+      return;
+    }
+    try {
+      setError("");
+      const customer = await api.customers.create({
+        name: customerName.trim(),
+        ...(phone.trim() && { phone: phone.trim() }),
+        ...(storeId && { store_id: storeId }),
+      });
+      setPhone("");
+      handleSelect(customer);
+    } catch (err) {
+      setError(getErrorMessage(err, t("customers.failedToSave") || "Failed to save customer"));
+    }
+  };
+
+  if (selected) {
+    const balance = getCustomerBalance(selected);
+    return (
+      <div className="flex items-center justify-between px-3 py-2 border border-blue-300 bg-blue-50 rounded-lg">
+        <div className="flex items-center gap-2">
+          <UserCheck className="h-4 w-4 text-blue-600" />
+          <div>
+            <div className="text-sm font-medium text-gray-900">{selected.name}</div>
+            <div className="text-xs text-gray-500">
+              {selected.phone || "-"}
+              {balance > 0 && (
+                <span className="text-orange-600">
+                  {" "}
+                  • {t("customers.outstanding") || "Kasbon"} Rp {balance.toLocaleString("id-ID")}
+                </span>
+              )}
+            </div>
+          </div>
+        </div>
+        <button onClick={handleClear} className="text-gray-400 hover:text-gray-600" title={t("common.clear") || "Clear"}>
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={customerName}
+        onChange={(e) => onCustomerNameChange(e.target.value)}
+        placeholder={t("cashier.customerNamePlaceholder") || "Enter customer name or leave blank for walk-in..."}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        onKeyPress={(e) => {
+          if (e.key === "Enter" && onEnter) {
+            onEnter();
+          }
+        }}
+        autoFocus
+      />
+      {(matches.length > 0 || (customerName.trim().length >= 2 && !isSearching)) && (
+        <div className="mt-1 border border-gray-200 rounded-lg divide-y divide-gray-100 bg-white">
+          {matches.map((customer) => (
+            <button
+              key={customer.id}
+              type="button"
+              onClick={() => handleSelect(customer)}
+              className="w-full flex items-center justify-between px-3 py-2 text-left hover:bg-gray-50"
+            >
+              <span className="text-sm text-gray-900">
+                {customer.name}
+                {customer.phone && <span className="text-gray-500"> • {customer.phone}</span>}
+              </span>
+              {getCustomerBalance(customer) > 0 && (
+                <span className="text-xs text-orange-600">Rp {getCustomerBalance(customer).toLocaleString("id-ID")}</span>
+              )}
+            </button>
+          ))}
+          {isCreating ? (
+            <div className="p-3 space-y-2">
+              <input
+                type="tel"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                placeholder={t("customers.phone") || "Phone"}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              />
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setIsCreating(false)}
+                  className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                >
+                  {t("common.cancel")}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCreate}
+                  className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  {t("customers.addCustomer") || "Add Customer"}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setIsCreating(true)}
+              className="w-full flex items-center gap-2 px-3 py-2 text-left text-sm text-blue-600 hover:bg-gray-50"
+            >
+              <UserPlus className="h-4 w-4" />
+              {(t("customers.saveAsCustomer") || 'Save "{{name}}" as a customer').replace("{{name}}", customerName.trim())}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useLanguage } from "@/contexts/LanguageContext";
+import { getLastDaysRange, getThisMonthRange, type DateRange } from "@/lib/sales";
+
+interface DateRangePickerProps {
+  range: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+const PRESETS: { label: string; translationKey: string; getRange: () => DateRange }[] = [
+  { label: "7 days", translationKey: "sales.preset.7d", getRange: () => getLastDaysRange(7) },
+  { label: "30 days", translationKey: "sales.preset.30d", getRange: () => getLastDaysRange(30) },
+  { label: "90 days", translationKey: "sales.preset.90d", getRange: () => getLastDaysRange(90) },
+  { label: "This month", translationKey: "sales.preset.thisMonth", getRange: getThisMonthRange },
+];
+
+export default function DateRangePicker({ range, onChange }: DateRangePickerProps) {
+  const { t } = useLanguage();
+
+  return (
+    <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+      <div className="flex flex-wrap gap-2">
+        {PRESETS.map((preset) => {
+          const presetRange = preset.getRange();
+          const isActive = presetRange.from === range.from && presetRange.to === range.to;
+          return (
+            <button
+              key={preset.translationKey}
+              type="button"
+              onClick={() => onChange(presetRange)}
+              className={`px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+                isActive
+                  ? "bg-blue-600 border-blue-600 text-white"
+                  : "border-gray-300 text-gray-700 hover:bg-gray-50"
+              }`}
+            >
+              {t(preset.translationKey) || preset.label}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          type="date"
+          value={range.from}
+          max={range.to}
+          onChange={(e) => e.target.value && onChange({ ...range, from: e.target.value })}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+          aria-label={t("movements.from") || "From"}
+        />
+        <span className="text-gray-400">–</span>
+        <input
+          type="date"
+          value={range.to}
+          min={range.from}
+          onChange={(e) => e.target.value && onChange({ ...range, to: e.target.value })}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+          aria-label={t("movements.to") || "To"}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { motion } from "framer-motion";
+import { Download, X } from "lucide-react";
+import Pagination from "@/components/admin/Pagination";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/useAuth";
+import { api, getErrorMessage, type InventoryMovement, type MovementType } from "@/lib/api";
+import { getAdjustmentReason } from "@/lib/adjustments";
+import { MOVEMENT_TYPES, fetchAllMovements, getMovementType, toMovementCsvRows } from "@/lib/movements";
+import { downloadCsv, getFileDate } from "@/lib/exports";
+
+interface MovementLedgerProps {
+  // Limit the ledger to one product's timeline
+  productId?: string;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("id-ID", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const formatBatch = (movement: InventoryMovement) =>
+  [
+    movement.location,
+    movement.expiry_date &&
+      `exp ${new Date(movement.expiry_date).toLocaleDateString("id-ID", { day: "numeric", month: "short", year: "numeric" })}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+export default function MovementLedger({ productId }: MovementLedgerProps) {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const storeId = user?.store?.id;
+  const [movements, setMovements] = useState<InventoryMovement[]>([]);
+  const [typeFilter, setTypeFilter] = useState<MovementType | "">("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [batch, setBatch] = useState<{ id: string; label: string } | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalItems, setTotalItems] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const itemsPerPage = 20;
+
+  const filters = useMemo(
+    () => ({
+      store_id: storeId,
+      ...(productId && { product_id: productId }),
+      ...(batch && { inventory_id: batch.id }),
+      ...(typeFilter && { type: typeFilter }),
+      ...(fromDate && { from: fromDate }),
+      ...(toDate && { to: toDate }),
+    }),
+    [storeId, productId, batch, typeFilter, fromDate, toDate]
+  );
+
+  useEffect(() => {
+    const fetchMovements = async () => {
+      try {
+        setIsLoading(true);
+        const result = await api.inventories.movements({
+          ...filters,
+          limit: itemsPerPage,
+          offset: (currentPage - 1) * itemsPerPage,
+        });
+        setMovements(result.data);
+        setTotalItems(result.total);
+      } catch (error) {
+        console.error("Error fetching inventory movements:", error);
+        setMovements([]);
+        setTotalItems(0);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchMovements();
+  }, [currentPage, filters]);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [filters]);
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      const rows = toMovementCsvRows(await fetchAllMovements(filters));
+      if (rows.length === 0) {
+        alert(t("movements.nothingToExport") || "There are no movements to export");
+        return;
+      }
+      downloadCsv(rows, `stock_movements_${getFileDate()}.csv`);
+    } catch (err) {
+      alert(getErrorMessage(err, t("movements.failedToExport") || "Failed to export movements"));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const totalPages = Math.ceil(totalItems / itemsPerPage);
+  const productName = productId ? movements[0]?.product.name : undefined;
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">
+            {productId ? t("movements.productTitle") || "Stock History" : t("movements.title") || "Stock Movements"}
+          </h1>
+          {productName && <p className="text-gray-500 mt-1">{productName}</p>}
+        </div>
+        <motion.button
+          onClick={handleExport}
+          disabled={isExporting}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+        >
+          <Download className="h-4 w-4" />
+          {isExporting ? t("movements.exporting") || "Exporting..." : t("movements.exportCsv") || "Export CSV"}
+        </motion.button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="flex flex-col md:flex-row gap-4">
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as MovementType | "")}
+            className="md:w-48 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+          >
+            <option value="">{t("movements.allTypes") || "All types"}</option>
+            {MOVEMENT_TYPES.map((type) => (
+              <option key={type.value} value={type.value}>
+                {t(type.translationKey) || type.label}
+              </option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2">
+            <label htmlFor="movements_from" className="text-sm text-gray-600">
+              {t("movements.from") || "From"}
+            </label>
+            <input
+              type="date"
+              id="movements_from"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor="movements_to" className="text-sm text-gray-600">
+              {t("movements.to") || "To"}
+            </label>
+            <input
+              type="date"
+              id="movements_to"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+        {batch && (
+          <div className="mt-4">
+            <span className="inline-flex items-center gap-2 px-3 py-1 bg-blue-50 text-blue-700 rounded-full text-sm">
+              {t("movements.batch") || "Batch"}: {batch.label}
+              <button onClick={() => setBatch(null)} className="hover:text-blue-900">
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* Movements Table */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("orders.date") || "Date"}
+                </th>
+                {!productId && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t("inventory.name") || "Product Name"}
+                  </th>
+                )}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("movements.batch") || "Batch"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("movements.typeLabel") || "Type"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("movements.change") || "Change"}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("movements.balance") || "Balance"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("movements.reference") || "Reference"}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("movements.by") || "By"}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={8} className="px-6 py-8 text-center text-gray-500">
+                    <div className="flex items-center justify-center">
+                      <div className="w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mr-3"></div>
+                      {t("common.loading") || "Loading..."}
+                    </div>
+                  </td>
+                </tr>
+              ) : movements.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-6 py-8 text-center text-gray-500">
+                    {t("movements.noMovements") || "No stock movements found"}
+                  </td>
+                </tr>
+              ) : (
+                movements.map((movement) => {
+                  const type = getMovementType(movement.type);
+                  const batchLabel = formatBatch(movement);
+                  return (
+                    <tr key={movement.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatDate(movement.created_at)}
+                      </td>
+                      {!productId && (
+                        <td className="px-6 py-4 text-sm text-gray-900">
+                          {movement.product.name}
+                          {movement.product.sku && <div className="text-xs text-gray-500">{movement.product.sku}</div>}
+                        </td>
+                      )}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <button
+                          onClick={() => setBatch({ id: movement.inventory_id, label: batchLabel || movement.inventory_id })}
+                          className="text-blue-600 hover:text-blue-900 hover:underline"
+                          title={t("movements.filterBatch") || "Show only this batch"}
+                        >
+                          {batchLabel || "-"}
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`px-2.5 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${type.style}`}
+                        >
+                          {t(type.translationKey) || type.label}
+                        </span>
+                      </td>
+                      <td
+                        className={`px-6 py-4 whitespace-nowrap text-right text-sm font-semibold ${
+                          movement.quantity_change < 0 ? "text-red-600" : "text-green-600"
+                        }`}
+                      >
+                        {movement.quantity_change > 0 ? `+${movement.quantity_change}` : movement.quantity_change}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                        {movement.quantity_after}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {movement.reference_number || "-"}
+                        {movement.reason && (
+                          <div className="text-xs">
+                            {t(getAdjustmentReason(movement.reason).translationKey) ||
+                              getAdjustmentReason(movement.reason).label}
+                          </div>
+                        )}
+                        {movement.note && <div className="text-xs italic">{movement.note}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {movement.created_by?.name || "-"}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+        {!isLoading && movements.length > 0 && (
+          <Pagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            onPageChange={setCurrentPage}
+            itemsPerPage={itemsPerPage}
+            totalItems={totalItems}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, RotateCcw, Ban } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/useAuth";
+import { api, getErrorMessage, type ApiOrder, type ReturnDisposition } from "@/lib/api";
+import { can } from "@/lib/roles";
+import { ORDER_STATUS_STYLES, formatOrderStatus } from "@/lib/orders";
+import { getPaymentMethodLabel, parseOrderPayments } from "@/lib/payments";
+import { formatBatchExpiry } from "@/lib/batches";
+import {
+  canReturnOrder,
+  createReturnLines,
+  estimateRefund,
+  getOrderStatus,
+  getReturnableQuantity,
+  validateReturn,
+  type ReturnLine,
+} from "@/lib/returns";
+
+interface OrderDetailModalProps {
+  order: ApiOrder | null;
+  onClose: () => void;
+  onUpdated: (order: ApiOrder) => void;
+}
+
+type Mode = "view" | "return" | "void";
+
+const formatRupiah = (value: number) => `Rp ${value.toLocaleString("id-ID")}`;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("id-ID", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function OrderDetailModal({ order, onClose, onUpdated }: OrderDetailModalProps) {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const [mode, setMode] = useState<Mode>("view");
+  const [lines, setLines] = useState<ReturnLine[]>([]);
+  const [reason, setReason] = useState("");
+  const [voidDisposition, setVoidDisposition] = useState<ReturnDisposition>("restock");
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setMode("view");
+    setLines(order ? createReturnLines(order) : []);
+    setReason("");
+    setVoidDisposition("restock");
+    setError("");
+  }, [order]);
+
+  if (!order) {
+    return null;
+  }
+
+  const status = getOrderStatus(order);
+  const canRefund = can(user, "orders:refund");
+  const payments = parseOrderPayments(order.payments);
+  const total = parseFloat(order.total_price) || 0;
+  const grossTotal = parseFloat(order.gross_total || "") || total;
+  const discountTotal = parseFloat(order.discount_total || "") || 0;
+  const refundTotal = parseFloat(order.refund_total || "") || 0;
+  const estimatedRefund = mode === "return" ? estimateRefund(order, lines) : 0;
+
+  const updateLine = (orderItemId: number, changes: Partial<ReturnLine>) => {
+    setLines((current) => current.map((line) => (line.orderItemId === orderItemId ? { ...line, ...changes } : line)));
+  };
+
+  const startMode = (next: Mode) => {
+    setMode(next);
+    setLines(createReturnLines(order));
+    setReason("");
+    setError("");
+  };
+
+  const handleSubmitReturn = async () => {
+    const validationError = validateReturn(order, lines, reason, t);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError("");
+      const updated = await api.orders.createReturn(order.id, {
+        reason: reason.trim(),
+        items: lines
+          .filter((line) => (parseInt(line.quantity) || 0) > 0)
+          .map((line) => ({
+            order_item_id: line.orderItemId,
+            quantity: parseInt(line.quantity),
+            disposition: line.disposition,
+          })),
+      });
+      onUpdated(updated);
+      setMode("view");
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to process the return. Please try again."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmitVoid = async () => {
+    if (!reason.trim()) {
+      setError(t("returns.reasonRequired") || "Please give a reason");
+      return;
+    }
+    if (
+      !window.confirm(
+        t("returns.confirmVoid") ||
+          "Void this order? The full amount will be refunded and every item returned to stock or written off."
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError("");
+      const updated = await api.orders.void(order.id, { reason: reason.trim(), disposition: voidDisposition });
+      onUpdated(updated);
+      setMode("view");
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to void the order. Please try again."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const dispositionSelect = (value: ReturnDisposition, onChange: (value: ReturnDisposition) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as ReturnDisposition)}
+      className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      <option value="restock">{t("returns.restock") || "Restock"}</option>
+      <option value="damaged">{t("returns.damaged") || "Write off (damaged)"}</option>
+    </select>
+  );
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.9 }}
+          onClick={(e) => e.stopPropagation()}
+          className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] overflow-hidden flex flex-col"
+        >
+          <div className="flex items-center justify-between p-4 border-b border-gray-200">
+            <div className="flex items-center gap-3">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {t("orders.order") || "Order"} #{order.invoice_number || `ORD-${order.id}`}
+              </h3>
+              <span
+                className={`px-2.5 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${ORDER_STATUS_STYLES[status]}`}
+              >
+                {formatOrderStatus(status)}
+              </span>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="overflow-y-auto p-4 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div className="text-gray-500">{t("orders.customer") || "Customer"}</div>
+              <div className="text-gray-900">{order.customer_name || "Walk-in Customer"}</div>
+              <div className="text-gray-500">{t("orders.date") || "Date"}</div>
+              <div className="text-gray-900">{formatDate(order.created_at)}</div>
+              {order.created_by?.name && (
+                <>
+                  <div className="text-gray-500">{t("orders.cashier") || "Cashier"}</div>
+                  <div className="text-gray-900">{order.created_by.name}</div>
+                </>
+              )}
+            </div>
+
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                    {t("orders.item") || "Item"}
+                  </th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                    {t("orders.qty") || "Qty"}
+                  </th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                    {t("orders.total") || "Total"}
+                  </th>
+                  {mode === "return" && (
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      {t("returns.return") || "Return"}
+                    </th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {order.orderItems.map((item) => {
+                  const returnable = getReturnableQuantity(item);
+                  const line = lines.find((l) => l.orderItemId === item.id);
+                  return (
+                    <tr key={item.id}>
+                      <td className="px-3 py-2 text-gray-900">
+                        {item.product?.name || "Unknown Product"}
+                        {item.batches?.map((batch) => (
+                          <div key={batch.inventory_id} className="text-xs text-gray-500">
+                            {batch.quantity}×{" "}
+                            {batch.expiry_date
+                              ? `${t("orders.batchExpires") || "exp"} ${formatBatchExpiry(batch.expiry_date)}`
+                              : `#${batch.inventory_id}`}
+                            {batch.location ? ` • ${batch.location}` : ""}
+                          </div>
+                        ))}
+                        {!!item.returned_quantity && (
+                          <div className="text-xs text-orange-600">
+                            {item.returned_quantity} {t("returns.returned") || "returned"}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-900">{item.quantity}</td>
+                      <td className="px-3 py-2 text-right text-gray-900">
+                        {formatRupiah(parseFloat(item.total_price) || 0)}
+                      </td>
+                      {mode === "return" && line && (
+                        <td className="px-3 py-2">
+                          {returnable > 0 ? (
+                            <div className="flex items-center gap-2">
+                              <input
+                                type="number"
+                                min={0}
+                                max={returnable}
+                                value={line.quantity}
+                                onChange={(e) => updateLine(item.id, { quantity: e.target.value })}
+                                placeholder={`0-${returnable}`}
+                                className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                              {dispositionSelect(line.disposition, (disposition) => updateLine(item.id, { disposition }))}
+                            </div>
+                          ) : (
+                            <span className="text-xs text-gray-400">
+                              {t("returns.fullyReturned") || "Fully returned"}
+                            </span>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <div className="border-t border-gray-200 pt-3 space-y-1 text-sm">
+              {discountTotal > 0 && (
+                <>
+                  <div className="flex justify-between text-gray-600">
+                    <span>{t("cashier.subtotal") || "Subtotal"}</span>
+                    <span>{formatRupiah(grossTotal)}</span>
+                  </div>
+                  <div className="flex justify-between text-gray-600">
+                    <span>
+                      {t("cashier.discountValue") || "Discount"}
+                      {order.discount_reason ? ` (${order.discount_reason})` : ""}
+                    </span>
+                    <span>-{formatRupiah(discountTotal)}</span>
+                  </div>
+                </>
+              )}
+              <div className="flex justify-between font-semibold text-gray-900">
+                <span>{t("orders.total") || "Total"}</span>
+                <span>{formatRupiah(total)}</span>
+              </div>
+              {refundTotal > 0 && (
+                <div className="flex justify-between font-semibold text-red-600">
+                  <span>{t("returns.refunded") || "Refunded"}</span>
+                  <span>-{formatRupiah(refundTotal)}</span>
+                </div>
+              )}
+            </div>
+
+            {payments.length > 0 && (
+              <div className="text-sm">
+                <h4 className="font-medium text-gray-900 mb-1">{t("orders.payments") || "Payments"}</h4>
+                {payments.map((payment, index) => (
+                  <div key={index} className="flex justify-between text-gray-600">
+                    <span>
+                      {getPaymentMethodLabel(payment.method)}
+                      {payment.reference ? ` (ref: ${payment.reference})` : ""}
+                    </span>
+                    <span>{formatRupiah(payment.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {!!order.returns?.length && (
+              <div className="text-sm">
+                <h4 className="font-medium text-gray-900 mb-1">{t("returns.history") || "Returns"}</h4>
+                {order.returns.map((ret) => (
+                  <div key={ret.id} className="flex justify-between text-gray-600 py-1 border-b border-gray-100">
+                    <span>
+                      {formatDate(ret.created_at)} • {ret.reason}
+                      {ret.created_by?.name ? ` • ${ret.created_by.name}` : ""}
+                    </span>
+                    <span className="text-red-600">-{formatRupiah(parseFloat(ret.refund_amount) || 0)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {mode !== "view" && (
+              <div className="space-y-3 border-t border-gray-200 pt-3">
+                {mode === "void" && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-700">{t("returns.voidStock") || "Returned items"}</span>
+                    {dispositionSelect(voidDisposition, setVoidDisposition)}
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t("returns.reason") || "Reason"} *
+                  </label>
+                  <input
+                    type="text"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder={t("returns.reasonPlaceholder") || "e.g. Expired product, wrong item"}
+                  />
+                </div>
+                <div className="flex justify-between text-sm font-semibold text-gray-900">
+                  <span>{t("returns.refundAmount") || "Refund"}</span>
+                  <span>{formatRupiah(mode === "void" ? Math.max(total - refundTotal, 0) : estimatedRefund)}</span>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {canRefund && (
+            <div className="p-4 border-t border-gray-200 flex gap-2 justify-end">
+              {mode === "view" ? (
+                <>
+                  {canReturnOrder(order) && (
+                    <motion.button
+                      onClick={() => startMode("return")}
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                      {t("returns.returnItems") || "Return Items"}
+                    </motion.button>
+                  )}
+                  {status !== "voided" && status !== "refunded" && (
+                    <motion.button
+                      onClick={() => startMode("void")}
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm"
+                    >
+                      <Ban className="h-4 w-4" />
+                      {t("returns.void") || "Void Order"}
+                    </motion.button>
+                  )}
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => startMode("view")}
+                    disabled={isSubmitting}
+                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm disabled:opacity-50"
+                  >
+                    {t("common.cancel") || "Cancel"}
+                  </button>
+                  <motion.button
+                    onClick={mode === "return" ? handleSubmitReturn : handleSubmitVoid}
+                    disabled={isSubmitting}
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSubmitting
+                      ? t("common.saving") || "Saving..."
+                      : mode === "return"
+                        ? t("returns.confirmReturn") || "Confirm Return"
+                        : t("returns.confirmVoidButton") || "Void Order"}
+                  </motion.button>
+                </>
+              )}
+            </div>
+          )}
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
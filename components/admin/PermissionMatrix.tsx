@@ -0,0 +1,47 @@
+"use client";
+
+import { PERMISSIONS, type Permission } from "@/lib/roles";
+
+interface PermissionMatrixProps {
+  value: Permission[];
+  onChange: (permissions: Permission[]) => void;
+  disabled?: boolean;
+}
+
+const groups = Array.from(new Set(PERMISSIONS.map((permission) => permission.group)));
+
+export default function PermissionMatrix({ value, onChange, disabled = false }: PermissionMatrixProps) {
+  const toggle = (key: Permission) => {
+    onChange(value.includes(key) ? value.filter((p) => p !== key) : [...value, key]);
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+      {groups.map((group) => (
+        <div key={group} className="p-4">
+          <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">{group}</p>
+          <div className="space-y-2">
+            {PERMISSIONS.filter((permission) => permission.group === group).map((permission) => (
+              <label
+                key={permission.key}
+                className="flex items-start gap-3 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={value.includes(permission.key)}
+                  onChange={() => toggle(permission.key)}
+                  disabled={disabled}
+                  className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 disabled:cursor-not-allowed"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900 font-mono">{permission.key}</span>
+                  <span className="block text-sm text-gray-500">{permission.label}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Printer, Image as ImageIcon, FileText, Usb } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import {
+  buildEscPosReceipt,
+  buildReceiptPdf,
+  formatReceiptLines,
+  getPaperWidth,
+  isSerialPrintingSupported,
+  printViaSerial,
+  renderReceiptImage,
+  setPaperWidth,
+  shareReceiptFile,
+  type PaperWidth,
+  type Receipt,
+} from "@/lib/receipts";
+
+interface ReceiptModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  receipt: Receipt | null;
+}
+
+export default function ReceiptModal({ isOpen, onClose, receipt }: ReceiptModalProps) {
+  const { t } = useLanguage();
+  const [paper, setPaper] = useState<PaperWidth>(58);
+  const [canPrintSerial, setCanPrintSerial] = useState(false);
+  const [busyAction, setBusyAction] = useState<"serial" | "image" | "pdf" | null>(null);
+
+  useEffect(() => {
+    setPaper(getPaperWidth());
+    setCanPrintSerial(isSerialPrintingSupported());
+  }, []);
+
+  const handlePaperChange = (value: PaperWidth) => {
+    setPaper(value);
+    setPaperWidth(value);
+  };
+
+  const filename = receipt ? `receipt-${receipt.invoiceNumber || "pending"}` : "receipt";
+
+  const runAction = async (action: "serial" | "image" | "pdf") => {
+    if (!receipt) return;
+    try {
+      setBusyAction(action);
+      if (action === "serial") {
+        await printViaSerial(buildEscPosReceipt(receipt, paper));
+      } else if (action === "image") {
+        const blob = await renderReceiptImage(receipt, paper);
+        await shareReceiptFile(blob, `${filename}.png`, receipt.storeName);
+      } else {
+        await shareReceiptFile(buildReceiptPdf(receipt, paper), `${filename}.pdf`, receipt.storeName);
+      }
+    } catch (error) {
+      // Closing the port picker or share sheet is not an error worth reporting
+      if (error instanceof DOMException && (error.name === "AbortError" || error.name === "NotFoundError")) {
+        return;
+      }
+      console.error("Receipt action failed:", error);
+      window.alert(
+        error instanceof Error ? error.message : t("receipt.actionFailed") || "Something went wrong. Please try again."
+      );
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const lines = receipt ? formatReceiptLines(receipt, paper) : [];
+  // Size the monospace text so one line fills the paper (2mm margin each side)
+  const fontSizeMm = ((paper - 4) / (paper === 58 ? 32 : 48)) / 0.6;
+
+  return (
+    <AnimatePresence>
+      {isOpen && receipt && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
+          onClick={onClose}
+        >
+          {/* Thermal print stylesheet: only the receipt is printed, on a roll of the chosen width */}
+          <style>{`@media print { @page { size: ${paper}mm auto; margin: 0; } }`}</style>
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.9 }}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[90vh] overflow-hidden flex flex-col"
+          >
+            <div className="flex items-center justify-between p-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">{t("receipt.title") || "Receipt"}</h3>
+              <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="overflow-y-auto p-4 bg-gray-100">
+              {!receipt.invoiceNumber && (
+                <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg mb-4 text-sm">
+                  {t("receipt.pendingSync") ||
+                    "This order is waiting to be sent. The invoice number will be assigned once it syncs."}
+                </div>
+              )}
+              <div
+                className="receipt-print mx-auto bg-white shadow-sm"
+                style={{ width: `${paper}mm`, padding: "4mm 2mm" }}
+              >
+                <pre
+                  className="font-mono text-black whitespace-pre leading-snug"
+                  style={{ fontSize: `${fontSizeMm.toFixed(2)}mm` }}
+                >
+                  {lines.map((line, index) => (
+                    <div key={index} className={line.bold ? "font-bold" : undefined}>
+                      {line.text || " "}
+                    </div>
+                  ))}
+                </pre>
+              </div>
+            </div>
+
+            <div className="p-4 border-t border-gray-200 space-y-3">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-gray-600">{t("receipt.paperWidth") || "Paper"}:</span>
+                {([58, 80] as PaperWidth[]).map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => handlePaperChange(value)}
+                    className={`px-3 py-1 rounded-lg border transition-colors ${
+                      paper === value
+                        ? "border-blue-500 bg-blue-50 text-blue-700"
+                        : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                    }`}
+                  >
+                    {value}mm
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <motion.button
+                  onClick={() => window.print()}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  className="flex items-center justify-center gap-2 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+                >
+                  <Printer className="h-4 w-4" />
+                  {t("receipt.print") || "Print"}
+                </motion.button>
+                <motion.button
+                  onClick={() => runAction("serial")}
+                  disabled={!canPrintSerial || busyAction !== null}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  className="flex items-center justify-center gap-2 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={
+                    canPrintSerial
+                      ? undefined
+                      : t("receipt.serialUnsupported") || "This browser cannot connect to USB or Bluetooth printers"
+                  }
+                >
+                  <Usb className="h-4 w-4" />
+                  {busyAction === "serial" ? t("receipt.printing") || "Printing..." : t("receipt.thermalPrinter") || "Thermal Printer"}
+                </motion.button>
+                <motion.button
+                  onClick={() => runAction("image")}
+                  disabled={busyAction !== null}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  className="flex items-center justify-center gap-2 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ImageIcon className="h-4 w-4" />
+                  {t("receipt.shareImage") || "Share Image"}
+                </motion.button>
+                <motion.button
+                  onClick={() => runAction("pdf")}
+                  disabled={busyAction !== null}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  className="flex items-center justify-center gap-2 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <FileText className="h-4 w-4" />
+                  {t("receipt.sharePdf") || "Share PDF"}
+                </motion.button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { TrendingUp, TrendingDown } from "lucide-react";
+
+export interface SalesChartPoint {
+  label: string;
+  value: number;
+  // Same position in the previous period, drawn as a dashed line
+  previous?: number;
+}
+
+interface SalesChartProps {
+  title: string;
+  // Formatted total for the whole range
+  value: string;
+  // Percentage change against the previous period
+  change: number | null;
+  changeLabel?: string;
+  points: SalesChartPoint[];
+  formatValue: (value: number) => string;
+  color?: string;
+  index?: number;
+}
+
+const WIDTH = 300;
+const HEIGHT = 120;
+const PADDING = 6;
+
+export default function SalesChart({
+  title,
+  value,
+  change,
+  changeLabel = "vs previous period",
+  points,
+  formatValue,
+  color = "#2563eb",
+  index = 0,
+}: SalesChartProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  const hasPrevious = points.some((point) => point.previous != null);
+  const max = Math.max(1, ...points.map((point) => Math.max(point.value, point.previous ?? 0)));
+  const getX = (i: number) => (points.length === 1 ? WIDTH / 2 : (i * WIDTH) / (points.length - 1));
+  const getY = (v: number) => HEIGHT - PADDING - (v / max) * (HEIGHT - PADDING * 2);
+  const toPath = (values: number[]) => values.map((v, i) => `${getX(i)},${getY(v)}`).join(" ");
+
+  const line = toPath(points.map((point) => point.value));
+  const area = points.length > 0 ? `0,${HEIGHT} ${line} ${getX(points.length - 1)},${HEIGHT}` : "";
+  const previousLine = hasPrevious ? toPath(points.map((point) => point.previous ?? 0)) : "";
+  const hoveredPoint = hovered != null ? points[hovered] : null;
+  const axisLabels =
+    points.length > 2 ? [points[0], points[Math.floor(points.length / 2)], points[points.length - 1]] : points;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3, delay: index * 0.1 }}
+      className="bg-white rounded-lg shadow p-6"
+    >
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium text-gray-600">{title}</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{value}</p>
+        </div>
+        {change != null && (
+          <span
+            className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-semibold ${
+              change >= 0 ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+            }`}
+            title={changeLabel}
+          >
+            {change >= 0 ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+            {change >= 0 ? "+" : ""}
+            {change.toFixed(1)}%
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mt-1 min-h-[1rem]">
+        {hoveredPoint
+          ? `${hoveredPoint.label}: ${formatValue(hoveredPoint.value)}${
+              hoveredPoint.previous != null ? ` (${formatValue(hoveredPoint.previous)})` : ""
+            }`
+          : change != null && changeLabel}
+      </p>
+
+      <div className="relative mt-3 h-32" onMouseLeave={() => setHovered(null)}>
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-full overflow-visible">
+          {previousLine && (
+            <polyline
+              points={previousLine}
+              fill="none"
+              stroke="#9ca3af"
+              strokeWidth={1.5}
+              strokeDasharray="4 3"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          {area && <polygon points={area} fill={color} fillOpacity={0.08} />}
+          <polyline points={line} fill="none" stroke={color} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+          {hovered != null && (
+            <line
+              x1={getX(hovered)}
+              x2={getX(hovered)}
+              y1={0}
+              y2={HEIGHT}
+              stroke="#d1d5db"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+        {/* One hover column per point */}
+        <div className="absolute inset-0 flex">
+          {points.map((point, i) => (
+            <div key={`${point.label}-${i}`} className="flex-1 h-full" onMouseEnter={() => setHovered(i)} />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-between mt-2 text-xs text-gray-400">
+        {axisLabels.map((point, i) => (
+          <span key={`${point.label}-${i}`}>{point.label}</span>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import SalesChart from "@/components/admin/SalesChart";
+import DateRangePicker from "@/components/admin/DateRangePicker";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { api, getErrorMessage, type SalesBucket, type SalesGrouping } from "@/lib/api";
+import {
+  SALES_GROUPINGS,
+  formatPeriodLabel,
+  formatRupiah,
+  getAverageBasket,
+  getDefaultGrouping,
+  getLastDaysRange,
+  getPeriodChange,
+  getPreviousRange,
+  getSalesTotals,
+  validateDateRange,
+  type DateRange,
+} from "@/lib/sales";
+
+interface SalesTrendsProps {
+  // All stores when not set
+  storeId?: string;
+}
+
+export default function SalesTrends({ storeId }: SalesTrendsProps) {
+  const { t } = useLanguage();
+  const [range, setRange] = useState<DateRange>(() => getLastDaysRange(30));
+  const [grouping, setGrouping] = useState<SalesGrouping>("day");
+  const [buckets, setBuckets] = useState<SalesBucket[]>([]);
+  const [previousBuckets, setPreviousBuckets] = useState<SalesBucket[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const validationError = validateDateRange(range, t);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchSales = async () => {
+      try {
+        setIsLoading(true);
+        setError("");
+        const previousRange = getPreviousRange(range);
+        const [current, previous] = await Promise.all([
+          api.dashboard.sales({ store_id: storeId, ...range, group_by: grouping }),
+          api.dashboard.sales({ store_id: storeId, ...previousRange, group_by: grouping }),
+        ]);
+        if (!cancelled) {
+          setBuckets(current);
+          setPreviousBuckets(previous);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(getErrorMessage(err, t("sales.failedToLoad") || "Failed to load sales"));
+          setBuckets([]);
+          setPreviousBuckets([]);
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchSales();
+    return () => {
+      cancelled = true;
+    };
+  }, [storeId, range, grouping, t]);
+
+  const handleRangeChange = (next: DateRange) => {
+    setRange(next);
+    if (!validateDateRange(next, t)) setGrouping(getDefaultGrouping(next));
+  };
+
+  const totals = getSalesTotals(buckets);
+  const previousTotals = getSalesTotals(previousBuckets);
+  const changeLabel = t("sales.vsPrevious") || "vs previous period";
+
+  // The previous period lines up by position, since both ranges have the same length
+  const toPoints = (getValue: (bucket: SalesBucket) => number) =>
+    buckets.map((bucket, i) => ({
+      label: formatPeriodLabel(bucket.period_start, grouping),
+      value: getValue(bucket),
+      previous: previousBuckets[i] ? getValue(previousBuckets[i]) : undefined,
+    }));
+
+  return (
+    <div className="mb-6">
+      <div className="flex flex-col xl:flex-row justify-between items-start xl:items-center gap-4 mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">{t("sales.title") || "Sales Trends"}</h2>
+        <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+          <DateRangePicker range={range} onChange={handleRangeChange} />
+          <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+            {SALES_GROUPINGS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setGrouping(option.value)}
+                className={`px-3 py-1.5 text-sm transition-colors ${
+                  grouping === option.value ? "bg-gray-900 text-white" : "bg-white text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                {t(option.translationKey) || option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">{error}</div>}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-48 bg-white rounded-lg shadow">
+          <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
+          <SalesChart
+            title={t("dashboard.revenue") || "Revenue"}
+            value={formatRupiah(totals.revenue)}
+            change={getPeriodChange(totals.revenue, previousTotals.revenue)}
+            changeLabel={changeLabel}
+            points={toPoints((bucket) => bucket.revenue)}
+            formatValue={formatRupiah}
+            color="#16a34a"
+            index={0}
+          />
+          <SalesChart
+            title={t("sales.orders") || "Orders"}
+            value={totals.orders.toLocaleString("id-ID")}
+            change={getPeriodChange(totals.orders, previousTotals.orders)}
+            changeLabel={changeLabel}
+            points={toPoints((bucket) => bucket.orders)}
+            formatValue={(value) => value.toLocaleString("id-ID")}
+            color="#2563eb"
+            index={1}
+          />
+          <SalesChart
+            title={t("sales.averageBasket") || "Average Basket"}
+            value={formatRupiah(totals.averageBasket)}
+            change={getPeriodChange(totals.averageBasket, previousTotals.averageBasket)}
+            changeLabel={changeLabel}
+            points={toPoints(getAverageBasket)}
+            formatValue={formatRupiah}
+            color="#7c3aed"
+            index={2}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,407 @@
+"use client";
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Banknote, ArrowDownUp, Lock, Printer, X } from "lucide-react";
+import ZReport from "@/components/admin/ZReport";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { api, getErrorMessage, type CashMovementType, type CashierShift } from "@/lib/api";
+import { formatRupiah } from "@/lib/sales";
+import {
+  CASH_MOVEMENT_TYPES,
+  validateCashMovement,
+  validateCountedCash,
+  validateOpeningFloat,
+} from "@/lib/shifts";
+
+interface ShiftPanelProps {
+  shift: CashierShift | null;
+  storeId: string;
+  isLoading: boolean;
+  // Queued offline orders have to reach the server before the shift can be closed
+  pendingCount: number;
+  onShiftChange: (shift: CashierShift | null) => void;
+}
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("id-ID", { dateStyle: "short", timeStyle: "short" });
+
+export default function ShiftPanel({ shift, storeId, isLoading, pendingCount, onShiftChange }: ShiftPanelProps) {
+  const { t } = useLanguage();
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isMovementModalOpen, setIsMovementModalOpen] = useState(false);
+  const [movementForm, setMovementForm] = useState({ type: "cash_out" as CashMovementType, amount: "", reason: "" });
+  const [isCloseModalOpen, setIsCloseModalOpen] = useState(false);
+  const [closeForm, setCloseForm] = useState({ countedCash: "", note: "" });
+  const [error, setError] = useState("");
+  // The Z-report of the shift that was just closed
+  const [closedShift, setClosedShift] = useState<CashierShift | null>(null);
+
+  const handleOpenShift = async () => {
+    const validationError = validateOpeningFloat(openingFloat, t);
+    if (validationError) {
+      alert(validationError);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      onShiftChange(await api.shifts.open({ store_id: storeId, opening_float: parseFloat(openingFloat) }));
+      setOpeningFloat("");
+    } catch (err) {
+      alert(getErrorMessage(err, t("shifts.failedToOpen") || "Failed to open shift"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openMovementModal = () => {
+    setMovementForm({ type: "cash_out", amount: "", reason: "" });
+    setError("");
+    setIsMovementModalOpen(true);
+  };
+
+  const handleSaveMovement = async () => {
+    if (!shift) return;
+    const validationError = validateCashMovement(movementForm.amount, movementForm.reason, t);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError("");
+      onShiftChange(
+        await api.shifts.addCashMovement(shift.id, {
+          type: movementForm.type,
+          amount: parseFloat(movementForm.amount),
+          reason: movementForm.reason.trim(),
+        })
+      );
+      setIsMovementModalOpen(false);
+    } catch (err) {
+      setError(getErrorMessage(err, t("shifts.failedToSaveMovement") || "Failed to record cash movement"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openCloseModal = () => {
+    if (pendingCount > 0) {
+      alert(
+        t("shifts.syncBeforeClosing") ||
+          "Some orders are still waiting to be sent. Sync them before closing the shift so they are counted."
+      );
+      return;
+    }
+    setCloseForm({ countedCash: "", note: "" });
+    setError("");
+    setIsCloseModalOpen(true);
+  };
+
+  const handleCloseShift = async () => {
+    if (!shift) return;
+    const validationError = validateCountedCash(closeForm.countedCash, t);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    if (!window.confirm(t("shifts.confirmClose") || "Close this shift? No more orders can be rung up on it.")) return;
+
+    try {
+      setIsSubmitting(true);
+      setError("");
+      const closed = await api.shifts.close(shift.id, {
+        counted_cash: parseFloat(closeForm.countedCash),
+        ...(closeForm.note.trim() && { closing_note: closeForm.note.trim() }),
+      });
+      setIsCloseModalOpen(false);
+      setClosedShift(closed);
+      onShiftChange(null);
+    } catch (err) {
+      setError(getErrorMessage(err, t("shifts.failedToClose") || "Failed to close shift"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <>
+      {!isLoading &&
+        (shift ? (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-white rounded-lg shadow px-4 py-3 mb-6">
+            <div className="flex items-center gap-3">
+              <Banknote className="h-5 w-5 text-green-600 flex-shrink-0" />
+              <div className="text-sm">
+                <p className="font-semibold text-gray-900">
+                  {t("shifts.shift") || "Shift"} {shift.shift_number}
+                </p>
+                <p className="text-gray-500">
+                  {t("shifts.openedAt") || "Opened"} {formatTime(shift.opened_at)} •{" "}
+                  {t("shifts.openingFloat") || "Opening float"} {formatRupiah(Number(shift.opening_float))}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={openMovementModal}
+                className="flex items-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+              >
+                <ArrowDownUp className="h-4 w-4" />
+                {t("shifts.cashInOut") || "Cash In/Out"}
+              </button>
+              <button
+                onClick={openCloseModal}
+                className="flex items-center gap-2 px-3 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors text-sm"
+              >
+                <Lock className="h-4 w-4" />
+                {t("shifts.closeShift") || "Close Shift"}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg px-4 py-4 mb-6">
+            <div className="flex items-start gap-3 mb-3">
+              <Banknote className="h-5 w-5 text-amber-700 flex-shrink-0 mt-0.5" />
+              <div className="text-sm text-amber-800">
+                <p className="font-semibold">{t("shifts.noOpenShift") || "No open shift"}</p>
+                <p>
+                  {t("shifts.openShiftDescription") ||
+                    "Count the cash in the drawer and open a shift before ringing up orders."}
+                </p>
+              </div>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="number"
+                min="0"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleOpenShift()}
+                placeholder={t("shifts.openingFloat") || "Opening float"}
+                className="sm:w-56 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+              />
+              <motion.button
+                onClick={handleOpenShift}
+                disabled={isSubmitting}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {t("shifts.openShift") || "Open Shift"}
+              </motion.button>
+            </div>
+          </div>
+        ))}
+
+      {/* Cash In/Out Modal */}
+      <AnimatePresence>
+        {isMovementModalOpen && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
+            onClick={() => setIsMovementModalOpen(false)}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.9 }}
+              onClick={(e) => e.stopPropagation()}
+              className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4 p-6"
+            >
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">{t("shifts.cashInOut") || "Cash In/Out"}</h3>
+                <button onClick={() => setIsMovementModalOpen(false)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">{error}</div>
+              )}
+              <div className="space-y-4 mb-4">
+                <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+                  {CASH_MOVEMENT_TYPES.map((type) => (
+                    <button
+                      key={type.value}
+                      type="button"
+                      onClick={() => setMovementForm({ ...movementForm, type: type.value })}
+                      className={`px-3 py-1.5 text-sm transition-colors ${
+                        movementForm.type === type.value
+                          ? "bg-gray-900 text-white"
+                          : "bg-white text-gray-700 hover:bg-gray-50"
+                      }`}
+                    >
+                      {t(type.translationKey) || type.label}
+                    </button>
+                  ))}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {t("shifts.amount") || "Amount"}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={movementForm.amount}
+                    onChange={(e) => setMovementForm({ ...movementForm, amount: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {t("shifts.reason") || "Reason"}
+                  </label>
+                  <input
+                    type="text"
+                    value={movementForm.reason}
+                    onChange={(e) => setMovementForm({ ...movementForm, reason: e.target.value })}
+                    placeholder={t("shifts.reasonPlaceholder") || "e.g. Bought ice, paid supplier"}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={() => setIsMovementModalOpen(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  {t("common.cancel")}
+                </button>
+                <motion.button
+                  onClick={handleSaveMovement}
+                  disabled={isSubmitting}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {t("common.save")}
+                </motion.button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Close Shift Modal */}
+      <AnimatePresence>
+        {isCloseModalOpen && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
+            onClick={() => setIsCloseModalOpen(false)}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.9 }}
+              onClick={(e) => e.stopPropagation()}
+              className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4 p-6"
+            >
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">{t("shifts.closeShift") || "Close Shift"}</h3>
+                <button onClick={() => setIsCloseModalOpen(false)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">{error}</div>
+              )}
+              {/* The count is entered blind; the expected figure only appears on the Z-report */}
+              <p className="text-sm text-gray-600 mb-4">
+                {t("shifts.countDescription") ||
+                  "Count all the cash in the drawer, including the opening float, and enter the total."}
+              </p>
+              <div className="space-y-4 mb-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {t("shifts.countedCash") || "Counted cash"}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={closeForm.countedCash}
+                    onChange={(e) => setCloseForm({ ...closeForm, countedCash: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {t("shifts.closingNote") || "Closing note"} {t("form.optional") || "(optional)"}
+                  </label>
+                  <textarea
+                    value={closeForm.note}
+                    onChange={(e) => setCloseForm({ ...closeForm, note: e.target.value })}
+                    rows={2}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={() => setIsCloseModalOpen(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  {t("common.cancel")}
+                </button>
+                <motion.button
+                  onClick={handleCloseShift}
+                  disabled={isSubmitting}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+                >
+                  {t("shifts.closeShift") || "Close Shift"}
+                </motion.button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Z-Report Modal */}
+      <AnimatePresence>
+        {closedShift && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4"
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.9 }}
+              className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6"
+            >
+              <ZReport shift={closedShift} />
+              <div className="flex justify-end gap-3 mt-6 print:hidden">
+                <button
+                  onClick={() => window.print()}
+                  className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <Printer className="h-4 w-4" />
+                  {t("shifts.print") || "Print"}
+                </button>
+                <button
+                  onClick={() => setClosedShift(null)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  {t("shifts.done") || "Done"}
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
@@ -2,12 +2,12 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { LayoutDashboard, Package, Settings, Warehouse, Menu, ShoppingCart, Receipt, Store, UserPlus, Shield, FolderTree, ChevronDown, ChevronRight } from "lucide-react";
+import { LayoutDashboard, Package, Settings, Warehouse, Menu, ShoppingCart, Receipt, Store, UserPlus, Users, Shield, FolderTree, Truck, ClipboardList, ClipboardCheck, History, ArrowLeftRight, PackagePlus, CalendarClock, BarChart3, Banknote, ChevronDown, ChevronRight } from "lucide-react";
 import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
-import { isSuperAdmin, getRoleName } from "@/lib/roles";
+import { can, getRoleName, type Permission } from "@/lib/roles";
 import { useLanguage } from "@/contexts/LanguageContext";
 
 const menuItems = [
@@ -16,13 +16,62 @@ const menuItems = [
   { href: "/dashboard/inventory", labelKey: "nav.inventory", icon: Warehouse },
   { href: "/dashboard/cashier", labelKey: "nav.cashier", icon: ShoppingCart },
   { href: "/dashboard/orders", labelKey: "nav.orders", icon: Receipt },
+  { href: "/dashboard/customers", labelKey: "nav.customers", icon: Users },
   { href: "/dashboard/settings", labelKey: "nav.settings", icon: Settings },
 ];
 
-const superAdminMenuItems = [
-  { href: "/dashboard/stores", labelKey: "nav.stores", icon: Store },
-  { href: "/dashboard/users", labelKey: "nav.users", icon: UserPlus },
-  { href: "/dashboard/roles", labelKey: "nav.roles", icon: Shield },
+type SubmenuItem = { href: string; labelKey: string; icon: typeof Package; permission?: Permission };
+
+// Menus that expand into sub-pages instead of linking directly
+const submenus: Record<string, SubmenuItem[]> = {
+  "/dashboard/cashier": [
+    { href: "/dashboard/cashier", labelKey: "nav.cashier", icon: ShoppingCart },
+    { href: "/dashboard/cashier/shifts", labelKey: "nav.shifts", icon: Banknote, permission: "shifts:review" },
+  ],
+  "/dashboard/orders": [
+    { href: "/dashboard/orders", labelKey: "nav.orders", icon: Receipt },
+    { href: "/dashboard/orders/profit", labelKey: "nav.profit", icon: BarChart3, permission: "reports:view" },
+  ],
+  "/dashboard/products": [
+    { href: "/dashboard/products", labelKey: "nav.products", icon: Package },
+    { href: "/dashboard/products/categories", labelKey: "nav.categories", icon: FolderTree },
+  ],
+  "/dashboard/inventory": [
+    { href: "/dashboard/inventory", labelKey: "nav.inventory", icon: Warehouse },
+    { href: "/dashboard/inventory/movements", labelKey: "nav.movements", icon: History },
+    { href: "/dashboard/inventory/expiry", labelKey: "nav.expiry", icon: CalendarClock },
+    {
+      href: "/dashboard/inventory/stock-counts",
+      labelKey: "nav.stockCounts",
+      icon: ClipboardCheck,
+      permission: "inventory:adjust",
+    },
+    {
+      href: "/dashboard/inventory/transfers",
+      labelKey: "nav.transfers",
+      icon: ArrowLeftRight,
+      permission: "inventory:transfer",
+    },
+    { href: "/dashboard/inventory/suppliers", labelKey: "nav.suppliers", icon: Truck, permission: "purchasing:manage" },
+    {
+      href: "/dashboard/inventory/purchase-orders",
+      labelKey: "nav.purchaseOrders",
+      icon: ClipboardList,
+      permission: "purchasing:manage",
+    },
+    {
+      href: "/dashboard/inventory/reorder",
+      labelKey: "nav.reorder",
+      icon: PackagePlus,
+      permission: "purchasing:manage",
+    },
+  ],
+};
+
+const adminMenuItems: { href: string; labelKey: string; icon: typeof Store; permission: Permission }[] = [
+  { href: "/dashboard/stores", labelKey: "nav.stores", icon: Store, permission: "stores:manage" },
+  { href: "/dashboard/users", labelKey: "nav.users", icon: UserPlus, permission: "users:manage" },
+  { href: "/dashboard/roles", labelKey: "nav.roles", icon: Shield, permission: "roles:manage" },
 ];
 
 export default function Sidebar() {
@@ -32,7 +81,7 @@ export default function Sidebar() {
   const [isOpen, setIsOpen] = useState(true); // Start as open (for desktop)
   const [isDesktop, setIsDesktop] = useState(true); // Assume desktop initially
   const [expandedMenus, setExpandedMenus] = useState<Record<string, boolean>>({});
-  const userIsSuperAdmin = isSuperAdmin(user?.role);
+  const visibleAdminMenuItems = adminMenuItems.filter((item) => can(user, item.permission));
 
   useEffect(() => {
     const checkDesktop = () => {
@@ -139,11 +188,13 @@ export default function Sidebar() {
                 ? pathname === "/dashboard"
                 : pathname === item.href || pathname.startsWith(item.href + "/");
               
-              // Check if this is Products menu and has submenu
-              const isProductsMenu = item.href === "/dashboard/products";
-              const hasSubmenu = isProductsMenu;
+              const visibleSubmenu = (submenus[item.href] || []).filter(
+                (sub) => !sub.permission || can(user, sub.permission)
+              );
+              // A submenu with only the menu's own page is shown as a plain link
+              const hasSubmenu = visibleSubmenu.length > 1;
               const menuKey = item.href;
-              const isExpanded = expandedMenus[menuKey] ?? (isProductsMenu && isActive); // Default to expanded if active
+              const isExpanded = expandedMenus[menuKey] ?? (hasSubmenu && isActive); // Default to expanded if active
               
               return (
                 <div key={item.href}>
@@ -197,7 +248,7 @@ export default function Sidebar() {
                     )}
                   </motion.div>
                   
-                  {/* Submenu for Products */}
+                  {/* Submenu */}
                   <AnimatePresence>
                     {hasSubmenu && isExpanded && (
                       <motion.div
@@ -207,32 +258,27 @@ export default function Sidebar() {
                         transition={{ duration: 0.2 }}
                         className="ml-4 mt-1 space-y-1"
                       >
-                        <Link
-                          href="/dashboard/products"
-                          className={cn(
-                            "flex items-center px-4 py-2 rounded-lg transition-all duration-200 text-sm",
-                            pathname === "/dashboard/products"
-                              ? "bg-blue-500 text-white"
-                              : "text-gray-400 hover:bg-gray-800 hover:text-white"
-                          )}
-                          onClick={() => setIsOpen(false)}
-                        >
-                          <Package className="mr-2 h-4 w-4" />
-                          <span>{t("nav.products")}</span>
-                        </Link>
-                        <Link
-                          href="/dashboard/products/categories"
-                          className={cn(
-                            "flex items-center px-4 py-2 rounded-lg transition-all duration-200 text-sm",
-                            pathname === "/dashboard/products/categories"
-                              ? "bg-blue-500 text-white"
-                              : "text-gray-400 hover:bg-gray-800 hover:text-white"
-                          )}
-                          onClick={() => setIsOpen(false)}
-                        >
-                          <FolderTree className="mr-2 h-4 w-4" />
-                          <span>{t("nav.categories")}</span>
-                        </Link>
+                        {visibleSubmenu.map((sub) => {
+                          const SubIcon = sub.icon;
+                          const isSubActive =
+                            pathname === sub.href || (sub.href !== item.href && pathname.startsWith(sub.href + "/"));
+                          return (
+                            <Link
+                              key={sub.href}
+                              href={sub.href}
+                              className={cn(
+                                "flex items-center px-4 py-2 rounded-lg transition-all duration-200 text-sm",
+                                isSubActive
+                                  ? "bg-blue-500 text-white"
+                                  : "text-gray-400 hover:bg-gray-800 hover:text-white"
+                              )}
+                              onClick={() => setIsOpen(false)}
+                            >
+                              <SubIcon className="mr-2 h-4 w-4" />
+                              <span>{t(sub.labelKey)}</span>
+                            </Link>
+                          );
+                        })}
                       </motion.div>
                     )}
                   </AnimatePresence>
@@ -240,15 +286,15 @@ export default function Sidebar() {
               );
             })}
             
-            {/* Super Admin Menu Items */}
-            {userIsSuperAdmin && (
+            {/* Admin Menu Items */}
+            {visibleAdminMenuItems.length > 0 && (
               <>
                 <div className="pt-4 pb-2">
                   <div className="px-4 text-xs font-semibold text-gray-500 uppercase tracking-wider">
-                    Super Admin
+                    Administration
                   </div>
                 </div>
-                {superAdminMenuItems.map((item, index) => {
+                {visibleAdminMenuItems.map((item, index) => {
                   const Icon = item.icon;
                   const isActive = pathname === item.href || pathname.startsWith(item.href + "/");
                   
@@ -0,0 +1,142 @@
+"use client";
+
+import { useLanguage } from "@/contexts/LanguageContext";
+import type { CashierShift } from "@/lib/api";
+import { PAYMENT_METHODS } from "@/lib/payments";
+import { formatRupiah } from "@/lib/sales";
+import {
+  formatCashVariance,
+  getCashMovementTotal,
+  getCashVariance,
+  getExpectedCash,
+  getPaymentTotal,
+  getShiftStatus,
+  getTakings,
+  getVarianceStyle,
+} from "@/lib/shifts";
+
+interface ZReportProps {
+  shift: CashierShift;
+}
+
+const formatDateTime = (dateString?: string | null) =>
+  dateString ? new Date(dateString).toLocaleString("id-ID", { dateStyle: "medium", timeStyle: "short" }) : "-";
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleTimeString("id-ID", { hour: "2-digit", minute: "2-digit" });
+
+export default function ZReport({ shift }: ZReportProps) {
+  const { t } = useLanguage();
+  const status = getShiftStatus(shift.status);
+  const expectedCash = getExpectedCash(shift);
+  const countedCash = shift.counted_cash != null ? Number(shift.counted_cash) : null;
+  const variance = countedCash != null ? getCashVariance(shift, countedCash) : null;
+
+  const row = (label: string, value: string, className = "") => (
+    <div className={`flex justify-between gap-4 py-1 ${className}`}>
+      <span>{label}</span>
+      <span className="font-medium">{value}</span>
+    </div>
+  );
+
+  return (
+    <div className="print-area bg-white w-full text-sm text-gray-700">
+      <div className="text-center border-b border-dashed border-gray-300 pb-3 mb-3">
+        <h2 className="text-lg font-bold text-gray-900">{t("shifts.zReport") || "Z-Report"}</h2>
+        {shift.store?.name && <p>{shift.store.name}</p>}
+        <p className="text-gray-500">
+          {shift.shift_number} •{" "}
+          <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${status.style}`}>
+            {t(status.translationKey) || status.label}
+          </span>
+        </p>
+      </div>
+
+      <div className="border-b border-dashed border-gray-300 pb-3 mb-3">
+        {row(t("orders.cashier") || "Cashier", shift.opened_by.name)}
+        {row(t("shifts.openedAt") || "Opened", formatDateTime(shift.opened_at))}
+        {row(t("shifts.closedAt") || "Closed", formatDateTime(shift.closed_at))}
+        {shift.closed_by &&
+          shift.closed_by.id !== shift.opened_by.id &&
+          row(t("shifts.closedBy") || "Closed by", shift.closed_by.name)}
+      </div>
+
+      <div className="border-b border-dashed border-gray-300 pb-3 mb-3">
+        <h3 className="font-semibold text-gray-900 mb-1">{t("shifts.sales") || "Sales"}</h3>
+        {row(t("sales.orders") || "Orders", shift.order_count.toLocaleString("id-ID"))}
+        {row(t("shifts.netSales") || "Net sales", formatRupiah(Number(shift.sales_total)))}
+        {row(t("shifts.discounts") || "Discounts", formatRupiah(Number(shift.discount_total)))}
+        {row(t("shifts.refunds") || "Refunds", formatRupiah(Number(shift.refund_total)))}
+      </div>
+
+      <div className="border-b border-dashed border-gray-300 pb-3 mb-3">
+        <h3 className="font-semibold text-gray-900 mb-1">{t("shifts.byPaymentMethod") || "By payment method"}</h3>
+        {PAYMENT_METHODS.map((method) => {
+          const count = shift.payment_totals.find((total) => total.method === method.value)?.count || 0;
+          return (
+            <div key={method.value}>
+              {row(
+                `${t(method.translationKey) || method.label} (${count})`,
+                formatRupiah(getPaymentTotal(shift, method.value))
+              )}
+            </div>
+          );
+        })}
+        {row(
+          t("shifts.totalTakings") || "Total takings",
+          formatRupiah(getTakings(shift)),
+          "font-semibold text-gray-900 border-t border-gray-200 mt-1"
+        )}
+      </div>
+
+      <div className="border-b border-dashed border-gray-300 pb-3 mb-3">
+        <h3 className="font-semibold text-gray-900 mb-1">{t("shifts.cashDrawer") || "Cash drawer"}</h3>
+        {row(t("shifts.openingFloat") || "Opening float", formatRupiah(Number(shift.opening_float)))}
+        {row(t("shifts.cashSales") || "Cash sales", `+ ${formatRupiah(getPaymentTotal(shift, "cash"))}`)}
+        {row(t("shifts.cashRefunds") || "Cash refunds", `− ${formatRupiah(Number(shift.cash_refund_total || 0))}`)}
+        {row(t("shifts.cashIn") || "Cash In", `+ ${formatRupiah(getCashMovementTotal(shift, "cash_in"))}`)}
+        {row(t("shifts.cashOut") || "Cash Out", `− ${formatRupiah(getCashMovementTotal(shift, "cash_out"))}`)}
+        {row(
+          t("shifts.expectedCash") || "Expected cash",
+          formatRupiah(expectedCash),
+          "font-semibold text-gray-900 border-t border-gray-200 mt-1"
+        )}
+        {row(t("shifts.countedCash") || "Counted cash", countedCash != null ? formatRupiah(countedCash) : "-")}
+        {variance != null &&
+          row(
+            variance === 0
+              ? t("shifts.balanced") || "Balanced"
+              : variance < 0
+                ? t("shifts.short") || "Short"
+                : t("shifts.over") || "Over",
+            formatCashVariance(variance),
+            `font-semibold ${getVarianceStyle(variance)}`
+          )}
+      </div>
+
+      {shift.cash_movements.length > 0 && (
+        <div className="border-b border-dashed border-gray-300 pb-3 mb-3">
+          <h3 className="font-semibold text-gray-900 mb-1">{t("shifts.cashMovements") || "Cash movements"}</h3>
+          {shift.cash_movements.map((movement) => (
+            <div key={movement.id} className="flex justify-between gap-4 py-1">
+              <span>
+                {formatTime(movement.created_at)} {movement.reason}
+                {movement.created_by && <span className="text-gray-400"> • {movement.created_by.name}</span>}
+              </span>
+              <span className={`font-medium ${movement.type === "cash_in" ? "text-green-700" : "text-red-700"}`}>
+                {movement.type === "cash_in" ? "+" : "−"} {formatRupiah(Number(movement.amount))}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {shift.closing_note && (
+        <div>
+          <h3 className="font-semibold text-gray-900 mb-1">{t("shifts.closingNote") || "Closing note"}</h3>
+          <p className="whitespace-pre-wrap">{shift.closing_note}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,14 @@
 "use client";
 
-import { createContext, useContext, ReactNode, useState, useEffect, useRef } from "react";
+import { createContext, useContext, ReactNode, useState, useEffect, useRef, useCallback } from "react";
 import { mockAuth, type User } from "@/lib/auth";
+import { setUnauthorizedHandler } from "@/lib/api";
+
+// Refresh the token this long before it expires
+const REFRESH_MARGIN = 5 * 60 * 1000;
+
+// Longest delay setTimeout honours; anything larger overflows and fires immediately
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
 
 interface AuthContextType {
   user: User | null;
@@ -16,33 +23,81 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
   const initialized = useRef(false);
+  const redirectingToLogin = useRef(false);
 
   useEffect(() => {
     // Prevent double execution in React Strict Mode
     if (initialized.current) return;
     initialized.current = true;
 
-    // Check for existing session on mount (client-side only)
-    if (typeof window !== "undefined") {
+    // Restore the local session, but only if the server-side session cookie is still valid
+    const restoreSession = async () => {
       try {
         const session = mockAuth.getSession();
         if (session && session.user) {
-          setUser(session.user);
+          if (await mockAuth.hasServerSession()) {
+            setUser(session.user);
+            setExpiresAt(session.expiresAt ?? null);
+          } else {
+            await mockAuth.signOut();
+          }
         }
       } catch (error) {
         console.error("Error checking session:", error);
+      } finally {
+        // Always set loading to false after checking
+        setIsLoading(false);
       }
-    }
-    
-    // Always set loading to false after checking
-    setIsLoading(false);
+    };
+
+    restoreSession();
+  }, []);
+
+  // End the session and return to the current page after signing in again
+  const expireSession = useCallback(async () => {
+    if (redirectingToLogin.current) return;
+    redirectingToLogin.current = true;
+    await mockAuth.signOut();
+    setUser(null);
+    setExpiresAt(null);
+    const next = window.location.pathname + window.location.search;
+    window.location.href = `/login?next=${encodeURIComponent(next)}`;
   }, []);
 
+  // Any authenticated API call that comes back 401 means the token is no longer valid
+  useEffect(() => {
+    if (!user) return;
+    setUnauthorizedHandler(() => {
+      expireSession();
+    });
+    return () => setUnauthorizedHandler(null);
+  }, [user, expireSession]);
+
+  // Silently refresh the token shortly before it or the session cookie expires
+  useEffect(() => {
+    if (!user || !expiresAt) return;
+
+    const delay = Math.min(Math.max(expiresAt - Date.now() - REFRESH_MARGIN, 0), MAX_TIMER_DELAY);
+    const timer = setTimeout(async () => {
+      const refreshedUntil = await mockAuth.refreshSession();
+      if (refreshedUntil) {
+        setExpiresAt(refreshedUntil);
+      } else {
+        expireSession();
+      }
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [user, expiresAt, expireSession]);
+
   const signIn = async (email: string, password: string): Promise<boolean> => {
     const result = await mockAuth.signIn(email, password);
     if (result) {
+      redirectingToLogin.current = false;
       setUser(result.user);
+      setExpiresAt(mockAuth.getSession()?.expiresAt ?? null);
       setIsLoading(false); // Ensure loading is false after sign in
       return true;
     }
@@ -52,10 +107,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const signOut = async (): Promise<void> => {
     await mockAuth.signOut();
     setUser(null);
-    // Clear cookie
-    if (typeof document !== "undefined") {
-      document.cookie = "auth_token=; path=/; max-age=0";
-    }
+    setExpiresAt(null);
   };
 
   return (
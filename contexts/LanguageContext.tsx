@@ -6,10 +6,13 @@ import type { User } from "@/lib/auth";
 
 type Language = "en" | "in";
 
+// Looks up a translation key in the current language
+export type Translate = (key: string) => string;
+
 interface LanguageContextType {
   language: Language;
   setLanguage: (lang: Language) => void;
-  t: (key: string) => string;
+  t: Translate;
 }
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
@@ -43,6 +46,7 @@ const translations: Record<Language, Record<string, string>> = {
     "common.createdBy": "Created By",
     "common.updatedBy": "Updated By",
     "common.metadata": "Metadata",
+    "common.aProduct": "a product",
     
     // Navigation
     "nav.dashboard": "Dashboard",
@@ -51,6 +55,16 @@ const translations: Record<Language, Record<string, string>> = {
     "nav.inventory": "Inventory",
     "nav.cashier": "Cashier",
     "nav.orders": "Orders",
+    "nav.customers": "Customers",
+    "nav.suppliers": "Suppliers",
+    "nav.purchaseOrders": "Purchase Orders",
+    "nav.stockCounts": "Stock Opname",
+    "nav.movements": "Stock Movements",
+    "nav.transfers": "Transfers",
+    "nav.reorder": "Reorder",
+    "nav.expiry": "Expiry",
+    "nav.profit": "Gross Profit",
+    "nav.shifts": "Shifts",
     "nav.settings": "Settings",
     "nav.stores": "Stores",
     "nav.users": "Users",
@@ -84,11 +98,13 @@ const translations: Record<Language, Record<string, string>> = {
     "dashboard.productName": "Product Name",
     "dashboard.quantitySold": "Quantity Sold",
     "dashboard.orders": "orders",
+    "dashboard.gross": "Gross",
+    "dashboard.discounts": "Discounts",
+    "dashboard.refunds": "Refunds",
     "dashboard.revenueFromToday": "Revenue from today",
     "dashboard.revenueThisWeek": "Revenue this week",
     "dashboard.revenueThisMonth": "Revenue this month",
     "dashboard.allProducts": "All products in inventory",
-    "dashboard.expiringWithin7Days": "Products expiring within 7 days",
     "dashboard.pastExpiration": "Products past expiration date",
     "dashboard.zeroStock": "Products with zero stock",
     
@@ -105,6 +121,7 @@ const translations: Record<Language, Record<string, string>> = {
     "products.sellingPrice": "Selling Price",
     "products.purchasePrice": "Purchase Price",
     "products.noProducts": "No products found",
+    "products.editProduct": "Edit Product",
     
     // Categories
     "categories.title": "Categories",
@@ -186,6 +203,75 @@ const translations: Record<Language, Record<string, string>> = {
            "cashier.newCart": "New Cart",
            "cashier.confirmNewCart": "Create a new cart? Current cart will be cleared.",
            "cashier.confirmLoadCart": "Load this cart? Current cart will be replaced.",
+           "cashier.offlineTitle": "You are offline",
+           "cashier.offlineDescription": "Products are searched from the last saved inventory and checkouts are queued until the connection is back.",
+           "cashier.inventorySavedAt": "Inventory saved at",
+           "cashier.orderQueuedOffline": "You are offline. The order was saved and will be sent when the connection is back.",
+           "cashier.pendingOrders": "Pending Orders",
+           "cashier.pendingSync": "pending sync",
+           "cashier.noPendingOrders": "All orders have been sent",
+           "cashier.waitingToSync": "Waiting to be sent",
+           "cashier.syncNow": "Sync Now",
+           "cashier.syncConflicts": "Some queued orders could not be completed because of stock changes. Review them in the pending orders list.",
+           "cashier.retry": "Retry",
+           "cashier.discard": "Discard",
+           "cashier.editInCart": "Edit in Cart",
+           "cashier.confirmDiscardQueued": "Discard this order? It will not be sent to the server.",
+           "cashier.payment": "Payment",
+           "cashier.splitPayment": "Split Payment",
+           "cashier.amount": "Amount",
+           "cashier.amountReceived": "Amount received",
+           "cashier.exactAmount": "Exact",
+           "cashier.paymentReference": "Reference / transaction ID (optional)",
+           "cashier.paid": "Paid",
+           "cashier.remaining": "Remaining",
+           "cashier.changeDue": "Change due",
+           "cashier.paymentShort": "Payment is short by Rp {{amount}}",
+           "payments.cash": "Cash",
+           "payments.qris": "QRIS",
+           "payments.bankTransfer": "Bank Transfer",
+           "payments.eWallet": "E-Wallet",
+           "payments.kasbon": "Pay Later (Kasbon)",
+           "cashier.subtotal": "Subtotal",
+           "cashier.itemDiscounts": "Item discounts",
+           "cashier.orderDiscount": "Order discount",
+           "cashier.lineDiscount": "Item Discount",
+           "cashier.addOrderDiscount": "Add order discount",
+           "cashier.editOrderDiscount": "Edit order discount",
+           "cashier.percentDiscount": "Percent (%)",
+           "cashier.fixedDiscount": "Fixed (Rp)",
+           "cashier.discountValue": "Discount",
+           "cashier.discountReason": "Reason",
+           "cashier.discountReasonPlaceholder": "e.g. regular customer, damaged packaging",
+           "cashier.of": "of",
+           "cashier.discountValueRequired": "Enter a discount greater than zero",
+           "cashier.discountPercentTooHigh": "A percentage discount cannot be more than 100%",
+           "cashier.discountReasonRequired": "Please give a reason for the discount",
+           "cashier.discountNeedsApproval": "Discounts above {{percent}}% need supervisor approval.",
+           "cashier.discountNeedsReapproval": "The discount on {{target}} is now above {{percent}}% and needs supervisor approval. Apply it again.",
+           "cashier.supervisorEmail": "Supervisor email or username",
+           "cashier.supervisorPassword": "Supervisor password",
+           "cashier.supervisorRequired": "Supervisor email and password are required",
+           "cashier.supervisorNotAllowed": "This user is not allowed to approve discounts",
+           "cashier.supervisorInvalid": "Supervisor approval failed",
+           "cashier.approveAndApply": "Approve & Apply",
+           "cashier.applyDiscount": "Apply",
+           "cashier.removeDiscount": "Remove",
+           "cashier.batchExpires": "exp",
+           "cashier.batchesNotAllocated": "Stock batches for {{product}} do not cover the quantity in the cart. Wait for stock to load or lower the quantity.",
+           "cashier.heldUntil": "Held until",
+           "cashier.failedToDeleteCart": "Failed to delete cart",
+           "cashier.kasbonNeedsCustomer": "Select a customer record to put this order on kasbon",
+           "receipt.title": "Receipt",
+           "receipt.print": "Print",
+           "receipt.printing": "Printing...",
+           "receipt.thermalPrinter": "Thermal Printer",
+           "receipt.serialUnsupported": "This browser cannot connect to USB or Bluetooth printers",
+           "receipt.shareImage": "Share Image",
+           "receipt.sharePdf": "Share PDF",
+           "receipt.paperWidth": "Paper",
+           "receipt.pendingSync": "This order is waiting to be sent. The invoice number will be assigned once it syncs.",
+           "receipt.actionFailed": "Something went wrong. Please try again.",
     
     // Orders
     "orders.title": "Orders",
@@ -194,9 +280,400 @@ const translations: Record<Language, Record<string, string>> = {
     "orders.customer": "Customer",
     "orders.items": "Items",
     "orders.total": "Total",
+    "orders.gross": "Gross",
     "orders.status": "Status",
     "orders.date": "Date",
     "orders.noOrders": "No orders found",
+    "orders.order": "Order",
+    "orders.cashier": "Cashier",
+    "orders.item": "Item",
+    "orders.qty": "Qty",
+    "orders.payments": "Payments",
+    "orders.refunded": "refunded",
+    "orders.batchExpires": "exp",
+    "orders.allCashiers": "All cashiers",
+    "orders.allStatuses": "All statuses",
+    "orders.status.completed": "Completed",
+    "orders.status.partiallyRefunded": "Partially Refunded",
+    "orders.status.refunded": "Refunded",
+    "orders.status.voided": "Voided",
+    "orders.minAmount": "Min",
+    "orders.maxAmount": "Max",
+    "orders.clearFilters": "Clear filters",
+    "orders.nothingToExport": "There are no orders to export",
+    "orders.failedToExport": "Failed to export orders",
+    "orders.amountsInvalid": "Enter amounts of zero or more",
+    "orders.amountRangeInvalid": "The minimum amount cannot be more than the maximum",
+    "returns.return": "Return",
+    "returns.returnItems": "Return Items",
+    "returns.returned": "returned",
+    "returns.fullyReturned": "Fully returned",
+    "returns.restock": "Restock",
+    "returns.damaged": "Write off (damaged)",
+    "returns.reason": "Reason",
+    "returns.reasonPlaceholder": "e.g. Expired product, wrong item",
+    "returns.reasonRequired": "Please give a reason",
+    "returns.refundAmount": "Refund",
+    "returns.refunded": "Refunded",
+    "returns.history": "Returns",
+    "returns.confirmReturn": "Confirm Return",
+    "returns.void": "Void Order",
+    "returns.voidStock": "Returned items",
+    "returns.confirmVoid": "Void this order? The full amount will be refunded and every item returned to stock or written off.",
+    "returns.confirmVoidButton": "Void Order",
+    "returns.itemRequired": "Select at least one item to return",
+    "returns.overReturned": "Cannot return more of {{name}} than was sold",
+    "customers.title": "Customers",
+    "customers.addCustomer": "Add Customer",
+    "customers.editCustomer": "Edit Customer",
+    "customers.searchPlaceholder": "Search customers by name or phone...",
+    "customers.withBalanceOnly": "Outstanding kasbon only",
+    "customers.name": "Name",
+    "customers.phone": "Phone",
+    "customers.notes": "Notes",
+    "customers.outstanding": "Kasbon",
+    "customers.noCustomers": "No customers found",
+    "customers.notFound": "Customer not found",
+    "customers.nameRequired": "Customer name is required",
+    "customers.failedToSave": "Failed to save customer",
+    "customers.failedToDelete": "Failed to delete customer",
+    "customers.confirmDelete": "Are you sure you want to delete this customer?",
+    "customers.cannotDeleteWithBalance": "This customer still has an outstanding kasbon balance.",
+    "customers.saveAsCustomer": "Save \"{{name}}\" as a customer",
+    "customers.ledger": "Kasbon Ledger",
+    "customers.entry": "Entry",
+    "customers.charge": "Charge",
+    "customers.payment": "Payment",
+    "customers.balance": "Balance",
+    "customers.noEntries": "No kasbon yet",
+    "customers.kasbonFor": "Kasbon for order",
+    "customers.repayment": "Repayment",
+    "customers.recordRepayment": "Record Repayment",
+    "customers.amountRequired": "Enter an amount greater than zero",
+    "customers.amountTooHigh": "The repayment cannot be more than the outstanding Rp {{balance}}",
+    "customers.failedToRecordPayment": "Failed to record repayment",
+    "customers.aging.current": "0-30 days",
+    "customers.aging.31to60": "31-60 days",
+    "customers.aging.61to90": "61-90 days",
+    "customers.aging.over90": "Over 90 days",
+    "suppliers.title": "Suppliers",
+    "suppliers.addSupplier": "Add Supplier",
+    "suppliers.editSupplier": "Edit Supplier",
+    "suppliers.searchPlaceholder": "Search suppliers by name, contact or phone...",
+    "suppliers.name": "Name",
+    "suppliers.contactName": "Contact Person",
+    "suppliers.phone": "Phone",
+    "suppliers.email": "Email",
+    "suppliers.address": "Address",
+    "suppliers.notes": "Notes",
+    "suppliers.noSuppliers": "No suppliers found",
+    "suppliers.nameRequired": "Supplier name is required",
+    "suppliers.failedToSave": "Failed to save supplier",
+    "suppliers.failedToDelete": "Failed to delete supplier",
+    "suppliers.confirmDelete": "Are you sure you want to delete this supplier?",
+    "purchaseOrders.title": "Purchase Orders",
+    "purchaseOrders.newOrder": "New Purchase Order",
+    "purchaseOrders.searchPlaceholder": "Search by PO number or supplier...",
+    "purchaseOrders.allStatuses": "All statuses",
+    "purchaseOrders.poNumber": "PO Number",
+    "purchaseOrders.supplier": "Supplier",
+    "purchaseOrders.selectSupplier": "Select a supplier",
+    "purchaseOrders.totalCost": "Total Cost",
+    "purchaseOrders.expected": "Expected",
+    "purchaseOrders.orderedAt": "Ordered",
+    "purchaseOrders.noOrders": "No purchase orders found",
+    "purchaseOrders.notFound": "Purchase order not found",
+    "purchaseOrders.addProduct": "Add Product",
+    "purchaseOrders.searchProduct": "Search products by name...",
+    "purchaseOrders.noLines": "Search for products to add them to this order",
+    "purchaseOrders.quantity": "Quantity",
+    "purchaseOrders.unitCost": "Unit Cost",
+    "purchaseOrders.lineTotal": "Line Total",
+    "purchaseOrders.received": "Received",
+    "purchaseOrders.outstanding": "Outstanding",
+    "purchaseOrders.receipts": "Receipts",
+    "purchaseOrders.saveDraft": "Save Draft",
+    "purchaseOrders.saveAndSubmit": "Save & Submit",
+    "purchaseOrders.submit": "Submit to Supplier",
+    "purchaseOrders.receive": "Receive Goods",
+    "purchaseOrders.confirmReceive": "Receive into Stock",
+    "purchaseOrders.cancelOrder": "Cancel Order",
+    "purchaseOrders.confirmCancel": "Cancel this purchase order?",
+    "purchaseOrders.failedToSave": "Failed to save purchase order",
+    "purchaseOrders.failedToSubmit": "Failed to submit purchase order",
+    "purchaseOrders.failedToReceive": "Failed to receive goods",
+    "purchaseOrders.failedToCancel": "Failed to cancel purchase order",
+    "purchaseOrders.status.draft": "Draft",
+    "purchaseOrders.status.ordered": "Ordered",
+    "purchaseOrders.status.partiallyReceived": "Partially Received",
+    "purchaseOrders.status.received": "Received",
+    "purchaseOrders.status.cancelled": "Cancelled",
+    "purchaseOrders.supplierRequired": "Please select a supplier",
+    "purchaseOrders.productRequired": "Add at least one product",
+    "purchaseOrders.quantityRequired": "Enter a quantity for {{name}}",
+    "purchaseOrders.unitCostRequired": "Enter a unit cost for {{name}}",
+    "purchaseOrders.receivedRequired": "Enter the quantity received for at least one product",
+    "purchaseOrders.overReceived": "Cannot receive more {{name}} than is still outstanding",
+    "purchaseOrders.expiryRequired": "Enter the expiry date for {{name}}",
+    "purchaseOrders.locationRequired": "Enter the storage location for {{name}}",
+    "adjustments.title": "Adjust Stock",
+    "adjustments.adjust": "Adjust",
+    "adjustments.reasonLabel": "Reason",
+    "adjustments.unitsToWriteOff": "Units to write off",
+    "adjustments.physicalCount": "Physical count",
+    "adjustments.note": "Note",
+    "adjustments.confirm": "Save Adjustment",
+    "adjustments.failedToAdjust": "Failed to adjust stock",
+    "adjustments.reason.damage": "Damaged",
+    "adjustments.reason.expired": "Expired",
+    "adjustments.reason.theft": "Theft / Loss",
+    "adjustments.reason.countCorrection": "Count Correction",
+    "adjustments.quantityRequired": "Enter a quantity of zero or more",
+    "adjustments.writeOffRequired": "Enter the number of units to write off",
+    "adjustments.overWriteOff": "Cannot write off more than the {{quantity}} units in this batch",
+    "adjustments.nothingToAdjust": "The count matches the current quantity, so there is nothing to adjust",
+    "stockCounts.title": "Stock Opname",
+    "stockCounts.start": "Start Stock Opname",
+    "stockCounts.countNumber": "Count",
+    "stockCounts.batchesCounted": "Batches Counted",
+    "stockCounts.noCounts": "No stock opname sessions yet",
+    "stockCounts.continue": "Continue",
+    "stockCounts.failedToStart": "Failed to start stock opname",
+    "stockCounts.notFound": "Stock count not found",
+    "stockCounts.skuNotFound": "No stock batches found for SKU {{sku}}",
+    "stockCounts.failedToLookup": "Failed to look up SKU",
+    "stockCounts.failedToSave": "Failed to save counts",
+    "stockCounts.confirmCommit": "Post adjustments for every variance? This cannot be undone.",
+    "stockCounts.failedToCommit": "Failed to commit adjustments",
+    "stockCounts.confirmCancel": "Discard this stock opname? No stock will be changed.",
+    "stockCounts.failedToCancel": "Failed to cancel stock opname",
+    "stockCounts.backToCounting": "Back to Counting",
+    "stockCounts.commit": "Commit Adjustments",
+    "stockCounts.saveProgress": "Save Progress",
+    "stockCounts.reviewVariance": "Review Variance",
+    "stockCounts.skuPlaceholder": "Scan or type a SKU...",
+    "stockCounts.scan": "Scan",
+    "stockCounts.addSku": "Add",
+    "stockCounts.matched": "Matched",
+    "stockCounts.shortage": "Shortage",
+    "stockCounts.surplus": "Surplus",
+    "stockCounts.uncounted": "Not Counted",
+    "stockCounts.system": "System",
+    "stockCounts.counted": "Counted",
+    "stockCounts.variance": "Variance",
+    "stockCounts.noVariance": "No variances: every counted batch matches the system",
+    "stockCounts.noLines": "Scan a SKU to start counting its batches",
+    "stockCounts.status.open": "In Progress",
+    "stockCounts.status.committed": "Committed",
+    "stockCounts.status.cancelled": "Cancelled",
+    "movements.title": "Stock Movements",
+    "movements.productTitle": "Stock History",
+    "movements.history": "History",
+    "movements.exportCsv": "Export CSV",
+    "movements.exporting": "Exporting...",
+    "movements.nothingToExport": "There are no movements to export",
+    "movements.failedToExport": "Failed to export movements",
+    "movements.allTypes": "All types",
+    "movements.from": "From",
+    "movements.to": "To",
+    "movements.batch": "Batch",
+    "movements.filterBatch": "Show only this batch",
+    "movements.typeLabel": "Type",
+    "movements.change": "Change",
+    "movements.balance": "Balance",
+    "movements.reference": "Reference",
+    "movements.by": "By",
+    "movements.noMovements": "No stock movements found",
+    "movements.type.receipt": "Receipt",
+    "movements.type.sale": "Sale",
+    "movements.type.return": "Return",
+    "movements.type.void": "Void",
+    "movements.type.adjustment": "Adjustment",
+    "movements.type.transferIn": "Transfer In",
+    "movements.type.transferOut": "Transfer Out",
+    "transfers.title": "Stock Transfers",
+    "transfers.newTransfer": "New Transfer",
+    "transfers.searchPlaceholder": "Search by transfer number or product...",
+    "transfers.allStatuses": "All statuses",
+    "transfers.transferNumber": "Transfer Number",
+    "transfers.route": "From → To",
+    "transfers.noTransfers": "No transfers found",
+    "transfers.notFound": "Transfer not found",
+    "transfers.fromStore": "From Store",
+    "transfers.toStore": "To Store",
+    "transfers.confirmChangeSource": "Changing the source store clears the batches added so far. Continue?",
+    "transfers.addBatch": "Add Batch",
+    "transfers.searchBatch": "Search stock at the source store by product or SKU...",
+    "transfers.available": "Available",
+    "transfers.noLines": "Search for stock at the source store to add batches",
+    "transfers.request": "Request Transfer",
+    "transfers.failedToCreate": "Failed to create transfer",
+    "transfers.dispatch": "Dispatch",
+    "transfers.receive": "Receive",
+    "transfers.cancelTransfer": "Cancel Transfer",
+    "transfers.confirmDispatch": "Dispatch this transfer? The stock will be taken out of the source store.",
+    "transfers.failedToDispatch": "Failed to dispatch transfer",
+    "transfers.confirmCancel": "Cancel this transfer request?",
+    "transfers.failedToCancel": "Failed to cancel transfer",
+    "transfers.failedToReceive": "Failed to receive transfer",
+    "transfers.requested": "Requested",
+    "transfers.dispatched": "Dispatched",
+    "transfers.received": "Received",
+    "transfers.sent": "Sent",
+    "transfers.discrepancy": "Discrepancy",
+    "transfers.hasDiscrepancies": "Some lines were received with a different quantity than was sent",
+    "transfers.discrepancyPlaceholder": "What happened to the difference? (e.g. 2 broken in transit)",
+    "transfers.confirmReceive": "Receive into Stock",
+    "transfers.status.requested": "Requested",
+    "transfers.status.dispatched": "Dispatched",
+    "transfers.status.received": "Received",
+    "transfers.status.cancelled": "Cancelled",
+    "transfers.storesRequired": "Select both the source and destination store",
+    "transfers.sameStore": "The source and destination store must be different",
+    "transfers.batchRequired": "Add at least one batch",
+    "transfers.quantityRequired": "Enter a quantity for {{name}}",
+    "transfers.overAvailable": "Only {{available}} units of {{name}} are in that batch",
+    "transfers.receivedRequired": "Enter the quantity received for {{name}}",
+    "transfers.locationRequired": "Enter the storage location for {{name}}",
+    "transfers.differenceNoteRequired": "Explain the difference for {{name}}: {{sent}} sent, {{received}} received",
+    "products.reorderPoint": "Reorder Point",
+    "products.reorderPointHint": "Minimum stock before the product is suggested for reorder",
+    "products.reorderQuantity": "Reorder Quantity",
+    "products.reorderQuantityHint": "Usual order size, e.g. one carton",
+    "products.requiredFields": "Please fill in all required fields",
+    "products.reorderPointRequired": "Set a reorder point to use a reorder quantity",
+    "reorder.title": "Reorder List",
+    "reorder.subtitle": "Products at or heading below their reorder point",
+    "reorder.print": "Print",
+    "reorder.salesWindow": "Sales over",
+    "reorder.coverDays": "Order enough for",
+    "reorder.days": "days",
+    "reorder.onHand": "On Hand",
+    "reorder.soldPerDay": "Sold / Day",
+    "reorder.daysOfStock": "Days Left",
+    "reorder.orderQuantity": "Order Qty",
+    "reorder.estimatedCost": "Est. Cost",
+    "reorder.total": "Total",
+    "reorder.nothingToReorder": "Nothing needs reordering right now",
+    "reorder.nothingSelected": "Select at least one product to order",
+    "reorder.failedToLoad": "Failed to load stock levels",
+    "dashboard.expiringWithin": "Products expiring within",
+    "dashboard.days": "days",
+    "settings.nearExpiryDays": "Near-expiry window (days)",
+    "settings.nearExpiryDaysHint": "Batches expiring within this many days are flagged as near expiry. Categories can override it.",
+    "categories.nearExpiryDays": "Near-expiry window (days)",
+    "categories.nearExpiryDaysPlaceholder": "Use the store setting",
+    "expiry.title": "Expiry Worklist",
+    "expiry.subtitle": "Near-expiry window",
+    "expiry.categoryOverrides": "category overrides",
+    "expiry.batches": "batches",
+    "expiry.units": "units",
+    "expiry.writeOffAll": "Write Off All Expired",
+    "expiry.writingOff": "Writing off...",
+    "expiry.confirmWriteOff": "Write off every expired batch? This removes",
+    "expiry.writeOffNote": "Expired stock write-off",
+    "expiry.writtenOff": "batches written off",
+    "expiry.failedToWriteOff": "Failed to write off expired stock",
+    "expiry.failedToLoad": "Failed to load expiring stock",
+    "expiry.daysAgo": "Expired Days Ago",
+    "expiry.noExpired": "No expired stock on hand",
+    "expiry.markdownHint": "Suggested prices to clear stock before it expires",
+    "expiry.daysLeft": "Days Left",
+    "expiry.currentPrice": "Current Price",
+    "expiry.suggestedPrice": "Suggested Price",
+    "expiry.noNearExpiry": "Nothing is close to expiring",
+    "expiry.today": "Today",
+    "dashboard.allStores": "All stores",
+    "dashboard.failedToLoad": "Failed to load dashboard",
+    "sales.title": "Sales Trends",
+    "sales.orders": "Orders",
+    "sales.averageBasket": "Average Basket",
+    "sales.vsPrevious": "vs previous period",
+    "sales.failedToLoad": "Failed to load sales",
+    "sales.group.day": "Day",
+    "sales.group.week": "Week",
+    "sales.group.month": "Month",
+    "sales.preset.7d": "7 days",
+    "sales.preset.30d": "30 days",
+    "sales.preset.90d": "90 days",
+    "sales.preset.thisMonth": "This month",
+    "sales.datesRequired": "Choose a start and end date",
+    "sales.dateOrderInvalid": "The start date must be before the end date",
+    "profit.title": "Gross Profit",
+    "profit.failedToLoad": "Failed to load the profit report",
+    "profit.nothingToExport": "There is nothing to export for this range",
+    "profit.exportXlsx": "Export XLSX",
+    "profit.group.product": "Product",
+    "profit.group.category": "Category",
+    "profit.group.store": "Store",
+    "profit.unitsSold": "units sold",
+    "profit.cogs": "Cost of Goods Sold",
+    "profit.cogsHint": "At purchase price when sold",
+    "profit.cogsShort": "COGS",
+    "profit.grossProfit": "Gross Profit",
+    "profit.margin": "Margin",
+    "profit.belowCostCount": "selling below cost",
+    "profit.sortRevenue": "Highest revenue",
+    "profit.sortProfit": "Highest profit",
+    "profit.sortMargin": "Highest margin",
+    "profit.belowCostOnly": "Below cost only",
+    "profit.units": "Units",
+    "profit.noSales": "No sales in this range",
+    "profit.unitsBelowCost": "units sold below cost",
+    "profit.belowCost": "Below cost",
+    "shifts.title": "Cashier Shifts",
+    "shifts.shift": "Shift",
+    "shifts.status.open": "Open",
+    "shifts.status.closed": "Closed",
+    "shifts.allStatuses": "All statuses",
+    "shifts.noShifts": "No shifts in this period",
+    "shifts.failedToLoad": "Failed to load shifts",
+    "shifts.failedToLoadShift": "Failed to load shift",
+    "shifts.noOpenShift": "No open shift",
+    "shifts.openShiftDescription": "Count the cash in the drawer and open a shift before ringing up orders.",
+    "shifts.openShift": "Open Shift",
+    "shifts.openingFloat": "Opening float",
+    "shifts.failedToOpen": "Failed to open shift",
+    "shifts.openBeforeCheckout": "Open a shift before checking out",
+    "shifts.openedAt": "Opened",
+    "shifts.closedAt": "Closed",
+    "shifts.closedBy": "Closed by",
+    "shifts.cashInOut": "Cash In/Out",
+    "shifts.cashIn": "Cash In",
+    "shifts.cashOut": "Cash Out",
+    "shifts.amount": "Amount",
+    "shifts.reason": "Reason",
+    "shifts.reasonPlaceholder": "e.g. Bought ice, paid supplier",
+    "shifts.failedToSaveMovement": "Failed to record cash movement",
+    "shifts.closeShift": "Close Shift",
+    "shifts.syncBeforeClosing": "Some orders are still waiting to be sent. Sync them before closing the shift so they are counted.",
+    "shifts.countDescription": "Count all the cash in the drawer, including the opening float, and enter the total.",
+    "shifts.countedCash": "Counted cash",
+    "shifts.closingNote": "Closing note",
+    "shifts.confirmClose": "Close this shift? No more orders can be rung up on it.",
+    "shifts.failedToClose": "Failed to close shift",
+    "shifts.zReport": "Z-Report",
+    "shifts.sales": "Sales",
+    "shifts.netSales": "Net sales",
+    "shifts.discounts": "Discounts",
+    "shifts.refunds": "Refunds",
+    "shifts.byPaymentMethod": "By payment method",
+    "shifts.totalTakings": "Total takings",
+    "shifts.cashDrawer": "Cash drawer",
+    "shifts.cashSales": "Cash sales",
+    "shifts.cashRefunds": "Cash refunds",
+    "shifts.expectedCash": "Expected cash",
+    "shifts.variance": "Variance",
+    "shifts.balanced": "Balanced",
+    "shifts.short": "Short",
+    "shifts.over": "Over",
+    "shifts.cashMovements": "Cash movements",
+    "shifts.print": "Print",
+    "shifts.done": "Done",
+    "shifts.openingFloatRequired": "Enter an opening float of zero or more",
+    "shifts.amountRequired": "Enter an amount greater than zero",
+    "shifts.reasonRequired": "Enter a reason, e.g. what the cash was spent on",
+    "shifts.countedCashRequired": "Enter the cash counted in the drawer",
     
     // Settings
     "settings.title": "Settings",
@@ -226,6 +703,8 @@ const translations: Record<Language, Record<string, string>> = {
     // Users
     "users.title": "Users",
     "users.createUser": "Create User",
+    "users.editUser": "Edit User",
+    "users.resetPassword": "Reset Password",
     "users.searchPlaceholder": "Search users by name, email, username, or role...",
     "users.name": "Name",
     "users.username": "Username",
@@ -238,6 +717,8 @@ const translations: Record<Language, Record<string, string>> = {
     // Roles
     "roles.title": "Roles",
     "roles.createRole": "Create Role",
+    "roles.editRole": "Edit Role",
+    "roles.permissions": "Permissions",
     "roles.searchPlaceholder": "Search roles by name or description...",
     "roles.name": "Name",
     "roles.level": "Level",
@@ -284,6 +765,7 @@ const translations: Record<Language, Record<string, string>> = {
     "common.createdBy": "Dibuat Oleh",
     "common.updatedBy": "Diperbarui Oleh",
     "common.metadata": "Metadata",
+    "common.aProduct": "sebuah produk",
     
     // Navigation
     "nav.dashboard": "Dasbor",
@@ -292,6 +774,16 @@ const translations: Record<Language, Record<string, string>> = {
     "nav.inventory": "Inventori",
     "nav.cashier": "Kasir",
     "nav.orders": "Pesanan",
+    "nav.customers": "Pelanggan",
+    "nav.suppliers": "Pemasok",
+    "nav.purchaseOrders": "Pesanan Pembelian",
+    "nav.stockCounts": "Stok Opname",
+    "nav.movements": "Pergerakan Stok",
+    "nav.transfers": "Transfer",
+    "nav.reorder": "Pesan Ulang",
+    "nav.expiry": "Kedaluwarsa",
+    "nav.profit": "Laba Kotor",
+    "nav.shifts": "Shift Kasir",
     "nav.settings": "Pengaturan",
     "nav.stores": "Toko",
     "nav.users": "Pengguna",
@@ -325,11 +817,13 @@ const translations: Record<Language, Record<string, string>> = {
     "dashboard.productName": "Nama Produk",
     "dashboard.quantitySold": "Jumlah Terjual",
     "dashboard.orders": "pesanan",
+    "dashboard.gross": "Bruto",
+    "dashboard.discounts": "Diskon",
+    "dashboard.refunds": "Pengembalian",
     "dashboard.revenueFromToday": "Pendapatan dari hari ini",
     "dashboard.revenueThisWeek": "Pendapatan minggu ini",
     "dashboard.revenueThisMonth": "Pendapatan bulan ini",
     "dashboard.allProducts": "Semua produk dalam inventori",
-    "dashboard.expiringWithin7Days": "Produk yang akan kedaluwarsa dalam 7 hari",
     "dashboard.pastExpiration": "Produk yang sudah lewat tanggal kedaluwarsa",
     "dashboard.zeroStock": "Produk dengan stok nol",
     
@@ -346,6 +840,7 @@ const translations: Record<Language, Record<string, string>> = {
     "products.sellingPrice": "Harga Jual",
     "products.purchasePrice": "Harga Beli",
     "products.noProducts": "Tidak ada produk ditemukan",
+    "products.editProduct": "Edit Produk",
     
     // Categories
     "categories.title": "Kategori",
@@ -427,6 +922,75 @@ const translations: Record<Language, Record<string, string>> = {
            "cashier.newCart": "Keranjang Baru",
            "cashier.confirmNewCart": "Buat keranjang baru? Keranjang saat ini akan dibersihkan.",
            "cashier.confirmLoadCart": "Muat keranjang ini? Keranjang saat ini akan diganti.",
+           "cashier.offlineTitle": "Anda sedang offline",
+           "cashier.offlineDescription": "Produk dicari dari inventori terakhir yang tersimpan dan checkout diantrekan sampai koneksi kembali.",
+           "cashier.inventorySavedAt": "Inventori disimpan pada",
+           "cashier.orderQueuedOffline": "Anda sedang offline. Pesanan disimpan dan akan dikirim saat koneksi kembali.",
+           "cashier.pendingOrders": "Pesanan Tertunda",
+           "cashier.pendingSync": "menunggu sinkron",
+           "cashier.noPendingOrders": "Semua pesanan sudah terkirim",
+           "cashier.waitingToSync": "Menunggu dikirim",
+           "cashier.syncNow": "Sinkronkan Sekarang",
+           "cashier.syncConflicts": "Beberapa pesanan dalam antrean tidak dapat diselesaikan karena perubahan stok. Periksa di daftar pesanan tertunda.",
+           "cashier.retry": "Coba Lagi",
+           "cashier.discard": "Buang",
+           "cashier.editInCart": "Ubah di Keranjang",
+           "cashier.confirmDiscardQueued": "Buang pesanan ini? Pesanan tidak akan dikirim ke server.",
+           "cashier.payment": "Pembayaran",
+           "cashier.splitPayment": "Bagi Pembayaran",
+           "cashier.amount": "Jumlah",
+           "cashier.amountReceived": "Uang diterima",
+           "cashier.exactAmount": "Uang Pas",
+           "cashier.paymentReference": "Referensi / ID transaksi (opsional)",
+           "cashier.paid": "Dibayar",
+           "cashier.remaining": "Sisa",
+           "cashier.changeDue": "Kembalian",
+           "cashier.paymentShort": "Pembayaran kurang Rp {{amount}}",
+           "payments.cash": "Tunai",
+           "payments.qris": "QRIS",
+           "payments.bankTransfer": "Transfer Bank",
+           "payments.eWallet": "Dompet Digital",
+           "payments.kasbon": "Bayar Nanti (Kasbon)",
+           "cashier.subtotal": "Subtotal",
+           "cashier.itemDiscounts": "Diskon item",
+           "cashier.orderDiscount": "Diskon pesanan",
+           "cashier.lineDiscount": "Diskon Item",
+           "cashier.addOrderDiscount": "Tambah diskon pesanan",
+           "cashier.editOrderDiscount": "Ubah diskon pesanan",
+           "cashier.percentDiscount": "Persen (%)",
+           "cashier.fixedDiscount": "Nominal (Rp)",
+           "cashier.discountValue": "Diskon",
+           "cashier.discountReason": "Alasan",
+           "cashier.discountReasonPlaceholder": "mis. pelanggan tetap, kemasan rusak",
+           "cashier.of": "dari",
+           "cashier.discountValueRequired": "Masukkan diskon lebih dari nol",
+           "cashier.discountPercentTooHigh": "Diskon persen tidak boleh lebih dari 100%",
+           "cashier.discountReasonRequired": "Harap isi alasan diskon",
+           "cashier.discountNeedsApproval": "Diskon di atas {{percent}}% memerlukan persetujuan supervisor.",
+           "cashier.discountNeedsReapproval": "Diskon pada {{target}} kini di atas {{percent}}% dan memerlukan persetujuan supervisor. Terapkan ulang diskonnya.",
+           "cashier.supervisorEmail": "Email atau username supervisor",
+           "cashier.supervisorPassword": "Password supervisor",
+           "cashier.supervisorRequired": "Email dan password supervisor wajib diisi",
+           "cashier.supervisorNotAllowed": "Pengguna ini tidak berwenang menyetujui diskon",
+           "cashier.supervisorInvalid": "Persetujuan supervisor gagal",
+           "cashier.approveAndApply": "Setujui & Terapkan",
+           "cashier.applyDiscount": "Terapkan",
+           "cashier.removeDiscount": "Hapus",
+           "cashier.batchExpires": "kedaluwarsa",
+           "cashier.batchesNotAllocated": "Batch stok untuk {{product}} tidak mencukupi jumlah di keranjang. Tunggu stok dimuat atau kurangi jumlahnya.",
+           "cashier.heldUntil": "Ditahan sampai",
+           "cashier.failedToDeleteCart": "Gagal menghapus keranjang",
+           "cashier.kasbonNeedsCustomer": "Pilih data pelanggan untuk mencatat pesanan ini sebagai kasbon",
+           "receipt.title": "Struk",
+           "receipt.print": "Cetak",
+           "receipt.printing": "Mencetak...",
+           "receipt.thermalPrinter": "Printer Thermal",
+           "receipt.serialUnsupported": "Browser ini tidak dapat terhubung ke printer USB atau Bluetooth",
+           "receipt.shareImage": "Bagikan Gambar",
+           "receipt.sharePdf": "Bagikan PDF",
+           "receipt.paperWidth": "Kertas",
+           "receipt.pendingSync": "Pesanan ini menunggu dikirim. Nomor invoice akan diberikan setelah tersinkron.",
+           "receipt.actionFailed": "Terjadi kesalahan. Silakan coba lagi.",
     
     // Orders
     "orders.title": "Pesanan",
@@ -435,9 +999,400 @@ const translations: Record<Language, Record<string, string>> = {
     "orders.customer": "Pelanggan",
     "orders.items": "Item",
     "orders.total": "Total",
+    "orders.gross": "Bruto",
     "orders.status": "Status",
     "orders.date": "Tanggal",
     "orders.noOrders": "Tidak ada pesanan ditemukan",
+    "orders.order": "Pesanan",
+    "orders.cashier": "Kasir",
+    "orders.item": "Item",
+    "orders.qty": "Jml",
+    "orders.payments": "Pembayaran",
+    "orders.refunded": "dikembalikan",
+    "orders.batchExpires": "kedaluwarsa",
+    "orders.allCashiers": "Semua kasir",
+    "orders.allStatuses": "Semua status",
+    "orders.status.completed": "Selesai",
+    "orders.status.partiallyRefunded": "Dikembalikan Sebagian",
+    "orders.status.refunded": "Dikembalikan",
+    "orders.status.voided": "Dibatalkan",
+    "orders.minAmount": "Min",
+    "orders.maxAmount": "Maks",
+    "orders.clearFilters": "Hapus filter",
+    "orders.nothingToExport": "Tidak ada pesanan untuk diekspor",
+    "orders.failedToExport": "Gagal mengekspor pesanan",
+    "orders.amountsInvalid": "Masukkan jumlah nol atau lebih",
+    "orders.amountRangeInvalid": "Jumlah minimum tidak boleh lebih dari jumlah maksimum",
+    "returns.return": "Retur",
+    "returns.returnItems": "Retur Barang",
+    "returns.returned": "diretur",
+    "returns.fullyReturned": "Sudah diretur semua",
+    "returns.restock": "Kembalikan ke stok",
+    "returns.damaged": "Hapus buku (rusak)",
+    "returns.reason": "Alasan",
+    "returns.reasonPlaceholder": "mis. Produk kedaluwarsa, barang salah",
+    "returns.reasonRequired": "Harap isi alasan",
+    "returns.refundAmount": "Pengembalian Dana",
+    "returns.refunded": "Dikembalikan",
+    "returns.history": "Riwayat Retur",
+    "returns.confirmReturn": "Konfirmasi Retur",
+    "returns.void": "Batalkan Pesanan",
+    "returns.voidStock": "Barang yang dikembalikan",
+    "returns.confirmVoid": "Batalkan pesanan ini? Seluruh jumlah akan dikembalikan dan semua barang dikembalikan ke stok atau dihapus buku.",
+    "returns.confirmVoidButton": "Batalkan Pesanan",
+    "returns.itemRequired": "Pilih minimal satu item untuk diretur",
+    "returns.overReturned": "Tidak dapat meretur {{name}} melebihi jumlah terjual",
+    "customers.title": "Pelanggan",
+    "customers.addCustomer": "Tambah Pelanggan",
+    "customers.editCustomer": "Edit Pelanggan",
+    "customers.searchPlaceholder": "Cari pelanggan berdasarkan nama atau telepon...",
+    "customers.withBalanceOnly": "Hanya yang punya kasbon",
+    "customers.name": "Nama",
+    "customers.phone": "Telepon",
+    "customers.notes": "Catatan",
+    "customers.outstanding": "Kasbon",
+    "customers.noCustomers": "Tidak ada pelanggan ditemukan",
+    "customers.notFound": "Pelanggan tidak ditemukan",
+    "customers.nameRequired": "Nama pelanggan wajib diisi",
+    "customers.failedToSave": "Gagal menyimpan pelanggan",
+    "customers.failedToDelete": "Gagal menghapus pelanggan",
+    "customers.confirmDelete": "Apakah Anda yakin ingin menghapus pelanggan ini?",
+    "customers.cannotDeleteWithBalance": "Pelanggan ini masih memiliki kasbon yang belum lunas.",
+    "customers.saveAsCustomer": "Simpan \"{{name}}\" sebagai pelanggan",
+    "customers.ledger": "Buku Kasbon",
+    "customers.entry": "Keterangan",
+    "customers.charge": "Kasbon",
+    "customers.payment": "Pembayaran",
+    "customers.balance": "Saldo",
+    "customers.noEntries": "Belum ada kasbon",
+    "customers.kasbonFor": "Kasbon untuk pesanan",
+    "customers.repayment": "Pelunasan",
+    "customers.recordRepayment": "Catat Pelunasan",
+    "customers.amountRequired": "Masukkan jumlah lebih dari nol",
+    "customers.amountTooHigh": "Pelunasan tidak boleh melebihi kasbon Rp {{balance}}",
+    "customers.failedToRecordPayment": "Gagal mencatat pelunasan",
+    "customers.aging.current": "0-30 hari",
+    "customers.aging.31to60": "31-60 hari",
+    "customers.aging.61to90": "61-90 hari",
+    "customers.aging.over90": "Lebih dari 90 hari",
+    "suppliers.title": "Pemasok",
+    "suppliers.addSupplier": "Tambah Pemasok",
+    "suppliers.editSupplier": "Edit Pemasok",
+    "suppliers.searchPlaceholder": "Cari pemasok berdasarkan nama, kontak atau telepon...",
+    "suppliers.name": "Nama",
+    "suppliers.contactName": "Narahubung",
+    "suppliers.phone": "Telepon",
+    "suppliers.email": "Email",
+    "suppliers.address": "Alamat",
+    "suppliers.notes": "Catatan",
+    "suppliers.noSuppliers": "Tidak ada pemasok",
+    "suppliers.nameRequired": "Nama pemasok wajib diisi",
+    "suppliers.failedToSave": "Gagal menyimpan pemasok",
+    "suppliers.failedToDelete": "Gagal menghapus pemasok",
+    "suppliers.confirmDelete": "Apakah Anda yakin ingin menghapus pemasok ini?",
+    "purchaseOrders.title": "Pesanan Pembelian",
+    "purchaseOrders.newOrder": "Pesanan Pembelian Baru",
+    "purchaseOrders.searchPlaceholder": "Cari berdasarkan nomor PO atau pemasok...",
+    "purchaseOrders.allStatuses": "Semua status",
+    "purchaseOrders.poNumber": "Nomor PO",
+    "purchaseOrders.supplier": "Pemasok",
+    "purchaseOrders.selectSupplier": "Pilih pemasok",
+    "purchaseOrders.totalCost": "Total Biaya",
+    "purchaseOrders.expected": "Perkiraan Tiba",
+    "purchaseOrders.orderedAt": "Dipesan",
+    "purchaseOrders.noOrders": "Tidak ada pesanan pembelian",
+    "purchaseOrders.notFound": "Pesanan pembelian tidak ditemukan",
+    "purchaseOrders.addProduct": "Tambah Produk",
+    "purchaseOrders.searchProduct": "Cari produk berdasarkan nama...",
+    "purchaseOrders.noLines": "Cari produk untuk menambahkannya ke pesanan ini",
+    "purchaseOrders.quantity": "Jumlah",
+    "purchaseOrders.unitCost": "Harga Satuan",
+    "purchaseOrders.lineTotal": "Subtotal",
+    "purchaseOrders.received": "Diterima",
+    "purchaseOrders.outstanding": "Sisa",
+    "purchaseOrders.receipts": "Penerimaan",
+    "purchaseOrders.saveDraft": "Simpan Draf",
+    "purchaseOrders.saveAndSubmit": "Simpan & Kirim",
+    "purchaseOrders.submit": "Kirim ke Pemasok",
+    "purchaseOrders.receive": "Terima Barang",
+    "purchaseOrders.confirmReceive": "Terima ke Stok",
+    "purchaseOrders.cancelOrder": "Batalkan Pesanan",
+    "purchaseOrders.confirmCancel": "Batalkan pesanan pembelian ini?",
+    "purchaseOrders.failedToSave": "Gagal menyimpan pesanan pembelian",
+    "purchaseOrders.failedToSubmit": "Gagal mengirim pesanan pembelian",
+    "purchaseOrders.failedToReceive": "Gagal menerima barang",
+    "purchaseOrders.failedToCancel": "Gagal membatalkan pesanan pembelian",
+    "purchaseOrders.status.draft": "Draf",
+    "purchaseOrders.status.ordered": "Dipesan",
+    "purchaseOrders.status.partiallyReceived": "Diterima Sebagian",
+    "purchaseOrders.status.received": "Diterima",
+    "purchaseOrders.status.cancelled": "Dibatalkan",
+    "purchaseOrders.supplierRequired": "Pilih pemasok",
+    "purchaseOrders.productRequired": "Tambahkan minimal satu produk",
+    "purchaseOrders.quantityRequired": "Masukkan jumlah untuk {{name}}",
+    "purchaseOrders.unitCostRequired": "Masukkan harga satuan untuk {{name}}",
+    "purchaseOrders.receivedRequired": "Masukkan jumlah diterima untuk minimal satu produk",
+    "purchaseOrders.overReceived": "Tidak dapat menerima {{name}} melebihi sisa pesanan",
+    "purchaseOrders.expiryRequired": "Masukkan tanggal kedaluwarsa untuk {{name}}",
+    "purchaseOrders.locationRequired": "Masukkan lokasi penyimpanan untuk {{name}}",
+    "adjustments.title": "Sesuaikan Stok",
+    "adjustments.adjust": "Sesuaikan",
+    "adjustments.reasonLabel": "Alasan",
+    "adjustments.unitsToWriteOff": "Jumlah yang dihapusbukukan",
+    "adjustments.physicalCount": "Jumlah fisik",
+    "adjustments.note": "Catatan",
+    "adjustments.confirm": "Simpan Penyesuaian",
+    "adjustments.failedToAdjust": "Gagal menyesuaikan stok",
+    "adjustments.reason.damage": "Rusak",
+    "adjustments.reason.expired": "Kedaluwarsa",
+    "adjustments.reason.theft": "Pencurian / Hilang",
+    "adjustments.reason.countCorrection": "Koreksi Hitung",
+    "adjustments.quantityRequired": "Masukkan jumlah nol atau lebih",
+    "adjustments.writeOffRequired": "Masukkan jumlah unit yang dihapusbukukan",
+    "adjustments.overWriteOff": "Tidak dapat menghapusbukukan lebih dari {{quantity}} unit di batch ini",
+    "adjustments.nothingToAdjust": "Hasil hitung sama dengan jumlah saat ini, jadi tidak ada yang perlu disesuaikan",
+    "stockCounts.title": "Stok Opname",
+    "stockCounts.start": "Mulai Stok Opname",
+    "stockCounts.countNumber": "Hitungan",
+    "stockCounts.batchesCounted": "Batch Dihitung",
+    "stockCounts.noCounts": "Belum ada sesi stok opname",
+    "stockCounts.continue": "Lanjutkan",
+    "stockCounts.failedToStart": "Gagal memulai stok opname",
+    "stockCounts.notFound": "Hitungan stok tidak ditemukan",
+    "stockCounts.skuNotFound": "Tidak ada batch stok untuk SKU {{sku}}",
+    "stockCounts.failedToLookup": "Gagal mencari SKU",
+    "stockCounts.failedToSave": "Gagal menyimpan hitungan",
+    "stockCounts.confirmCommit": "Posting penyesuaian untuk setiap selisih? Tindakan ini tidak dapat dibatalkan.",
+    "stockCounts.failedToCommit": "Gagal memposting penyesuaian",
+    "stockCounts.confirmCancel": "Buang stok opname ini? Stok tidak akan berubah.",
+    "stockCounts.failedToCancel": "Gagal membatalkan stok opname",
+    "stockCounts.backToCounting": "Kembali Menghitung",
+    "stockCounts.commit": "Posting Penyesuaian",
+    "stockCounts.saveProgress": "Simpan Progres",
+    "stockCounts.reviewVariance": "Tinjau Selisih",
+    "stockCounts.skuPlaceholder": "Pindai atau ketik SKU...",
+    "stockCounts.scan": "Pindai",
+    "stockCounts.addSku": "Tambah",
+    "stockCounts.matched": "Sesuai",
+    "stockCounts.shortage": "Kekurangan",
+    "stockCounts.surplus": "Kelebihan",
+    "stockCounts.uncounted": "Belum Dihitung",
+    "stockCounts.system": "Sistem",
+    "stockCounts.counted": "Dihitung",
+    "stockCounts.variance": "Selisih",
+    "stockCounts.noVariance": "Tidak ada selisih: semua batch yang dihitung sesuai dengan sistem",
+    "stockCounts.noLines": "Pindai SKU untuk mulai menghitung batch-nya",
+    "stockCounts.status.open": "Berlangsung",
+    "stockCounts.status.committed": "Diposting",
+    "stockCounts.status.cancelled": "Dibatalkan",
+    "movements.title": "Pergerakan Stok",
+    "movements.productTitle": "Riwayat Stok",
+    "movements.history": "Riwayat",
+    "movements.exportCsv": "Ekspor CSV",
+    "movements.exporting": "Mengekspor...",
+    "movements.nothingToExport": "Tidak ada pergerakan untuk diekspor",
+    "movements.failedToExport": "Gagal mengekspor pergerakan",
+    "movements.allTypes": "Semua jenis",
+    "movements.from": "Dari",
+    "movements.to": "Sampai",
+    "movements.batch": "Batch",
+    "movements.filterBatch": "Tampilkan hanya batch ini",
+    "movements.typeLabel": "Jenis",
+    "movements.change": "Perubahan",
+    "movements.balance": "Saldo",
+    "movements.reference": "Referensi",
+    "movements.by": "Oleh",
+    "movements.noMovements": "Tidak ada pergerakan stok",
+    "movements.type.receipt": "Penerimaan",
+    "movements.type.sale": "Penjualan",
+    "movements.type.return": "Retur",
+    "movements.type.void": "Pembatalan",
+    "movements.type.adjustment": "Penyesuaian",
+    "movements.type.transferIn": "Transfer Masuk",
+    "movements.type.transferOut": "Transfer Keluar",
+    "transfers.title": "Transfer Stok",
+    "transfers.newTransfer": "Transfer Baru",
+    "transfers.searchPlaceholder": "Cari berdasarkan nomor transfer atau produk...",
+    "transfers.allStatuses": "Semua status",
+    "transfers.transferNumber": "Nomor Transfer",
+    "transfers.route": "Dari → Ke",
+    "transfers.noTransfers": "Tidak ada transfer",
+    "transfers.notFound": "Transfer tidak ditemukan",
+    "transfers.fromStore": "Dari Toko",
+    "transfers.toStore": "Ke Toko",
+    "transfers.confirmChangeSource": "Mengganti toko asal akan menghapus batch yang sudah ditambahkan. Lanjutkan?",
+    "transfers.addBatch": "Tambah Batch",
+    "transfers.searchBatch": "Cari stok di toko asal berdasarkan produk atau SKU...",
+    "transfers.available": "Tersedia",
+    "transfers.noLines": "Cari stok di toko asal untuk menambahkan batch",
+    "transfers.request": "Ajukan Transfer",
+    "transfers.failedToCreate": "Gagal membuat transfer",
+    "transfers.dispatch": "Kirim",
+    "transfers.receive": "Terima",
+    "transfers.cancelTransfer": "Batalkan Transfer",
+    "transfers.confirmDispatch": "Kirim transfer ini? Stok akan dikeluarkan dari toko asal.",
+    "transfers.failedToDispatch": "Gagal mengirim transfer",
+    "transfers.confirmCancel": "Batalkan permintaan transfer ini?",
+    "transfers.failedToCancel": "Gagal membatalkan transfer",
+    "transfers.failedToReceive": "Gagal menerima transfer",
+    "transfers.requested": "Diajukan",
+    "transfers.dispatched": "Dikirim",
+    "transfers.received": "Diterima",
+    "transfers.sent": "Dikirim",
+    "transfers.discrepancy": "Selisih",
+    "transfers.hasDiscrepancies": "Beberapa baris diterima dengan jumlah yang berbeda dari yang dikirim",
+    "transfers.discrepancyPlaceholder": "Apa yang terjadi dengan selisihnya? (mis. 2 rusak di perjalanan)",
+    "transfers.confirmReceive": "Terima ke Stok",
+    "transfers.status.requested": "Diajukan",
+    "transfers.status.dispatched": "Dikirim",
+    "transfers.status.received": "Diterima",
+    "transfers.status.cancelled": "Dibatalkan",
+    "transfers.storesRequired": "Pilih toko asal dan tujuan",
+    "transfers.sameStore": "Toko asal dan tujuan harus berbeda",
+    "transfers.batchRequired": "Tambahkan minimal satu batch",
+    "transfers.quantityRequired": "Masukkan jumlah untuk {{name}}",
+    "transfers.overAvailable": "Hanya ada {{available}} unit {{name}} di batch tersebut",
+    "transfers.receivedRequired": "Masukkan jumlah diterima untuk {{name}}",
+    "transfers.locationRequired": "Masukkan lokasi penyimpanan untuk {{name}}",
+    "transfers.differenceNoteRequired": "Jelaskan selisih untuk {{name}}: {{sent}} dikirim, {{received}} diterima",
+    "products.reorderPoint": "Titik Pemesanan Ulang",
+    "products.reorderPointHint": "Stok minimum sebelum produk disarankan untuk dipesan ulang",
+    "products.reorderQuantity": "Jumlah Pemesanan Ulang",
+    "products.reorderQuantityHint": "Jumlah pesanan biasa, mis. satu karton",
+    "products.requiredFields": "Harap isi semua kolom wajib",
+    "products.reorderPointRequired": "Tetapkan titik pesan ulang untuk memakai jumlah pesan ulang",
+    "reorder.title": "Daftar Pemesanan Ulang",
+    "reorder.subtitle": "Produk yang sudah atau akan berada di bawah titik pemesanan ulang",
+    "reorder.print": "Cetak",
+    "reorder.salesWindow": "Penjualan selama",
+    "reorder.coverDays": "Pesan cukup untuk",
+    "reorder.days": "hari",
+    "reorder.onHand": "Stok Ada",
+    "reorder.soldPerDay": "Terjual / Hari",
+    "reorder.daysOfStock": "Sisa Hari",
+    "reorder.orderQuantity": "Jml Pesan",
+    "reorder.estimatedCost": "Perkiraan Biaya",
+    "reorder.total": "Total",
+    "reorder.nothingToReorder": "Tidak ada yang perlu dipesan ulang saat ini",
+    "reorder.nothingSelected": "Pilih minimal satu produk untuk dipesan",
+    "reorder.failedToLoad": "Gagal memuat level stok",
+    "dashboard.expiringWithin": "Produk yang akan kedaluwarsa dalam",
+    "dashboard.days": "hari",
+    "settings.nearExpiryDays": "Batas hampir kedaluwarsa (hari)",
+    "settings.nearExpiryDaysHint": "Batch yang kedaluwarsa dalam jumlah hari ini ditandai hampir kedaluwarsa. Kategori dapat menggantinya.",
+    "categories.nearExpiryDays": "Batas hampir kedaluwarsa (hari)",
+    "categories.nearExpiryDaysPlaceholder": "Gunakan pengaturan toko",
+    "expiry.title": "Daftar Kerja Kedaluwarsa",
+    "expiry.subtitle": "Batas hampir kedaluwarsa",
+    "expiry.categoryOverrides": "pengaturan kategori",
+    "expiry.batches": "batch",
+    "expiry.units": "unit",
+    "expiry.writeOffAll": "Hapus Semua yang Kedaluwarsa",
+    "expiry.writingOff": "Menghapus...",
+    "expiry.confirmWriteOff": "Hapus semua batch yang kedaluwarsa? Ini mengurangi",
+    "expiry.writeOffNote": "Penghapusan stok kedaluwarsa",
+    "expiry.writtenOff": "batch dihapus",
+    "expiry.failedToWriteOff": "Gagal menghapus stok kedaluwarsa",
+    "expiry.failedToLoad": "Gagal memuat stok yang akan kedaluwarsa",
+    "expiry.daysAgo": "Kedaluwarsa (Hari Lalu)",
+    "expiry.noExpired": "Tidak ada stok kedaluwarsa",
+    "expiry.markdownHint": "Saran harga untuk menghabiskan stok sebelum kedaluwarsa",
+    "expiry.daysLeft": "Sisa Hari",
+    "expiry.currentPrice": "Harga Saat Ini",
+    "expiry.suggestedPrice": "Saran Harga",
+    "expiry.noNearExpiry": "Tidak ada yang hampir kedaluwarsa",
+    "expiry.today": "Hari ini",
+    "dashboard.allStores": "Semua toko",
+    "dashboard.failedToLoad": "Gagal memuat dasbor",
+    "sales.title": "Tren Penjualan",
+    "sales.orders": "Pesanan",
+    "sales.averageBasket": "Rata-rata Belanja",
+    "sales.vsPrevious": "dibanding periode sebelumnya",
+    "sales.failedToLoad": "Gagal memuat penjualan",
+    "sales.group.day": "Hari",
+    "sales.group.week": "Minggu",
+    "sales.group.month": "Bulan",
+    "sales.preset.7d": "7 hari",
+    "sales.preset.30d": "30 hari",
+    "sales.preset.90d": "90 hari",
+    "sales.preset.thisMonth": "Bulan ini",
+    "sales.datesRequired": "Pilih tanggal mulai dan tanggal akhir",
+    "sales.dateOrderInvalid": "Tanggal mulai harus sebelum tanggal akhir",
+    "profit.title": "Laba Kotor",
+    "profit.failedToLoad": "Gagal memuat laporan laba",
+    "profit.nothingToExport": "Tidak ada data untuk diekspor pada rentang ini",
+    "profit.exportXlsx": "Ekspor XLSX",
+    "profit.group.product": "Produk",
+    "profit.group.category": "Kategori",
+    "profit.group.store": "Toko",
+    "profit.unitsSold": "unit terjual",
+    "profit.cogs": "Harga Pokok Penjualan",
+    "profit.cogsHint": "Berdasarkan harga beli saat terjual",
+    "profit.cogsShort": "HPP",
+    "profit.grossProfit": "Laba Kotor",
+    "profit.margin": "Margin",
+    "profit.belowCostCount": "dijual di bawah modal",
+    "profit.sortRevenue": "Pendapatan tertinggi",
+    "profit.sortProfit": "Laba tertinggi",
+    "profit.sortMargin": "Margin tertinggi",
+    "profit.belowCostOnly": "Hanya di bawah modal",
+    "profit.units": "Unit",
+    "profit.noSales": "Tidak ada penjualan pada rentang ini",
+    "profit.unitsBelowCost": "unit dijual di bawah modal",
+    "profit.belowCost": "Di bawah modal",
+    "shifts.title": "Shift Kasir",
+    "shifts.shift": "Shift",
+    "shifts.status.open": "Buka",
+    "shifts.status.closed": "Tutup",
+    "shifts.allStatuses": "Semua status",
+    "shifts.noShifts": "Tidak ada shift pada periode ini",
+    "shifts.failedToLoad": "Gagal memuat shift",
+    "shifts.failedToLoadShift": "Gagal memuat shift",
+    "shifts.noOpenShift": "Belum ada shift yang dibuka",
+    "shifts.openShiftDescription": "Hitung uang di laci kas dan buka shift sebelum mencatat pesanan.",
+    "shifts.openShift": "Buka Shift",
+    "shifts.openingFloat": "Modal awal",
+    "shifts.failedToOpen": "Gagal membuka shift",
+    "shifts.openBeforeCheckout": "Buka shift sebelum checkout",
+    "shifts.openedAt": "Dibuka",
+    "shifts.closedAt": "Ditutup",
+    "shifts.closedBy": "Ditutup oleh",
+    "shifts.cashInOut": "Kas Masuk/Keluar",
+    "shifts.cashIn": "Kas Masuk",
+    "shifts.cashOut": "Kas Keluar",
+    "shifts.amount": "Jumlah",
+    "shifts.reason": "Alasan",
+    "shifts.reasonPlaceholder": "mis. Beli es, bayar pemasok",
+    "shifts.failedToSaveMovement": "Gagal mencatat kas masuk/keluar",
+    "shifts.closeShift": "Tutup Shift",
+    "shifts.syncBeforeClosing": "Masih ada pesanan yang menunggu dikirim. Sinkronkan dulu sebelum menutup shift agar ikut terhitung.",
+    "shifts.countDescription": "Hitung semua uang di laci kas, termasuk modal awal, lalu masukkan totalnya.",
+    "shifts.countedCash": "Uang terhitung",
+    "shifts.closingNote": "Catatan penutupan",
+    "shifts.confirmClose": "Tutup shift ini? Pesanan tidak bisa lagi dicatat pada shift ini.",
+    "shifts.failedToClose": "Gagal menutup shift",
+    "shifts.zReport": "Laporan Z",
+    "shifts.sales": "Penjualan",
+    "shifts.netSales": "Penjualan bersih",
+    "shifts.discounts": "Diskon",
+    "shifts.refunds": "Pengembalian dana",
+    "shifts.byPaymentMethod": "Per metode pembayaran",
+    "shifts.totalTakings": "Total penerimaan",
+    "shifts.cashDrawer": "Laci kas",
+    "shifts.cashSales": "Penjualan tunai",
+    "shifts.cashRefunds": "Pengembalian tunai",
+    "shifts.expectedCash": "Kas seharusnya",
+    "shifts.variance": "Selisih",
+    "shifts.balanced": "Sesuai",
+    "shifts.short": "Kurang",
+    "shifts.over": "Lebih",
+    "shifts.cashMovements": "Kas masuk/keluar",
+    "shifts.print": "Cetak",
+    "shifts.done": "Selesai",
+    "shifts.openingFloatRequired": "Masukkan modal awal nol atau lebih",
+    "shifts.amountRequired": "Masukkan jumlah lebih dari nol",
+    "shifts.reasonRequired": "Isi alasan, mis. untuk apa uang tunai dipakai",
+    "shifts.countedCashRequired": "Masukkan uang tunai yang dihitung di laci",
     
     // Settings
     "settings.title": "Pengaturan",
@@ -467,6 +1422,8 @@ const translations: Record<Language, Record<string, string>> = {
     // Users
     "users.title": "Pengguna",
     "users.createUser": "Buat Pengguna",
+    "users.editUser": "Edit Pengguna",
+    "users.resetPassword": "Atur Ulang Kata Sandi",
     "users.searchPlaceholder": "Cari pengguna berdasarkan nama, email, nama pengguna, atau peran...",
     "users.name": "Nama",
     "users.username": "Nama Pengguna",
@@ -479,6 +1436,8 @@ const translations: Record<Language, Record<string, string>> = {
     // Roles
     "roles.title": "Peran",
     "roles.createRole": "Buat Peran",
+    "roles.editRole": "Edit Peran",
+    "roles.permissions": "Hak Akses",
     "roles.searchPlaceholder": "Cari peran berdasarkan nama atau deskripsi...",
     "roles.name": "Nama",
     "roles.level": "Level",
@@ -0,0 +1,51 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { api, type CashierShift } from "@/lib/api";
+import { isNetworkError } from "@/lib/offline";
+import { getCachedShift, setCachedShift } from "@/lib/shifts";
+
+/**
+ * Load the cashier's open shift at a store. While offline the shift opened earlier on this
+ * device is used, so queued checkouts are still tied to it.
+ */
+export function useCurrentShift(userId?: string, storeId?: string) {
+  const [shift, setShiftState] = useState<CashierShift | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const setShift = useCallback(
+    (next: CashierShift | null) => {
+      setShiftState(next);
+      if (userId && storeId) setCachedShift(userId, storeId, next);
+    },
+    [userId, storeId]
+  );
+
+  useEffect(() => {
+    if (!userId || !storeId) {
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchShift = async () => {
+      try {
+        setIsLoading(true);
+        const current = await api.shifts.current(storeId);
+        if (!cancelled) setShift(current);
+      } catch (error) {
+        console.error("Error fetching current shift:", error);
+        if (!cancelled) setShiftState(isNetworkError(error) ? getCachedShift(userId, storeId) : null);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchShift();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, storeId, setShift]);
+
+  return { shift, setShift, isLoading };
+}
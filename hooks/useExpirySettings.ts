@@ -0,0 +1,39 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { api, type Store } from "@/lib/api";
+import { fetchCategories } from "@/lib/categories";
+import { defaultExpirySettings, toExpirySettings, type ExpirySettings } from "@/lib/expiry";
+
+/**
+ * Load the near-expiry windows for a store and its category overrides.
+ * Falls back to the default window until loaded, or when no store is given (super admin).
+ */
+export function useExpirySettings(storeId?: string) {
+  const [settings, setSettings] = useState<ExpirySettings>(defaultExpirySettings);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchSettings = async () => {
+      try {
+        setIsLoading(true);
+        const [store, categories] = await Promise.all([
+          storeId ? api.stores.get(storeId).catch(() => null as Store | null) : Promise.resolve(null),
+          fetchCategories(),
+        ]);
+        if (!cancelled) setSettings(toExpirySettings(store, categories));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchSettings();
+    return () => {
+      cancelled = true;
+    };
+  }, [storeId]);
+
+  return { settings, isLoading };
+}
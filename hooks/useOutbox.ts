@@ -0,0 +1,68 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  getQueuedCheckouts,
+  isOnline,
+  syncOutbox,
+  OUTBOX_CHANGED_EVENT,
+  type QueuedCheckout,
+  type SyncResult,
+} from "@/lib/offline";
+
+/**
+ * Track connectivity and the signed-in cashier's offline checkout outbox for their store. Pending
+ * checkouts are sent automatically on mount and whenever the browser comes back online.
+ */
+export function useOutbox(userId?: string, storeId = "") {
+  const [online, setOnline] = useState(true);
+  const [queued, setQueued] = useState<QueuedCheckout[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setQueued(userId ? await getQueuedCheckouts({ userId, storeId }) : []);
+  }, [userId, storeId]);
+
+  const sync = useCallback(async (): Promise<SyncResult | null> => {
+    if (!userId || !isOnline()) return null;
+    try {
+      setIsSyncing(true);
+      return await syncOutbox({ userId, storeId });
+    } catch (error) {
+      console.error("Error syncing checkout outbox:", error);
+      return null;
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [userId, storeId]);
+
+  useEffect(() => {
+    setOnline(isOnline());
+    refresh();
+    sync();
+
+    const handleOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    window.addEventListener(OUTBOX_CHANGED_EVENT, refresh);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      window.removeEventListener(OUTBOX_CHANGED_EVENT, refresh);
+    };
+  }, [refresh, sync]);
+
+  return {
+    online,
+    queued,
+    pendingCount: queued.filter((q) => q.status === "pending").length,
+    conflictCount: queued.filter((q) => q.status === "conflict").length,
+    isSyncing,
+    sync,
+  };
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { api, type Role, type Store } from "@/lib/api";
+
+/**
+ * Load the role and store options used by the user create/edit forms.
+ * Nothing is fetched until `enabled` is true (i.e. the current user is a super admin).
+ */
+export function useRoleStoreOptions(enabled: boolean) {
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [stores, setStores] = useState<Store[]>([]);
+  const [isLoadingRoles, setIsLoadingRoles] = useState(true);
+  const [isLoadingStores, setIsLoadingStores] = useState(true);
+
+  // Fetch roles
+  useEffect(() => {
+    const fetchRoles = async () => {
+      try {
+        setIsLoadingRoles(true);
+        const result = await api.roles.list({ limit: 100, offset: 0 });
+        setRoles(result.data);
+      } catch (error) {
+        console.error("Error fetching roles:", error);
+      } finally {
+        setIsLoadingRoles(false);
+      }
+    };
+
+    if (enabled) {
+      fetchRoles();
+    }
+  }, [enabled]);
+
+  // Fetch stores
+  useEffect(() => {
+    const fetchStores = async () => {
+      try {
+        setIsLoadingStores(true);
+        const result = await api.stores.list({ limit: 100, offset: 0 });
+        setStores(result.data);
+      } catch (error) {
+        console.error("Error fetching stores:", error);
+      } finally {
+        setIsLoadingStores(false);
+      }
+    };
+
+    if (enabled) {
+      fetchStores();
+    }
+  }, [enabled]);
+
+  return { roles, stores, isLoadingRoles, isLoadingStores };
+}
@@ -0,0 +1,133 @@
+import type { Translate } from "@/contexts/LanguageContext";
+import type { AdjustmentReason, InventoryItem, StockCountLine, StockCountStatus } from "@/lib/api";
+
+// Write-off reasons take the number of units lost; a count correction takes the new physical count
+export const ADJUSTMENT_REASONS: { value: AdjustmentReason; label: string; translationKey: string; writeOff: boolean }[] = [
+  { value: "damage", label: "Damaged", translationKey: "adjustments.reason.damage", writeOff: true },
+  { value: "expired", label: "Expired", translationKey: "adjustments.reason.expired", writeOff: true },
+  { value: "theft", label: "Theft / Loss", translationKey: "adjustments.reason.theft", writeOff: true },
+  {
+    value: "count_correction",
+    label: "Count Correction",
+    translationKey: "adjustments.reason.countCorrection",
+    writeOff: false,
+  },
+];
+
+export const getAdjustmentReason = (reason: AdjustmentReason) =>
+  ADJUSTMENT_REASONS.find((r) => r.value === reason) || ADJUSTMENT_REASONS[0];
+
+export const getQuantityChange = (item: InventoryItem, reason: AdjustmentReason, quantity: string): number => {
+  const value = parseInt(quantity) || 0;
+  return getAdjustmentReason(reason).writeOff ? -value : value - item.quantity;
+};
+
+export function validateAdjustment(
+  item: InventoryItem,
+  reason: AdjustmentReason,
+  quantity: string,
+  t: Translate
+): string | null {
+  const value = parseInt(quantity);
+  if (isNaN(value) || value < 0) return t("adjustments.quantityRequired") || "Enter a quantity of zero or more";
+
+  if (getAdjustmentReason(reason).writeOff) {
+    if (value === 0) return t("adjustments.writeOffRequired") || "Enter the number of units to write off";
+    if (value > item.quantity) {
+      const message =
+        t("adjustments.overWriteOff") || "Cannot write off more than the {{quantity}} units in this batch";
+      return message.replace("{{quantity}}", String(item.quantity));
+    }
+  } else if (value === item.quantity) {
+    return (
+      t("adjustments.nothingToAdjust") || "The count matches the current quantity, so there is nothing to adjust"
+    );
+  }
+  return null;
+}
+
+export const STOCK_COUNT_STATUSES: { value: StockCountStatus; label: string; translationKey: string; style: string }[] = [
+  { value: "open", label: "In Progress", translationKey: "stockCounts.status.open", style: "bg-blue-100 text-blue-800" },
+  { value: "committed", label: "Committed", translationKey: "stockCounts.status.committed", style: "bg-green-100 text-green-800" },
+  { value: "cancelled", label: "Cancelled", translationKey: "stockCounts.status.cancelled", style: "bg-red-100 text-red-800" },
+];
+
+export const getStockCountStatus = (status: StockCountStatus) =>
+  STOCK_COUNT_STATUSES.find((s) => s.value === status) || STOCK_COUNT_STATUSES[0];
+
+// One batch in a stock count; the count is kept as a string while being edited and is empty until counted
+export interface CountLine {
+  inventoryId: string;
+  name: string;
+  sku: string;
+  location: string;
+  expiryDate: string;
+  systemQuantity: number;
+  counted: string;
+}
+
+export const toCountLines = (lines: StockCountLine[]): CountLine[] =>
+  lines.map((line) => ({
+    inventoryId: line.inventory_id,
+    name: line.product.name,
+    sku: line.product.sku || "",
+    location: line.location,
+    expiryDate: line.expiry_date,
+    systemQuantity: line.system_quantity,
+    counted: String(line.counted_quantity),
+  }));
+
+/**
+ * Add scanned batches to the count, keeping lines that are already there (and their counts) as they are.
+ */
+export const addCountBatches = (lines: CountLine[], batches: InventoryItem[]): CountLine[] => [
+  ...lines,
+  ...batches
+    .filter((batch) => !lines.some((line) => line.inventoryId === batch.id))
+    .map((batch) => ({
+      inventoryId: batch.id,
+      name: batch.product?.name || "-",
+      sku: batch.product?.sku || "",
+      location: batch.location,
+      expiryDate: batch.expiry_date,
+      systemQuantity: batch.quantity,
+      counted: "",
+    })),
+];
+
+const isCounted = (line: CountLine) => line.counted.trim() !== "" && parseInt(line.counted) >= 0;
+
+export const getCountedLines = (lines: CountLine[]) =>
+  lines.filter(isCounted).map((line) => ({
+    inventory_id: line.inventoryId,
+    counted_quantity: parseInt(line.counted),
+  }));
+
+export interface VarianceRow extends CountLine {
+  countedQuantity: number;
+  // Positive when more stock was found than the system expected
+  variance: number;
+}
+
+export interface VarianceReport {
+  rows: VarianceRow[];
+  uncounted: number;
+  matched: number;
+  shortage: number;
+  surplus: number;
+}
+
+export function getVarianceReport(lines: CountLine[]): VarianceReport {
+  const rows = lines.filter(isCounted).map((line) => {
+    const countedQuantity = parseInt(line.counted);
+    return { ...line, countedQuantity, variance: countedQuantity - line.systemQuantity };
+  });
+
+  return {
+    rows: rows.filter((row) => row.variance !== 0),
+    uncounted: lines.length - rows.length,
+    matched: rows.filter((row) => row.variance === 0).length,
+    shortage: rows.reduce((sum, row) => sum + Math.min(row.variance, 0), 0),
+    surplus: rows.reduce((sum, row) => sum + Math.max(row.variance, 0), 0),
+  };
+}
@@ -0,0 +1,1287 @@
+import type { Permission } from "@/lib/roles";
+
+// Backend API base URL
+// Set NEXT_PUBLIC_API_URL in .env.local to override (e.g., NEXT_PUBLIC_API_URL=http://localhost:3001)
+export const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+export interface UserRef {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface AuditFields {
+  created_at?: string;
+  created_by?: UserRef | null;
+  updated_at?: string;
+  updated_by?: UserRef | null;
+}
+
+export interface Category {
+  id: string;
+  name: string;
+  category_code: string;
+  description?: string;
+  // Overrides the store's near-expiry window for products in this category
+  near_expiry_days?: number | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface Store extends AuditFields {
+  id: string;
+  name: string;
+  address?: string;
+  phone?: string;
+  store_code?: string;
+  // Batches expiring within this many days count as near expiry
+  near_expiry_days?: number;
+}
+
+export interface Role extends AuditFields {
+  id: string;
+  name: string;
+  level: number;
+  description?: string;
+  permissions?: Permission[];
+}
+
+export interface User extends AuditFields {
+  id: string;
+  username: string;
+  email: string;
+  name: string;
+  role: Role;
+  store?: Store;
+}
+
+export interface Product extends AuditFields {
+  id: string;
+  name: string;
+  category: {
+    id: string;
+    name: string;
+  };
+  sku?: string;
+  selling_price: number;
+  purchase_price: number;
+  store_id?: string;
+  // Stock at or below the reorder point puts the product on the reorder list
+  reorder_point?: number | null;
+  reorder_quantity?: number | null;
+}
+
+export interface InventoryItem {
+  id: string;
+  product: {
+    id: string;
+    name: string;
+    sku?: string;
+    category?: {
+      id: string;
+      name: string;
+    };
+    selling_price?: number;
+    purchase_price?: number;
+  };
+  quantity: number;
+  expiry_date: string;
+  location: string;
+  store_id?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ApiOrderItemBatch {
+  inventory_id: string;
+  quantity: number;
+  expiry_date?: string;
+  location?: string;
+}
+
+export interface ApiOrderItem {
+  id: number;
+  product_id: string;
+  quantity: number;
+  total_price: string;
+  discount_amount?: string | null;
+  returned_quantity?: number;
+  // The product's purchase price when the line was sold; profit reporting uses it as the unit cost
+  unit_cost?: string | null;
+  // Inventory batches the line was drawn from, earliest expiry first
+  batches?: ApiOrderItemBatch[];
+  product: {
+    id: string;
+    name: string;
+    sku: string;
+    selling_price: string;
+  };
+}
+
+// "kasbon" is store credit: the amount is added to the customer's outstanding balance
+export type PaymentMethod = "cash" | "qris" | "bank_transfer" | "e_wallet" | "kasbon";
+
+// Decimal fields come back as strings, like the other order amounts
+export interface ApiOrderPayment {
+  method: PaymentMethod;
+  amount: string;
+  amount_received?: string | null;
+  change?: string | null;
+  reference?: string | null;
+}
+
+export type OrderStatus = "completed" | "partially_refunded" | "refunded" | "voided";
+
+export type ReturnDisposition = "restock" | "damaged";
+
+export interface ApiOrderReturn {
+  id: number;
+  reason: string;
+  refund_amount: string;
+  created_at: string;
+  created_by?: UserRef;
+  items: Array<{
+    order_item_id: number;
+    quantity: number;
+    disposition: ReturnDisposition;
+  }>;
+}
+
+export interface ApiOrder {
+  id: number;
+  invoice_number: string;
+  customer_name: string;
+  customer_id?: string | null;
+  total_price: string;
+  store_id: string;
+  created_at: string;
+  created_by?: UserRef;
+  store?: {
+    id: string;
+    name: string;
+    store_code: string;
+  };
+  orderItems: ApiOrderItem[];
+  payments?: ApiOrderPayment[];
+  // total_price is net of discounts; gross_total is before any discount
+  gross_total?: string | null;
+  discount_total?: string | null;
+  discount_reason?: string | null;
+  // Older orders have no status; treat them as completed
+  status?: OrderStatus;
+  refund_total?: string | null;
+  returns?: ApiOrderReturn[];
+  // Cashier shift the order was rung up in; older orders have none
+  shift_id?: string | null;
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone?: string | null;
+  notes?: string | null;
+  store_id?: string;
+  // Outstanding kasbon
+  balance: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type CustomerLedgerEntryType = "charge" | "payment";
+
+// A kasbon charge from an order, or a repayment against the balance
+export interface CustomerLedgerEntry {
+  id: string;
+  type: CustomerLedgerEntryType;
+  amount: string;
+  balance_after: string;
+  order_id?: number | null;
+  invoice_number?: string | null;
+  method?: PaymentMethod | null;
+  note?: string | null;
+  created_at: string;
+  created_by?: UserRef;
+}
+
+export interface Supplier extends AuditFields {
+  id: string;
+  name: string;
+  contact_name?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  address?: string | null;
+  notes?: string | null;
+}
+
+export type PurchaseOrderStatus = "draft" | "ordered" | "partially_received" | "received" | "cancelled";
+
+export interface PurchaseOrderLine {
+  id: string;
+  product_id: string;
+  product: {
+    id: string;
+    name: string;
+    sku?: string;
+  };
+  quantity: number;
+  received_quantity: number;
+  unit_cost: string;
+}
+
+// One delivery against a purchase order; each line became an inventory batch
+export interface PurchaseOrderReceipt {
+  id: string;
+  received_at: string;
+  received_by?: UserRef;
+  items: Array<{
+    purchase_order_item_id: string;
+    quantity: number;
+    expiry_date: string;
+    location: string;
+    inventory_id?: string;
+  }>;
+}
+
+export interface PurchaseOrder extends AuditFields {
+  id: string;
+  po_number: string;
+  supplier_id: string;
+  supplier?: {
+    id: string;
+    name: string;
+  };
+  store_id: string;
+  status: PurchaseOrderStatus;
+  expected_at?: string | null;
+  ordered_at?: string | null;
+  notes?: string | null;
+  items: PurchaseOrderLine[];
+  total_cost: string;
+  receipts?: PurchaseOrderReceipt[];
+}
+
+export type AdjustmentReason = "damage" | "expired" | "theft" | "count_correction";
+
+export interface InventoryAdjustment extends AuditFields {
+  id: string;
+  inventory_id: string;
+  quantity_before: number;
+  quantity_after: number;
+  // Negative when stock was written off
+  quantity_change: number;
+  reason: AdjustmentReason;
+  note?: string | null;
+  // Set when the adjustment was posted by committing a stock count
+  stock_count_id?: string | null;
+}
+
+export type MovementType =
+  | "receipt"
+  | "sale"
+  | "return"
+  | "void"
+  | "adjustment"
+  | "transfer_in"
+  | "transfer_out";
+
+// Append-only record of one change to a batch's quantity
+export interface InventoryMovement {
+  id: string;
+  inventory_id: string;
+  product: {
+    id: string;
+    name: string;
+    sku?: string;
+  };
+  store_id: string;
+  type: MovementType;
+  quantity_change: number;
+  quantity_after: number;
+  location?: string;
+  expiry_date?: string;
+  // The order, purchase order, adjustment or transfer that caused the movement
+  reference_id?: string | null;
+  reference_number?: string | null;
+  reason?: AdjustmentReason | null;
+  note?: string | null;
+  created_at: string;
+  created_by?: UserRef | null;
+}
+
+export type TransferStatus = "requested" | "dispatched" | "received" | "cancelled";
+
+export interface StockTransferLine {
+  id: string;
+  // The batch the stock is taken from at the source store
+  inventory_id: string;
+  product: {
+    id: string;
+    name: string;
+    sku?: string;
+  };
+  expiry_date: string;
+  source_location: string;
+  quantity: number;
+  // Set on receipt; anything short of quantity is a discrepancy
+  received_quantity?: number | null;
+  discrepancy_note?: string | null;
+}
+
+export interface StockTransfer extends AuditFields {
+  id: string;
+  transfer_number: string;
+  from_store_id: string;
+  to_store_id: string;
+  from_store?: {
+    id: string;
+    name: string;
+  };
+  to_store?: {
+    id: string;
+    name: string;
+  };
+  status: TransferStatus;
+  note?: string | null;
+  dispatched_at?: string | null;
+  dispatched_by?: UserRef | null;
+  received_at?: string | null;
+  received_by?: UserRef | null;
+  items: StockTransferLine[];
+}
+
+export type StockCountStatus = "open" | "committed" | "cancelled";
+
+export interface StockCountLine {
+  inventory_id: string;
+  product: {
+    id: string;
+    name: string;
+    sku?: string;
+  };
+  location: string;
+  expiry_date: string;
+  // Batch quantity recorded when the line was counted
+  system_quantity: number;
+  counted_quantity: number;
+}
+
+export interface StockCount extends AuditFields {
+  id: string;
+  count_number: string;
+  store_id: string;
+  status: StockCountStatus;
+  note?: string | null;
+  committed_at?: string | null;
+  lines: StockCountLine[];
+}
+
+export type ShiftStatus = "open" | "closed";
+
+export type CashMovementType = "cash_in" | "cash_out";
+
+// Cash put into or taken out of the drawer for something other than a sale, e.g. buying ice
+export interface ShiftCashMovement {
+  id: string;
+  type: CashMovementType;
+  amount: string;
+  reason: string;
+  created_at: string;
+  created_by?: UserRef;
+}
+
+// Takings for one payment method over the shift; cash is net of change given
+export interface ShiftPaymentTotal {
+  method: PaymentMethod;
+  amount: string;
+  count: number;
+}
+
+// A cashier's session at the till, from the opening float to the closing count
+export interface CashierShift {
+  id: string;
+  shift_number: string;
+  store_id: string;
+  store?: {
+    id: string;
+    name: string;
+  };
+  status: ShiftStatus;
+  opening_float: string;
+  opened_at: string;
+  opened_by: UserRef;
+  closed_at?: string | null;
+  closed_by?: UserRef | null;
+  order_count: number;
+  // Net of discounts; refunds are reported separately
+  sales_total: string;
+  discount_total: string;
+  refund_total: string;
+  // Refunds paid out of this drawer in cash
+  cash_refund_total: string;
+  payment_totals: ShiftPaymentTotal[];
+  cash_movements: ShiftCashMovement[];
+  // Fixed by the server when the shift is closed
+  expected_cash?: string | null;
+  counted_cash?: string | null;
+  closing_note?: string | null;
+}
+
+export interface ProductInput {
+  name: string;
+  category_id: string;
+  sku?: string;
+  selling_price: number;
+  purchase_price: number;
+  store_id?: string;
+  reorder_point?: number | null;
+  reorder_quantity?: number | null;
+}
+
+export interface InventoryInput {
+  product_id: string;
+  quantity: number;
+  expiry_date: string;
+  location: string;
+  store_id?: string;
+}
+
+export interface PaymentInput {
+  method: PaymentMethod;
+  // Amount applied to the order; for cash this excludes the change given back
+  amount: number;
+  amount_received?: number;
+  change?: number;
+  reference?: string;
+}
+
+export type DiscountType = "percent" | "fixed";
+
+export interface DiscountInput {
+  type: DiscountType;
+  value: number;
+  // Rupiah amount the discount takes off
+  amount: number;
+  reason?: string;
+  // Server-issued approval for a discount above the threshold. The server takes the approver from it
+  // and rejects a discount that needs approval but only names an approved_by.
+  approval_id?: string;
+  // Id of the supervisor who approved it, as recorded by the server
+  approved_by?: string;
+}
+
+export interface DiscountApprovalInput {
+  type: DiscountType;
+  value: number;
+  reason: string;
+}
+
+// A supervisor's sign-off on one discount, issued against the supervisor's own token
+export interface DiscountApproval {
+  id: string;
+  type: DiscountType;
+  value: number;
+  approved_by: UserRef;
+  created_at: string;
+}
+
+export interface CheckoutInput {
+  customer_name: string;
+  // Required when any payment is kasbon
+  customer_id?: string;
+  // Net total, after all discounts
+  grand_total: number;
+  gross_total?: number;
+  items: Array<{
+    product_id: string;
+    quantity: number;
+    discount?: DiscountInput;
+    // FEFO allocation across the product's inventory batches
+    batches?: Array<{ inventory_id: string; quantity: number }>;
+  }>;
+  discount?: DiscountInput;
+  payments?: PaymentInput[];
+  // Saved cart the order was rung up from; its stock hold is released by the checkout
+  cart_hold_id?: string;
+  shift_id?: string;
+}
+
+export interface OrderReturnInput {
+  reason: string;
+  items: Array<{
+    order_item_id: number;
+    quantity: number;
+    // Put back into the batch it was sold from, or write off as damaged
+    disposition: ReturnDisposition;
+  }>;
+}
+
+export interface OrderVoidInput {
+  reason: string;
+  disposition: ReturnDisposition;
+}
+
+export interface CartHoldItem {
+  product_id: string;
+  sku: string;
+  name: string;
+  price: number;
+  quantity: number;
+  discount?: DiscountInput;
+}
+
+// A saved cart ("open bill") that holds its stock for every device in the store until it expires
+export interface ApiCartHold {
+  id: string;
+  store_id: string;
+  name: string;
+  customer_name?: string | null;
+  items: CartHoldItem[];
+  discount?: DiscountInput | null;
+  total: string;
+  expires_at: string;
+  created_at: string;
+  updated_at: string;
+  created_by?: UserRef;
+}
+
+export interface CartHoldInput {
+  store_id: string;
+  name: string;
+  customer_name?: string;
+  items: CartHoldItem[];
+  discount?: DiscountInput;
+  total: number;
+  // Every save restarts the hold for this long
+  ttl_minutes: number;
+}
+
+export interface ShiftOpenInput {
+  store_id: string;
+  opening_float: number;
+}
+
+export interface ShiftCashMovementInput {
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+}
+
+export interface ShiftCloseInput {
+  counted_cash: number;
+  closing_note?: string;
+}
+
+export interface SupplierInput {
+  name: string;
+  contact_name?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  notes?: string;
+}
+
+export interface PurchaseOrderInput {
+  supplier_id: string;
+  store_id?: string;
+  expected_at?: string;
+  notes?: string;
+  items: Array<{
+    product_id: string;
+    quantity: number;
+    unit_cost: number;
+  }>;
+}
+
+export interface PurchaseOrderReceiveInput {
+  items: Array<{
+    purchase_order_item_id: string;
+    quantity: number;
+    expiry_date: string;
+    location: string;
+  }>;
+}
+
+export interface InventoryAdjustmentInput {
+  inventory_id: string;
+  quantity_change: number;
+  reason: AdjustmentReason;
+  note?: string;
+}
+
+// Writes off each listed batch's remaining quantity with reason "expired"
+export interface ExpiredWriteOffInput {
+  inventory_ids: string[];
+  note?: string;
+}
+
+export interface StockTransferInput {
+  from_store_id: string;
+  to_store_id: string;
+  note?: string;
+  items: Array<{
+    inventory_id: string;
+    quantity: number;
+  }>;
+}
+
+export interface StockTransferReceiveInput {
+  items: Array<{
+    transfer_item_id: string;
+    received_quantity: number;
+    location: string;
+    discrepancy_note?: string;
+  }>;
+}
+
+export interface StockCountInput {
+  store_id?: string;
+  note?: string;
+}
+
+export interface StockCountLinesInput {
+  lines: Array<{
+    inventory_id: string;
+    counted_quantity: number;
+  }>;
+}
+
+export interface CustomerInput {
+  name: string;
+  phone?: string;
+  notes?: string;
+  store_id?: string;
+}
+
+export interface CustomerRepaymentInput {
+  amount: number;
+  method: Exclude<PaymentMethod, "kasbon">;
+  note?: string;
+}
+
+export interface StoreInput {
+  name: string;
+  address?: string;
+  phone?: string;
+  near_expiry_days?: number;
+}
+
+export interface UserInput {
+  username?: string;
+  email?: string;
+  name?: string;
+  password?: string;
+  role_id?: string;
+  store_id?: string;
+}
+
+export interface RoleInput {
+  name: string;
+  level: number;
+  permissions?: Permission[];
+}
+
+export type CategoryInput = Omit<Category, "id" | "created_at" | "updated_at">;
+
+export interface LoginResponse {
+  token: string;
+  user: {
+    id: string;
+    username: string;
+    email: string;
+    name: string;
+    role: Role;
+    store: Store;
+  };
+}
+
+export interface RefreshResponse {
+  token: string;
+}
+
+export interface BatchUploadResponse {
+  count?: number;
+}
+
+/**
+ * List envelope returned by every collection endpoint: {data, limit, offset, total}
+ */
+export interface Paginated<T> {
+  data: T[];
+  limit: number;
+  offset: number;
+  total: number;
+}
+
+export interface PageParams {
+  limit?: number;
+  offset?: number;
+}
+
+export interface ProductListParams extends PageParams {
+  name?: string;
+  sku?: string;
+  store_id?: string;
+}
+
+export interface InventoryListParams extends PageParams {
+  search?: string;
+  status?: string;
+  store_id?: string;
+  product_id?: string;
+  // Only batches expiring on or before this ISO date (YYYY-MM-DD)
+  expires_before?: string;
+  in_stock?: boolean;
+}
+
+export interface SearchParams extends PageParams {
+  search?: string;
+}
+
+export interface CartHoldListParams extends PageParams {
+  store_id?: string;
+}
+
+export interface PurchaseOrderListParams extends SearchParams {
+  status?: PurchaseOrderStatus;
+  supplier_id?: string;
+  store_id?: string;
+}
+
+export interface OrderListParams extends SearchParams {
+  store_id?: string;
+  // Id of the user who rang the order up
+  created_by?: string;
+  status?: OrderStatus;
+  // Inclusive ISO dates (YYYY-MM-DD)
+  from?: string;
+  to?: string;
+  // Compared against the net total_price
+  min_total?: number;
+  max_total?: number;
+}
+
+export interface MovementListParams extends PageParams {
+  product_id?: string;
+  inventory_id?: string;
+  type?: MovementType;
+  store_id?: string;
+  // Inclusive ISO dates (YYYY-MM-DD)
+  from?: string;
+  to?: string;
+}
+
+// Per-product stock at one store, with units sold over the requested window
+export interface StockLevel {
+  product: {
+    id: string;
+    name: string;
+    sku?: string;
+    purchase_price?: number;
+  };
+  reorder_point: number | null;
+  reorder_quantity: number | null;
+  on_hand: number;
+  units_sold: number;
+}
+
+export interface StockLevelParams {
+  store_id?: string;
+  // Length of the sales window, counted back from today
+  days?: number;
+}
+
+export interface DashboardTopSeller {
+  product_id: string;
+  sku?: string;
+  name: string;
+  quantity: number;
+  revenue: number;
+}
+
+// Dashboard aggregates for one store, or every store when no store is given.
+// Revenue is net of discounts and refunds and leaves out voided orders.
+export interface DashboardSummary {
+  revenue: {
+    total: number;
+    gross: number;
+    discounts: number;
+    refunds: number;
+    today: number;
+    week: number;
+    month: number;
+  };
+  order_count: number;
+  top_sellers: DashboardTopSeller[];
+  recent_orders: ApiOrder[];
+  inventory: {
+    total_products: number;
+    near_expiry: number;
+    expired: number;
+    empty_stock: number;
+  };
+  // A few of each, soonest expiry first; counted with the store and category near-expiry windows
+  near_expiry_batches: InventoryItem[];
+  expired_batches: InventoryItem[];
+  empty_stock_products: Array<{ id: string; name: string; sku?: string }>;
+}
+
+export interface DashboardParams {
+  store_id?: string;
+}
+
+export type SalesGrouping = "day" | "week" | "month";
+
+// Every period in the range is present, zero-filled. Weeks start on Monday.
+export interface SalesBucket {
+  // ISO date (YYYY-MM-DD) of the first day of the period
+  period_start: string;
+  revenue: number;
+  orders: number;
+}
+
+export type ProfitGrouping = "product" | "category" | "store";
+
+// Gross profit for one product, category or store. Cost of goods sold uses each line's
+// unit cost at the time of sale; returned units come off both revenue and cost.
+export interface ProfitReportRow {
+  id: string;
+  name: string;
+  sku?: string;
+  quantity: number;
+  revenue: number;
+  cogs: number;
+  // Units sold at a net price under their unit cost
+  below_cost_quantity: number;
+}
+
+export interface ProfitReportParams {
+  store_id?: string;
+  // Inclusive ISO dates (YYYY-MM-DD)
+  from: string;
+  to: string;
+  group_by: ProfitGrouping;
+}
+
+export interface SalesSeriesParams extends DashboardParams {
+  // Inclusive ISO dates (YYYY-MM-DD)
+  from: string;
+  to: string;
+  group_by: SalesGrouping;
+}
+
+export interface StockTransferListParams extends SearchParams {
+  status?: TransferStatus;
+  // Transfers going out of or coming into this store
+  store_id?: string;
+}
+
+export interface StockCountListParams extends PageParams {
+  status?: StockCountStatus;
+  store_id?: string;
+}
+
+export interface CustomerListParams extends SearchParams {
+  store_id?: string;
+  // Only customers with an outstanding kasbon balance
+  with_balance?: boolean;
+}
+
+export interface ShiftListParams extends PageParams {
+  store_id?: string;
+  status?: ShiftStatus;
+  // Shifts opened on or after `from` and on or before `to` (YYYY-MM-DD)
+  from?: string;
+  to?: string;
+}
+
+export interface StoreListParams extends PageParams {
+  name?: string;
+  phone?: string;
+}
+
+type QueryParams = object;
+
+/**
+ * Error thrown for any non-2xx response. `message` carries the backend's
+ * `error`/`message` field when present.
+ */
+export class ApiError extends Error {
+  status: number;
+  data: unknown;
+
+  constructor(message: string, status: number, data?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.data = data;
+  }
+}
+
+export function getAuthToken(): string | null {
+  return typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
+}
+
+let unauthorizedHandler: (() => void) | null = null;
+
+/**
+ * Register a callback for when an authenticated request comes back 401 (AuthContext uses this
+ * to end the session and send the user to the login page).
+ */
+export function setUnauthorizedHandler(handler: (() => void) | null) {
+  unauthorizedHandler = handler;
+}
+
+function buildQuery(params?: QueryParams): string {
+  if (!params) return "";
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined || value === null) return;
+    const str = String(value).trim();
+    if (str !== "") {
+      search.append(key, str);
+    }
+  });
+  const query = search.toString();
+  return query ? `?${query}` : "";
+}
+
+interface RequestOptions {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  query?: QueryParams;
+  body?: unknown;
+  // Overrides the stored token, e.g. when called from a route handler
+  token?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Perform an authenticated request against the backend and return the parsed JSON body.
+ */
+export async function apiRequest<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const { method = "GET", query, body, headers } = options;
+  const token = options.token ?? getAuthToken();
+  const isFormData = typeof FormData !== "undefined" && body instanceof FormData;
+
+  const response = await fetch(`${API_BASE_URL}${path}${buildQuery(query)}`, {
+    method,
+    headers: {
+      ...(body !== undefined && !isFormData && { "Content-Type": "application/json" }),
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...headers,
+    },
+    ...(body !== undefined && { body: isFormData ? (body as FormData) : JSON.stringify(body) }),
+  });
+
+  const text = await response.text();
+  let data: unknown = undefined;
+  if (text) {
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = text;
+    }
+  }
+
+  // A rejected token passed in explicitly (e.g. a supervisor's) says nothing about the signed-in session
+  if (response.status === 401 && token && options.token === undefined && unauthorizedHandler) {
+    unauthorizedHandler();
+  }
+
+  if (!response.ok) {
+    const payload = (data && typeof data === "object" ? data : {}) as { error?: string; message?: string };
+    throw new ApiError(
+      payload.error || payload.message || `Request failed with status ${response.status}`,
+      response.status,
+      data
+    );
+  }
+
+  return data as T;
+}
+
+/**
+ * Normalize a list response into the {data, limit, offset, total} envelope.
+ * Older endpoints returned a bare array or `{<key>: [...]}`, so those are still accepted here.
+ */
+function toPaginated<T>(result: unknown, legacyKey: string, params?: PageParams): Paginated<T> {
+  const limit = params?.limit ?? 0;
+  const offset = params?.offset ?? 0;
+
+  if (Array.isArray(result)) {
+    return { data: result, limit, offset, total: result.length };
+  }
+
+  const envelope = (result || {}) as Partial<Paginated<T>> & Record<string, unknown>;
+  const data = Array.isArray(envelope.data)
+    ? envelope.data
+    : Array.isArray(envelope[legacyKey])
+    ? (envelope[legacyKey] as T[])
+    : [];
+
+  return {
+    data,
+    limit: envelope.limit ?? limit,
+    offset: envelope.offset ?? offset,
+    total: envelope.total ?? data.length,
+  };
+}
+
+async function list<T>(path: string, legacyKey: string, params?: QueryParams & PageParams): Promise<Paginated<T>> {
+  const result = await apiRequest<unknown>(path, { query: params });
+  return toPaginated<T>(result, legacyKey, params);
+}
+
+/**
+ * Walk every page of a list call (e.g. `api.orders.list`) with the same filters and return all items,
+ * for exports and other views that need the full set
+ */
+export async function listAll<T, P extends PageParams>(
+  fetchPage: (params: P) => Promise<Paginated<T>>,
+  params: Omit<P, "limit" | "offset">,
+  pageSize = 500
+): Promise<T[]> {
+  const items: T[] = [];
+  let offset = 0;
+  let total = Infinity;
+
+  while (offset < total) {
+    const page = await fetchPage({ ...params, limit: pageSize, offset } as P);
+    items.push(...page.data);
+    total = page.total;
+    offset += page.data.length;
+    if (page.data.length < pageSize) break;
+  }
+
+  return items;
+}
+
+function uploadFile<T>(path: string, file: File): Promise<T> {
+  const formData = new FormData();
+  formData.append("file", file);
+  return apiRequest<T>(path, { method: "POST", body: formData });
+}
+
+export const api = {
+  auth: {
+    login(usernameOrEmail: string, password: string) {
+      return apiRequest<LoginResponse>("/api/auth/login", {
+        method: "POST",
+        body: { usernameOrEmail, password },
+      });
+    },
+    refresh(token?: string) {
+      return apiRequest<RefreshResponse>("/api/auth/refresh", { method: "POST", token });
+    },
+    // The signed-in user with their current role and permissions
+    me(token?: string) {
+      return apiRequest<LoginResponse["user"]>("/api/auth/me", { token });
+    },
+    // Check someone else's credentials (e.g. a supervisor override) without touching the current session
+    verifyCredentials(usernameOrEmail: string, password: string) {
+      return apiRequest<LoginResponse>("/api/auth/login", {
+        method: "POST",
+        body: { usernameOrEmail, password },
+        token: "",
+      });
+    },
+  },
+
+  products: {
+    list: (params?: ProductListParams) => list<Product>("/api/products", "products", params),
+    get: (id: string) => apiRequest<Product>(`/api/products/${id}`),
+    create: (input: ProductInput) => apiRequest<Product>("/api/products", { method: "POST", body: input }),
+    update: (id: string, input: Partial<ProductInput>) =>
+      apiRequest<Product>(`/api/products/${id}`, { method: "PUT", body: input }),
+    remove: (id: string) => apiRequest<void>(`/api/products/${id}`, { method: "DELETE" }),
+    bulkUpload: (file: File) => uploadFile<BatchUploadResponse>("/api/products/batch", file),
+  },
+
+  inventories: {
+    list: (params?: InventoryListParams) => list<InventoryItem>("/api/inventories", "inventories", params),
+    create: (input: InventoryInput) => apiRequest<InventoryItem>("/api/inventories", { method: "POST", body: input }),
+    bulkUpload: (file: File) => uploadFile<BatchUploadResponse>("/api/inventories/batch", file),
+    adjust: (input: InventoryAdjustmentInput) =>
+      apiRequest<InventoryAdjustment>("/api/inventories/adjustments", { method: "POST", body: input }),
+    // One adjustment per batch; batches that are not expired or already empty are skipped
+    writeOffExpired: (input: ExpiredWriteOffInput) =>
+      apiRequest<InventoryAdjustment[]>("/api/inventories/adjustments/write-off-expired", { method: "POST", body: input }),
+    // Newest first
+    movements: (params?: MovementListParams) =>
+      list<InventoryMovement>("/api/inventories/movements", "movements", params),
+    stockLevels: (params?: StockLevelParams) =>
+      apiRequest<StockLevel[]>("/api/inventories/stock-levels", { query: params }),
+  },
+
+  orders: {
+    list: (params?: OrderListParams) => list<ApiOrder>("/api/orders", "orders", params),
+    // Users who have rung up orders, for filtering the order list by cashier
+    cashiers: (params?: { store_id?: string }) => apiRequest<UserRef[]>("/api/orders/cashiers", { query: params }),
+    get: (id: number | string) => apiRequest<ApiOrder>(`/api/orders/${id}`),
+    // Returns respond with the updated order (status, refund_total and returns)
+    createReturn: (id: number | string, input: OrderReturnInput) =>
+      apiRequest<ApiOrder>(`/api/orders/${id}/returns`, { method: "POST", body: input }),
+    void: (id: number | string, input: OrderVoidInput) =>
+      apiRequest<ApiOrder>(`/api/orders/${id}/void`, { method: "POST", body: input }),
+    // The idempotency key lets a checkout queued offline be retried without creating a duplicate order
+    checkout: (input: CheckoutInput, idempotencyKey?: string) =>
+      apiRequest<ApiOrder>("/api/orders/checkout", {
+        method: "POST",
+        body: input,
+        ...(idempotencyKey && { headers: { "Idempotency-Key": idempotencyKey } }),
+      }),
+  },
+
+  discounts: {
+    // Signed with the supervisor's token, not the cashier's, so only they can issue it
+    approve: (input: DiscountApprovalInput, supervisorToken: string) =>
+      apiRequest<DiscountApproval>("/api/discounts/approvals", {
+        method: "POST",
+        body: input,
+        token: supervisorToken,
+      }),
+  },
+
+  suppliers: {
+    list: (params?: SearchParams) => list<Supplier>("/api/suppliers", "suppliers", params),
+    get: (id: string) => apiRequest<Supplier>(`/api/suppliers/${id}`),
+    create: (input: SupplierInput) => apiRequest<Supplier>("/api/suppliers", { method: "POST", body: input }),
+    update: (id: string, input: Partial<SupplierInput>) =>
+      apiRequest<Supplier>(`/api/suppliers/${id}`, { method: "PUT", body: input }),
+    remove: (id: string) => apiRequest<void>(`/api/suppliers/${id}`, { method: "DELETE" }),
+  },
+
+  purchaseOrders: {
+    list: (params?: PurchaseOrderListParams) =>
+      list<PurchaseOrder>("/api/purchase-orders", "purchase_orders", params),
+    get: (id: string) => apiRequest<PurchaseOrder>(`/api/purchase-orders/${id}`),
+    create: (input: PurchaseOrderInput) =>
+      apiRequest<PurchaseOrder>("/api/purchase-orders", { method: "POST", body: input }),
+    // Only drafts can be edited
+    update: (id: string, input: Partial<PurchaseOrderInput>) =>
+      apiRequest<PurchaseOrder>(`/api/purchase-orders/${id}`, { method: "PUT", body: input }),
+    submit: (id: string) => apiRequest<PurchaseOrder>(`/api/purchase-orders/${id}/submit`, { method: "POST" }),
+    // Creates an inventory batch per received line and sets each product's purchase_price to the line's unit cost
+    receive: (id: string, input: PurchaseOrderReceiveInput) =>
+      apiRequest<PurchaseOrder>(`/api/purchase-orders/${id}/receive`, { method: "POST", body: input }),
+    cancel: (id: string) => apiRequest<PurchaseOrder>(`/api/purchase-orders/${id}/cancel`, { method: "POST" }),
+  },
+
+  transfers: {
+    list: (params?: StockTransferListParams) => list<StockTransfer>("/api/transfers", "transfers", params),
+    get: (id: string) => apiRequest<StockTransfer>(`/api/transfers/${id}`),
+    create: (input: StockTransferInput) => apiRequest<StockTransfer>("/api/transfers", { method: "POST", body: input }),
+    // Decrements the source batches
+    dispatch: (id: string) => apiRequest<StockTransfer>(`/api/transfers/${id}/dispatch`, { method: "POST" }),
+    // Creates batches at the destination with the source expiry dates and records any shortfall as a discrepancy
+    receive: (id: string, input: StockTransferReceiveInput) =>
+      apiRequest<StockTransfer>(`/api/transfers/${id}/receive`, { method: "POST", body: input }),
+    // Only requested transfers can be cancelled
+    cancel: (id: string) => apiRequest<StockTransfer>(`/api/transfers/${id}/cancel`, { method: "POST" }),
+  },
+
+  stockCounts: {
+    list: (params?: StockCountListParams) => list<StockCount>("/api/stock-counts", "stock_counts", params),
+    get: (id: string) => apiRequest<StockCount>(`/api/stock-counts/${id}`),
+    create: (input: StockCountInput) => apiRequest<StockCount>("/api/stock-counts", { method: "POST", body: input }),
+    // Upserts counted lines; the server snapshots each batch's system quantity on first count
+    saveLines: (id: string, input: StockCountLinesInput) =>
+      apiRequest<StockCount>(`/api/stock-counts/${id}/lines`, { method: "PUT", body: input }),
+    // Posts a count_correction adjustment for every line whose count differs from its system quantity
+    commit: (id: string) => apiRequest<StockCount>(`/api/stock-counts/${id}/commit`, { method: "POST" }),
+    cancel: (id: string) => apiRequest<StockCount>(`/api/stock-counts/${id}/cancel`, { method: "POST" }),
+  },
+
+  customers: {
+    list: (params?: CustomerListParams) => list<Customer>("/api/customers", "customers", params),
+    get: (id: string) => apiRequest<Customer>(`/api/customers/${id}`),
+    create: (input: CustomerInput) => apiRequest<Customer>("/api/customers", { method: "POST", body: input }),
+    update: (id: string, input: Partial<CustomerInput>) =>
+      apiRequest<Customer>(`/api/customers/${id}`, { method: "PUT", body: input }),
+    remove: (id: string) => apiRequest<void>(`/api/customers/${id}`, { method: "DELETE" }),
+    ledger: (id: string, params?: PageParams) =>
+      list<CustomerLedgerEntry>(`/api/customers/${id}/ledger`, "entries", params),
+    // Responds with the customer and their new balance
+    recordPayment: (id: string, input: CustomerRepaymentInput) =>
+      apiRequest<Customer>(`/api/customers/${id}/payments`, { method: "POST", body: input }),
+  },
+
+  // Expired holds are released by the server and left out of the list
+  carts: {
+    list: (params?: CartHoldListParams) => list<ApiCartHold>("/api/carts", "carts", params),
+    create: (input: CartHoldInput) => apiRequest<ApiCartHold>("/api/carts", { method: "POST", body: input }),
+    update: (id: string, input: Partial<CartHoldInput>) =>
+      apiRequest<ApiCartHold>(`/api/carts/${id}`, { method: "PUT", body: input }),
+    release: (id: string) => apiRequest<void>(`/api/carts/${id}`, { method: "DELETE" }),
+  },
+
+  stores: {
+    list: (params?: StoreListParams) => list<Store>("/api/stores", "stores", params),
+    get: (id: string) => apiRequest<Store>(`/api/stores/${id}`),
+    create: (input: StoreInput) => apiRequest<Store>("/api/stores", { method: "POST", body: input }),
+    update: (id: string, input: Partial<StoreInput>) =>
+      apiRequest<Store>(`/api/stores/${id}`, { method: "PUT", body: input }),
+    remove: (id: string) => apiRequest<void>(`/api/stores/${id}`, { method: "DELETE" }),
+  },
+
+  // Create, update (including password resets) and delete reject (403) users whose current or new role is
+  // at or above the caller's own level, unless the caller is a super admin; see canManageLevel in lib/roles
+  users: {
+    list: (params?: SearchParams) => list<User>("/api/users", "users", params),
+    get: (id: string) => apiRequest<User>(`/api/users/${id}`),
+    create: (input: UserInput) => apiRequest<User>("/api/users", { method: "POST", body: input }),
+    update: (id: string, input: UserInput) => apiRequest<User>(`/api/users/${id}`, { method: "PUT", body: input }),
+    remove: (id: string) => apiRequest<void>(`/api/users/${id}`, { method: "DELETE" }),
+  },
+
+  // Create and update reject (403) a level at or above the caller's own, or permissions the caller
+  // does not hold, unless the caller is a super admin; see validateRoleGrant in lib/roles
+  roles: {
+    list: (params?: SearchParams) => list<Role>("/api/roles", "roles", params),
+    get: (id: string) => apiRequest<Role>(`/api/roles/${id}`),
+    create: (input: RoleInput) => apiRequest<Role>("/api/roles", { method: "POST", body: input }),
+    update: (id: string, input: Partial<RoleInput>) =>
+      apiRequest<Role>(`/api/roles/${id}`, { method: "PUT", body: input }),
+    remove: (id: string) => apiRequest<void>(`/api/roles/${id}`, { method: "DELETE" }),
+  },
+
+  categories: {
+    list: (params?: PageParams) => list<Category>("/api/categories", "categories", params),
+    create: (input: CategoryInput) => apiRequest<Category>("/api/categories", { method: "POST", body: input }),
+    update: (id: string, input: Partial<CategoryInput>) =>
+      apiRequest<Category>(`/api/categories/${id}`, { method: "PUT", body: input }),
+    remove: (id: string) => apiRequest<void>(`/api/categories/${id}`, { method: "DELETE" }),
+  },
+
+  dashboard: {
+    summary: (params?: DashboardParams) => apiRequest<DashboardSummary>("/api/dashboard/summary", { query: params }),
+    // Revenue is net of discounts and refunds, like the summary
+    sales: (params: SalesSeriesParams) => apiRequest<SalesBucket[]>("/api/dashboard/sales", { query: params }),
+  },
+
+  shifts: {
+    list: (params?: ShiftListParams) => list<CashierShift>("/api/shifts", "shifts", params),
+    get: (id: string) => apiRequest<CashierShift>(`/api/shifts/${id}`),
+    // The signed-in cashier's open shift at the store; an empty response means none is open
+    current: async (storeId: string) =>
+      (await apiRequest<CashierShift | null>("/api/shifts/current", { query: { store_id: storeId } })) ?? null,
+    // Fails if the cashier already has an open shift at the store
+    open: (input: ShiftOpenInput) => apiRequest<CashierShift>("/api/shifts", { method: "POST", body: input }),
+    addCashMovement: (id: string, input: ShiftCashMovementInput) =>
+      apiRequest<CashierShift>(`/api/shifts/${id}/cash-movements`, { method: "POST", body: input }),
+    // Checkouts against a closed shift are rejected
+    close: (id: string, input: ShiftCloseInput) =>
+      apiRequest<CashierShift>(`/api/shifts/${id}/close`, { method: "POST", body: input }),
+  },
+
+  reports: {
+    profit: (params: ProfitReportParams) => apiRequest<ProfitReportRow[]>("/api/reports/profit", { query: params }),
+  },
+};
+
+/**
+ * Extract a user-facing message from an error thrown by the API client.
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ApiError) return error.message;
+  return fallback;
+}
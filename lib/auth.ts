@@ -1,7 +1,12 @@
+import { ApiError, type LoginResponse } from "@/lib/api";
+import type { Permission } from "@/lib/roles";
+import { SESSION_MAX_AGE } from "@/lib/session";
+
 export interface Role {
   id: string;
   level: number;
   name: string;
+  permissions?: Permission[];
 }
 
 export interface Store {
@@ -18,21 +23,53 @@ export interface User {
   store: Store;
 }
 
-interface LoginResponse {
-  token: string;
+export interface AuthSession {
   user: User;
+  token?: string;
+  expiresAt?: number; // Unix time in milliseconds; the earlier of token and session cookie expiry
 }
 
-interface LoginError {
-  error: string;
+// Client-side copy of the session. Middleware only trusts the httpOnly cookie set by /api/session.
+let currentSession: AuthSession | null = null;
+
+// The session cookie is re-issued with this lifetime on every sign-in and refresh
+const SESSION_LIFETIME = SESSION_MAX_AGE * 1000;
+
+/**
+ * Read the expiry time (in milliseconds) from a JWT, falling back to the default lifetime
+ */
+function getTokenExpiry(token: string): number {
+  try {
+    const payload = JSON.parse(atob(token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    if (typeof payload.exp === "number") {
+      return payload.exp * 1000;
+    }
+  } catch {
+    // Not a JWT we can decode
+  }
+  return Date.now() + SESSION_LIFETIME;
 }
 
-// Session storage (in a real app, use cookies or server-side session)
-let currentSession: { user: User; token?: string } | null = null;
+/**
+ * When a freshly issued session ends: middleware drops the cookie before a longer-lived token expires
+ */
+function getSessionExpiry(token: string): number {
+  return Math.min(getTokenExpiry(token), Date.now() + SESSION_LIFETIME);
+}
 
-// Backend API base URL
-// Set NEXT_PUBLIC_API_URL in .env.local to override (e.g., NEXT_PUBLIC_API_URL=http://localhost:3001)
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+function storeSession(session: AuthSession | null) {
+  currentSession = session;
+  if (typeof window === "undefined") return;
+  if (session) {
+    localStorage.setItem("auth_session", JSON.stringify(session));
+    if (session.token) {
+      localStorage.setItem("auth_token", session.token);
+    }
+  } else {
+    localStorage.removeItem("auth_session");
+    localStorage.removeItem("auth_token");
+  }
+}
 
 export const mockAuth = {
   /**
@@ -40,35 +77,27 @@ export const mockAuth = {
    */
   async signIn(email: string, password: string): Promise<{ user: User } | null> {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/auth/login`, {
+      // The route handler signs in against the backend and sets the httpOnly session cookie
+      const response = await fetch("/api/session", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ usernameOrEmail: email, password }),
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password }),
       });
-
-      const data: LoginResponse | LoginError = await response.json();
-
-      if (response.ok && "token" in data && "user" in data) {
-        const { user, token } = data as LoginResponse;
-        currentSession = { user, token };
-        // Store in localStorage for persistence
-        if (typeof window !== "undefined") {
-          localStorage.setItem("auth_session", JSON.stringify(currentSession));
-          localStorage.setItem("auth_token", token);
-        }
-        return { user };
-      }
-
-      // Handle error response
-      if ("error" in data) {
-        console.error("Login error:", data.error);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new ApiError(data.error || "Login failed", response.status, data);
       }
 
-      return null;
+      const { user, token } = data as LoginResponse;
+      // Store in localStorage for persistence
+      storeSession({ user, token, expiresAt: getSessionExpiry(token) });
+      return { user };
     } catch (error) {
-      console.error("Login request failed:", error);
+      if (error instanceof ApiError) {
+        console.error("Login error:", error.message);
+      } else {
+        console.error("Login request failed:", error);
+      }
       return null;
     }
   },
@@ -77,17 +106,55 @@ export const mockAuth = {
    * Sign out the current user
    */
   async signOut(): Promise<void> {
-    currentSession = null;
-    if (typeof window !== "undefined") {
-      localStorage.removeItem("auth_session");
-      localStorage.removeItem("auth_token");
+    storeSession(null);
+    try {
+      await fetch("/api/session", { method: "DELETE" });
+    } catch (error) {
+      console.error("Error clearing session cookie:", error);
     }
   },
 
   /**
-   * Get the current session
+   * Check that the server-side session cookie is still valid
    */
-  getSession(): { user: User; token?: string } | null {
+  async hasServerSession(): Promise<boolean> {
+    try {
+      const response = await fetch("/api/session");
+      return response.ok;
+    } catch {
+      return false;
+    }
+  },
+
+  /**
+   * Exchange the current token for a new one and extend the session cookie.
+   * Returns the new expiry time, or null if the session could not be refreshed.
+   */
+  async refreshSession(): Promise<number | null> {
+    const session = this.getSession();
+    if (!session?.token) return null;
+
+    try {
+      const response = await fetch("/api/session", {
+        method: "PATCH",
+        headers: { Authorization: `Bearer ${session.token}` },
+      });
+      if (!response.ok) return null;
+
+      const { token, user } = (await response.json()) as LoginResponse;
+      const expiresAt = getSessionExpiry(token);
+      storeSession({ ...session, user, token, expiresAt });
+      return expiresAt;
+    } catch (error) {
+      console.error("Error refreshing session:", error);
+      return null;
+    }
+  },
+
+  /**
+   * Get the current session. Expired sessions are cleared and reported as null.
+   */
+  getSession(): AuthSession | null {
     if (typeof window !== "undefined") {
       const stored = localStorage.getItem("auth_session");
       if (stored) {
@@ -98,6 +165,9 @@ export const mockAuth = {
         }
       }
     }
+    if (currentSession?.expiresAt && currentSession.expiresAt <= Date.now()) {
+      storeSession(null);
+    }
     return currentSession;
   },
 
@@ -0,0 +1,63 @@
+import type { InventoryItem } from "@/lib/api";
+import { getDaysUntilExpiry } from "@/lib/expiry";
+
+// First-expiry-first-out allocation of a sale across a product's inventory batches
+
+export interface BatchAllocation {
+  inventoryId: string;
+  quantity: number;
+  expiryDate: string;
+  location: string;
+}
+
+export interface FefoResult {
+  allocations: BatchAllocation[];
+  // Units that no sellable batch could cover
+  shortfall: number;
+}
+
+export const isBatchExpired = (expiryDate: string): boolean => getDaysUntilExpiry(expiryDate) < 0;
+
+/**
+ * A product's batches that can still be sold, earliest expiry first
+ */
+export function getSellableBatches(inventory: InventoryItem[], productId: string): InventoryItem[] {
+  return inventory
+    .filter((batch) => batch.product.id === productId && batch.quantity > 0 && !isBatchExpired(batch.expiry_date))
+    .sort((a, b) => new Date(a.expiry_date).getTime() - new Date(b.expiry_date).getTime());
+}
+
+/**
+ * Allocate `quantity` units of a product FEFO. Units already `reserved` by other carts and
+ * queued orders are assumed to take the earliest batches, so this sale draws from what is left.
+ */
+export function allocateFefo(
+  inventory: InventoryItem[],
+  productId: string,
+  quantity: number,
+  reserved = 0
+): FefoResult {
+  const allocations: BatchAllocation[] = [];
+  let toSkip = Math.max(reserved, 0);
+  let remaining = quantity;
+
+  for (const batch of getSellableBatches(inventory, productId)) {
+    if (remaining <= 0) break;
+    const skipped = Math.min(toSkip, batch.quantity);
+    toSkip -= skipped;
+    const take = Math.min(batch.quantity - skipped, remaining);
+    if (take <= 0) continue;
+    allocations.push({
+      inventoryId: batch.id,
+      quantity: take,
+      expiryDate: batch.expiry_date,
+      location: batch.location,
+    });
+    remaining -= take;
+  }
+
+  return { allocations, shortfall: remaining };
+}
+
+export const formatBatchExpiry = (expiryDate: string): string =>
+  new Date(expiryDate).toLocaleDateString("id-ID", { year: "numeric", month: "short", day: "numeric" });
@@ -1,110 +1,190 @@
+import { api, type ApiCartHold, type CartHoldItem } from "@/lib/api";
+import {
+  calculateCartTotals,
+  fromDiscountInput,
+  getLineGross,
+  toDiscountInput,
+  type Discount,
+} from "@/lib/discounts";
+
 export interface CartItem {
   id: string;
   sku: string;
   name: string;
   price: number;
   quantity: number;
+  discount?: Discount;
 }
 
+// Saved carts are stock holds on the backend, shared by every cashier device in the store
 export interface SavedCart {
   id: string;
   name: string;
   items: CartItem[];
   total: number;
+  customerName?: string;
+  orderDiscount?: Discount;
   createdAt: string;
   updatedAt: string;
+  // The hold is released automatically after this
+  expiresAt: string;
+  createdBy?: string;
 }
 
-const STORAGE_KEY = "warung_saved_carts";
+export interface SaveCartOptions {
+  name?: string;
+  customerName?: string;
+  orderDiscount?: Discount;
+}
 
-export const getSavedCarts = (): SavedCart[] => {
-  if (typeof window === "undefined") return [];
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    return stored ? JSON.parse(stored) : [];
-  } catch {
-    return [];
-  }
+// How long a saved cart holds its stock after the last save
+export const CART_HOLD_TTL_MINUTES = Number(process.env.NEXT_PUBLIC_CART_HOLD_TTL_MINUTES) || 30;
+
+// Carts saved before holds moved to the backend
+const LEGACY_STORAGE_KEY = "warung_saved_carts";
+
+export const isCartExpired = (cart: SavedCart): boolean => new Date(cart.expiresAt).getTime() <= Date.now();
+
+const toSavedCart = (hold: ApiCartHold): SavedCart => ({
+  id: hold.id,
+  name: hold.name,
+  items: hold.items.map((item) => ({
+    id: item.product_id,
+    sku: item.sku,
+    name: item.name,
+    price: item.price,
+    quantity: item.quantity,
+    ...(item.discount && { discount: fromDiscountInput(item.discount) }),
+  })),
+  total: parseFloat(hold.total) || 0,
+  customerName: hold.customer_name || undefined,
+  orderDiscount: fromDiscountInput(hold.discount),
+  createdAt: hold.created_at,
+  updatedAt: hold.updated_at,
+  expiresAt: hold.expires_at,
+  createdBy: hold.created_by?.name,
+});
+
+const toHoldInput = (cart: CartItem[], options: SaveCartOptions) => {
+  const totals = calculateCartTotals(cart, options.orderDiscount);
+  const items: CartHoldItem[] = cart.map((item) => {
+    const discount = toDiscountInput(item.discount, getLineGross(item));
+    return {
+      product_id: item.id,
+      sku: item.sku,
+      name: item.name,
+      price: item.price,
+      quantity: item.quantity,
+      ...(discount && { discount }),
+    };
+  });
+  const discount = toDiscountInput(options.orderDiscount, totals.subtotal);
+
+  return {
+    items,
+    total: totals.net,
+    ttl_minutes: CART_HOLD_TTL_MINUTES,
+    ...(options.customerName && { customer_name: options.customerName }),
+    ...(discount && { discount }),
+  };
 };
 
-export const saveCart = (cart: CartItem[], name?: string): SavedCart => {
-  if (typeof window === "undefined") {
-    throw new Error("Cannot save cart on server side");
-  }
+export const getSavedCarts = async (storeId: string): Promise<SavedCart[]> => {
+  const result = await api.carts.list({ store_id: storeId, limit: 100 });
+  // The server drops expired holds too, but the list may be a little stale
+  return result.data.map(toSavedCart).filter((cart) => !isCartExpired(cart));
+};
 
-  const total = cart.reduce((sum, item) => sum + item.price * item.quantity, 0);
-  const now = new Date().toISOString();
-  const cartId = `cart-${Date.now()}`;
-  const cartName = name || `Cart ${new Date().toLocaleString("id-ID", { dateStyle: "short", timeStyle: "short" })}`;
-
-  const savedCart: SavedCart = {
-    id: cartId,
-    name: cartName,
-    items: cart,
-    total,
-    createdAt: now,
-    updatedAt: now,
-  };
+export const saveCart = async (storeId: string, cart: CartItem[], options: SaveCartOptions = {}): Promise<SavedCart> => {
+  const cartName =
+    options.name || `Cart ${new Date().toLocaleString("id-ID", { dateStyle: "short", timeStyle: "short" })}`;
+  const hold = await api.carts.create({ store_id: storeId, name: cartName, ...toHoldInput(cart, options) });
+  return toSavedCart(hold);
+};
+
+/**
+ * Save new contents for a held cart, which also restarts its hold
+ */
+export const updateCart = async (cartId: string, cart: CartItem[], options: SaveCartOptions = {}): Promise<SavedCart> => {
+  const hold = await api.carts.update(cartId, {
+    ...toHoldInput(cart, options),
+    ...(options.name && { name: options.name }),
+  });
+  return toSavedCart(hold);
+};
 
+/**
+ * Release a held cart and its stock
+ */
+export const deleteCart = async (cartId: string): Promise<void> => {
+  await api.carts.release(cartId);
+};
+
+/**
+ * Move carts saved in this browser's localStorage to the backend, forgetting each one as soon as its
+ * hold is saved so a failure partway through does not hold the earlier carts twice on the next try
+ */
+export const migrateLocalCarts = async (storeId: string): Promise<number> => {
+  if (typeof window === "undefined") return 0;
+
+  let legacyCarts: Array<{ name: string; items: CartItem[] }> = [];
   try {
-    const carts = getSavedCarts();
-    carts.unshift(savedCart); // Add to beginning
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(carts));
-  } catch (error) {
-    console.error("Failed to save cart:", error);
-    throw error;
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    legacyCarts = stored ? JSON.parse(stored) : [];
+  } catch {
+    legacyCarts = [];
   }
-
-  return savedCart;
+  if (legacyCarts.length === 0) return 0;
+
+  let migrated = 0;
+  while (legacyCarts.length > 0) {
+    const [legacyCart, ...remaining] = legacyCarts;
+    if (legacyCart.items?.length) {
+      await saveCart(storeId, legacyCart.items, { name: legacyCart.name });
+    }
+    legacyCarts = remaining;
+    if (remaining.length > 0) {
+      localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(remaining));
+    } else {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    }
+    migrated++;
+  }
+  return migrated;
 };
 
-export const updateCart = (cartId: string, cart: CartItem[], name?: string): SavedCart | null => {
-  if (typeof window === "undefined") return null;
+// The cart currently open in the cashier, kept per user so it survives an expired session
+export interface ActiveCart {
+  items: CartItem[];
+  currentCartId: string | null;
+  cartName: string;
+  customerName: string;
+  orderDiscount?: Discount;
+}
 
-  const total = cart.reduce((sum, item) => sum + item.price * item.quantity, 0);
-  const now = new Date().toISOString();
+const ACTIVE_CART_KEY_PREFIX = "warung_active_cart_";
 
+export const getActiveCart = (userId: string): ActiveCart | null => {
+  if (typeof window === "undefined") return null;
   try {
-    const carts = getSavedCarts();
-    const cartIndex = carts.findIndex((c) => c.id === cartId);
-    
-    if (cartIndex === -1) return null;
-
-    const updatedCart: SavedCart = {
-      ...carts[cartIndex],
-      items: cart,
-      total,
-      updatedAt: now,
-      ...(name && { name }),
-    };
-
-    carts[cartIndex] = updatedCart;
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(carts));
-    return updatedCart;
-  } catch (error) {
-    console.error("Failed to update cart:", error);
+    const stored = localStorage.getItem(ACTIVE_CART_KEY_PREFIX + userId);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
     return null;
   }
 };
 
-export const deleteCart = (cartId: string): boolean => {
-  if (typeof window === "undefined") return false;
+export const setActiveCart = (userId: string, activeCart: ActiveCart): void => {
+  if (typeof window === "undefined") return;
 
   try {
-    const carts = getSavedCarts();
-    const filteredCarts = carts.filter((c) => c.id !== cartId);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(filteredCarts));
-    return true;
+    // Nothing worth restoring, so don't leave an empty entry behind
+    if (activeCart.items.length === 0 && !activeCart.currentCartId) {
+      localStorage.removeItem(ACTIVE_CART_KEY_PREFIX + userId);
+      return;
+    }
+    localStorage.setItem(ACTIVE_CART_KEY_PREFIX + userId, JSON.stringify(activeCart));
   } catch (error) {
-    console.error("Failed to delete cart:", error);
-    return false;
+    console.error("Failed to store active cart:", error);
   }
 };
-
-export const getCartById = (cartId: string): SavedCart | null => {
-  if (typeof window === "undefined") return null;
-
-  const carts = getSavedCarts();
-  return carts.find((c) => c.id === cartId) || null;
-};
-
@@ -1,59 +1,20 @@
-export interface Category {
-  id: string;
-  name: string;
-  category_code: string;
-  description?: string;
-  created_at?: string;
-  updated_at?: string;
-}
+import { api, type Category, type CategoryInput } from "@/lib/api";
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+export type { Category };
 
 export async function fetchCategories(): Promise<Category[]> {
   try {
-    const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-    
-    const response = await fetch(`${API_BASE_URL}/api/categories`, {
-      headers: {
-        ...(token && { Authorization: `Bearer ${token}` }),
-      },
-    });
-
-    if (response.ok) {
-      const result = await response.json();
-      // Handle response format: {data, limit, offset, total} or array
-      if (result.data && Array.isArray(result.data)) {
-        return result.data;
-      } else if (Array.isArray(result)) {
-        return result;
-      } else {
-        return result.categories || [];
-      }
-    }
-    return [];
+    const result = await api.categories.list();
+    return result.data;
   } catch (error) {
     console.error("Error fetching categories:", error);
     return [];
   }
 }
 
-export async function createCategory(category: Omit<Category, "id" | "created_at" | "updated_at">): Promise<Category | null> {
+export async function createCategory(category: CategoryInput): Promise<Category | null> {
   try {
-    const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-    
-    const response = await fetch(`${API_BASE_URL}/api/categories`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        ...(token && { Authorization: `Bearer ${token}` }),
-      },
-      body: JSON.stringify(category),
-    });
-
-    if (response.ok) {
-      return await response.json();
-    }
-    return null;
+    return await api.categories.create(category);
   } catch (error) {
     console.error("Error creating category:", error);
     return null;
@@ -62,21 +23,7 @@ export async function createCategory(category: Omit<Category, "id" | "created_at
 
 export async function updateCategory(id: string, updates: Partial<Omit<Category, "id" | "created_at">>): Promise<Category | null> {
   try {
-    const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-    
-    const response = await fetch(`${API_BASE_URL}/api/categories/${id}`, {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-        ...(token && { Authorization: `Bearer ${token}` }),
-      },
-      body: JSON.stringify(updates),
-    });
-
-    if (response.ok) {
-      return await response.json();
-    }
-    return null;
+    return await api.categories.update(id, updates);
   } catch (error) {
     console.error("Error updating category:", error);
     return null;
@@ -85,16 +32,8 @@ export async function updateCategory(id: string, updates: Partial<Omit<Category,
 
 export async function deleteCategory(id: string): Promise<boolean> {
   try {
-    const token = typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
-    
-    const response = await fetch(`${API_BASE_URL}/api/categories/${id}`, {
-      method: "DELETE",
-      headers: {
-        ...(token && { Authorization: `Bearer ${token}` }),
-      },
-    });
-
-    return response.ok;
+    await api.categories.remove(id);
+    return true;
   } catch (error) {
     console.error("Error deleting category:", error);
     return false;
@@ -0,0 +1,85 @@
+import { api, listAll, type Customer, type CustomerLedgerEntry } from "@/lib/api";
+
+export const getCustomerBalance = (customer: Customer): number => parseFloat(customer.balance) || 0;
+
+/**
+ * Load a customer's whole kasbon ledger, oldest entry first
+ */
+export async function fetchCustomerLedger(customerId: string): Promise<CustomerLedgerEntry[]> {
+  const entries = await listAll((params) => api.customers.ledger(customerId, params), {}, 100);
+  return entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+export const AGING_BUCKETS = [
+  { key: "current", label: "0-30 days", translationKey: "customers.aging.current", maxDays: 30 },
+  { key: "days31to60", label: "31-60 days", translationKey: "customers.aging.31to60", maxDays: 60 },
+  { key: "days61to90", label: "61-90 days", translationKey: "customers.aging.61to90", maxDays: 90 },
+  { key: "over90", label: "Over 90 days", translationKey: "customers.aging.over90", maxDays: Infinity },
+] as const;
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number]["key"];
+
+export interface OutstandingCharge {
+  entry: CustomerLedgerEntry;
+  outstanding: number;
+  ageDays: number;
+  bucket: AgingBucket;
+}
+
+export interface CreditAging {
+  buckets: Record<AgingBucket, number>;
+  charges: OutstandingCharge[];
+  total: number;
+}
+
+/**
+ * Age the outstanding balance. Repayments settle the oldest charges first, so whatever
+ * is left of each charge is bucketed by how long ago it was made.
+ */
+export function getCreditAging(entries: CustomerLedgerEntry[], now = new Date()): CreditAging {
+  const sorted = [...entries].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const open: { entry: CustomerLedgerEntry; outstanding: number }[] = [];
+  let credit = 0;
+
+  sorted.forEach((entry) => {
+    const amount = parseFloat(entry.amount) || 0;
+    if (entry.type === "charge") {
+      // A repayment made ahead of the charge (an overpayment) is used up first
+      const settled = Math.min(credit, amount);
+      credit -= settled;
+      open.push({ entry, outstanding: amount - settled });
+      return;
+    }
+
+    let remaining = amount;
+    for (const charge of open) {
+      if (remaining <= 0) break;
+      const settled = Math.min(charge.outstanding, remaining);
+      charge.outstanding -= settled;
+      remaining -= settled;
+    }
+    credit += remaining;
+  });
+
+  const buckets = AGING_BUCKETS.reduce(
+    (acc, bucket) => ({ ...acc, [bucket.key]: 0 }),
+    {} as Record<AgingBucket, number>
+  );
+  const charges: OutstandingCharge[] = open
+    .filter((charge) => charge.outstanding > 0)
+    .map((charge) => {
+      const ageDays = Math.max(
+        Math.floor((now.getTime() - new Date(charge.entry.created_at).getTime()) / (1000 * 60 * 60 * 24)),
+        0
+      );
+      const bucket = AGING_BUCKETS.find((b) => ageDays <= b.maxDays)?.key || "over90";
+      buckets[bucket] += charge.outstanding;
+      return { ...charge, ageDays, bucket };
+    });
+
+  return {
+    buckets,
+    charges,
+    total: charges.reduce((sum, charge) => sum + charge.outstanding, 0),
+  };
+}
@@ -0,0 +1,107 @@
+import type { DiscountInput, DiscountType } from "@/lib/api";
+import type { CartItem } from "@/lib/carts";
+
+export interface Discount {
+  type: DiscountType;
+  value: number;
+  reason: string;
+  // Only counts as approved with the id of the approval the server issued to the supervisor
+  approvedBy?: {
+    id: string;
+    name: string;
+    approvalId: string;
+  };
+}
+
+// Discounts above this percentage of the amount they apply to need a supervisor,
+// unless the cashier's role has the cashier:discount permission
+export const DISCOUNT_APPROVAL_PERCENT = Number(process.env.NEXT_PUBLIC_DISCOUNT_APPROVAL_PERCENT) || 10;
+
+/**
+ * Rupiah amount a discount takes off `base`, never more than the base itself
+ */
+export const getDiscountAmount = (discount: Discount | undefined, base: number): number => {
+  if (!discount || base <= 0 || discount.value <= 0) return 0;
+  const amount = discount.type === "percent" ? (base * Math.min(discount.value, 100)) / 100 : discount.value;
+  return Math.round(Math.min(amount, base));
+};
+
+export const needsApproval = (discount: Discount, base: number): boolean => {
+  if (base <= 0) return false;
+  return (getDiscountAmount(discount, base) / base) * 100 > DISCOUNT_APPROVAL_PERCENT;
+};
+
+export const getLineGross = (item: CartItem) => item.price * item.quantity;
+
+export const getLineDiscount = (item: CartItem) => getDiscountAmount(item.discount, getLineGross(item));
+
+export interface CartTotals {
+  gross: number;
+  lineDiscounts: number;
+  // Base the order-level discount applies to (gross minus line discounts)
+  subtotal: number;
+  orderDiscount: number;
+  discountTotal: number;
+  net: number;
+}
+
+export function calculateCartTotals(items: CartItem[], orderDiscount?: Discount): CartTotals {
+  const gross = items.reduce((sum, item) => sum + getLineGross(item), 0);
+  const lineDiscounts = items.reduce((sum, item) => sum + getLineDiscount(item), 0);
+  const subtotal = gross - lineDiscounts;
+  const orderDiscountAmount = getDiscountAmount(orderDiscount, subtotal);
+
+  return {
+    gross,
+    lineDiscounts,
+    subtotal,
+    orderDiscount: orderDiscountAmount,
+    discountTotal: lineDiscounts + orderDiscountAmount,
+    net: subtotal - orderDiscountAmount,
+  };
+}
+
+/**
+ * Cart lines (by id), and "order" for the order discount, whose discount is above the approval
+ * threshold without a supervisor's sign-off, e.g. after lowering the quantity under a fixed discount
+ */
+export function getUnapprovedDiscounts(items: CartItem[], orderDiscount?: Discount): string[] {
+  const unapproved = items
+    .filter(
+      (item) =>
+        item.discount && !item.discount.approvedBy?.approvalId && needsApproval(item.discount, getLineGross(item))
+    )
+    .map((item) => item.id);
+  const { subtotal } = calculateCartTotals(items, orderDiscount);
+  if (orderDiscount && !orderDiscount.approvedBy?.approvalId && needsApproval(orderDiscount, subtotal)) {
+    unapproved.push("order");
+  }
+  return unapproved;
+}
+
+export const toDiscountInput = (discount: Discount | undefined, base: number): DiscountInput | undefined => {
+  const amount = getDiscountAmount(discount, base);
+  if (!discount || amount === 0) return undefined;
+  return {
+    type: discount.type,
+    value: discount.value,
+    amount,
+    ...(discount.reason && { reason: discount.reason }),
+    ...(discount.approvedBy?.approvalId && { approval_id: discount.approvedBy.approvalId }),
+  };
+};
+
+export const fromDiscountInput = (input: DiscountInput | null | undefined): Discount | undefined =>
+  input
+    ? {
+        type: input.type,
+        value: input.value,
+        reason: input.reason || "",
+        ...(input.approval_id && {
+          approvedBy: { id: input.approved_by || "", name: "", approvalId: input.approval_id },
+        }),
+      }
+    : undefined;
+
+export const describeDiscount = (discount: Discount): string =>
+  discount.type === "percent" ? `${discount.value}%` : `Rp ${discount.value.toLocaleString("id-ID")}`;
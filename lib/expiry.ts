@@ -0,0 +1,112 @@
+import { api, listAll, type Category, type InventoryItem, type Store } from "@/lib/api";
+import { toDateInput } from "@/lib/sales";
+
+export type ExpiryStatus = "valid" | "near_expiry" | "expired";
+
+// Used when neither the store nor the category sets a near-expiry window
+export const DEFAULT_NEAR_EXPIRY_DAYS = 7;
+
+// The store's near-expiry window, with per-category overrides keyed by category id
+export interface ExpirySettings {
+  nearExpiryDays: number;
+  categoryDays: Record<string, number>;
+}
+
+export const defaultExpirySettings: ExpirySettings = {
+  nearExpiryDays: DEFAULT_NEAR_EXPIRY_DAYS,
+  categoryDays: {},
+};
+
+export function toExpirySettings(store: Store | null, categories: Category[]): ExpirySettings {
+  const categoryDays: Record<string, number> = {};
+  categories.forEach((category) => {
+    if (category.near_expiry_days != null) categoryDays[category.id] = category.near_expiry_days;
+  });
+  return {
+    nearExpiryDays: store?.near_expiry_days ?? DEFAULT_NEAR_EXPIRY_DAYS,
+    categoryDays,
+  };
+}
+
+export const getNearExpiryDays = (settings: ExpirySettings, categoryId?: string): number =>
+  categoryId && categoryId in settings.categoryDays ? settings.categoryDays[categoryId] : settings.nearExpiryDays;
+
+// The longest window in use, i.e. how far ahead a worklist has to look
+export const getMaxNearExpiryDays = (settings: ExpirySettings): number =>
+  Math.max(settings.nearExpiryDays, ...Object.values(settings.categoryDays));
+
+/**
+ * Whole days from today until the expiry date; 0 on the expiry day and negative once expired
+ */
+export function getDaysUntilExpiry(expiryDate: string): number {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const expiry = new Date(expiryDate);
+  expiry.setHours(0, 0, 0, 0);
+  return Math.ceil((expiry.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+export function getExpiryStatus(expiryDate: string, nearExpiryDays = DEFAULT_NEAR_EXPIRY_DAYS): ExpiryStatus {
+  const days = getDaysUntilExpiry(expiryDate);
+  if (days < 0) return "expired";
+  if (days <= nearExpiryDays) return "near_expiry";
+  return "valid";
+}
+
+export const getBatchExpiryStatus = (batch: InventoryItem, settings: ExpirySettings): ExpiryStatus =>
+  getExpiryStatus(batch.expiry_date, getNearExpiryDays(settings, batch.product.category?.id));
+
+// Deeper discounts as the batch gets closer to its expiry date, by share of the window left
+const MARKDOWN_TIERS = [
+  { withinShare: 0.25, discountPercent: 50 },
+  { withinShare: 0.5, discountPercent: 30 },
+  { withinShare: 1, discountPercent: 15 },
+];
+
+export interface MarkdownSuggestion {
+  discountPercent: number;
+  price: number;
+}
+
+/**
+ * Suggested markdown for a near-expiry batch. The price is rounded up to the nearest Rp 100 and
+ * kept at or above the purchase price, except on the last day when recovering anything beats a write-off.
+ */
+export function getMarkdownSuggestion(
+  sellingPrice: number,
+  purchasePrice: number | undefined,
+  daysLeft: number,
+  nearExpiryDays: number
+): MarkdownSuggestion | null {
+  if (daysLeft < 0 || daysLeft > nearExpiryDays || sellingPrice <= 0) return null;
+
+  const share = nearExpiryDays > 0 ? daysLeft / nearExpiryDays : 0;
+  const tier = MARKDOWN_TIERS.find((t) => share <= t.withinShare) || MARKDOWN_TIERS[MARKDOWN_TIERS.length - 1];
+  let price = Math.ceil((sellingPrice * (100 - tier.discountPercent)) / 100 / 100) * 100;
+  if (daysLeft > 0 && purchasePrice != null && purchasePrice < sellingPrice) {
+    price = Math.max(price, Math.ceil(purchasePrice / 100) * 100);
+  }
+  if (price >= sellingPrice) return null;
+
+  return {
+    discountPercent: Math.round(((sellingPrice - price) / sellingPrice) * 100),
+    price,
+  };
+}
+
+/**
+ * In-stock batches at the store that are expired or inside their near-expiry window, soonest first
+ */
+export async function fetchExpiringBatches(settings: ExpirySettings, storeId?: string): Promise<InventoryItem[]> {
+  const horizon = new Date();
+  horizon.setDate(horizon.getDate() + getMaxNearExpiryDays(settings));
+  const batches = await listAll(api.inventories.list, {
+    store_id: storeId,
+    in_stock: true,
+    expires_before: toDateInput(horizon),
+  });
+
+  return batches
+    .filter((batch) => batch.quantity > 0 && getBatchExpiryStatus(batch, settings) !== "valid")
+    .sort((a, b) => new Date(a.expiry_date).getTime() - new Date(b.expiry_date).getTime());
+}
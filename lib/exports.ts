@@ -0,0 +1,39 @@
+import Papa from "papaparse";
+import * as XLSX from "xlsx";
+
+/**
+ * Save a generated file through a temporary download link.
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// The keys of the first row become the header; cells that look like formulas are quoted as text
+export function downloadCsv(rows: Record<string, string | number>[], filename: string): void {
+  const csv = Papa.unparse(rows, { escapeFormulae: true });
+  downloadBlob(new Blob([csv], { type: "text/csv;charset=utf-8;" }), filename);
+}
+
+// One worksheet per entry, in order; sheet names are cut to Excel's 31 character limit.
+// json_to_sheet stores strings as text cells, so formula-like values are never evaluated.
+export function downloadXlsx(sheets: { name: string; rows: Record<string, string | number>[] }[], filename: string): void {
+  const workbook = XLSX.utils.book_new();
+  sheets.forEach((sheet) => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(sheet.rows), sheet.name.slice(0, 31));
+  });
+  const data = XLSX.write(workbook, { bookType: "xlsx", type: "array" });
+  downloadBlob(
+    new Blob([data], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }),
+    filename
+  );
+}
+
+// YYYY-MM-DD, for export file names
+export const getFileDate = () => new Date().toISOString().split("T")[0];
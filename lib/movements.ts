@@ -0,0 +1,38 @@
+import { api, listAll, type InventoryMovement, type MovementListParams, type MovementType } from "@/lib/api";
+import { getAdjustmentReason } from "@/lib/adjustments";
+
+export const MOVEMENT_TYPES: { value: MovementType; label: string; translationKey: string; style: string }[] = [
+  { value: "receipt", label: "Receipt", translationKey: "movements.type.receipt", style: "bg-green-100 text-green-800" },
+  { value: "sale", label: "Sale", translationKey: "movements.type.sale", style: "bg-blue-100 text-blue-800" },
+  { value: "return", label: "Return", translationKey: "movements.type.return", style: "bg-purple-100 text-purple-800" },
+  { value: "void", label: "Void", translationKey: "movements.type.void", style: "bg-gray-100 text-gray-800" },
+  { value: "adjustment", label: "Adjustment", translationKey: "movements.type.adjustment", style: "bg-yellow-100 text-yellow-800" },
+  { value: "transfer_in", label: "Transfer In", translationKey: "movements.type.transferIn", style: "bg-teal-100 text-teal-800" },
+  { value: "transfer_out", label: "Transfer Out", translationKey: "movements.type.transferOut", style: "bg-orange-100 text-orange-800" },
+];
+
+export const getMovementType = (type: MovementType) =>
+  MOVEMENT_TYPES.find((m) => m.value === type) || MOVEMENT_TYPES[0];
+
+/**
+ * Load every movement matching the filters, newest first, for export
+ */
+export const fetchAllMovements = (
+  params: Omit<MovementListParams, "limit" | "offset">
+): Promise<InventoryMovement[]> => listAll(api.inventories.movements, params);
+
+export const toMovementCsvRows = (movements: InventoryMovement[]) =>
+  movements.map((movement) => ({
+    Date: new Date(movement.created_at).toLocaleString("id-ID"),
+    Product: movement.product.name,
+    SKU: movement.product.sku || "",
+    Location: movement.location || "",
+    "Expiry Date": movement.expiry_date || "",
+    Type: getMovementType(movement.type).label,
+    Change: movement.quantity_change,
+    "Balance After": movement.quantity_after,
+    Reference: movement.reference_number || "",
+    Reason: movement.reason ? getAdjustmentReason(movement.reason).label : "",
+    Note: movement.note || "",
+    By: movement.created_by?.name || "",
+  }));
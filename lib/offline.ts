@@ -0,0 +1,287 @@
+import { api, ApiError, listAll, type CheckoutInput, type InventoryItem } from "@/lib/api";
+import type { CartItem } from "@/lib/carts";
+
+// IndexedDB storage that lets the cashier keep selling while the connection is down:
+// a snapshot of the store's inventory to search, and an outbox of checkouts waiting to be sent.
+
+const DB_NAME = "warung_offline";
+const DB_VERSION = 1;
+const INVENTORY_STORE = "inventory";
+const OUTBOX_STORE = "outbox";
+const META_STORE = "meta";
+
+// Fired on window whenever the outbox changes so counters can refresh
+export const OUTBOX_CHANGED_EVENT = "warung:outbox-changed";
+
+// The cashier and store a checkout was rung up by; only they send it
+export interface OutboxOwner {
+  userId: string;
+  storeId: string;
+}
+
+export interface QueuedCheckout extends OutboxOwner {
+  idempotencyKey: string;
+  input: CheckoutInput;
+  // Cart lines as rung up, so a conflicted order can be reopened in the cashier
+  items: CartItem[];
+  status: "pending" | "conflict";
+  error?: string;
+  attempts: number;
+  createdAt: string;
+}
+
+export interface SyncResult {
+  synced: number;
+  conflicts: number;
+  remaining: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof window === "undefined" || !window.indexedDB) {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(INVENTORY_STORE)) {
+          db.createObjectStore(INVENTORY_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: "idempotencyKey" });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    let result: T | undefined;
+    if (request) {
+      request.onsuccess = () => {
+        result = request.result;
+      };
+    }
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function notifyOutboxChanged() {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event(OUTBOX_CHANGED_EVENT));
+  }
+}
+
+/**
+ * A failed request that never reached the server (as opposed to one the server rejected)
+ */
+export function isNetworkError(error: unknown): boolean {
+  return !(error instanceof ApiError) || error.status >= 500;
+}
+
+export function isOnline(): boolean {
+  return typeof navigator === "undefined" ? true : navigator.onLine;
+}
+
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `checkout-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/* Inventory snapshot */
+
+// A snapshot of the same store newer than this is not downloaded again
+const SNAPSHOT_MAX_AGE = 15 * 60 * 1000;
+
+/**
+ * Download the full inventory and replace the local snapshot with it. Returns the number of batches,
+ * or null when the store's snapshot is recent enough to keep.
+ */
+export async function refreshInventorySnapshot(storeId = ""): Promise<number | null> {
+  const [syncedAt, syncedStoreId] = await Promise.all([
+    getInventorySnapshotDate(),
+    withStore<string>(META_STORE, "readonly", (store) => store.get("inventoryStoreId")).catch(() => undefined),
+  ]);
+  if (syncedAt && syncedStoreId === storeId && Date.now() - new Date(syncedAt).getTime() < SNAPSHOT_MAX_AGE) {
+    return null;
+  }
+
+  const items = await listAll(api.inventories.list, { store_id: storeId }, 100);
+
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([INVENTORY_STORE, META_STORE], "readwrite");
+    const inventoryStore = transaction.objectStore(INVENTORY_STORE);
+    inventoryStore.clear();
+    items.forEach((item) => inventoryStore.put(item));
+    transaction.objectStore(META_STORE).put(new Date().toISOString(), "inventorySyncedAt");
+    transaction.objectStore(META_STORE).put(storeId, "inventoryStoreId");
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+  return items.length;
+}
+
+/**
+ * Search the local snapshot by product name, SKU or category, like the inventory endpoint does
+ */
+export async function searchInventorySnapshot(search: string): Promise<InventoryItem[]> {
+  const items = (await withStore<InventoryItem[]>(INVENTORY_STORE, "readonly", (store) => store.getAll())) || [];
+  const query = search.trim().toLowerCase();
+  if (!query) return items;
+
+  return items.filter(
+    (item) =>
+      item.product.name.toLowerCase().includes(query) ||
+      item.product.sku?.toLowerCase().includes(query) ||
+      item.product.category?.name.toLowerCase().includes(query)
+  );
+}
+
+// Every batch of one product in the local snapshot
+export async function getSnapshotBatches(productId: string): Promise<InventoryItem[]> {
+  const items = (await withStore<InventoryItem[]>(INVENTORY_STORE, "readonly", (store) => store.getAll())) || [];
+  return items.filter((item) => item.product.id === productId);
+}
+
+export async function getInventorySnapshotDate(): Promise<string | null> {
+  try {
+    return (await withStore<string>(META_STORE, "readonly", (store) => store.get("inventorySyncedAt"))) || null;
+  } catch {
+    return null;
+  }
+}
+
+/* Checkout outbox */
+
+const isOwnedBy = (queued: QueuedCheckout, owner: OutboxOwner) =>
+  queued.userId === owner.userId && queued.storeId === owner.storeId;
+
+/**
+ * The owner's queued checkouts, oldest first. Other cashiers' checkouts stay in the outbox for them.
+ */
+export async function getQueuedCheckouts(owner: OutboxOwner): Promise<QueuedCheckout[]> {
+  try {
+    const queued = (await withStore<QueuedCheckout[]>(OUTBOX_STORE, "readonly", (store) => store.getAll())) || [];
+    return queued
+      .filter((checkout) => isOwnedBy(checkout, owner))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (error) {
+    console.error("Failed to read checkout outbox:", error);
+    return [];
+  }
+}
+
+export async function queueCheckout(
+  input: CheckoutInput,
+  idempotencyKey: string,
+  items: CartItem[],
+  owner: OutboxOwner
+): Promise<QueuedCheckout> {
+  const queued: QueuedCheckout = {
+    ...owner,
+    idempotencyKey,
+    input,
+    items,
+    status: "pending",
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  };
+  await withStore(OUTBOX_STORE, "readwrite", (store) => store.put(queued));
+  notifyOutboxChanged();
+  return queued;
+}
+
+async function putQueuedCheckout(queued: QueuedCheckout) {
+  await withStore(OUTBOX_STORE, "readwrite", (store) => store.put(queued));
+  notifyOutboxChanged();
+}
+
+export async function removeQueuedCheckout(idempotencyKey: string): Promise<void> {
+  await withStore(OUTBOX_STORE, "readwrite", (store) => store.delete(idempotencyKey));
+  notifyOutboxChanged();
+}
+
+/**
+ * Mark a conflicted checkout as pending again so the next sync retries it
+ */
+export async function retryQueuedCheckout(queued: QueuedCheckout): Promise<void> {
+  await putQueuedCheckout({ ...queued, status: "pending", error: undefined });
+}
+
+// Running syncs by owner, so one cashier's sync never answers for another's outbox
+const syncsInProgress = new Map<string, Promise<SyncResult>>();
+
+/**
+ * Send the owner's pending checkouts in the order they were queued. Stops at the first network failure;
+ * checkouts the server rejects (e.g. because they would oversell stock) are marked as conflicts.
+ */
+export function syncOutbox(owner: OutboxOwner): Promise<SyncResult> {
+  const key = `${owner.userId}:${owner.storeId}`;
+  let sync = syncsInProgress.get(key);
+  if (!sync) {
+    sync = runSync(owner).finally(() => {
+      syncsInProgress.delete(key);
+    });
+    syncsInProgress.set(key, sync);
+  }
+  return sync;
+}
+
+async function runSync(owner: OutboxOwner): Promise<SyncResult> {
+  const result: SyncResult = { synced: 0, conflicts: 0, remaining: 0 };
+  const queued = await getQueuedCheckouts(owner);
+
+  for (const checkout of queued) {
+    if (checkout.status === "conflict") {
+      result.conflicts++;
+      continue;
+    }
+
+    try {
+      await api.orders.checkout(checkout.input, checkout.idempotencyKey);
+      await removeQueuedCheckout(checkout.idempotencyKey);
+      result.synced++;
+    } catch (error) {
+      if (isNetworkError(error) || (error instanceof ApiError && error.status === 401)) {
+        await putQueuedCheckout({ ...checkout, attempts: checkout.attempts + 1 });
+        result.remaining = queued.filter((q) => q.status === "pending").length - result.synced;
+        return result;
+      }
+      await putQueuedCheckout({
+        ...checkout,
+        status: "conflict",
+        error: error instanceof ApiError ? error.message : "Order was rejected",
+        attempts: checkout.attempts + 1,
+      });
+      result.conflicts++;
+    }
+  }
+
+  return result;
+}
@@ -1,3 +1,8 @@
+import type { Translate } from "@/contexts/LanguageContext";
+import { api, listAll, type ApiOrder, type OrderListParams, type OrderStatus, type PaymentInput } from "@/lib/api";
+import { downloadCsv, downloadXlsx } from "@/lib/exports";
+import { getPaymentMethodLabel } from "@/lib/payments";
+
 export interface OrderItem {
   id: string;
   sku: string;
@@ -11,51 +16,109 @@ export interface Order {
   orderNumber: string;
   items: OrderItem[];
   total: number;
-  status: "completed" | "pending" | "processing";
+  status: "completed" | "pending" | "processing" | "partially_refunded" | "refunded" | "voided";
   createdAt: string;
   customerName?: string;
+  payments?: PaymentInput[];
+  // `total` is net of discounts
+  grossTotal?: number;
+  discountTotal?: number;
+  discountReason?: string;
+  refundTotal?: number;
 }
 
-const STORAGE_KEY = "warung_orders";
-
-export const getOrders = (): Order[] => {
-  if (typeof window === "undefined") return [];
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    return stored ? JSON.parse(stored) : [];
-  } catch {
-    return [];
-  }
+export const ORDER_STATUS_STYLES: Record<Order["status"], string> = {
+  completed: "bg-green-100 text-green-800",
+  pending: "bg-yellow-100 text-yellow-800",
+  processing: "bg-blue-100 text-blue-800",
+  partially_refunded: "bg-orange-100 text-orange-800",
+  refunded: "bg-purple-100 text-purple-800",
+  voided: "bg-gray-200 text-gray-700",
 };
 
-export const saveOrder = (order: Order): void => {
-  if (typeof window === "undefined") return;
-  try {
-    const orders = getOrders();
-    orders.unshift(order); // Add to beginning
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(orders));
-  } catch (error) {
-    console.error("Failed to save order:", error);
+export const formatOrderStatus = (status: Order["status"]): string =>
+  status
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+
+// Statuses the order list can be filtered by
+export const ORDER_STATUSES: { value: OrderStatus; label: string; translationKey: string }[] = [
+  { value: "completed", label: "Completed", translationKey: "orders.status.completed" },
+  { value: "partially_refunded", label: "Partially Refunded", translationKey: "orders.status.partiallyRefunded" },
+  { value: "refunded", label: "Refunded", translationKey: "orders.status.refunded" },
+  { value: "voided", label: "Voided", translationKey: "orders.status.voided" },
+];
+
+export function validateAmountRange(min: string, max: string, t: Translate): string | null {
+  const minValue = parseFloat(min);
+  const maxValue = parseFloat(max);
+  if ((min && (isNaN(minValue) || minValue < 0)) || (max && (isNaN(maxValue) || maxValue < 0))) {
+    return t("orders.amountsInvalid") || "Enter amounts of zero or more";
   }
-};
+  if (min && max && minValue > maxValue) {
+    return t("orders.amountRangeInvalid") || "The minimum amount cannot be more than the maximum";
+  }
+  return null;
+}
 
-export const createOrder = (
-  items: OrderItem[],
-  customerName?: string
-): Order => {
-  const total = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
-  const orders = getOrders();
-  const orderNumber = `ORD-${String(orders.length + 1).padStart(3, "0")}`;
-  const orderId = `order-${Date.now()}`;
-
-  return {
-    id: orderId,
-    orderNumber,
-    items,
-    total,
-    status: "completed",
-    createdAt: new Date().toISOString(),
-    customerName: customerName || "Walk-in Customer",
-  };
-};
+/**
+ * Load every order matching the filters, newest first, for export
+ */
+export const fetchAllOrders = (params: Omit<OrderListParams, "limit" | "offset">): Promise<ApiOrder[]> =>
+  listAll(api.orders.list, params);
+
+const toAmount = (value?: string | null) => parseFloat(value || "") || 0;
+
+const toOrderColumns = (order: ApiOrder) => ({
+  Invoice: order.invoice_number || `ORD-${order.id}`,
+  Date: new Date(order.created_at).toLocaleString("id-ID"),
+  Store: order.store?.name || "",
+  Cashier: order.created_by?.name || "",
+  Customer: order.customer_name || "Walk-in Customer",
+  Status: formatOrderStatus(order.status || "completed"),
+});
+
+const toOrderRows = (orders: ApiOrder[]) =>
+  orders.map((order) => ({
+    ...toOrderColumns(order),
+    "Gross Total": toAmount(order.gross_total) || toAmount(order.total_price),
+    Discount: toAmount(order.discount_total),
+    "Net Total": toAmount(order.total_price),
+    Refunded: toAmount(order.refund_total),
+    Payments: (order.payments || [])
+      .map((payment) => `${getPaymentMethodLabel(payment.method)} ${toAmount(payment.amount)}`)
+      .join("; "),
+  }));
+
+// One row per line item, repeating the order's columns so the rows can be filtered on their own
+const toOrderItemRows = (orders: ApiOrder[]) =>
+  orders.flatMap((order) =>
+    (order.orderItems || []).map((item) => {
+      const total = toAmount(item.total_price);
+      const discount = toAmount(item.discount_amount);
+      return {
+        ...toOrderColumns(order),
+        Product: item.product?.name || "",
+        SKU: item.product?.sku || "",
+        Quantity: item.quantity,
+        "Unit Price": item.quantity ? (total + discount) / item.quantity : 0,
+        Discount: discount,
+        "Line Total": total,
+        Returned: item.returned_quantity || 0,
+      };
+    })
+  );
+
+export const exportOrdersCsv = (orders: ApiOrder[], filename: string) =>
+  downloadCsv(toOrderItemRows(orders), filename);
 
+// Order totals and line items on separate sheets
+export const exportOrdersXlsx = (orders: ApiOrder[], filename: string) =>
+  downloadXlsx(
+    [
+      { name: "Orders", rows: toOrderRows(orders) },
+      { name: "Items", rows: toOrderItemRows(orders) },
+    ],
+    filename
+  );
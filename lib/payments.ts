@@ -0,0 +1,103 @@
+import type { ApiOrderPayment, PaymentInput, PaymentMethod } from "@/lib/api";
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string; translationKey: string }[] = [
+  { value: "cash", label: "Cash", translationKey: "payments.cash" },
+  { value: "qris", label: "QRIS", translationKey: "payments.qris" },
+  { value: "bank_transfer", label: "Bank Transfer", translationKey: "payments.bankTransfer" },
+  { value: "e_wallet", label: "E-Wallet", translationKey: "payments.eWallet" },
+  { value: "kasbon", label: "Pay Later (Kasbon)", translationKey: "payments.kasbon" },
+];
+
+// Methods that settle money on the spot, e.g. for kasbon repayments
+export const SETTLEMENT_METHODS = PAYMENT_METHODS.filter((m) => m.value !== "kasbon");
+
+export const getPaymentMethodLabel = (method: PaymentMethod): string =>
+  PAYMENT_METHODS.find((m) => m.value === method)?.label || method;
+
+// One payment line in the checkout form; amounts are kept as strings while being edited
+export interface TenderLine {
+  method: PaymentMethod;
+  amount: string;
+  reference: string;
+}
+
+export const createTenderLine = (method: PaymentMethod = "cash", amount = ""): TenderLine => ({
+  method,
+  amount,
+  reference: "",
+});
+
+export interface TenderSummary {
+  payments: PaymentInput[];
+  paid: number;
+  remaining: number;
+  change: number;
+  error: string | null;
+}
+
+/**
+ * Work out what has been paid against `total`. Only cash can be overpaid; the excess is
+ * returned as change and deducted from the cash lines in the payment breakdown.
+ */
+export function calculateTender(lines: TenderLine[], total: number): TenderSummary {
+  const entries = lines
+    .map((line) => ({ ...line, value: parseFloat(line.amount) || 0 }))
+    .filter((line) => line.value !== 0);
+
+  const summary: TenderSummary = { payments: [], paid: 0, remaining: total, change: 0, error: null };
+
+  if (entries.some((line) => line.value < 0)) {
+    summary.error = "Payment amounts cannot be negative";
+    return summary;
+  }
+
+  const paid = entries.reduce((sum, line) => sum + line.value, 0);
+  const nonCash = entries.filter((line) => line.method !== "cash").reduce((sum, line) => sum + line.value, 0);
+  summary.paid = paid;
+  summary.remaining = Math.max(total - paid, 0);
+
+  if (nonCash > total) {
+    summary.error = "Non-cash payments cannot be more than the total";
+    return summary;
+  }
+
+  summary.change = Math.max(paid - total, 0);
+
+  // Take the change back out of the cash lines, last line first
+  let changeLeft = summary.change;
+  const payments: PaymentInput[] = [];
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const line = entries[i];
+    if (line.method === "cash") {
+      const returned = Math.min(changeLeft, line.value);
+      changeLeft -= returned;
+      payments.unshift({
+        method: "cash",
+        amount: line.value - returned,
+        amount_received: line.value,
+        change: returned,
+      });
+    } else {
+      payments.unshift({
+        method: line.method,
+        amount: line.value,
+        ...(line.reference.trim() && { reference: line.reference.trim() }),
+      });
+    }
+  }
+  summary.payments = payments;
+
+  return summary;
+}
+
+/**
+ * Convert the payments returned with an order into numbers
+ */
+export const parseOrderPayments = (payments: ApiOrderPayment[] | undefined): PaymentInput[] =>
+  (payments || []).map((payment) => ({
+    method: payment.method,
+    amount: parseFloat(payment.amount) || 0,
+    ...(payment.amount_received != null && { amount_received: parseFloat(payment.amount_received) || 0 }),
+    ...(payment.change != null && { change: parseFloat(payment.change) || 0 }),
+    ...(payment.reference && { reference: payment.reference }),
+  }));
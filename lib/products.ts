@@ -0,0 +1,73 @@
+import type { Translate } from "@/contexts/LanguageContext";
+import type { Product, ProductInput } from "@/lib/api";
+
+// Raw form state shared by AddProductModal and the product edit page
+export interface ProductFormData {
+  name: string;
+  category_id: string;
+  sku: string;
+  selling_price: string;
+  purchase_price: string;
+  store_id: string;
+  // Optional; blank leaves the product off the reorder list
+  reorder_point: string;
+  reorder_quantity: string;
+}
+
+export const emptyProductForm: ProductFormData = {
+  name: "",
+  category_id: "",
+  sku: "",
+  selling_price: "",
+  purchase_price: "",
+  store_id: "",
+  reorder_point: "",
+  reorder_quantity: "",
+};
+
+export function productToFormData(product: Product): ProductFormData {
+  return {
+    name: product.name || "",
+    category_id: product.category?.id || "",
+    sku: product.sku || "",
+    selling_price: product.selling_price != null ? String(product.selling_price) : "",
+    purchase_price: product.purchase_price != null ? String(product.purchase_price) : "",
+    store_id: product.store_id || "",
+    reorder_point: product.reorder_point != null ? String(product.reorder_point) : "",
+    reorder_quantity: product.reorder_quantity != null ? String(product.reorder_quantity) : "",
+  };
+}
+
+/**
+ * Validate the product form. Returns an error message, or null when the form is valid.
+ * Store is only required when the current user can choose one (super admin).
+ */
+export function validateProductForm(formData: ProductFormData, requireStore: boolean, t: Translate): string | null {
+  if (
+    !formData.name ||
+    !formData.category_id ||
+    !formData.selling_price ||
+    !formData.purchase_price ||
+    (requireStore && !formData.store_id)
+  ) {
+    return t("products.requiredFields") || "Please fill in all required fields";
+  }
+  if (formData.reorder_quantity && !formData.reorder_point) {
+    return t("products.reorderPointRequired") || "Set a reorder point to use a reorder quantity";
+  }
+  return null;
+}
+
+export function toProductInput(formData: ProductFormData, includeStore: boolean): ProductInput {
+  return {
+    name: formData.name,
+    category_id: formData.category_id,
+    ...(formData.sku && { sku: formData.sku }),
+    selling_price: parseFloat(formData.selling_price),
+    purchase_price: parseFloat(formData.purchase_price),
+    ...(includeStore && formData.store_id && { store_id: formData.store_id }),
+    // Blank fields are sent as null so an edit can clear them
+    reorder_point: formData.reorder_point ? parseInt(formData.reorder_point) : null,
+    reorder_quantity: formData.reorder_quantity ? parseInt(formData.reorder_quantity) : null,
+  };
+}
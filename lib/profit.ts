@@ -0,0 +1,78 @@
+import type { ProfitGrouping, ProfitReportRow } from "@/lib/api";
+import { downloadXlsx } from "@/lib/exports";
+import type { DateRange } from "@/lib/sales";
+
+export const PROFIT_GROUPINGS: { value: ProfitGrouping; label: string; translationKey: string }[] = [
+  { value: "product", label: "Product", translationKey: "profit.group.product" },
+  { value: "category", label: "Category", translationKey: "profit.group.category" },
+  { value: "store", label: "Store", translationKey: "profit.group.store" },
+];
+
+export const getGrossProfit = (row: { revenue: number; cogs: number }): number => row.revenue - row.cogs;
+
+// Gross margin as a percentage of revenue; null when nothing was sold
+export const getMargin = (row: { revenue: number; cogs: number }): number | null =>
+  row.revenue === 0 ? null : (getGrossProfit(row) / row.revenue) * 100;
+
+export const isBelowCost = (row: ProfitReportRow): boolean => row.below_cost_quantity > 0 || row.revenue < row.cogs;
+
+export interface ProfitTotals {
+  quantity: number;
+  revenue: number;
+  cogs: number;
+  belowCostRows: number;
+}
+
+export const getProfitTotals = (rows: ProfitReportRow[]): ProfitTotals =>
+  rows.reduce(
+    (totals, row) => ({
+      quantity: totals.quantity + row.quantity,
+      revenue: totals.revenue + row.revenue,
+      cogs: totals.cogs + row.cogs,
+      belowCostRows: totals.belowCostRows + (isBelowCost(row) ? 1 : 0),
+    }),
+    { quantity: 0, revenue: 0, cogs: 0, belowCostRows: 0 }
+  );
+
+export const formatMargin = (margin: number | null): string => (margin == null ? "-" : `${margin.toFixed(1)}%`);
+
+const toSheetRows = (rows: ProfitReportRow[], grouping: ProfitGrouping) =>
+  rows.map((row) => {
+    const margin = getMargin(row);
+    return {
+      [PROFIT_GROUPINGS.find((g) => g.value === grouping)?.label || "Name"]: row.name,
+      ...(grouping === "product" && { SKU: row.sku || "" }),
+      "Units Sold": row.quantity,
+      Revenue: row.revenue,
+      COGS: row.cogs,
+      "Gross Profit": getGrossProfit(row),
+      "Margin %": margin == null ? "" : Number(margin.toFixed(2)),
+      "Units Below Cost": row.below_cost_quantity,
+    };
+  });
+
+/**
+ * Download the report as an XLSX workbook: a summary sheet followed by the rows
+ */
+export function exportProfitXlsx(rows: ProfitReportRow[], grouping: ProfitGrouping, range: DateRange, storeName: string): void {
+  const totals = getProfitTotals(rows);
+  const summary = [
+    { Field: "Store", Value: storeName },
+    { Field: "From", Value: range.from },
+    { Field: "To", Value: range.to },
+    { Field: "Units Sold", Value: totals.quantity },
+    { Field: "Revenue", Value: totals.revenue },
+    { Field: "COGS", Value: totals.cogs },
+    { Field: "Gross Profit", Value: getGrossProfit(totals) },
+    { Field: "Margin %", Value: formatMargin(getMargin(totals)) },
+  ];
+  const label = PROFIT_GROUPINGS.find((g) => g.value === grouping)?.label || "Report";
+
+  downloadXlsx(
+    [
+      { name: "Summary", rows: summary },
+      { name: `By ${label}`, rows: toSheetRows(rows, grouping) },
+    ],
+    `gross_profit_${grouping}_${range.from}_${range.to}.xlsx`
+  );
+}
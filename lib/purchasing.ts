@@ -0,0 +1,95 @@
+import type { Translate } from "@/contexts/LanguageContext";
+import type { PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus } from "@/lib/api";
+
+export const PURCHASE_ORDER_STATUSES: { value: PurchaseOrderStatus; label: string; translationKey: string; style: string }[] = [
+  { value: "draft", label: "Draft", translationKey: "purchaseOrders.status.draft", style: "bg-gray-100 text-gray-800" },
+  { value: "ordered", label: "Ordered", translationKey: "purchaseOrders.status.ordered", style: "bg-blue-100 text-blue-800" },
+  {
+    value: "partially_received",
+    label: "Partially Received",
+    translationKey: "purchaseOrders.status.partiallyReceived",
+    style: "bg-yellow-100 text-yellow-800",
+  },
+  { value: "received", label: "Received", translationKey: "purchaseOrders.status.received", style: "bg-green-100 text-green-800" },
+  { value: "cancelled", label: "Cancelled", translationKey: "purchaseOrders.status.cancelled", style: "bg-red-100 text-red-800" },
+];
+
+export const getPurchaseOrderStatus = (status: PurchaseOrderStatus) =>
+  PURCHASE_ORDER_STATUSES.find((s) => s.value === status) || PURCHASE_ORDER_STATUSES[0];
+
+export const getOutstandingQuantity = (line: PurchaseOrderLine): number =>
+  Math.max(line.quantity - line.received_quantity, 0);
+
+export const canReceive = (order: PurchaseOrder): boolean =>
+  (order.status === "ordered" || order.status === "partially_received") &&
+  order.items.some((line) => getOutstandingQuantity(line) > 0);
+
+// One product line in the draft form; numbers are kept as strings while being edited
+export interface DraftLine {
+  productId: string;
+  name: string;
+  sku: string;
+  quantity: string;
+  unitCost: string;
+}
+
+export const getDraftTotal = (lines: DraftLine[]): number =>
+  lines.reduce((sum, line) => sum + (parseFloat(line.quantity) || 0) * (parseFloat(line.unitCost) || 0), 0);
+
+export function validateDraft(supplierId: string, lines: DraftLine[], t: Translate): string | null {
+  if (!supplierId) return t("purchaseOrders.supplierRequired") || "Please select a supplier";
+  if (lines.length === 0) return t("purchaseOrders.productRequired") || "Add at least one product";
+  for (const line of lines) {
+    if (!(parseInt(line.quantity) > 0)) {
+      return (t("purchaseOrders.quantityRequired") || "Enter a quantity for {{name}}").replace("{{name}}", line.name);
+    }
+    if (!(parseFloat(line.unitCost) >= 0)) {
+      return (t("purchaseOrders.unitCostRequired") || "Enter a unit cost for {{name}}").replace("{{name}}", line.name);
+    }
+  }
+  return null;
+}
+
+// One line of the receiving form
+export interface ReceiveLine {
+  lineId: string;
+  quantity: string;
+  expiryDate: string;
+  location: string;
+}
+
+export const createReceiveLines = (order: PurchaseOrder): ReceiveLine[] =>
+  order.items.map((line) => ({
+    lineId: line.id,
+    quantity: String(getOutstandingQuantity(line)),
+    expiryDate: "",
+    location: "",
+  }));
+
+export function validateReceive(order: PurchaseOrder, lines: ReceiveLine[], t: Translate): string | null {
+  const selected = lines.filter((line) => (parseInt(line.quantity) || 0) > 0);
+  if (selected.length === 0) {
+    return t("purchaseOrders.receivedRequired") || "Enter the quantity received for at least one product";
+  }
+
+  for (const line of selected) {
+    const orderLine = order.items.find((item) => item.id === line.lineId);
+    const name = orderLine?.product.name || t("common.aProduct") || "a product";
+    if (!orderLine || parseInt(line.quantity) > getOutstandingQuantity(orderLine)) {
+      return (t("purchaseOrders.overReceived") || "Cannot receive more {{name}} than is still outstanding").replace(
+        "{{name}}",
+        name
+      );
+    }
+    if (!line.expiryDate) {
+      return (t("purchaseOrders.expiryRequired") || "Enter the expiry date for {{name}}").replace("{{name}}", name);
+    }
+    if (!line.location.trim()) {
+      return (t("purchaseOrders.locationRequired") || "Enter the storage location for {{name}}").replace(
+        "{{name}}",
+        name
+      );
+    }
+  }
+  return null;
+}
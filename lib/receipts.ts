@@ -0,0 +1,421 @@
+import type { ApiOrder, CheckoutInput, PaymentInput, Store } from "@/lib/api";
+import type { CartItem } from "@/lib/carts";
+import { getLineDiscount, getLineGross } from "@/lib/discounts";
+import { downloadBlob } from "@/lib/exports";
+import { getPaymentMethodLabel, parseOrderPayments } from "@/lib/payments";
+
+export type PaperWidth = 58 | 80;
+
+export interface ReceiptItem {
+  name: string;
+  quantity: number;
+  price: number;
+  // Line total after the line discount
+  total: number;
+  discount: number;
+}
+
+export interface Receipt {
+  storeName: string;
+  storeAddress?: string;
+  storePhone?: string;
+  // Empty while a checkout is still waiting in the offline outbox
+  invoiceNumber: string;
+  date: string;
+  cashierName?: string;
+  customerName: string;
+  items: ReceiptItem[];
+  // Before any discount
+  grossTotal: number;
+  // Order-level discount, on top of the line discounts
+  orderDiscount: number;
+  total: number;
+  payments: PaymentInput[];
+  change: number;
+}
+
+// A formatted receipt line, already padded to the paper width
+export interface ReceiptLine {
+  text: string;
+  bold?: boolean;
+}
+
+// Characters per line on common thermal printers (font A)
+const COLUMNS: Record<PaperWidth, number> = { 58: 32, 80: 48 };
+
+const PAPER_STORAGE_KEY = "warung_receipt_paper";
+
+export const getPaperWidth = (): PaperWidth => {
+  if (typeof window === "undefined") return 58;
+  return localStorage.getItem(PAPER_STORAGE_KEY) === "80" ? 80 : 58;
+};
+
+export const setPaperWidth = (paper: PaperWidth): void => {
+  if (typeof window !== "undefined") {
+    localStorage.setItem(PAPER_STORAGE_KEY, String(paper));
+  }
+};
+
+/**
+ * Build a receipt from an order returned by the API. `payments` overrides the order's own
+ * breakdown, for backends that don't echo it back in the checkout response.
+ */
+export function receiptFromOrder(
+  order: ApiOrder,
+  store?: Store | null,
+  payments?: PaymentInput[],
+  cashierName?: string
+): Receipt {
+  const orderPayments = order.payments?.length ? parseOrderPayments(order.payments) : payments || [];
+  const items = (order.orderItems || []).map((item) => {
+    const total = parseFloat(item.total_price) || 0;
+    const discount = parseFloat(item.discount_amount || "") || 0;
+    const price =
+      parseFloat(item.product?.selling_price) || (item.quantity ? (total + discount) / item.quantity : 0);
+    return {
+      name: item.product?.name || "Unknown Product",
+      quantity: item.quantity || 0,
+      price,
+      total: total || price * item.quantity - discount,
+      discount,
+    };
+  });
+  const total = parseFloat(order.total_price) || items.reduce((sum, item) => sum + item.total, 0);
+  const lineDiscounts = items.reduce((sum, item) => sum + item.discount, 0);
+  const discountTotal = parseFloat(order.discount_total || "") || lineDiscounts;
+
+  return {
+    storeName: store?.name || order.store?.name || "",
+    storeAddress: store?.address,
+    storePhone: store?.phone,
+    invoiceNumber: order.invoice_number || `ORD-${order.id}`,
+    date: order.created_at || new Date().toISOString(),
+    cashierName: order.created_by?.name || cashierName,
+    customerName: order.customer_name || "Walk-in Customer",
+    items,
+    grossTotal: parseFloat(order.gross_total || "") || total + discountTotal,
+    orderDiscount: Math.max(discountTotal - lineDiscounts, 0),
+    total,
+    payments: orderPayments,
+    change: orderPayments.reduce((sum, payment) => sum + (payment.change || 0), 0),
+  };
+}
+
+/**
+ * Build a provisional receipt for a checkout that was queued offline and has no invoice yet
+ */
+export function receiptFromCheckout(
+  input: CheckoutInput,
+  items: CartItem[],
+  store?: Store | null,
+  cashierName?: string
+): Receipt {
+  const payments = input.payments || [];
+  const lineDiscounts = items.reduce((sum, item) => sum + getLineDiscount(item), 0);
+  return {
+    storeName: store?.name || "",
+    storeAddress: store?.address,
+    storePhone: store?.phone,
+    invoiceNumber: "",
+    date: new Date().toISOString(),
+    cashierName,
+    customerName: input.customer_name,
+    items: items.map((item) => ({
+      name: item.name,
+      quantity: item.quantity,
+      price: item.price,
+      total: getLineGross(item) - getLineDiscount(item),
+      discount: getLineDiscount(item),
+    })),
+    grossTotal: input.gross_total ?? input.grand_total + lineDiscounts,
+    orderDiscount: input.discount?.amount || 0,
+    total: input.grand_total,
+    payments,
+    change: payments.reduce((sum, payment) => sum + (payment.change || 0), 0),
+  };
+}
+
+const formatAmount = (value: number) => value.toLocaleString("id-ID");
+
+// Thermal printers and the built-in PDF font only cover ASCII
+const toAscii = (text: string) => text.replace(/[^\x20-\x7E]/g, "?");
+
+function wrap(text: string, width: number): string[] {
+  const words = toAscii(text).split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = "";
+  words.forEach((word) => {
+    while (word.length > width) {
+      if (current) {
+        lines.push(current);
+        current = "";
+      }
+      lines.push(word.slice(0, width));
+      word = word.slice(width);
+    }
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= width) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+}
+
+const center = (text: string, width: number) => {
+  const padding = Math.max(Math.floor((width - text.length) / 2), 0);
+  return " ".repeat(padding) + text;
+};
+
+// Label on the left, value on the right
+const row = (label: string, value: string, width: number) => {
+  const safeLabel = toAscii(label);
+  const safeValue = toAscii(value);
+  const space = width - safeLabel.length - safeValue.length;
+  if (space >= 1) return safeLabel + " ".repeat(space) + safeValue;
+  return `${safeLabel.slice(0, Math.max(width - safeValue.length - 1, 0))} ${safeValue}`;
+};
+
+/**
+ * Lay the receipt out as fixed-width text. The preview, ESC/POS output, image and PDF
+ * all render these same lines so they always match.
+ */
+export function formatReceiptLines(receipt: Receipt, paper: PaperWidth): ReceiptLine[] {
+  const width = COLUMNS[paper];
+  const divider = { text: "-".repeat(width) };
+  const lines: ReceiptLine[] = [];
+
+  wrap(receipt.storeName, width).forEach((text) => lines.push({ text: center(text, width), bold: true }));
+  if (receipt.storeAddress) {
+    wrap(receipt.storeAddress, width).forEach((text) => lines.push({ text: center(text, width) }));
+  }
+  if (receipt.storePhone) {
+    lines.push({ text: center(toAscii(`Telp: ${receipt.storePhone}`), width) });
+  }
+
+  lines.push(divider);
+  lines.push({ text: row("Invoice", receipt.invoiceNumber || "(pending sync)", width) });
+  lines.push({
+    text: row(
+      "Date",
+      new Date(receipt.date).toLocaleString("id-ID", { dateStyle: "short", timeStyle: "short" }),
+      width
+    ),
+  });
+  if (receipt.cashierName) {
+    lines.push({ text: row("Cashier", receipt.cashierName, width) });
+  }
+  lines.push({ text: row("Customer", receipt.customerName, width) });
+  lines.push(divider);
+
+  receipt.items.forEach((item) => {
+    wrap(item.name, width).forEach((text) => lines.push({ text }));
+    lines.push({
+      text: row(`  ${item.quantity} x ${formatAmount(item.price)}`, formatAmount(item.total + item.discount), width),
+    });
+    if (item.discount > 0) {
+      lines.push({ text: row("  Discount", `-${formatAmount(item.discount)}`, width) });
+    }
+  });
+
+  lines.push(divider);
+  if (receipt.grossTotal > receipt.total) {
+    lines.push({ text: row("Subtotal", formatAmount(receipt.grossTotal), width) });
+    if (receipt.orderDiscount > 0) {
+      lines.push({ text: row("Discount", `-${formatAmount(receipt.orderDiscount)}`, width) });
+    }
+  }
+  lines.push({ text: row("TOTAL", `Rp ${formatAmount(receipt.total)}`, width), bold: true });
+  receipt.payments.forEach((payment) => {
+    const label = getPaymentMethodLabel(payment.method);
+    const amount = payment.method === "cash" ? payment.amount_received ?? payment.amount : payment.amount;
+    lines.push({ text: row(label, formatAmount(amount), width) });
+    if (payment.reference) {
+      lines.push({ text: row("  Ref", payment.reference, width) });
+    }
+  });
+  if (receipt.change > 0) {
+    lines.push({ text: row("Change", formatAmount(receipt.change), width), bold: true });
+  }
+  lines.push(divider);
+  lines.push({ text: center("Terima kasih!", width) });
+
+  return lines;
+}
+
+/* ESC/POS output */
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+/**
+ * Encode the receipt as ESC/POS commands for a thermal printer
+ */
+export function buildEscPosReceipt(receipt: Receipt, paper: PaperWidth): Uint8Array {
+  const bytes: number[] = [ESC, 0x40]; // initialize
+
+  formatReceiptLines(receipt, paper).forEach((line) => {
+    if (line.bold) bytes.push(ESC, 0x45, 1);
+    for (let i = 0; i < line.text.length; i++) {
+      bytes.push(line.text.charCodeAt(i));
+    }
+    bytes.push(LF);
+    if (line.bold) bytes.push(ESC, 0x45, 0);
+  });
+
+  // Feed past the tear bar and cut
+  bytes.push(GS, 0x56, 0x41, 3);
+  return new Uint8Array(bytes);
+}
+
+// Web Serial isn't in the TypeScript DOM library yet; this is the part of it we use
+interface SerialPortLike {
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+  writable: WritableStream<Uint8Array> | null;
+}
+
+type NavigatorWithSerial = Navigator & {
+  serial?: { requestPort(): Promise<SerialPortLike> };
+};
+
+let printerPort: SerialPortLike | null = null;
+
+export const isSerialPrintingSupported = (): boolean =>
+  typeof navigator !== "undefined" && !!(navigator as NavigatorWithSerial).serial;
+
+/**
+ * Send ESC/POS bytes to a USB or Bluetooth (serial profile) printer. The browser asks the
+ * user to pick a port the first time; the same port is reused afterwards.
+ */
+export async function printViaSerial(bytes: Uint8Array, baudRate = 9600): Promise<void> {
+  const serial = (navigator as NavigatorWithSerial).serial;
+  if (!serial) {
+    throw new Error("This browser cannot connect to serial printers");
+  }
+
+  if (!printerPort) {
+    printerPort = await serial.requestPort();
+  }
+  await printerPort.open({ baudRate });
+  try {
+    if (!printerPort.writable) {
+      throw new Error("Printer is not writable");
+    }
+    const writer = printerPort.writable.getWriter();
+    try {
+      await writer.write(bytes);
+    } finally {
+      writer.releaseLock();
+    }
+  } finally {
+    await printerPort.close();
+  }
+}
+
+/* Image and PDF export */
+
+/**
+ * Draw the receipt onto a canvas and return it as a PNG
+ */
+export function renderReceiptImage(receipt: Receipt, paper: PaperWidth): Promise<Blob> {
+  const lines = formatReceiptLines(receipt, paper);
+  const fontSize = 20;
+  const lineHeight = Math.round(fontSize * 1.4);
+  const padding = 24;
+
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d");
+  if (!context) {
+    return Promise.reject(new Error("Canvas is not supported"));
+  }
+
+  context.font = `${fontSize}px monospace`;
+  const charWidth = context.measureText("M").width;
+  canvas.width = Math.ceil(COLUMNS[paper] * charWidth + padding * 2);
+  canvas.height = lines.length * lineHeight + padding * 2;
+
+  // Resizing the canvas resets its state
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = "#000000";
+  context.textBaseline = "top";
+  lines.forEach((line, index) => {
+    context.font = `${line.bold ? "bold " : ""}${fontSize}px monospace`;
+    context.fillText(line.text, padding, padding + index * lineHeight);
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to render receipt"))), "image/png");
+  });
+}
+
+const escapePdfText = (text: string) => text.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+
+/**
+ * Build a single-page PDF sized to the paper roll, using the standard Courier fonts
+ */
+export function buildReceiptPdf(receipt: Receipt, paper: PaperWidth): Blob {
+  const lines = formatReceiptLines(receipt, paper);
+  const mmToPt = 72 / 25.4;
+  const margin = 3 * mmToPt;
+  const pageWidth = paper * mmToPt;
+  // Courier glyphs are 0.6em wide
+  const fontSize = (pageWidth - margin * 2) / (COLUMNS[paper] * 0.6);
+  const leading = fontSize * 1.3;
+  const pageHeight = lines.length * leading + margin * 2;
+
+  const content = [
+    "BT",
+    `${leading.toFixed(2)} TL`,
+    `${margin.toFixed(2)} ${(pageHeight - margin - fontSize).toFixed(2)} Td`,
+    ...lines.map(
+      (line) => `/${line.bold ? "F2" : "F1"} ${fontSize.toFixed(2)} Tf (${escapePdfText(line.text)}) Tj T*`
+    ),
+    "ET",
+  ].join("\n");
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth.toFixed(2)} ${pageHeight.toFixed(2)}] ` +
+      "/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ];
+
+  // Everything is ASCII, so string length equals byte offset
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach((offset) => {
+    pdf += `${String(offset).padStart(10, "0")} 00000 n \n`;
+  });
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+  return new Blob([pdf], { type: "application/pdf" });
+}
+
+/**
+ * Open the share sheet (e.g. to send via WhatsApp) where the browser supports sharing files,
+ * otherwise download the file.
+ */
+export async function shareReceiptFile(blob: Blob, filename: string, title: string): Promise<void> {
+  const file = new File([blob], filename, { type: blob.type });
+  if (typeof navigator !== "undefined" && navigator.canShare?.({ files: [file] })) {
+    await navigator.share({ files: [file], title });
+    return;
+  }
+  downloadBlob(blob, filename);
+}
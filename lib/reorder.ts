@@ -0,0 +1,73 @@
+import type { StockLevel } from "@/lib/api";
+
+// Days of sales used to work out the selling rate
+export const SALES_WINDOWS = [7, 14, 30, 60];
+
+// Days of stock the suggested order should last
+export const COVER_PERIODS = [7, 14, 30];
+
+export interface ReorderSuggestion {
+  productId: string;
+  name: string;
+  sku: string;
+  onHand: number;
+  reorderPoint: number | null;
+  dailySales: number;
+  // Null when nothing sold in the window
+  daysOfStock: number | null;
+  suggestedQuantity: number;
+  unitCost: number;
+}
+
+/**
+ * Products that will be at or below their reorder point by the end of the cover period,
+ * at the rate they sold over the sales window. Products without a reorder point are only
+ * suggested once their sales would empty the shelf. Most urgent first.
+ */
+export function getReorderSuggestions(levels: StockLevel[], windowDays: number, coverDays: number): ReorderSuggestion[] {
+  return levels
+    .map((level) => {
+      const reorderPoint = level.reorder_point ?? 0;
+      const dailySales = windowDays > 0 ? level.units_sold / windowDays : 0;
+      const projected = level.on_hand - dailySales * coverDays;
+      if (projected > reorderPoint || (level.reorder_point == null && dailySales === 0)) return null;
+
+      const shortfall = Math.ceil(dailySales * coverDays) + reorderPoint - level.on_hand;
+      const suggestion: ReorderSuggestion = {
+        productId: level.product.id,
+        name: level.product.name,
+        sku: level.product.sku || "",
+        onHand: level.on_hand,
+        reorderPoint: level.reorder_point,
+        dailySales,
+        daysOfStock: dailySales > 0 ? Math.max(level.on_hand, 0) / dailySales : null,
+        suggestedQuantity: Math.max(shortfall, level.reorder_quantity ?? 1, 1),
+        unitCost: level.product.purchase_price ?? 0,
+      };
+      return suggestion;
+    })
+    .filter((suggestion): suggestion is ReorderSuggestion => suggestion !== null)
+    .sort((a, b) => (a.daysOfStock ?? Infinity) - (b.daysOfStock ?? Infinity) || a.onHand - b.onHand);
+}
+
+// One line of the draft purchase list, after the quantity has been reviewed
+export interface ReorderLine {
+  suggestion: ReorderSuggestion;
+  quantity: number;
+}
+
+export const getReorderTotal = (lines: ReorderLine[]): number =>
+  lines.reduce((sum, line) => sum + line.quantity * line.suggestion.unitCost, 0);
+
+export const toReorderCsvRows = (lines: ReorderLine[]) =>
+  lines.map(({ suggestion, quantity }) => ({
+    SKU: suggestion.sku,
+    Product: suggestion.name,
+    "On Hand": suggestion.onHand,
+    "Reorder Point": suggestion.reorderPoint ?? "",
+    "Sold per Day": suggestion.dailySales.toFixed(1),
+    "Days of Stock": suggestion.daysOfStock == null ? "" : Math.floor(suggestion.daysOfStock),
+    "Order Quantity": quantity,
+    "Unit Cost": suggestion.unitCost,
+    "Line Total": quantity * suggestion.unitCost,
+  }));
@@ -0,0 +1,65 @@
+import type { Translate } from "@/contexts/LanguageContext";
+import type { ApiOrder, ApiOrderItem, OrderStatus, ReturnDisposition } from "@/lib/api";
+
+// One order line in the return form; quantity is kept as a string while being edited
+export interface ReturnLine {
+  orderItemId: number;
+  quantity: string;
+  disposition: ReturnDisposition;
+}
+
+export const getOrderStatus = (order: ApiOrder): OrderStatus => order.status || "completed";
+
+export const getReturnableQuantity = (item: ApiOrderItem): number =>
+  Math.max(item.quantity - (item.returned_quantity || 0), 0);
+
+export const canReturnOrder = (order: ApiOrder): boolean => {
+  const status = getOrderStatus(order);
+  return status !== "voided" && status !== "refunded" && order.orderItems.some((item) => getReturnableQuantity(item) > 0);
+};
+
+export const createReturnLines = (order: ApiOrder): ReturnLine[] =>
+  order.orderItems.map((item) => ({ orderItemId: item.id, quantity: "", disposition: "restock" }));
+
+/**
+ * Estimate the refund for the selected lines: each unit at its net price, with any
+ * order-level discount spread across the lines. The server's figure is authoritative.
+ */
+export function estimateRefund(order: ApiOrder, lines: ReturnLine[]): number {
+  const lineTotal = order.orderItems.reduce((sum, item) => sum + (parseFloat(item.total_price) || 0), 0);
+  const orderTotal = parseFloat(order.total_price) || 0;
+  const orderDiscountFactor = lineTotal > 0 ? Math.min(orderTotal / lineTotal, 1) : 1;
+
+  const refund = lines.reduce((sum, line) => {
+    const item = order.orderItems.find((i) => i.id === line.orderItemId);
+    const quantity = parseInt(line.quantity) || 0;
+    if (!item || quantity <= 0 || item.quantity <= 0) return sum;
+    const unitPrice = (parseFloat(item.total_price) || 0) / item.quantity;
+    return sum + unitPrice * Math.min(quantity, getReturnableQuantity(item));
+  }, 0);
+
+  return Math.round(refund * orderDiscountFactor);
+}
+
+/**
+ * Validate the return form and return an error message, or null when it can be submitted
+ */
+export function validateReturn(order: ApiOrder, lines: ReturnLine[], reason: string, t: Translate): string | null {
+  const selected = lines.filter((line) => (parseInt(line.quantity) || 0) > 0);
+  if (selected.length === 0) {
+    return t("returns.itemRequired") || "Select at least one item to return";
+  }
+  for (const line of selected) {
+    const item = order.orderItems.find((i) => i.id === line.orderItemId);
+    if (!item || parseInt(line.quantity) > getReturnableQuantity(item)) {
+      return (t("returns.overReturned") || "Cannot return more of {{name}} than was sold").replace(
+        "{{name}}",
+        item?.product?.name || t("common.aProduct") || "a product"
+      );
+    }
+  }
+  if (!reason.trim()) {
+    return t("returns.reasonRequired") || "Please give a reason";
+  }
+  return null;
+}
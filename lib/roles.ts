@@ -8,3 +8,72 @@ export const getRoleName = (role: { name: string } | undefined): string | null =
   return role?.name || null;
 };
 
+// Fine-grained permissions that can be assigned to a role
+export const PERMISSIONS = [
+  { key: "products:write", group: "Products", label: "Create, edit and delete products and categories" },
+  { key: "inventory:adjust", group: "Inventory", label: "Add and adjust inventory stock" },
+  { key: "purchasing:manage", group: "Inventory", label: "Manage suppliers and purchase orders" },
+  { key: "inventory:transfer", group: "Inventory", label: "Request, dispatch and receive stock transfers between stores" },
+  { key: "orders:refund", group: "Orders", label: "Refund and void orders" },
+  { key: "cashier:discount", group: "Cashier", label: "Apply discounts at checkout" },
+  { key: "shifts:review", group: "Cashier", label: "Review cashier shifts and Z-reports" },
+  { key: "customers:credit", group: "Customers", label: "Record kasbon repayments" },
+  { key: "reports:view", group: "Reports", label: "View profit and margin reports" },
+  { key: "stores:manage", group: "Administration", label: "Manage stores" },
+  { key: "users:manage", group: "Administration", label: "Manage users" },
+  { key: "roles:manage", group: "Administration", label: "Manage roles and permissions" },
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number]["key"];
+
+// What every role could do before permissions existed; used for roles that have no permission list yet
+const LEGACY_PERMISSIONS: Permission[] = ["products:write", "inventory:adjust"];
+
+type PermissionUser = { role?: { level?: number; permissions?: string[] } } | null | undefined;
+
+/**
+ * Check whether a user's role grants a permission. Super admins implicitly have every permission.
+ */
+export const can = (user: PermissionUser, permission: Permission): boolean => {
+  if (!user?.role) return false;
+  if (isSuperAdmin(user.role)) return true;
+  return (user.role.permissions ?? LEGACY_PERMISSIONS).includes(permission);
+};
+
+/**
+ * Whether `user` may assign a role at `level`, or manage users who hold one. Super admins may use any level,
+ * everyone else only levels below their own. The backend enforces the same rule.
+ */
+export const canManageLevel = (user: PermissionUser, level: number | undefined): boolean => {
+  if (!user?.role) return false;
+  if (isSuperAdmin(user.role)) return true;
+  return (level ?? 0) < (user.role.level ?? 0);
+};
+
+/**
+ * Check that `user` may save a role with this level and these permissions, returning an error message if not.
+ * Below super admin, a role (new, or `existing` when editing) must stay under the user's own level and may only
+ * gain permissions the user holds. The backend enforces the same rule.
+ */
+export function validateRoleGrant(
+  user: PermissionUser,
+  role: { level: number; permissions: Permission[] },
+  existing?: { level: number; permissions: Permission[] }
+): string | null {
+  if (!user?.role) return "You are not allowed to manage roles";
+  if (isSuperAdmin(user.role)) return null;
+
+  if (existing && !canManageLevel(user, existing.level)) {
+    return "Only a super admin can change a role at or above your own level";
+  }
+  if (!canManageLevel(user, role.level)) {
+    return `Only a super admin can set a level of ${user.role.level ?? 0} or higher`;
+  }
+  const ungranted = role.permissions.find(
+    (permission) => !existing?.permissions.includes(permission) && !can(user, permission)
+  );
+  if (ungranted) {
+    return `Only a super admin can grant ${ungranted}, which your role does not have`;
+  }
+  return null;
+}
@@ -0,0 +1,98 @@
+import type { Translate } from "@/contexts/LanguageContext";
+import type { SalesBucket, SalesGrouping } from "@/lib/api";
+
+export const SALES_GROUPINGS: { value: SalesGrouping; label: string; translationKey: string }[] = [
+  { value: "day", label: "Day", translationKey: "sales.group.day" },
+  { value: "week", label: "Week", translationKey: "sales.group.week" },
+  { value: "month", label: "Month", translationKey: "sales.group.month" },
+];
+
+// Inclusive ISO dates (YYYY-MM-DD)
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Local calendar date as YYYY-MM-DD; toISOString would shift it to UTC
+export function toDateInput(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+const parseDateInput = (value: string) => {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const getRangeDays = (range: DateRange): number =>
+  Math.round((parseDateInput(range.to).getTime() - parseDateInput(range.from).getTime()) / DAY_MS) + 1;
+
+// The last `days` days, ending today
+export function getLastDaysRange(days: number): DateRange {
+  const to = new Date();
+  const from = new Date(to);
+  from.setDate(to.getDate() - (days - 1));
+  return { from: toDateInput(from), to: toDateInput(to) };
+}
+
+export function getThisMonthRange(): DateRange {
+  const today = new Date();
+  return { from: toDateInput(new Date(today.getFullYear(), today.getMonth(), 1)), to: toDateInput(today) };
+}
+
+/**
+ * The range of the same length that ends the day before `range` starts
+ */
+export function getPreviousRange(range: DateRange): DateRange {
+  const to = parseDateInput(range.from);
+  to.setDate(to.getDate() - 1);
+  const from = new Date(to);
+  from.setDate(to.getDate() - (getRangeDays(range) - 1));
+  return { from: toDateInput(from), to: toDateInput(to) };
+}
+
+export function validateDateRange(range: DateRange, t: Translate): string | null {
+  if (!range.from || !range.to) return t("sales.datesRequired") || "Choose a start and end date";
+  if (range.from > range.to) return t("sales.dateOrderInvalid") || "The start date must be before the end date";
+  return null;
+}
+
+// A grouping that keeps the chart readable for the range length
+export function getDefaultGrouping(range: DateRange): SalesGrouping {
+  const days = getRangeDays(range);
+  if (days > 180) return "month";
+  if (days > 45) return "week";
+  return "day";
+}
+
+export interface SalesTotals {
+  revenue: number;
+  orders: number;
+  // Revenue per order
+  averageBasket: number;
+}
+
+export function getSalesTotals(buckets: SalesBucket[]): SalesTotals {
+  const revenue = buckets.reduce((sum, bucket) => sum + bucket.revenue, 0);
+  const orders = buckets.reduce((sum, bucket) => sum + bucket.orders, 0);
+  return { revenue, orders, averageBasket: orders > 0 ? revenue / orders : 0 };
+}
+
+export const getAverageBasket = (bucket: SalesBucket): number => (bucket.orders > 0 ? bucket.revenue / bucket.orders : 0);
+
+/**
+ * Percentage change from the previous period; null when there is nothing to compare against
+ */
+export const getPeriodChange = (current: number, previous: number): number | null =>
+  previous === 0 ? null : ((current - previous) / Math.abs(previous)) * 100;
+
+export function formatPeriodLabel(periodStart: string, grouping: SalesGrouping): string {
+  const date = parseDateInput(periodStart);
+  if (grouping === "month") return date.toLocaleDateString("id-ID", { month: "short", year: "numeric" });
+  return date.toLocaleDateString("id-ID", { day: "numeric", month: "short" });
+}
+
+export const formatRupiah = (value: number): string => `Rp ${Math.round(value).toLocaleString("id-ID")}`;
@@ -0,0 +1,105 @@
+import type { Permission } from "@/lib/roles";
+
+// Signed session cookie shared by the /api/session route handler and middleware.
+// Uses Web Crypto only, so it runs in both the Node and Edge runtimes.
+
+export const SESSION_COOKIE = "warung_session";
+export const SESSION_MAX_AGE = 60 * 60 * 24; // 24 hours, in seconds
+
+
+export interface SessionUser {
+  id: string;
+  name: string;
+  role: {
+    level: number;
+    permissions?: Permission[];
+  };
+}
+
+export interface SessionPayload {
+  user: SessionUser;
+  exp: number; // Unix time in seconds
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+// The server is missing configuration it needs to sign sessions
+export class SessionConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionConfigError";
+  }
+}
+
+// Set SESSION_SECRET in .env.local. The fallback is only for local development: in production
+// sessions are neither signed nor verified without a real secret.
+function getSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new SessionConfigError("SESSION_SECRET must be set in production");
+  }
+  return "warung-dev-session-secret";
+}
+
+function getKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(getSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+/**
+ * Serialize and sign a session as `<payload>.<signature>` (both base64url).
+ */
+export async function signSession(user: SessionUser): Promise<string> {
+  const payload: SessionPayload = {
+    user,
+    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE,
+  };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign("HMAC", await getKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a session cookie value. Returns null when it is missing, tampered with or expired.
+ */
+export async function verifySession(value: string | undefined): Promise<SessionPayload | null> {
+  if (!value) return null;
+  const [body, signature] = value.split(".");
+  if (!body || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await getKey(),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as SessionPayload;
+    if (!payload.exp || payload.exp < Math.floor(Date.now() / 1000)) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,101 @@
+import type { Translate } from "@/contexts/LanguageContext";
+import type { CashMovementType, CashierShift, PaymentMethod, ShiftStatus } from "@/lib/api";
+import { formatRupiah } from "@/lib/sales";
+
+export const SHIFT_STATUSES: { value: ShiftStatus; label: string; translationKey: string; style: string }[] = [
+  { value: "open", label: "Open", translationKey: "shifts.status.open", style: "bg-green-100 text-green-800" },
+  { value: "closed", label: "Closed", translationKey: "shifts.status.closed", style: "bg-gray-100 text-gray-800" },
+];
+
+export const getShiftStatus = (status: ShiftStatus) =>
+  SHIFT_STATUSES.find((s) => s.value === status) || SHIFT_STATUSES[0];
+
+export const CASH_MOVEMENT_TYPES: { value: CashMovementType; label: string; translationKey: string }[] = [
+  { value: "cash_in", label: "Cash In", translationKey: "shifts.cashIn" },
+  { value: "cash_out", label: "Cash Out", translationKey: "shifts.cashOut" },
+];
+
+export const getPaymentTotal = (shift: CashierShift, method: PaymentMethod): number =>
+  Number(shift.payment_totals.find((total) => total.method === method)?.amount || 0);
+
+export const getTakings = (shift: CashierShift): number =>
+  shift.payment_totals.reduce((sum, total) => sum + Number(total.amount), 0);
+
+export const getCashMovementTotal = (shift: CashierShift, type: CashMovementType): number =>
+  shift.cash_movements.filter((m) => m.type === type).reduce((sum, m) => sum + Number(m.amount), 0);
+
+/**
+ * Cash that should be in the drawer: the opening float plus cash takings and cash put in,
+ * less cash refunds and cash taken out. Closed shifts keep the figure the server fixed at closing.
+ */
+export function getExpectedCash(shift: CashierShift): number {
+  if (shift.status === "closed" && shift.expected_cash != null) return Number(shift.expected_cash);
+  return (
+    Number(shift.opening_float) +
+    getPaymentTotal(shift, "cash") -
+    Number(shift.cash_refund_total || 0) +
+    getCashMovementTotal(shift, "cash_in") -
+    getCashMovementTotal(shift, "cash_out")
+  );
+}
+
+// Positive when the drawer holds more than expected
+export const getCashVariance = (shift: CashierShift, countedCash: number): number =>
+  countedCash - getExpectedCash(shift);
+
+export const formatCashVariance = (variance: number): string =>
+  `${variance > 0 ? "+" : variance < 0 ? "−" : ""}${formatRupiah(Math.abs(variance))}`;
+
+// Green when the drawer balances, red when it is short and amber when it is over
+export const getVarianceStyle = (variance: number): string =>
+  variance === 0 ? "text-green-700" : variance < 0 ? "text-red-700" : "text-amber-700";
+
+export function validateOpeningFloat(amount: string, t: Translate): string | null {
+  const value = parseFloat(amount);
+  if (amount.trim() === "" || isNaN(value) || value < 0) {
+    return t("shifts.openingFloatRequired") || "Enter an opening float of zero or more";
+  }
+  return null;
+}
+
+export function validateCashMovement(amount: string, reason: string, t: Translate): string | null {
+  const value = parseFloat(amount);
+  if (isNaN(value) || value <= 0) return t("shifts.amountRequired") || "Enter an amount greater than zero";
+  if (!reason.trim()) return t("shifts.reasonRequired") || "Enter a reason, e.g. what the cash was spent on";
+  return null;
+}
+
+export function validateCountedCash(amount: string, t: Translate): string | null {
+  const value = parseFloat(amount);
+  if (amount.trim() === "" || isNaN(value) || value < 0) {
+    return t("shifts.countedCashRequired") || "Enter the cash counted in the drawer";
+  }
+  return null;
+}
+
+// The open shift, kept per user and store so checkouts can still be tied to it while offline
+const SHIFT_KEY_PREFIX = "warung_shift_";
+
+export const getCachedShift = (userId: string, storeId: string): CashierShift | null => {
+  if (typeof window === "undefined") return null;
+  try {
+    const stored = localStorage.getItem(`${SHIFT_KEY_PREFIX}${userId}_${storeId}`);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const setCachedShift = (userId: string, storeId: string, shift: CashierShift | null): void => {
+  if (typeof window === "undefined") return;
+  try {
+    const key = `${SHIFT_KEY_PREFIX}${userId}_${storeId}`;
+    if (shift && shift.status === "open") {
+      localStorage.setItem(key, JSON.stringify(shift));
+    } else {
+      localStorage.removeItem(key);
+    }
+  } catch (error) {
+    console.error("Failed to cache shift:", error);
+  }
+};
@@ -0,0 +1,111 @@
+import type { Translate } from "@/contexts/LanguageContext";
+import type { InventoryItem, StockTransfer, StockTransferLine, TransferStatus } from "@/lib/api";
+
+export const TRANSFER_STATUSES: { value: TransferStatus; label: string; translationKey: string; style: string }[] = [
+  { value: "requested", label: "Requested", translationKey: "transfers.status.requested", style: "bg-gray-100 text-gray-800" },
+  { value: "dispatched", label: "Dispatched", translationKey: "transfers.status.dispatched", style: "bg-blue-100 text-blue-800" },
+  { value: "received", label: "Received", translationKey: "transfers.status.received", style: "bg-green-100 text-green-800" },
+  { value: "cancelled", label: "Cancelled", translationKey: "transfers.status.cancelled", style: "bg-red-100 text-red-800" },
+];
+
+export const getTransferStatus = (status: TransferStatus) =>
+  TRANSFER_STATUSES.find((s) => s.value === status) || TRANSFER_STATUSES[0];
+
+// Units sent but not received; negative if more arrived than was sent
+export const getDiscrepancy = (line: StockTransferLine): number =>
+  line.received_quantity == null ? 0 : line.quantity - line.received_quantity;
+
+export const hasDiscrepancies = (transfer: StockTransfer): boolean =>
+  transfer.items.some((line) => getDiscrepancy(line) !== 0);
+
+// One source batch in the request form; the quantity is kept as a string while being edited
+export interface TransferDraftLine {
+  inventoryId: string;
+  name: string;
+  sku: string;
+  expiryDate: string;
+  location: string;
+  available: number;
+  quantity: string;
+}
+
+export const toTransferDraftLine = (batch: InventoryItem): TransferDraftLine => ({
+  inventoryId: batch.id,
+  name: batch.product?.name || "-",
+  sku: batch.product?.sku || "",
+  expiryDate: batch.expiry_date,
+  location: batch.location,
+  available: batch.quantity,
+  quantity: "1",
+});
+
+export function validateTransferDraft(
+  fromStoreId: string,
+  toStoreId: string,
+  lines: TransferDraftLine[],
+  t: Translate
+): string | null {
+  if (!fromStoreId || !toStoreId) {
+    return t("transfers.storesRequired") || "Select both the source and destination store";
+  }
+  if (fromStoreId === toStoreId) {
+    return t("transfers.sameStore") || "The source and destination store must be different";
+  }
+  if (lines.length === 0) return t("transfers.batchRequired") || "Add at least one batch";
+  for (const line of lines) {
+    const quantity = parseInt(line.quantity);
+    if (!(quantity > 0)) {
+      return (t("transfers.quantityRequired") || "Enter a quantity for {{name}}").replace("{{name}}", line.name);
+    }
+    if (quantity > line.available) {
+      return (t("transfers.overAvailable") || "Only {{available}} units of {{name}} are in that batch")
+        .replace("{{available}}", String(line.available))
+        .replace("{{name}}", line.name);
+    }
+  }
+  return null;
+}
+
+// One line of the receiving form
+export interface TransferReceiveLine {
+  lineId: string;
+  receivedQuantity: string;
+  location: string;
+  note: string;
+}
+
+export const createTransferReceiveLines = (transfer: StockTransfer): TransferReceiveLine[] =>
+  transfer.items.map((line) => ({
+    lineId: line.id,
+    receivedQuantity: String(line.quantity),
+    location: "",
+    note: "",
+  }));
+
+export function validateTransferReceive(
+  transfer: StockTransfer,
+  lines: TransferReceiveLine[],
+  t: Translate
+): string | null {
+  for (const line of lines) {
+    const transferLine = transfer.items.find((item) => item.id === line.lineId);
+    const name = transferLine?.product.name || t("common.aProduct") || "a product";
+    const received = parseInt(line.receivedQuantity);
+    if (!transferLine || isNaN(received) || received < 0) {
+      return (t("transfers.receivedRequired") || "Enter the quantity received for {{name}}").replace("{{name}}", name);
+    }
+    if (received > 0 && !line.location.trim()) {
+      return (t("transfers.locationRequired") || "Enter the storage location for {{name}}").replace("{{name}}", name);
+    }
+    if (received !== transferLine.quantity && !line.note.trim()) {
+      const message =
+        t("transfers.differenceNoteRequired") ||
+        "Explain the difference for {{name}}: {{sent}} sent, {{received}} received";
+      return message
+        .replace("{{name}}", name)
+        .replace("{{sent}}", String(transferLine.quantity))
+        .replace("{{received}}", String(received));
+    }
+  }
+  return null;
+}
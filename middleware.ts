@@ -1,13 +1,37 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import { can, type Permission } from "@/lib/roles";
+import { SESSION_COOKIE, verifySession } from "@/lib/session";
 
-export function middleware(request: NextRequest) {
-  // Check if accessing dashboard routes
-  if (request.nextUrl.pathname.startsWith("/dashboard")) {
-    // In a real app, verify the token here
-    // For mock auth, authentication is handled on the client side
-    // This middleware just ensures the route exists
-    return NextResponse.next();
+// Dashboard sections that require a permission (super admins always pass)
+const protectedSections: { prefix: string; permission: Permission }[] = [
+  { prefix: "/dashboard/stores", permission: "stores:manage" },
+  { prefix: "/dashboard/users", permission: "users:manage" },
+  { prefix: "/dashboard/roles", permission: "roles:manage" },
+  { prefix: "/dashboard/inventory/suppliers", permission: "purchasing:manage" },
+  { prefix: "/dashboard/inventory/purchase-orders", permission: "purchasing:manage" },
+  { prefix: "/dashboard/inventory/reorder", permission: "purchasing:manage" },
+  { prefix: "/dashboard/inventory/stock-counts", permission: "inventory:adjust" },
+  { prefix: "/dashboard/inventory/transfers", permission: "inventory:transfer" },
+  { prefix: "/dashboard/orders/profit", permission: "reports:view" },
+  { prefix: "/dashboard/cashier/shifts", permission: "shifts:review" },
+];
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE)?.value);
+
+  if (!session) {
+    const loginUrl = new URL("/login", request.url);
+    loginUrl.searchParams.set("next", pathname + search);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  const section = protectedSections.find(
+    (s) => pathname === s.prefix || pathname.startsWith(s.prefix + "/")
+  );
+  if (section && !can(session.user, section.permission)) {
+    return NextResponse.redirect(new URL("/dashboard", request.url));
   }
 
   return NextResponse.next();